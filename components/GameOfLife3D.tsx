@@ -1,304 +1,1963 @@
 'use client';
 
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { Canvas, useFrame, useThree, type RootState } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
-import { GameOfLife3D as GameEngine, type GameOfLife3DConfig, type Grid3D } from '../lib/gameOfLife3D';
+import { resolveBoundaries, resolveRule, type GameOfLife3DConfig } from '../lib/gameOfLife3D';
+import { FlatGrid3D, formatDimensions, normalizeDimensions, type GridDimensions, type Vector3Tuple } from '../lib/flatGrid';
+import { deserializePattern, serializePattern, type Pattern } from '../lib/patternFormat';
+import { describeCycle, type CycleStatus } from '../lib/cycleDetector';
+import type { HistoryRange } from '../lib/generationHistory';
+import { appendStats, statsToCsv, type GenerationStats } from '../lib/generationStats';
+import { parseSeed, randomSeed } from '../lib/random';
+import { decodeUrlState, encodeUrlState, type SharedState } from '../lib/urlState';
+import { SimulationClient, type GenerationSnapshot } from '../lib/simulationClient';
+import { ENGINE_NAMES, type CellUpdate, type EngineKind, type ObjectReport } from '../lib/simulationProtocol';
+import type { ObjectEvent } from '../lib/objectTracker';
+import { extractSlice, sliceAxes, sliceCell, type SlicePlane } from '../lib/slicePlane';
+import {
+  DEFAULT_SEED_GENERATORS,
+  MAX_BLOB_SCALE,
+  SEED_GENERATOR_NAMES,
+  UNIFORM_GENERATOR,
+  describeSeedGenerator,
+  fitSeedGenerator,
+  quarterTurnFits,
+  type SeedGenerator,
+  type SeedGeneratorType
+} from '../lib/seedGenerators';
+import { PATTERN_KIND_NAMES, PATTERN_LIBRARY, createPatternGrid, patternExtent, patternKind, placePattern, type LibraryPattern } from '../lib/patternLibrary';
+import { pickCell, type CellHit } from '../lib/voxelRaycast';
+import {
+  COMMAND_IDS,
+  COMMAND_NAMES,
+  DEFAULT_KEY_BINDINGS,
+  REPEATING_COMMANDS,
+  commandForCombo,
+  describeCombo,
+  keyCombo,
+  loadKeyBindings,
+  rebindKey,
+  saveKeyBindings,
+  type CommandId,
+  type KeyBindings
+} from '../lib/keyBindings';
+import { MAX_CUBE_LENGTH, MAX_TYPED_LENGTH, MIN_CUBE_LENGTH, parseTypedCommand, searchPalette, type PaletteEntry, type TypedCommand } from '../lib/commandPalette';
+import { CellInstances, type InstanceSink, type SlotRange, type TargetScale } from '../lib/cellInstances';
+import { buildSurfaceMesh } from '../lib/surfaceMesh';
+import {
+  COLOR_MODE_NAMES,
+  DEFAULT_PALETTES,
+  PALETTES,
+  cellColor,
+  colorCells,
+  entryColor,
+  palettesFor,
+  samplePalette,
+  stateColors,
+  type CellColors,
+  type ColorLegend,
+  type ColorMode,
+  type PaletteId,
+  type RGB
+} from '../lib/colorMaps';
+import {
+  DEFAULT_RULE,
+  RULE_PRESETS,
+  createRule,
+  formatRuleNotation,
+  parseRuleNotation,
+  rangesContain,
+  ruleStates,
+  type CountRange,
+  type LifeRule
+} from '../lib/rules';
+import {
+  MAX_NEIGHBORHOOD_RADIUS,
+  MOORE_NEIGHBORHOOD,
+  NEIGHBORHOOD_NAMES,
+  createCustomNeighborhood,
+  describeNeighborhood,
+  formatOffsets,
+  neighborhoodOffsets,
+  neighborhoodSize,
+  parseOffsets,
+  type Neighborhood,
+  type NeighborhoodType
+} from '../lib/neighborhood';
+import { BOUNDARY_MODES, BOUNDARY_MODE_NAMES, type AxisBoundaries, type BoundaryMode } from '../lib/boundaries';
+import {
+  DEFAULT_RECORDING_OPTIONS,
+  MAX_GIF_FPS,
+  MAX_VIDEO_FPS,
+  RECORDING_FORMAT_NAMES,
+  RECORDING_MODE_NAMES,
+  RecordingSession,
+  createFrameRecorder,
+  validateRecordingOptions,
+  videoEncodingSupported,
+  type RecordingFormat,
+  type RecordingMode,
+  type RecordingOptions
+} from '../lib/recording';
 
-interface VisualCell {
-  scale: number;
-  age: number;
+/** How the 3D view shows cells off the slice being viewed */
+type SliceFocus = 'fade' | 'only';
+
+interface SliceView {
+  plane: SlicePlane;
+  focus: SliceFocus;
 }
 
-const MAX_AGE = 15;
+/** What to do once a running simulation settles into a cycle */
+type StagnationAction = 'continue' | 'pause' | 'reseed';
+
+const STAGNATION_ACTION_NAMES: Record<StagnationAction, string> = {
+  continue: 'Keep running',
+  pause: 'Pause',
+  reseed: 'Reseed'
+};
+
+/** How cells are drawn: one cube per cell, or one merged mesh of the outer faces */
+type RenderMode = 'cubes' | 'surface';
+
+const RENDER_MODE_NAMES: Record<RenderMode, string> = {
+  cubes: 'Cubes',
+  surface: 'Surface'
+};
+
 const FADE_SPEED = 0.15;
+/** Fewest instance slots the cell mesh is made with; it doubles as needed */
+const MIN_INSTANCES = 1024;
+const AXIS_NAMES = ['X', 'Y', 'Z'];
+/** Size and brightness of faded cells off the viewed slice */
+const FADED_SCALE = 0.5;
+const FADED_LIGHTNESS = 0.3;
+/** Largest side of the 2D slice editor, in pixels */
+const SLICE_EDITOR_SIZE = 320;
+/** Step interval range of the speed slider, in ms, and how far one speed shortcut moves it */
+const MIN_SPEED = 50;
+const MAX_SPEED = 1000;
+const SPEED_STEP = 50;
+/** Inputs that do not take typing, so shortcuts still work while they have focus */
+const NON_TEXT_INPUTS = ['range', 'checkbox', 'radio', 'button', 'color', 'file'];
+/** Generations shown in the stats charts */
+const CHART_GENERATIONS = 200;
+/** Largest objects listed in the objects panel */
+const OBJECTS_LISTED = 10;
+/** Splits and merges kept for the objects panel */
+const RECENT_OBJECT_EVENTS = 20;
+
+const OBJECT_EVENT_NAMES: Record<ObjectEvent['kind'], string> = {
+  split: 'Split',
+  merge: 'Merge',
+  regroup: 'Regroup'
+};
+/** Outline of the cell under the pointer in edit mode */
+const HOVER_BOX = new THREE.BoxGeometry(1.05, 1.05, 1.05);
+
+// In edit mode the left button and single touches paint cells, so the view
+// turns with the right button or two fingers instead
+const VIEW_MOUSE_BUTTONS = { LEFT: THREE.MOUSE.ROTATE, MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.PAN };
+const EDIT_MOUSE_BUTTONS = { MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.ROTATE };
+const VIEW_TOUCHES = { ONE: THREE.TOUCH.ROTATE, TWO: THREE.TOUCH.DOLLY_PAN };
+const EDIT_TOUCHES = { TWO: THREE.TOUCH.DOLLY_ROTATE };
+/** Grids with more cells than a 40³ cube may render slowly */
+const LARGE_GRID_CELLS = 40 ** 3;
+
+/**
+ * Min/max sliders for one side of a rule. Non-contiguous sets are shown by
+ * their overall extent; moving a slider replaces the set with that range.
+ */
+function CountRangeControl({
+  label,
+  ranges,
+  maxCount,
+  minColor,
+  maxColor,
+  onChange
+}: {
+  label: string;
+  ranges: CountRange[];
+  /** Largest possible neighbor count, i.e. the neighborhood size */
+  maxCount: number;
+  minColor: string;
+  maxColor: string;
+  onChange: (ranges: CountRange[]) => void;
+}) {
+  const min = ranges.length ? Math.min(ranges[0][0], maxCount) : 0;
+  const max = ranges.length ? Math.min(ranges[ranges.length - 1][1], maxCount) : 0;
+
+  const sliderStyle: React.CSSProperties = {
+    width: '100%',
+    height: '12px',
+    background: 'rgba(107, 114, 128, 0.5)',
+    borderRadius: '8px',
+    appearance: 'none',
+    cursor: 'pointer',
+    pointerEvents: 'auto'
+  };
+
+  return (
+    <div>
+      <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', marginBottom: '12px', display: 'block' }}>{label}</label>
+
+      {/* Minimum */}
+      <div style={{ marginBottom: '16px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Minimum</span>
+          <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: minColor }}>
+            {min}
+          </span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max={maxCount}
+          value={min}
+          onChange={(e) => {
+            const val = parseInt(e.target.value);
+            onChange([[val, Math.max(val, max)]]);
+          }}
+          style={sliderStyle}
+        />
+      </div>
+
+      {/* Maximum */}
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Maximum</span>
+          <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: maxColor }}>
+            {max}
+          </span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max={maxCount}
+          value={max}
+          onChange={(e) => {
+            const val = parseInt(e.target.value);
+            onChange([[Math.min(val, min), val]]);
+          }}
+          style={sliderStyle}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Picks how the random start is shaped and sets the chosen generator's own
+ * parameters (see ../lib/seedGenerators)
+ */
+function SeedGeneratorControl({
+  generator,
+  dimensions,
+  onChange
+}: {
+  generator: SeedGenerator;
+  dimensions: GridDimensions;
+  onChange: (generator: SeedGenerator) => void;
+}) {
+  const sliderStyle: React.CSSProperties = {
+    width: '100%',
+    height: '12px',
+    background: 'rgba(107, 114, 128, 0.5)',
+    borderRadius: '8px',
+    appearance: 'none',
+    cursor: 'pointer',
+    pointerEvents: 'auto'
+  };
+  const selectStyle: React.CSSProperties = {
+    fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer'
+  };
+
+  const slider = (label: string, value: number, display: string, min: number, max: number, step: number, change: (value: number) => void) => (
+    <div style={{ marginTop: '12px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ fontSize: '12px', color: '#9CA3AF' }}>{label}</span>
+        <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#34D399' }}>
+          {display}
+        </span>
+      </div>
+      <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => change(parseFloat(e.target.value))} style={sliderStyle} />
+    </div>
+  );
+
+  const axisPicker = (axis: number, change: (axis: number) => void) => (
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px' }}>
+      <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Axis</span>
+      <select value={axis} onChange={(e) => change(parseInt(e.target.value))} style={selectStyle}>
+        {AXIS_NAMES.map((name, index) => <option key={name} value={index}>{name}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div>
+      <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>Seed Shape</span>
+        <select
+          value={generator.type}
+          onChange={(e) => onChange(DEFAULT_SEED_GENERATORS[e.target.value as SeedGeneratorType])}
+          style={selectStyle}
+        >
+          {(Object.keys(SEED_GENERATOR_NAMES) as SeedGeneratorType[]).map(type => (
+            <option key={type} value={type}>{SEED_GENERATOR_NAMES[type]}</option>
+          ))}
+        </select>
+      </label>
+
+      {generator.type === 'box' &&
+        slider('Size', generator.size, `${Math.round(generator.size * 100)}%`, 0.1, 1, 0.05, size => onChange({ ...generator, size }))}
+
+      {generator.type === 'sphere' &&
+        slider('Radius', generator.radius, `${Math.round(generator.radius * 100)}%`, 0.1, 1, 0.05, radius => onChange({ ...generator, radius }))}
+
+      {generator.type === 'mirror' && (
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px' }}>
+          <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Mirror across</span>
+          <span style={{ display: 'flex', gap: '12px' }}>
+            {AXIS_NAMES.map((name, axis) => (
+              <label key={name} style={{ fontSize: '12px', color: '#D1D5DB', display: 'flex', alignItems: 'center', gap: '4px', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={generator.axes[axis]}
+                  onChange={(e) => {
+                    const axes: [boolean, boolean, boolean] = [generator.axes[0], generator.axes[1], generator.axes[2]];
+                    axes[axis] = e.target.checked;
+                    onChange({ ...generator, axes });
+                  }}
+                />
+                {name}
+              </label>
+            ))}
+          </span>
+        </div>
+      )}
+
+      {generator.type === 'rotational' && (
+        <>
+          {axisPicker(generator.axis, axis => onChange({ ...generator, axis }))}
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px' }}>
+            <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Turn</span>
+            <select
+              value={quarterTurnFits(dimensions, generator.axis) ? generator.order : 2}
+              onChange={(e) => onChange({ ...generator, order: parseInt(e.target.value) === 4 ? 4 : 2 })}
+              style={selectStyle}
+            >
+              <option value={2}>Half (2-fold)</option>
+              <option value={4} disabled={!quarterTurnFits(dimensions, generator.axis)}>Quarter (4-fold)</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      {generator.type === 'gradient' && (
+        <>
+          {axisPicker(generator.axis, axis => onChange({ ...generator, axis }))}
+          {slider('Contrast', generator.contrast, `${Math.round(generator.contrast * 100)}%`, 0, 1, 0.05, contrast => onChange({ ...generator, contrast }))}
+        </>
+      )}
+
+      {generator.type === 'blobs' && (
+        <>
+          {slider('Blob Size', generator.scale, `${generator.scale} cells`, 2, Math.min(24, MAX_BLOB_SCALE), 1, scale => onChange({ ...generator, scale }))}
+          {slider('Coverage', generator.coverage, `${Math.round(generator.coverage * 100)}%`, 0.05, 1, 0.05, coverage => onChange({ ...generator, coverage }))}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Recording settings (see ../lib/recording); fixed while a recording runs
+ */
+function RecordingControl({
+  options,
+  webmSupported,
+  disabled,
+  onChange
+}: {
+  options: RecordingOptions;
+  /** Whether the browser can encode video */
+  webmSupported: boolean;
+  disabled: boolean;
+  onChange: (options: RecordingOptions) => void;
+}) {
+  const sliderStyle: React.CSSProperties = {
+    width: '100%',
+    height: '12px',
+    background: 'rgba(107, 114, 128, 0.5)',
+    borderRadius: '8px',
+    appearance: 'none',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    pointerEvents: 'auto'
+  };
+  const selectStyle: React.CSSProperties = {
+    fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: disabled ? 'not-allowed' : 'pointer'
+  };
+  const maxFps = options.format === 'gif' ? MAX_GIF_FPS : MAX_VIDEO_FPS;
+
+  const slider = (label: string, value: number, display: string, min: number, max: number, step: number, change: (value: number) => void) => (
+    <div style={{ marginTop: '12px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ fontSize: '12px', color: '#9CA3AF' }}>{label}</span>
+        <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#F87171' }}>
+          {display}
+        </span>
+      </div>
+      <input type="range" min={min} max={max} step={step} value={value} disabled={disabled} onChange={(e) => change(parseFloat(e.target.value))} style={sliderStyle} />
+    </div>
+  );
+
+  return (
+    <div style={{ opacity: disabled ? 0.6 : 1 }}>
+      <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>Recording</span>
+        <select
+          value={options.format}
+          disabled={disabled}
+          onChange={(e) => {
+            const format = e.target.value as RecordingFormat;
+            onChange({ ...options, format, fps: Math.min(options.fps, format === 'gif' ? MAX_GIF_FPS : MAX_VIDEO_FPS) });
+          }}
+          style={selectStyle}
+        >
+          {(Object.keys(RECORDING_FORMAT_NAMES) as RecordingFormat[]).map(format => (
+            <option key={format} value={format} disabled={format === 'webm' && !webmSupported}>{RECORDING_FORMAT_NAMES[format]}</option>
+          ))}
+        </select>
+      </label>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '12px' }}>
+        <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Mode</span>
+        <select
+          value={options.mode}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...options, mode: e.target.value as RecordingMode })}
+          style={selectStyle}
+        >
+          {(Object.keys(RECORDING_MODE_NAMES) as RecordingMode[]).map(mode => (
+            <option key={mode} value={mode}>{RECORDING_MODE_NAMES[mode]}</option>
+          ))}
+        </select>
+      </div>
+      <div style={{ fontSize: '12px', color: '#6B7280', marginTop: '6px' }}>
+        {options.mode === 'offline'
+          ? 'Steps one generation per frame, with cells settled, whatever the speed'
+          : 'Captures each new generation as the run plays'}
+      </div>
+
+      {slider('Frames', options.frames, `${options.frames}`, 10, 600, 10, frames => onChange({ ...options, frames }))}
+      {slider('Frame Rate', options.fps, `${options.fps} fps`, 1, maxFps, 1, fps => onChange({ ...options, fps }))}
+      {slider('Camera Orbit', options.orbitTurns, options.orbitTurns === 0 ? 'off' : `${options.orbitTurns} turn${options.orbitTurns === 1 ? '' : 's'}`,
+        0, 3, 0.25, orbitTurns => onChange({ ...options, orbitTurns }))}
+      {slider('Size', options.maxSize, `${options.maxSize}px`, 240, 1920, 40, maxSize => onChange({ ...options, maxSize }))}
+    </div>
+  );
+}
+
+/**
+ * Display size of a cell: live cells are full size and the dying states of
+ * a Generations rule shrink as they decay
+ */
+function stateScale(state: number, states: number): number {
+  if (state <= 1) return state;
+  return 1 - 0.5 * (state - 1) / (states - 1);
+}
+
+/**
+ * A small line chart; all lines share one vertical scale starting at 0
+ */
+function Sparkline({ lines, width = 220, height = 40 }: { lines: { values: number[]; color: string }[]; width?: number; height?: number }) {
+  let max = 1;
+  for (const line of lines) {
+    for (const value of line.values) {
+      if (value > max) max = value;
+    }
+  }
+
+  return (
+    <svg width={width} height={height} style={{ display: 'block', background: 'rgba(255, 255, 255, 0.04)', borderRadius: '4px' }}>
+      {lines.map(({ values, color }, i) => (
+        <polyline
+          key={i}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+          points={values.map((value, j) => {
+            const x = values.length > 1 ? (j / (values.length - 1)) * width : 0;
+            const y = height - 1 - (value / max) * (height - 2);
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+          }).join(' ')}
+        />
+      ))}
+    </svg>
+  );
+}
+
+function cssColor([red, green, blue]: RGB): string {
+  return `rgb(${Math.round(red * 255)}, ${Math.round(green * 255)}, ${Math.round(blue * 255)})`;
+}
+
+/**
+ * What the cell colors mean: a gradient between its two ends, or swatches
+ */
+function ColorKey({ legend }: { legend: ColorLegend }) {
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '4px' }}>
+      <span style={{ color: '#9CA3AF' }}>{legend.title}</span>
+      {legend.type === 'gradient' ? (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+          <span>{legend.min}</span>
+          <div style={{
+            width: '96px',
+            height: '10px',
+            borderRadius: '4px',
+            background: `linear-gradient(to right, ${legend.colors.map(cssColor).join(', ')})`
+          }} />
+          <span>{legend.max}</span>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '4px', fontSize: '12px' }}>
+          {legend.entries.map((entry, i) => (
+            <span key={i} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: cssColor(entry.color) }} />
+              {entry.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * An error shown above the controls until it is clicked away
+ */
+function ErrorBanner({ message, onDismiss }: { message: string; onDismiss: () => void }) {
+  return (
+    <div
+      onClick={onDismiss}
+      title="Dismiss"
+      style={{
+        marginBottom: '8px',
+        background: 'rgba(127, 29, 29, 0.8)',
+        backdropFilter: 'blur(12px)',
+        border: '1px solid rgba(239, 68, 68, 0.5)',
+        borderRadius: '8px',
+        padding: '8px 12px',
+        fontSize: '12px',
+        color: '#FCA5A5',
+        cursor: 'pointer'
+      }}
+    >
+      {message}
+    </div>
+  );
+}
+
+/** Something the command palette can run */
+interface PaletteAction extends PaletteEntry {
+  /** Key that runs it outside the palette */
+  combo?: string | null;
+  run: () => void;
+}
+
+/**
+ * A searchable list of actions. Typing "rule …" or "size …" offers to set
+ * the rule or grid size instead (see lib/commandPalette).
+ */
+function CommandPalette({ actions, onTyped, onClose }: {
+  actions: PaletteAction[];
+  onTyped: (command: TypedCommand) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+
+  let typed: TypedCommand | null = null;
+  let typedError: string | null = null;
+  try {
+    typed = parseTypedCommand(query);
+  } catch (error) {
+    typedError = (error as Error).message;
+  }
+  const matches: PaletteAction[] = typed
+    ? [{
+        title: typed.type === 'rule' ? `Set rule to ${typed.notation}` : `Set size to ${formatDimensions(typed.dimensions)}`,
+        run: () => onTyped(typed!)
+      }]
+    : searchPalette(actions, query);
+  const current = Math.min(selected, Math.max(0, matches.length - 1));
+
+  const choose = (action: PaletteAction | undefined) => {
+    if (!action) return;
+    onClose();
+    action.run();
+  };
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'absolute', inset: 0, zIndex: 2000, display: 'flex', justifyContent: 'center', alignItems: 'flex-start', paddingTop: '15vh', pointerEvents: 'auto' }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: '480px',
+          maxWidth: '90vw',
+          background: 'rgba(0, 0, 0, 0.9)',
+          backdropFilter: 'blur(20px)',
+          borderRadius: '12px',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
+          color: 'white',
+          fontFamily: 'monospace',
+          fontSize: '14px',
+          overflow: 'hidden'
+        }}
+      >
+        <input
+          autoFocus
+          value={query}
+          placeholder="Search commands, or type rule B6/S5-7 or size 30"
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              onClose();
+            } else if (e.key === 'Enter') {
+              choose(matches[current]);
+            } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+              e.preventDefault();
+              const step = e.key === 'ArrowDown' ? 1 : -1;
+              setSelected((current + step + matches.length) % Math.max(1, matches.length));
+            }
+          }}
+          style={{ width: '100%', boxSizing: 'border-box', padding: '14px 16px', background: 'transparent', color: 'white', border: 'none', borderBottom: '1px solid rgba(255, 255, 255, 0.1)', outline: 'none', fontFamily: 'monospace', fontSize: '14px' }}
+        />
+        <div style={{ maxHeight: '320px', overflowY: 'auto', padding: '6px' }}>
+          {typedError && <div style={{ padding: '8px 10px', color: '#F87171', fontSize: '12px' }}>{typedError}</div>}
+          {!typedError && matches.length === 0 && <div style={{ padding: '8px 10px', color: '#9CA3AF' }}>No matching commands</div>}
+          {matches.map((action, i) => (
+            <div
+              key={action.title}
+              onMouseEnter={() => setSelected(i)}
+              onClick={() => choose(action)}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '12px',
+                padding: '8px 10px',
+                borderRadius: '8px',
+                cursor: 'pointer',
+                background: i === current ? 'rgba(59, 130, 246, 0.3)' : 'transparent'
+              }}
+            >
+              <span>{action.title}</span>
+              {action.combo && <span style={{ color: '#9CA3AF' }}>{describeCombo(action.combo)}</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lists the keyboard shortcuts; clicking a key waits for the new key to
+ * bind to that command
+ */
+function ShortcutHelp({ bindings, rebinding, onRebind, onReset, onClose }: {
+  bindings: KeyBindings;
+  /** The command waiting for its new key */
+  rebinding: CommandId | null;
+  onRebind: (command: CommandId | null) => void;
+  onReset: () => void;
+  onClose: () => void;
+}) {
+  const buttonStyle: React.CSSProperties = { fontFamily: 'monospace', fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' };
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      zIndex: 1500,
+      width: '360px',
+      maxWidth: '90vw',
+      maxHeight: '80vh',
+      overflow: 'auto',
+      background: 'rgba(0, 0, 0, 0.9)',
+      backdropFilter: 'blur(20px)',
+      borderRadius: '12px',
+      padding: '20px',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      color: 'white',
+      fontFamily: 'monospace',
+      fontSize: '13px',
+      pointerEvents: 'auto'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+        <span style={{ fontSize: '16px' }}>Keyboard Shortcuts</span>
+        <button onClick={onClose} title="Close (Esc)" style={{ ...buttonStyle, background: 'none', fontSize: '16px' }}>✕</button>
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr auto', columnGap: '12px', rowGap: '6px', alignItems: 'center' }}>
+        {COMMAND_IDS.map(command => (
+          <React.Fragment key={command}>
+            <span style={{ color: '#D1D5DB' }}>{COMMAND_NAMES[command]}</span>
+            <button
+              onClick={() => onRebind(rebinding === command ? null : command)}
+              title="Click, then press the new key (Backspace leaves it unbound, Esc cancels)"
+              style={{ ...buttonStyle, minWidth: '72px', color: rebinding === command ? '#FBBF24' : '#D1D5DB' }}
+            >
+              {rebinding === command ? 'Press a key…' : describeCombo(bindings[command])}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '16px', color: '#9CA3AF', fontSize: '12px' }}>
+        <span>Esc closes overlays</span>
+        <button onClick={onReset} style={buttonStyle}>Reset to defaults</button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The browser's local storage, or null where it is blocked
+ */
+function localStore(): Storage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the shared run from the page's URL hash, if it holds one, with the
+ * reason a hash that does not could not be read
+ */
+function readUrlState(): { state: SharedState | null; error: string | null } {
+  if (!window.location.hash) return { state: null, error: null };
+  try {
+    return { state: decodeUrlState(window.location.hash), error: null };
+  } catch (error) {
+    return { state: null, error: (error as Error).message };
+  }
+}
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function isCube([width, height, depth]: GridDimensions): boolean {
+  return width === height && height === depth;
+}
+
+/**
+ * Instance slots for at least `count` cells: a power of two from
+ * MIN_INSTANCES, but never more than the grid has cells
+ */
+function instanceCapacity(count: number, cellCount: number): number {
+  let capacity = MIN_INSTANCES;
+  while (capacity < count) capacity *= 2;
+  return Math.max(1, Math.min(capacity, cellCount));
+}
+
+/**
+ * Marks the written slots of an instance attribute for upload
+ */
+function upload(attribute: THREE.InstancedBufferAttribute, range: SlotRange | null, itemSize: number, capacity: number): void {
+  const end = range ? Math.min(range.end, capacity) : 0;
+  if (!range || range.start >= end) return;
+  attribute.addUpdateRange(range.start * itemSize, (end - range.start) * itemSize);
+  attribute.needsUpdate = true;
+}
 
 function SimulationGroup({ 
-  gridSize, 
+  dimensions, 
+  states,
   logicGrid, 
-  visualGrid, 
+  visuals, 
   isUserInteracting, 
-  setIsUserInteracting
+  setIsUserInteracting,
+  editing,
+  settled,
+  renderMode,
+  colors,
+  sliceView,
+  stamp,
+  onPaint,
+  onStamp
 }: {
-  gridSize: number;
-  logicGrid: number[][][];
-  visualGrid: VisualCell[][][];
+  dimensions: GridDimensions;
+  states: number;
+  logicGrid: FlatGrid3D | null;
+  visuals: CellInstances | null;
   isUserInteracting: boolean;
   setIsUserInteracting: (value: boolean) => void;
+  /** The layer new cells are placed on, or null outside edit mode */
+  editing: SlicePlane | null;
+  /** Show each generation as it is, without fades or auto-rotation (for offline recording) */
+  settled: boolean;
+  renderMode: RenderMode;
+  colors: CellColors;
+  /** The slice to bring out, or null to show every cell alike */
+  sliceView: SliceView | null;
+  /** A library pattern to place at the next clicked cell instead of painting */
+  stamp: LibraryPattern | null;
+  onPaint: (cells: CellUpdate[]) => void;
+  onStamp: (cell: Vector3Tuple) => void;
 }) {
+  const { gl, camera } = useThree();
   const groupRef = useRef<THREE.Group>(null);
   const instancedMeshRef = useRef<THREE.InstancedMesh>(null);
-  const tempObject = useRef(new THREE.Object3D());
   const tempColor = useRef(new THREE.Color());
+  /** What the mesh's instances were last brought up to date with */
+  const synced = useRef<{
+    mesh: THREE.InstancedMesh;
+    grid: FlatGrid3D;
+    visuals: CellInstances;
+    sliceView: SliceView | null;
+    states: number;
+    colors: CellColors;
+  } | null>(null);
+  const [width, height, depth] = dimensions;
+  const maxInstances = width * height * depth;
+  const [capacity, setCapacity] = useState(() => instanceCapacity(0, maxInstances));
+  const logicGridRef = useRef(logicGrid);
+  logicGridRef.current = logicGrid;
+  const [hover, setHover] = useState<CellHit | null>(null);
 
-  // Auto-rotation when not interacting
+  // Auto-rotation when not interacting; the grid holds still for editing
+  // and offline recording
   useFrame(() => {
-    if (!isUserInteracting && groupRef.current) {
+    if (!isUserInteracting && !editing && !settled && groupRef.current) {
       groupRef.current.rotation.y += 0.002;
       groupRef.current.rotation.x += 0.001;
     }
-    updateVisuals();
+    if (renderMode === 'cubes') updateVisuals();
   });
 
+  // Only live and fading cells have instances (see ../lib/cellInstances).
+  // The whole grid is looked at only when the cells or the slice view
+  // change; other frames visit just the drawn cells and upload only the
+  // slots they changed.
   const updateVisuals = useCallback(() => {
-    const cellInstances = instancedMeshRef.current;
-    if (!cellInstances || !logicGrid.length || !visualGrid.length) return;
+    const mesh = instancedMeshRef.current;
+    if (!mesh || !logicGrid || !visuals || visuals.cellCount !== logicGrid.cellCount) return;
 
-    let instanceIndex = 0;
-    let needsColorUpdate = false;
-    let needsMatrixUpdate = false;
-    const centerOffset = -(gridSize - 1) / 2;
-
-    for (let x = 0; x < gridSize; x++) {
-      for (let y = 0; y < gridSize; y++) {
-        for (let z = 0; z < gridSize; z++) {
-          const visualCell = visualGrid[x]?.[y]?.[z];
-          if (!visualCell) continue;
+    const { height, depth, data } = logicGrid;
+    const [offsetX, offsetY, offsetZ] = dimensions.map(length => -(length - 1) / 2);
+    const coordinates = (cell: number): Vector3Tuple => {
+      const z = cell % depth;
+      const rest = (cell - z) / depth;
+      const y = rest % height;
+      return [(rest - y) / height, y, z];
+    };
+    const onSlice = (cell: number) => !sliceView || coordinates(cell)[sliceView.plane.axis] === sliceView.plane.index;
+    const target: TargetScale = (cell, state) => {
+      const sliceScale = onSlice(cell) ? 1 : sliceView!.focus === 'only' ? 0 : FADED_SCALE;
+      return stateScale(state, states) * sliceScale;
+    };
 
-          const targetScale = logicGrid[x][y][z];
-          
-          // Smooth scale transition like standalone version
-          if (Math.abs(targetScale - visualCell.scale) > 0.001) {
-            visualCell.scale += (targetScale - visualCell.scale) * FADE_SPEED;
-            needsMatrixUpdate = true;
-          } else if (visualCell.scale !== targetScale) {
-            visualCell.scale = targetScale;
-            needsMatrixUpdate = true;
-          }
-          
-          // Position and scale
-          tempObject.current.position.set(
-            x + centerOffset, 
-            y + centerOffset, 
-            z + centerOffset
-          );
-          tempObject.current.scale.set(visualCell.scale, visualCell.scale, visualCell.scale);
-          tempObject.current.updateMatrix();
-          cellInstances.setMatrixAt(instanceIndex, tempObject.current.matrix);
-
-          // Age-based coloring like standalone version
-          if (visualCell.scale > 0.01) {
-            const ageRatio = Math.min(1, visualCell.age / MAX_AGE);
-            const hue = 0.5 + ageRatio * 0.25; // Cyan to purple
-            const lightness = 0.7 - ageRatio * 0.4; // Bright to dim
-            tempColor.current.setHSL(hue, 1.0, lightness);
-            cellInstances.setColorAt(instanceIndex, tempColor.current);
-            needsColorUpdate = true;
-          }
-          instanceIndex++;
-        }
+    // Slots past the mesh's capacity are written once it has grown
+    const sink: InstanceSink = {
+      writeMatrix(slot, cell, scale) {
+        if (slot >= capacity) return;
+        const [x, y, z] = coordinates(cell);
+        // A uniform scale and a translation, in column-major order
+        mesh.instanceMatrix.array.set([
+          scale, 0, 0, 0,
+          0, scale, 0, 0,
+          0, 0, scale, 0,
+          x + offsetX, y + offsetY, z + offsetZ, 1
+        ], slot * 16);
+      },
+      // Colored by the chosen mode, dimmed off the viewed slice
+      writeColor(slot, cell, state) {
+        if (slot >= capacity) return;
+        const [red, green, blue] = cellColor(colors, cell, state);
+        const dim = onSlice(cell) ? 1 : FADED_LIGHTNESS;
+        tempColor.current.setRGB(red * dim, green * dim, blue * dim, THREE.SRGBColorSpace);
+        mesh.setColorAt(slot, tempColor.current);
       }
+    };
+
+    const last = synced.current;
+    const rebuilt = !last || last.mesh !== mesh || last.visuals !== visuals;
+    // State colors hold from one generation to the next; the other modes
+    // bring new colors with every generation, so every drawn cell is recolored
+    const restyled = rebuilt || last.sliceView !== sliceView || last.states !== states || last.colors !== colors;
+    if (restyled || last.grid !== logicGrid) visuals.sync(data, target, sink);
+    if (restyled) visuals.rewrite(sink);
+    synced.current = { mesh, grid: logicGrid, visuals, sliceView, states, colors };
+
+    // Smooth scale transition like standalone version
+    visuals.update(data, target, settled ? 1 : FADE_SPEED, sink);
+
+    if (visuals.count > capacity) setCapacity(instanceCapacity(visuals.count, maxInstances));
+    mesh.count = Math.min(visuals.count, capacity);
+    const dirty = visuals.takeDirty();
+    upload(mesh.instanceMatrix, dirty.matrices, 16, capacity);
+    if (mesh.instanceColor) upload(mesh.instanceColor, dirty.colors, 3, capacity);
+  }, [dimensions, states, logicGrid, visuals, sliceView, settled, colors, capacity, maxInstances]);
+
+  // Surface mode remeshes once per generation. Cells off the slice are
+  // left out when only the slice is shown; there is no fading here.
+  const surface = useMemo(() => {
+    if (renderMode !== 'surface' || !logicGrid) return null;
+    const color = new THREE.Color();
+    const mesh = buildSurfaceMesh(logicGrid, {
+      values: colors.index ?? undefined,
+      color: entry => {
+        color.setRGB(...entryColor(colors, entry), THREE.SRGBColorSpace);
+        return [color.r, color.g, color.b];
+      },
+      plane: sliceView?.focus === 'only' ? sliceView.plane : undefined
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(mesh.positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(mesh.colors, 3));
+    geometry.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+    return geometry;
+  }, [renderMode, logicGrid, colors, sliceView]);
+
+  useEffect(() => () => surface?.dispose(), [surface]);
+
+  // A grid of another size starts over with the smallest mesh that fits it
+  useEffect(() => {
+    setCapacity(current => instanceCapacity(Math.min(current, maxInstances), maxInstances));
+  }, [maxInstances]);
+
+  // Edit mode: clicking toggles the cell under the pointer (the first live
+  // cell along the ray, or the cell on the slice plane) and dragging paints
+  // the same change over every cell passed
+  useEffect(() => {
+    if (!editing) {
+      setHover(null);
+      return;
     }
-    
-    if (needsMatrixUpdate) cellInstances.instanceMatrix.needsUpdate = true;
-    if (needsColorUpdate && cellInstances.instanceColor) cellInstances.instanceColor.needsUpdate = true;
-  }, [gridSize, logicGrid, visualGrid]);
 
-  const maxInstances = gridSize ** 3;
+    const element = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const toGroup = new THREE.Matrix4();
+    /** The state being painted, while the button is down */
+    let paintValue: number | null = null;
+    /** Cells changed in this stroke, which the worker may not have reported back yet */
+    const painted = new Set<number>();
+
+    const pick = (event: PointerEvent): CellHit | null => {
+      const grid = logicGridRef.current;
+      const group = groupRef.current;
+      if (!grid || !group) return null;
+
+      const rect = element.getBoundingClientRect();
+      pointer.set(((event.clientX - rect.left) / rect.width) * 2 - 1, -((event.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(pointer, camera);
+      const ray = raycaster.ray.clone().applyMatrix4(toGroup.copy(group.matrixWorld).invert());
+
+      // Cells are centered on the group's origin, while grid coordinates start at a corner
+      const origin: Vector3Tuple = [
+        ray.origin.x + grid.width / 2,
+        ray.origin.y + grid.height / 2,
+        ray.origin.z + grid.depth / 2
+      ];
+      // Cells hidden by the slice view cannot be picked
+      const sliceOnly = sliceView?.focus === 'only';
+      return pickCell(grid, origin, [ray.direction.x, ray.direction.y, ray.direction.z], editing, sliceOnly);
+    };
+
+    const paint = (hit: CellHit | null) => {
+      const grid = logicGridRef.current;
+      if (!hit || !grid || paintValue === null) return;
+
+      const index = grid.index(hit.cell[0], hit.cell[1], hit.cell[2]);
+      if (painted.has(index) || hit.state === paintValue) return;
+      painted.add(index);
+      onPaint([[hit.cell[0], hit.cell[1], hit.cell[2], paintValue]]);
+    };
+
+    const updateHover = (hit: CellHit | null) => {
+      setHover(current => {
+        const same = current && hit
+          ? current.state === hit.state && current.cell.join() === hit.cell.join()
+          : current === hit;
+        return same ? current : hit;
+      });
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+      const hit = pick(event);
+      if (!hit) return;
+      if (stamp) {
+        onStamp(hit.cell);
+        return;
+      }
+
+      paintValue = hit.state === 0 ? 1 : 0;
+      painted.clear();
+      paint(hit);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const hit = pick(event);
+      updateHover(hit);
+      paint(hit);
+    };
+
+    const handlePointerUp = () => {
+      paintValue = null;
+    };
+
+    const handlePointerLeave = () => updateHover(null);
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('pointermove', handlePointerMove);
+    element.addEventListener('pointerleave', handlePointerLeave);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerleave', handlePointerLeave);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [editing, sliceView, stamp, gl, camera, onPaint, onStamp]);
+
+  const [offsetX, offsetY, offsetZ] = dimensions.map(length => -(length - 1) / 2);
+  const plane = editing ?? sliceView?.plane ?? null;
+
+  // The box a pending library pattern would fill if placed at the hovered cell
+  const stampBox = useMemo(() => {
+    if (!stamp || !hover) return null;
+    const cells = placePattern(stamp, dimensions, hover.cell);
+    const extent = patternExtent(stamp);
+    const center = extent.map((length, axis) => Math.min(...cells.map(cell => cell[axis])) + (length - 1) / 2);
+    return { center, extent };
+  }, [stamp, hover, dimensions]);
 
   return (
     <group ref={groupRef}>
       {/* Outer grid cube wireframe */}
       <lineSegments>
-        <edgesGeometry args={[new THREE.BoxGeometry(gridSize, gridSize, gridSize)]} />
+        <edgesGeometry args={[new THREE.BoxGeometry(width, height, depth)]} />
         <lineBasicMaterial color={0x4b5563} transparent opacity={0.5} />
       </lineSegments>
       
-      {/* Instanced cells */}
+      {/* Instanced cells, packed at the front; the mesh is remade when it
+          needs more slots. Its bounds change as cells come and go, so it
+          is never culled. */}
       <instancedMesh
+        key={capacity}
         ref={instancedMeshRef}
-        args={[undefined, undefined, maxInstances]}
+        args={[undefined, undefined, capacity]}
+        frustumCulled={false}
+        visible={renderMode === 'cubes'}
       >
         <boxGeometry args={[0.8, 0.8, 0.8]} />
         <meshPhongMaterial />
       </instancedMesh>
+
+      {/* Surface of the live cells, in grid units from the grid's corner */}
+      {surface && (
+        <mesh geometry={surface} position={[-width / 2, -height / 2, -depth / 2]}>
+          <meshPhongMaterial vertexColors />
+        </mesh>
+      )}
+
+      {/* Slice plane being viewed, or where new cells are placed */}
+      {plane && (
+        <mesh
+          position={[
+            plane.axis === 0 ? plane.index + offsetX : 0,
+            plane.axis === 1 ? plane.index + offsetY : 0,
+            plane.axis === 2 ? plane.index + offsetZ : 0
+          ]}
+        >
+          <boxGeometry args={[plane.axis === 0 ? 1 : width, plane.axis === 1 ? 1 : height, plane.axis === 2 ? 1 : depth]} />
+          <meshBasicMaterial color={0x4ade80} transparent opacity={0.08} depthWrite={false} />
+        </mesh>
+      )}
+
+      {/* Where a pending library pattern would go */}
+      {stampBox && (
+        <lineSegments
+          position={[stampBox.center[0] + offsetX, stampBox.center[1] + offsetY, stampBox.center[2] + offsetZ]}
+          scale={stampBox.extent}
+        >
+          <edgesGeometry args={[HOVER_BOX]} />
+          <lineBasicMaterial color={0xfbbf24} />
+        </lineSegments>
+      )}
+
+      {/* Targeted cell: green to add, red to remove */}
+      {hover && !stamp && (
+        <lineSegments position={[hover.cell[0] + offsetX, hover.cell[1] + offsetY, hover.cell[2] + offsetZ]}>
+          <edgesGeometry args={[HOVER_BOX]} />
+          <lineBasicMaterial color={hover.state ? 0xf87171 : 0x4ade80} />
+        </lineSegments>
+      )}
     </group>
   );
 }
 
-function Controls() {
-  const { gl, camera } = useThree();
-  
+function Controls({ editing, onStart, onEnd }: { editing: boolean; onStart: () => void; onEnd: () => void }) {
+  return (
+    <OrbitControls
+      enablePan={true}
+      enableZoom={true}
+      enableRotate={true}
+      mouseButtons={editing ? EDIT_MOUSE_BUTTONS : VIEW_MOUSE_BUTTONS}
+      touches={editing ? EDIT_TOUCHES : VIEW_TOUCHES}
+      onStart={onStart}
+      onEnd={onEnd}
+    />
+  );
+}
+
+/**
+ * Takes over rendering while recording, so a frame can be captured straight
+ * after it is drawn, with the camera where the orbit puts it for that frame
+ */
+function RecordingDriver({
+  session,
+  generation,
+  onCapture
+}: {
+  session: RecordingSession;
+  /** The generation on screen */
+  generation: number;
+  onCapture: (session: RecordingSession, capture: Promise<void>) => void;
+}) {
+  useFrame(({ gl, scene, camera }) => {
+    const frame = session.frameFor(generation);
+    const position = frame === null ? null : session.cameraPosition(frame);
+    if (position) {
+      camera.position.set(position[0], position[1], position[2]);
+      camera.lookAt(0, 0, 0);
+    }
+    gl.render(scene, camera);
+    if (frame !== null) onCapture(session, session.capture(gl.domElement, generation));
+  }, 1);
+
+  return null;
+}
+
+/**
+ * The viewed slice drawn as a classic 2D Life grid. Clicking toggles a cell
+ * and dragging paints the same change, as in 3D edit mode.
+ */
+function SliceEditor({
+  grid,
+  plane,
+  colors,
+  onPaint
+}: {
+  grid: FlatGrid3D;
+  plane: SlicePlane;
+  colors: CellColors;
+  onPaint: (cells: CellUpdate[]) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  /** The state being painted and the cells already changed, while the button is down */
+  const stroke = useRef<{ value: number; painted: Set<number> } | null>(null);
+  const slice = useMemo(() => extractSlice(grid, plane), [grid, plane]);
+  const cellSize = Math.max(2, Math.floor(SLICE_EDITOR_SIZE / Math.max(slice.columns, slice.rows)));
+
   useEffect(() => {
-    const handlePointerDown = () => {};
-    gl.domElement.addEventListener('pointerdown', handlePointerDown);
-    return () => gl.domElement.removeEventListener('pointerdown', handlePointerDown);
-  }, [gl]);
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const { columns, rows, data } = slice;
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, columns * cellSize, rows * cellSize);
+
+    // Leave a gap between cells when they are big enough to show one
+    const gap = cellSize >= 6 ? 1 : 0;
+    for (let v = 0; v < rows; v++) {
+      for (let u = 0; u < columns; u++) {
+        const state = data[v * columns + u];
+        if (state > 0) {
+          const [x, y, z] = sliceCell(plane, u, v);
+          context.fillStyle = cssColor(cellColor(colors, grid.index(x, y, z), state));
+        } else {
+          context.fillStyle = 'rgba(255, 255, 255, 0.06)';
+        }
+        context.fillRect(u * cellSize + gap, v * cellSize + gap, cellSize - gap, cellSize - gap);
+      }
+    }
+  }, [slice, cellSize, grid, plane, colors]);
+
+  const cellAt = (event: React.PointerEvent<HTMLCanvasElement>): number | null => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const u = Math.floor((event.clientX - rect.left) / cellSize);
+    const v = Math.floor((event.clientY - rect.top) / cellSize);
+    return u >= 0 && u < slice.columns && v >= 0 && v < slice.rows ? v * slice.columns + u : null;
+  };
+
+  const paint = (index: number | null) => {
+    const current = stroke.current;
+    if (index === null || !current || current.painted.has(index)) return;
+    current.painted.add(index);
+    if (slice.data[index] === current.value) return;
+
+    const [x, y, z] = sliceCell(plane, index % slice.columns, Math.floor(index / slice.columns));
+    onPaint([[x, y, z, current.value]]);
+  };
+
+  const endStroke = () => {
+    stroke.current = null;
+  };
 
   return (
-    <OrbitControls
-      camera={camera}
-      domElement={gl.domElement}
-      enableDamping={true}
-      dampingFactor={0.05}
-      maxDistance={50}
-      minDistance={5}
+    <canvas
+      ref={canvasRef}
+      width={slice.columns * cellSize}
+      height={slice.rows * cellSize}
+      style={{ display: 'block', cursor: 'crosshair', touchAction: 'none' }}
+      onPointerDown={(e) => {
+        const index = cellAt(e);
+        if (index === null || e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        stroke.current = { value: slice.data[index] === 0 ? 1 : 0, painted: new Set() };
+        paint(index);
+      }}
+      onPointerMove={(e) => paint(cellAt(e))}
+      onPointerUp={endStroke}
+      onPointerCancel={endStroke}
     />
   );
 }
 
 export default function GameOfLife3D() {
   // State variables
-  const [gridSize, setGridSize] = useState(20);
+  // A shared link's hash sets up the first run; a bad one is reported
+  const [{ state: urlState, error: urlError }] = useState(readUrlState);
+  const [dimensions, setDimensions] = useState<GridDimensions>(() =>
+    urlState ? normalizeDimensions(urlState.config.gridSize) : [20, 20, 20]
+  );
+  const [cubeGrid, setCubeGrid] = useState(() => isCube(dimensions));
   const [isRunning, setIsRunning] = useState(false);
   const [generation, setGeneration] = useState(0);
   const [aliveCells, setAliveCells] = useState(0);
-  const [logicGrid, setLogicGrid] = useState<Grid3D>([]);
-  const [visualGrid, setVisualGrid] = useState<VisualCell[][][]>([]);
+  const [cycle, setCycle] = useState<CycleStatus>({ kind: 'evolving' });
+  const [history, setHistory] = useState<HistoryRange>({ first: 0, last: 0 });
+  /** Figures for each generation of the run so far, for the charts and CSV export */
+  const [statsSeries, setStatsSeries] = useState<GenerationStats[]>([]);
+  const [logicGrid, setLogicGrid] = useState<FlatGrid3D | null>(null);
+  /** Per-cell figures the worker reported with the logic grid, for coloring */
+  const [cellFigures, setCellFigures] = useState<{
+    generation: number;
+    neighbors?: Uint16Array;
+    births?: Uint32Array;
+    objectIds?: Int32Array;
+  }>({ generation: 0 });
+  /** The objects the worker tracks, while the objects panel or object coloring needs them */
+  const [objectReport, setObjectReport] = useState<ObjectReport | null>(null);
+  /** The latest splits and merges, oldest first */
+  const [objectEvents, setObjectEvents] = useState<ObjectEvent[]>([]);
+  /** World position of the logic grid's first cell, which moves as an unbounded world's view follows its cells */
+  const [origin, setOrigin] = useState<Vector3Tuple>([0, 0, 0]);
+  const [visuals, setVisuals] = useState<CellInstances | null>(null);
   const [isUserInteracting, setIsUserInteracting] = useState(false);
 
-  // Use visual grid directly for now to fix the rendering error
-  // const animatedVisualGrid = useAnimatedVisualGrid(
-  //   visualGrid.length > 0 ? visualGrid : [], 
-  //   gridSize
-  // );
-
   // Simulation parameters
-  const [initialDensity, setInitialDensity] = useState(0.08);
+  const [initialDensity, setInitialDensity] = useState(urlState?.density ?? 0.08);
+  const [seed, setSeed] = useState(() => urlState?.seed ?? randomSeed());
+  const [seedText, setSeedText] = useState(() => String(seed));
+  const [seedError, setSeedError] = useState<string | null>(null);
+  const [seedGenerator, setSeedGenerator] = useState<SeedGenerator>(urlState?.generator ?? UNIFORM_GENERATOR);
+  /** Cells the run starts from instead of a random grid (a loaded pattern or a cleared grid) */
+  const [startCells, setStartCells] = useState<FlatGrid3D | null>(urlState?.cells ?? null);
+  // Edits to generation 0 change where the run starts, so the link carries
+  // the edited cells; later edits are more than a link can hold
+  const [editedStart, setEditedStart] = useState<FlatGrid3D | null>(null);
+  const [linkStale, setLinkStale] = useState(false);
   const [speed, setSpeed] = useState(300);
-  const [birthRule, setBirthRule] = useState(4);
-  const [survivalMin, setSurvivalMin] = useState(4);
-  const [survivalMax, setSurvivalMax] = useState(5);
+  const [stagnationAction, setStagnationAction] = useState<StagnationAction>('continue');
+  const [renderMode, setRenderMode] = useState<RenderMode>('cubes');
+  const [colorMode, setColorMode] = useState<ColorMode>('state');
+  const [palette, setPalette] = useState<PaletteId>(DEFAULT_PALETTES.state);
+  /** The axis cells are colored along in position mode */
+  const [colorAxis, setColorAxis] = useState(1);
+  const [rule, setRule] = useState<LifeRule>(() => urlState ? resolveRule(urlState.config) : DEFAULT_RULE);
+  const [neighborhood, setNeighborhood] = useState<Neighborhood>(urlState?.config.neighborhood ?? MOORE_NEIGHBORHOOD);
+  const [ruleText, setRuleText] = useState(() => formatRuleNotation(rule, neighborhood));
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [offsetsText, setOffsetsText] = useState(() =>
+    neighborhood.type === 'custom' ? formatOffsets(neighborhood.offsets) : ''
+  );
+  const [offsetsError, setOffsetsError] = useState<string | null>(null);
+  const [boundaries, setBoundaries] = useState<AxisBoundaries>(() =>
+    urlState ? resolveBoundaries(urlState.config) : ['periodic', 'periodic', 'periodic']
+  );
+  const [engineKind, setEngineKind] = useState<EngineKind>(urlState?.engine ?? 'dense');
 
   // UI state
   const [showSettings, setShowSettings] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showObjects, setShowObjects] = useState(false);
+  const [showHelp, setShowHelp] = useState(false);
+  const [showPalette, setShowPalette] = useState(false);
+  const [keyBindings, setKeyBindings] = useState<KeyBindings>(() => loadKeyBindings(localStore()));
+  /** The command whose new key the next key press sets */
+  const [rebinding, setRebinding] = useState<CommandId | null>(null);
+  const [editMode, setEditMode] = useState(false);
+  const [showSlice, setShowSlice] = useState(false);
+  const [sliceFocus, setSliceFocus] = useState<SliceFocus>('fade');
+  const [sliceAxis, setSliceAxis] = useState(1);
+  const [sliceIndex, setSliceIndex] = useState(() => Math.floor(dimensions[1] / 2));
+  const [patternError, setPatternError] = useState<string | null>(null);
+  /** A library pattern waiting to be placed at the cursor in edit mode */
+  const [stamp, setStamp] = useState<LibraryPattern | null>(null);
+  const [recordingOptions, setRecordingOptions] = useState<RecordingOptions>(DEFAULT_RECORDING_OPTIONS);
+  const [webmSupported, setWebmSupported] = useState(true);
+  const [recording, setRecording] = useState<RecordingSession | null>(null);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState(urlError);
 
   const simulationInterval = useRef<NodeJS.Timeout | null>(null);
-  const gameEngine = useRef<GameEngine | null>(null);
-
-  // Initialize game engine
-  useEffect(() => {
-    const config: GameOfLife3DConfig = {
-      gridSize,
-      birthRule,
-      survivalMin,
-      survivalMax,
-      periodicBoundaries: true
-    };
-    gameEngine.current = new GameEngine(config);
-  }, [gridSize, birthRule, survivalMin, survivalMax]);
+  const simulation = useRef<SimulationClient | null>(null);
+  const logicGridRef = useRef<FlatGrid3D | null>(null);
+  const originRef = useRef<Vector3Tuple>([0, 0, 0]);
+  const visualsRef = useRef<CellInstances | null>(null);
+  const ruleRef = useRef(rule);
+  const neighborhoodRef = useRef(neighborhood);
+  const boundariesRef = useRef(boundaries);
+  const patternInput = useRef<HTMLInputElement>(null);
+  /** The hash this component last wrote, to tell it apart from user edits */
+  const writtenHash = useRef('');
+  /** Set to restart from a new seed without stopping the run */
+  const keepRunningOnReset = useRef(false);
+  /** The cycle the stagnation action last ran for */
+  const handledCycle = useRef<CycleStatus | null>(null);
+  /** The renderer, camera and canvas, for recording */
+  const threeRef = useRef<RootState | null>(null);
+  const recordingRef = useRef<RecordingSession | null>(null);
 
-  const createEmptyGrids = useCallback((size: number) => {
-    if (!gameEngine.current) return { logic: [], visual: [] };
-    
-    const logic = gameEngine.current.createEmptyGrid();
-    const visual = Array(size).fill(null).map(() =>
-      Array(size).fill(null).map(() =>
-        Array(size).fill(null).map(() => ({ 
-          scale: 0, 
-          age: 0
-        }))
-      )
-    );
-    return { logic, visual };
+  // Ends the recording in progress and downloads what it captured
+  const finishRecording = useCallback(async () => {
+    const session = recordingRef.current;
+    if (!session) return;
+    recordingRef.current = null;
+    setRecording(null);
+    try {
+      downloadBlob(await session.finish(), session.fileName());
+    } catch (error) {
+      setRecordingError((error as Error).message);
+    }
   }, []);
 
-  const resetSimulation = useCallback((randomize = true) => {
-    if (!gameEngine.current) return;
-    
-    setIsUserInteracting(false);
-    if (simulationInterval.current) {
-      clearInterval(simulationInterval.current);
-      simulationInterval.current = null;
-    }
-    setIsRunning(false);
-    setGeneration(0);
-    setAliveCells(0);
+  // Receives every generation the worker reports and keeps the visual
+  // state in step with it
+  const handleGeneration = useCallback(({
+    grid, origin, generation, population, stats, cycle, history, reason, neighbors, births, objects, objectIds
+  }: GenerationSnapshot) => {
+    const previous = logicGridRef.current;
+    const moved = origin.join() !== originRef.current.join();
 
-    const { visual } = createEmptyGrids(gridSize);
-    let logic: Grid3D;
-    
-    if (randomize) {
-      logic = gameEngine.current.createRandomGrid(initialDensity);
-      const liveCount = gameEngine.current.countLivingCells(logic);
-      setAliveCells(liveCount);
-      
-      // Update visual grid to match logic grid
-      for (let x = 0; x < gridSize; x++) {
-        for (let y = 0; y < gridSize; y++) {
-          for (let z = 0; z < gridSize; z++) {
-            if (logic[x][y][z] === 1) {
-              visual[x][y][z] = { 
-                scale: 1, 
-                age: 1
-              };
-            }
-          }
-        }
+    // A restart or a jump through the history ends a recording there. A
+    // new recording starts capturing once the worker has answered every
+    // step asked for before it, with the snapshot it asked for.
+    if (reason === 'init' || reason === 'seek') finishRecording();
+    if (reason === 'snapshot' && recordingRef.current) setRecording(recordingRef.current);
+
+    // Jumps through the history show their cells at once, like a fresh run,
+    // and so do cells in a view that has moved to follow them
+    if (reason === 'init' || reason === 'seek' || moved || !visualsRef.current || !previous || !previous.sameShape(grid)) {
+      // Cells present at the start appear fully grown
+      const scale = new Float32Array(grid.cellCount);
+      for (let i = 0; i < grid.cellCount; i++) {
+        scale[i] = stateScale(grid.data[i], ruleStates(ruleRef.current));
       }
-    } else {
-      logic = gameEngine.current.createEmptyGrid();
+      const visual = new CellInstances(grid.cellCount, scale);
+
+      visualsRef.current = visual;
+      setVisuals(visual);
     }
-    
-    setLogicGrid(logic);
-    setVisualGrid(visual);
-  }, [gridSize, initialDensity, createEmptyGrids]);
 
-  const clearSimulation = useCallback(() => {
-    resetSimulation(false);
-  }, [resetSimulation]);
+    logicGridRef.current = grid;
+    setLogicGrid(grid);
+    setCellFigures({ generation, neighbors, births, objectIds });
+    setObjectReport(objects ?? null);
+    // Tracking starts afresh after a restart or a jump through the history
+    setObjectEvents(current => {
+      const kept = reason === 'init' || reason === 'seek' ? [] : current;
+      return objects?.events.length ? kept.concat(objects.events).slice(-RECENT_OBJECT_EVENTS) : kept;
+    });
+    if (moved) {
+      originRef.current = origin;
+      setOrigin(origin);
+    }
+    if (reason === 'init') {
+      setEditedStart(null);
+      setLinkStale(false);
+    } else if (reason === 'setCells') {
+      // A sparse world's box must still be where the run started
+      const atStart = generation === 0 && origin.every(value => value === 0);
+      if (atStart) setEditedStart(grid);
+      setLinkStale(!atStart);
+    }
+    setAliveCells(population);
+    setGeneration(generation);
+    setHistory(history);
+    // Rewinding keeps the figures up to the generation returned to. Reports
+    // and snapshots measure the grid alone, without the births and deaths
+    // of the step that made it, so they leave the figures as they are.
+    setStatsSeries(current => {
+      if (reason === 'init') return stats;
+      if (reason === 'seek') return current.filter(row => row.generation <= generation);
+      if (reason === 'report' || reason === 'snapshot') return current;
+      return appendStats(current, stats);
+    });
+    // Keep the same object while the status holds, so effects run only on changes
+    setCycle(current => describeCycle(current) === describeCycle(cycle) ? current : cycle);
+  }, [finishRecording]);
 
-  const stepSimulation = useCallback(() => {
-    if (!gameEngine.current) return;
-    
-    setLogicGrid(currentLogicGrid => {
-      const newLogicGrid = gameEngine.current!.step(currentLogicGrid);
-      const newAliveCells = gameEngine.current!.countLivingCells(newLogicGrid);
-
-      setAliveCells(newAliveCells);
-      setGeneration(prev => prev + 1);
-
-      // Update visual grid - simplified approach
-      setVisualGrid(currentVisualGrid => {
-        for (let x = 0; x < gridSize; x++) {
-          for (let y = 0; y < gridSize; y++) {
-            for (let z = 0; z < gridSize; z++) {
-              const wasAlive = currentLogicGrid[x][y][z] === 1;
-              const isAlive = newLogicGrid[x][y][z] === 1;
-              
-              if (isAlive) {
-                if (wasAlive) {
-                  // Cell survived - age it
-                  currentVisualGrid[x][y][z].age = Math.min(MAX_AGE, currentVisualGrid[x][y][z].age + 1);
-                } else {
-                  // Cell was born - reset age
-                  currentVisualGrid[x][y][z].age = 1;
-                }
-              } else {
-                // Cell died - reset age
-                currentVisualGrid[x][y][z].age = 0;
-              }
-            }
-          }
-        }
-        return [...currentVisualGrid]; // Return new reference to trigger re-render
+  // Start the simulation worker
+  useEffect(() => {
+    const worker = new Worker(new URL('../lib/simulation.worker.ts', import.meta.url));
+    simulation.current = new SimulationClient(worker, {
+      onGeneration: handleGeneration,
+      onError: (message) => setSimulationError(`Simulation error: ${message}`)
+    });
+
+    return () => {
+      simulation.current?.dispose();
+      simulation.current = null;
+    };
+  }, [handleGeneration]);
+
+  // Only the color modes that read them have the worker count neighbors
+  // and follow births, and objects are tracked only while they are shown
+  useEffect(() => {
+    simulation.current?.report({
+      neighbors: colorMode === 'neighbors',
+      births: colorMode === 'age' || colorMode === 'birth',
+      objects: colorMode === 'component' || showObjects
+    });
+  }, [colorMode, showObjects]);
+
+  // Rule, neighborhood and boundary changes apply to the running simulation
+  // without resetting it. Every init sends the current ones as well, so those
+  // sent on mount, before the first init, change nothing.
+  useEffect(() => {
+    ruleRef.current = rule;
+    simulation.current?.configure({ rule });
+  }, [rule]);
+
+  useEffect(() => {
+    neighborhoodRef.current = neighborhood;
+    simulation.current?.configure({ neighborhood });
+  }, [neighborhood]);
+
+  useEffect(() => {
+    boundariesRef.current = boundaries;
+    simulation.current?.configure({ boundaries });
+  }, [boundaries]);
+
+  const setAxisDimension = useCallback((axis: number, length: number) => {
+    setStartCells(null);
+    setDimensions(current => {
+      const next: GridDimensions = cubeGrid ? [length, length, length] : [current[0], current[1], current[2]];
+      next[axis] = length;
+      if (next[0] * next[1] * next[2] > LARGE_GRID_CELLS) {
+        console.warn('Warning: Grids with more than 40³ cells may cause performance issues.');
+      }
+      return next;
+    });
+  }, [cubeGrid]);
+
+  const setAxisBoundary = useCallback((axis: number, mode: BoundaryMode) => {
+    setBoundaries(current => {
+      const next: AxisBoundaries = [current[0], current[1], current[2]];
+      next[axis] = mode;
+      return next;
+    });
+  }, []);
+
+  const applyRule = useCallback((newRule: LifeRule, newNeighborhood = neighborhoodRef.current) => {
+    setRule(newRule);
+    setNeighborhood(newNeighborhood);
+    setRuleText(formatRuleNotation(newRule, newNeighborhood));
+    setRuleError(null);
+  }, []);
+
+  const applyNeighborhood = useCallback((newNeighborhood: Neighborhood) => {
+    applyRule(ruleRef.current, newNeighborhood);
+  }, [applyRule]);
+
+  const handleRuleTextChange = useCallback((text: string) => {
+    setRuleText(text);
+    try {
+      const parsed = parseRuleNotation(text);
+      setRule(parsed.rule);
+      // Without a code the rule is Moore, unless a custom stencil (which has no code) is in use
+      if (parsed.neighborhood) {
+        setNeighborhood(parsed.neighborhood);
+      } else if (neighborhoodRef.current.type !== 'custom') {
+        setNeighborhood(MOORE_NEIGHBORHOOD);
+      }
+      setRuleError(null);
+    } catch (error) {
+      setRuleError((error as Error).message);
+    }
+  }, []);
+
+  const changeNeighborhoodType = useCallback((type: NeighborhoodType) => {
+    const current = neighborhoodRef.current;
+    if (type === 'custom') {
+      // Start the stencil from the current neighborhood's offsets
+      const offsets = neighborhoodOffsets(current);
+      setOffsetsText(formatOffsets(offsets));
+      setOffsetsError(null);
+      applyNeighborhood(createCustomNeighborhood(offsets));
+    } else if (type === 'faceEdge') {
+      applyNeighborhood({ type });
+    } else {
+      applyNeighborhood({ type, radius: 'radius' in current ? current.radius : 1 });
+    }
+  }, [applyNeighborhood]);
+
+  const handleOffsetsTextChange = useCallback((text: string) => {
+    setOffsetsText(text);
+    try {
+      applyNeighborhood(createCustomNeighborhood(parseOffsets(text)));
+      setOffsetsError(null);
+    } catch (error) {
+      setOffsetsError((error as Error).message);
+    }
+  }, [applyNeighborhood]);
+
+  const pauseSimulation = useCallback(() => {
+    if (simulationInterval.current) {
+      clearInterval(simulationInterval.current);
+      simulationInterval.current = null;
+    }
+    setIsRunning(false);
+  }, []);
+
+  // Restarts from the start cells, or from a random grid given by the seed
+  const resetSimulation = useCallback(() => {
+    if (!simulation.current) return;
+    
+    setIsUserInteracting(false);
+    setSimulationError(null);
+    if (keepRunningOnReset.current) {
+      keepRunningOnReset.current = false;
+    } else {
+      pauseSimulation();
+    }
+
+    const config: GameOfLife3DConfig = {
+      gridSize: dimensions,
+      rule: ruleRef.current,
+      neighborhood: neighborhoodRef.current,
+      boundaries: boundariesRef.current
+    };
+    if (startCells) {
+      simulation.current.init(config, { engine: engineKind, cells: startCells });
+    } else {
+      // Quarter-turn symmetry needs a square cross-section; other grids get half turns
+      simulation.current.init(config, {
+        engine: engineKind,
+        density: initialDensity,
+        seed,
+        generator: fitSeedGenerator(seedGenerator, dimensions)
       });
+    }
+  }, [dimensions, engineKind, initialDensity, seed, seedGenerator, startCells, pauseSimulation]);
+
+  const changeSeedGenerator = useCallback((generator: SeedGenerator) => {
+    setSeedGenerator(generator);
+    setStartCells(null);
+  }, []);
+
+  const randomizeSimulation = useCallback(() => {
+    setStartCells(null);
+    setSeed(randomSeed());
+  }, []);
+
+  // Typing a seed restarts from the random grid it gives
+  const handleSeedTextChange = useCallback((text: string) => {
+    setSeedText(text);
+    try {
+      setSeed(parseSeed(text));
+      setStartCells(null);
+      setSeedError(null);
+    } catch (error) {
+      setSeedError((error as Error).message);
+    }
+  }, []);
 
-      return newLogicGrid;
+  // Keep the seed field in step with seeds picked elsewhere (🎲, links)
+  useEffect(() => {
+    setSeedText(String(seed));
+    setSeedError(null);
+  }, [seed]);
+
+  const clearSimulation = useCallback(() => {
+    setStartCells(new FlatGrid3D(dimensions[0], dimensions[1], dimensions[2]));
+  }, [dimensions]);
+
+  const savePattern = useCallback(() => {
+    const grid = logicGridRef.current;
+    if (!grid) return;
+
+    const text = serializePattern(grid, {
+      gridSize: grid.dimensions,
+      rule: ruleRef.current,
+      neighborhood: neighborhoodRef.current,
+      boundaries: boundariesRef.current
     });
-  }, [gridSize]);
+    downloadBlob(new Blob([text], { type: 'application/json' }), `pattern-gen${generation}.json`);
+  }, [generation]);
+
+  const exportStats = useCallback(() => {
+    downloadBlob(new Blob([statsToCsv(statsSeries)], { type: 'text/csv' }), `stats-gen${generation}.csv`);
+  }, [statsSeries, generation]);
+
+  const chartRows = statsSeries.slice(-CHART_GENERATIONS);
+  const latestStats = statsSeries.length ? statsSeries[statsSeries.length - 1] : null;
+
+  // Takes over the settings of a pattern or link; the new dimensions
+  // (always a fresh array) restart the simulation
+  const applyConfig = useCallback((config: GameOfLife3DConfig) => {
+    const newDimensions = normalizeDimensions(config.gridSize);
+    const newNeighborhood = config.neighborhood ?? MOORE_NEIGHBORHOOD;
+
+    applyRule(resolveRule(config), newNeighborhood);
+    if (newNeighborhood.type === 'custom') {
+      setOffsetsText(formatOffsets(newNeighborhood.offsets));
+      setOffsetsError(null);
+    }
+    setBoundaries(resolveBoundaries(config));
+    setCubeGrid(isCube(newDimensions));
+    setDimensions(newDimensions);
+  }, [applyRule]);
+
+  const loadPattern = useCallback((pattern: Pattern) => {
+    applyConfig(pattern.config);
+    setStartCells(pattern.grid);
+  }, [applyConfig]);
+
+  const handlePatternFile = useCallback(async (file: File) => {
+    try {
+      loadPattern(deserializePattern(await file.text()));
+      setPatternError(null);
+    } catch (error) {
+      setPatternError(`${file.name}: ${(error as Error).message}`);
+    }
+  }, [loadPattern]);
+
+  // One slice plane is shared by edit mode and the slice view. It stays
+  // inside the grid when the grid shrinks.
+  const slicePlane = useMemo<SlicePlane>(() => ({
+    axis: sliceAxis,
+    index: Math.min(sliceIndex, dimensions[sliceAxis] - 1)
+  }), [sliceAxis, sliceIndex, dimensions]);
+  const editing = editMode ? slicePlane : null;
+  const sliceView = useMemo<SliceView | null>(() => showSlice ? { plane: slicePlane, focus: sliceFocus } : null,
+    [showSlice, slicePlane, sliceFocus]);
+
+  // State colors stay put while the cells change; the other modes are
+  // worked out again for every generation
+  const states = ruleStates(rule);
+  const maxNeighbors = neighborhoodSize(neighborhood);
+  const colorGrid = colorMode === 'state' ? null : logicGrid;
+  /** Objects are listed in the colors they have when cells are colored by object */
+  const objectPalette = PALETTES[colorMode === 'component' ? palette : DEFAULT_PALETTES.component];
+  const colors = useMemo(() => colorGrid
+    ? colorCells(colorGrid, colorMode, palette, { ...cellFigures, states, maxNeighbors, axis: colorAxis })
+    : stateColors(palette, states),
+  [colorGrid, cellFigures, colorMode, palette, states, maxNeighbors, colorAxis]);
+
+  const chooseColorMode = useCallback((mode: ColorMode) => {
+    setColorMode(mode);
+    setPalette(DEFAULT_PALETTES[mode]);
+  }, []);
+
+  // Edits come in grid positions; the worker takes world positions
+  const paintCells = useCallback((cells: CellUpdate[]) => {
+    const [ox, oy, oz] = originRef.current;
+    simulation.current?.setCells(cells.map(([x, y, z, value]): CellUpdate => [x + ox, y + oy, z + oz, value]));
+  }, []);
+
+  // A library pattern brings its rule along. In edit mode it is placed at
+  // the next clicked cell; otherwise it replaces the grid, centered.
+  const chooseLibraryPattern = useCallback((pattern: LibraryPattern) => {
+    try {
+      const grid = createPatternGrid(pattern, dimensions);
+      if (editMode) {
+        setStamp(pattern);
+      } else {
+        setStartCells(grid);
+      }
+      const { rule: patternRule, neighborhood: patternNeighborhood } = parseRuleNotation(pattern.rule);
+      applyRule(patternRule, patternNeighborhood ?? MOORE_NEIGHBORHOOD);
+      setPatternError(null);
+    } catch (error) {
+      setPatternError((error as Error).message);
+    }
+  }, [dimensions, editMode, applyRule]);
+
+  const stampPattern = useCallback((cell: Vector3Tuple) => {
+    if (!stamp) return;
+    paintCells(placePattern(stamp, dimensions, cell).map(([x, y, z]): CellUpdate => [x, y, z, 1]));
+    setStamp(null);
+  }, [stamp, dimensions, paintCells]);
+
+  // A pending pattern is dropped on leaving edit mode or resizing the grid
+  useEffect(() => {
+    setStamp(null);
+  }, [editMode, dimensions]);
+
+  const stepSimulation = useCallback(() => {
+    simulation.current?.step();
+  }, []);
+
+  // Rewinding pauses the run, so it picks up from the chosen generation
+  const seekGeneration = useCallback((target: number) => {
+    pauseSimulation();
+    simulation.current?.seek(Math.max(history.first, Math.min(history.last, target)));
+  }, [history, pauseSimulation]);
+
+  const stepBack = useCallback(() => {
+    if (generation > history.first) seekGeneration(generation - 1);
+  }, [generation, history, seekGeneration]);
 
   const toggleSimulation = useCallback(() => {
     if (isRunning) {
-      if (simulationInterval.current) {
-        clearInterval(simulationInterval.current);
-        simulationInterval.current = null;
-      }
-      setIsRunning(false);
+      pauseSimulation();
     } else {
       setIsRunning(true);
       simulationInterval.current = setInterval(() => {
         stepSimulation();
       }, speed);
     }
-  }, [isRunning, speed, stepSimulation]);
+  }, [isRunning, speed, stepSimulation, pauseSimulation]);
+
+  // WebM needs the browser's video encoder; without it GIF is the only choice
+  useEffect(() => {
+    const supported = videoEncodingSupported();
+    setWebmSupported(supported);
+    if (!supported) setRecordingOptions(current => current.format === 'webm' ? { ...current, format: 'gif' } : current);
+  }, []);
+
+  // Offline recording pauses the run and steps it once per frame; live
+  // recording plays it
+  const startRecording = useCallback(async () => {
+    const root = threeRef.current;
+    if (!root || recordingRef.current) return;
+    try {
+      const options = validateRecordingOptions(recordingOptions);
+      const recorder = await createFrameRecorder(options, root.gl.domElement.width, root.gl.domElement.height);
+      const { x, y, z } = root.camera.position;
+      const session = new RecordingSession(options, recorder, [x, y, z]);
+      if (options.mode === 'offline') {
+        pauseSimulation();
+      } else if (!isRunning) {
+        toggleSimulation();
+      }
+      recordingRef.current = session;
+      setRecordedFrames(0);
+      setRecordingError(null);
+      simulation.current?.snapshot();
+    } catch (error) {
+      setRecordingError((error as Error).message);
+    }
+  }, [recordingOptions, isRunning, pauseSimulation, toggleSimulation]);
+
+  const handleCapture = useCallback((session: RecordingSession, capture: Promise<void>) => {
+    capture.then(() => {
+      if (recordingRef.current !== session) return;
+      setRecordedFrames(session.framesCaptured);
+      if (session.complete) {
+        finishRecording();
+      } else if (session.options.mode === 'offline') {
+        simulation.current?.step();
+      }
+    }, (error: Error) => {
+      if (recordingRef.current !== session) return;
+      recordingRef.current = null;
+      session.cancel();
+      setRecording(null);
+      setRecordingError(error.message);
+    });
+  }, [finishRecording]);
+
+  const recordingOffline = recording?.options.mode === 'offline';
+
+  const changeKeyBindings = useCallback((bindings: KeyBindings) => {
+    setKeyBindings(bindings);
+    const store = localStore();
+    if (store) saveKeyBindings(store, bindings);
+  }, []);
+
+  // Keys run the same actions as the buttons, and are held back the same
+  // way while the buttons are disabled
+  const runCommand = useCallback((command: CommandId) => {
+    switch (command) {
+      case 'togglePlay':
+        if (!recordingOffline) toggleSimulation();
+        break;
+      case 'step':
+        if (!isRunning && !recordingOffline) stepSimulation();
+        break;
+      case 'stepBack':
+        if (!isRunning && !recordingOffline) stepBack();
+        break;
+      case 'randomize':
+        randomizeSimulation();
+        break;
+      case 'clear':
+        clearSimulation();
+        break;
+      case 'settings':
+        setShowSettings(current => !current);
+        break;
+      case 'speedUp':
+        setSpeed(current => Math.max(MIN_SPEED, current - SPEED_STEP));
+        break;
+      case 'speedDown':
+        setSpeed(current => Math.min(MAX_SPEED, current + SPEED_STEP));
+        break;
+      case 'editMode':
+        setEditMode(current => !current);
+        break;
+      case 'help':
+        setShowHelp(current => !current);
+        break;
+      case 'commandPalette':
+        setShowPalette(current => !current);
+        break;
+    }
+  }, [recordingOffline, isRunning, toggleSimulation, stepSimulation, stepBack, randomizeSimulation, clearSimulation]);
+
+  const runTypedCommand = useCallback((command: TypedCommand) => {
+    if (command.type === 'rule') {
+      handleRuleTextChange(command.notation);
+      return;
+    }
+    const [width, height, depth] = command.dimensions;
+    if (width * height * depth > LARGE_GRID_CELLS) {
+      console.warn('Warning: Grids with more than 40³ cells may cause performance issues.');
+    }
+    // Cubes the cube slider cannot show are set side by side
+    setCubeGrid(isCube(command.dimensions) && width >= MIN_CUBE_LENGTH && width <= MAX_CUBE_LENGTH);
+    setStartCells(null);
+    setDimensions(command.dimensions);
+  }, [handleRuleTextChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const combo = keyCombo(event);
+      if (!combo) return;
+      if (rebinding) {
+        event.preventDefault();
+        if (combo !== 'Escape') changeKeyBindings(rebindKey(keyBindings, rebinding, combo === 'Backspace' ? null : combo));
+        setRebinding(null);
+        return;
+      }
+
+      // Text fields keep every key, and sliders their arrow keys
+      const target = event.target as HTMLElement;
+      const type = target instanceof HTMLInputElement ? target.type : null;
+      if (target.isContentEditable || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' ||
+          (type !== null && NON_TEXT_INPUTS.indexOf(type) === -1) ||
+          (type === 'range' && combo.indexOf('Arrow') === 0)) return;
+
+      if (combo === 'Escape') {
+        setShowHelp(false);
+        setShowSettings(false);
+        return;
+      }
+      const command = commandForCombo(keyBindings, combo);
+      if (!command || (event.repeat && REPEATING_COMMANDS.indexOf(command) === -1)) return;
+      event.preventDefault();
+      runCommand(command);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keyBindings, rebinding, runCommand, changeKeyBindings]);
+
+  /** The key of a command, for button tooltips */
+  const keyHint = (command: CommandId) => keyBindings[command] ? ` (${describeCombo(keyBindings[command])})` : '';
+
+  // Pause or reseed a running simulation once it stops changing. Each cycle
+  // is handled once, so pressing play again keeps a paused cycle running.
+  useEffect(() => {
+    if (cycle.kind === 'evolving' || !isRunning || stagnationAction === 'continue') return;
+    if (handledCycle.current === cycle) return;
+    handledCycle.current = cycle;
+
+    if (stagnationAction === 'pause') {
+      pauseSimulation();
+    } else {
+      keepRunningOnReset.current = true;
+      randomizeSimulation();
+    }
+  }, [cycle, isRunning, stagnationAction, pauseSimulation, randomizeSimulation]);
 
   // Initialize simulation
   useEffect(() => {
-    resetSimulation(true);
+    resetSimulation();
   }, [resetSimulation]);
 
+  // Keep the URL hash in sync with the run so it can be shared
+  useEffect(() => {
+    const hash = encodeUrlState({
+      config: { gridSize: dimensions, rule, neighborhood, boundaries },
+      density: initialDensity,
+      seed,
+      generator: seedGenerator,
+      engine: engineKind,
+      cells: editedStart ?? startCells ?? undefined
+    });
+    writtenHash.current = `#${hash}`;
+    window.history.replaceState(null, '', writtenHash.current);
+  }, [dimensions, rule, neighborhood, boundaries, engineKind, initialDensity, seed, seedGenerator, startCells, editedStart]);
+
+  // Follow links pasted into the address bar of an open page
+  useEffect(() => {
+    const handleHashChange = () => {
+      if (window.location.hash === writtenHash.current) return;
+      const { state, error } = readUrlState();
+      setLinkError(error);
+      if (!state) return;
+
+      applyConfig(state.config);
+      setInitialDensity(state.density);
+      setSeed(state.seed);
+      setSeedGenerator(state.generator ?? UNIFORM_GENERATOR);
+      setEngineKind(state.engine ?? 'dense');
+      setStartCells(state.cells ?? null);
+    };
+
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [applyConfig]);
+
   // Update simulation speed when running
   useEffect(() => {
     if (isRunning && simulationInterval.current) {
@@ -309,11 +1968,6 @@ export default function GameOfLife3D() {
     }
   }, [speed, isRunning, stepSimulation]);
 
-  // Reset simulation when grid size changes
-  useEffect(() => {
-    resetSimulation(true);
-  }, [gridSize, resetSimulation]);
-
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -323,117 +1977,521 @@ export default function GameOfLife3D() {
     };
   }, []);
 
-  return (
-    <div style={{ width: '100vw', height: '100vh', position: 'fixed', top: 0, left: 0, background: 'black', overflow: 'hidden' }}>
-      <Canvas
-        camera={{ position: [15, 15, 15], fov: 60 }}
-        style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1 }}
-      >
-        <ambientLight intensity={0.3} />
-        <directionalLight position={[10, 10, 5]} intensity={0.5} />
-        <SimulationGroup 
-          gridSize={gridSize}
-          logicGrid={logicGrid}
-          visualGrid={visualGrid}
-          isUserInteracting={isUserInteracting}
-          setIsUserInteracting={setIsUserInteracting}
-        />
-        <OrbitControls 
-          enablePan={true}
-          enableZoom={true}
-          enableRotate={true}
-          onStart={() => setIsUserInteracting(true)}
-          onEnd={() => setIsUserInteracting(false)}
-        />
-      </Canvas>
+  return (
+    <div style={{ width: '100vw', height: '100vh', position: 'fixed', top: 0, left: 0, background: 'black', overflow: 'hidden' }}>
+      <Canvas
+        camera={{ position: [15, 15, 15], fov: 60 }}
+        onCreated={(state) => { threeRef.current = state; }}
+        style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1 }}
+      >
+        <ambientLight intensity={0.3} />
+        <directionalLight position={[10, 10, 5]} intensity={0.5} />
+        <SimulationGroup 
+          dimensions={dimensions}
+          states={states}
+          logicGrid={logicGrid}
+          visuals={visuals}
+          isUserInteracting={isUserInteracting}
+          setIsUserInteracting={setIsUserInteracting}
+          editing={editing}
+          settled={recordingOffline}
+          renderMode={renderMode}
+          colors={colors}
+          sliceView={sliceView}
+          stamp={stamp}
+          onPaint={paintCells}
+          onStamp={stampPattern}
+        />
+        <Controls
+          editing={editing !== null}
+          onStart={() => setIsUserInteracting(true)}
+          onEnd={() => setIsUserInteracting(false)}
+        />
+        {recording && <RecordingDriver session={recording} generation={generation} onCapture={handleCapture} />}
+      </Canvas>
+
+      {/* Stats Overlay - Minimalist */}
+      <div style={{
+        position: 'absolute',
+        top: '16px',
+        left: '16px',
+        zIndex: 1000,
+        background: 'rgba(0, 0, 0, 0.6)',
+        backdropFilter: 'blur(12px)',
+        borderRadius: '8px',
+        padding: '12px',
+        border: '1px solid rgba(255, 255, 255, 0.1)',
+        color: 'white',
+        fontFamily: 'monospace',
+        fontSize: '14px',
+        pointerEvents: 'auto'
+      }}>
+        <div className="space-y-1">
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ color: '#9CA3AF' }}>Gen</span>
+            <span style={{ color: '#60A5FA' }}>{generation}</span>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ color: '#9CA3AF' }}>Live</span>
+            <span style={{ color: '#34D399' }}>{aliveCells}</span>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ color: '#9CA3AF' }}>{engineKind === 'sparse' ? 'View' : 'Grid'}</span>
+            <span style={{ color: '#A78BFA' }}>
+              {formatDimensions(dimensions)}
+              {engineKind === 'sparse' && ` at (${origin.join(', ')})`}
+            </span>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ color: '#9CA3AF' }}>Rule</span>
+            <span style={{ color: '#818CF8' }}>{formatRuleNotation(rule, neighborhood)}</span>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ color: '#9CA3AF' }}>Status</span>
+            <span style={{ color: cycle.kind === 'evolving' ? '#34D399' : '#F87171' }}>{describeCycle(cycle)}</span>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ color: '#9CA3AF' }}>Seed</span>
+            <span style={{ color: '#FBBF24' }}>{startCells || editedStart ? 'pattern' : seed}</span>
+          </div>
+          {linkStale && (
+            <div
+              title="The page's link starts the run without the cells edited after generation 0"
+              style={{ display: 'flex', alignItems: 'center', gap: '8px' }}
+            >
+              <span style={{ color: '#9CA3AF' }}>Link</span>
+              <span style={{ color: '#F87171' }}>without later edits</span>
+            </div>
+          )}
+          {!startCells && !editedStart && seedGenerator.type !== 'uniform' && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span style={{ color: '#9CA3AF' }}>Shape</span>
+              <span style={{ color: '#FBBF24' }}>{describeSeedGenerator(fitSeedGenerator(seedGenerator, dimensions))}</span>
+            </div>
+          )}
+          {neighborhood.type === 'custom' && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span style={{ color: '#9CA3AF' }}>Nbhd</span>
+              <span style={{ color: '#F472B6' }}>{describeNeighborhood(neighborhood)}</span>
+            </div>
+          )}
+          <ColorKey legend={colors.legend} />
+          {recording && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span style={{ color: '#9CA3AF' }}>Rec</span>
+              <span style={{ color: '#F87171' }}>● {recordedFrames}/{recording.options.frames} frames</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Slice View - 2D editor for the viewed layer, once the grid matches the new dimensions */}
+      {showSlice && logicGrid && logicGrid.dimensions.join() === dimensions.join() && (
+        <div style={{
+          position: 'absolute',
+          top: '16px',
+          right: '16px',
+          zIndex: 1000,
+          background: 'rgba(0, 0, 0, 0.6)',
+          backdropFilter: 'blur(12px)',
+          borderRadius: '8px',
+          padding: '12px',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          color: 'white',
+          fontFamily: 'monospace',
+          fontSize: '12px',
+          pointerEvents: 'auto'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', marginBottom: '8px' }}>
+            <span style={{ color: '#7DD3FC' }}>{AXIS_NAMES[slicePlane.axis].toLowerCase()} = {slicePlane.index}</span>
+            <span style={{ color: '#9CA3AF' }}>
+              {AXIS_NAMES[sliceAxes(slicePlane.axis)[0]].toLowerCase()} → {AXIS_NAMES[sliceAxes(slicePlane.axis)[1]].toLowerCase()} ↓
+            </span>
+          </div>
+          <SliceEditor grid={logicGrid} plane={slicePlane} colors={colors} onPaint={paintCells} />
+        </div>
+      )}
+
+      {/* Stats Charts */}
+      {showStats && latestStats && (
+        <div style={{
+          position: 'absolute',
+          bottom: '16px',
+          left: '16px',
+          zIndex: 1000,
+          background: 'rgba(0, 0, 0, 0.6)',
+          backdropFilter: 'blur(12px)',
+          borderRadius: '8px',
+          padding: '12px',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          color: 'white',
+          fontFamily: 'monospace',
+          fontSize: '12px',
+          pointerEvents: 'auto'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+            <span style={{ color: '#9CA3AF' }}>Last {chartRows.length} generations</span>
+            <button
+              onClick={exportStats}
+              title="Export every generation's stats as CSV"
+              style={{ fontFamily: 'monospace', fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+            >
+              CSV
+            </button>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+            <span style={{ color: '#34D399' }}>Population</span>
+            <span>{latestStats.population}</span>
+          </div>
+          <Sparkline lines={[{ values: chartRows.map(row => row.population), color: '#34D399' }]} />
+          <div style={{ display: 'flex', justifyContent: 'space-between', margin: '8px 0 4px' }}>
+            <span><span style={{ color: '#60A5FA' }}>Births</span> / <span style={{ color: '#F87171' }}>Deaths</span></span>
+            <span>{latestStats.births} / {latestStats.deaths}</span>
+          </div>
+          <Sparkline lines={[
+            { values: chartRows.map(row => row.births), color: '#60A5FA' },
+            { values: chartRows.map(row => row.deaths), color: '#F87171' }
+          ]} />
+          <div style={{ marginTop: '8px', display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: '8px', rowGap: '2px' }}>
+            <span style={{ color: '#9CA3AF' }}>Survivors</span>
+            <span>{latestStats.survivors}</span>
+            <span style={{ color: '#9CA3AF' }}>Bounds</span>
+            <span>
+              {latestStats.boundingBox
+                ? AXIS_NAMES.map((name, axis) => `${name.toLowerCase()} ${latestStats.boundingBox!.min[axis]}–${latestStats.boundingBox!.max[axis]}`).join(' ')
+                : '–'}
+            </span>
+            <span style={{ color: '#9CA3AF' }}>Center</span>
+            <span>{latestStats.centerOfMass ? `(${latestStats.centerOfMass.map(value => value.toFixed(1)).join(', ')})` : '–'}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Objects - the largest tracked objects and their latest splits and merges */}
+      {showObjects && (
+        <div style={{
+          position: 'absolute',
+          bottom: '16px',
+          right: '16px',
+          zIndex: 1000,
+          background: 'rgba(0, 0, 0, 0.6)',
+          backdropFilter: 'blur(12px)',
+          borderRadius: '8px',
+          padding: '12px',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          color: 'white',
+          fontFamily: 'monospace',
+          fontSize: '12px',
+          pointerEvents: 'auto'
+        }}>
+          {engineKind === 'sparse' ? (
+            <span style={{ color: '#9CA3AF' }}>Objects are tracked on the bounded grid only</span>
+          ) : !objectReport ? (
+            <span style={{ color: '#9CA3AF' }}>Finding objects…</span>
+          ) : (
+            <>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px', marginBottom: '8px' }}>
+                <span><span style={{ color: '#FBBF24' }}>{objectReport.count}</span> objects</span>
+                <span><span style={{ color: '#34D399' }}>{objectReport.moving}</span> moving</span>
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: 'auto auto auto auto auto', columnGap: '10px', rowGap: '2px' }}>
+                {['Object', 'Cells', 'Center', 'Velocity', 'Age'].map(heading => (
+                  <span key={heading} style={{ color: '#9CA3AF' }}>{heading}</span>
+                ))}
+                {objectReport.objects.slice(0, OBJECTS_LISTED).map(object => (
+                  <React.Fragment key={object.id}>
+                    <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                      <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: cssColor(samplePalette(objectPalette, object.id - 1)) }} />
+                      #{object.id}
+                    </span>
+                    <span>{object.size}</span>
+                    <span>({object.centroid.map(value => value.toFixed(1)).join(', ')})</span>
+                    <span style={{ color: object.moving ? '#34D399' : '#6B7280' }}>
+                      ({object.velocity.map(value => value.toFixed(2)).join(', ')})
+                    </span>
+                    <span>{generation - object.since}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+              {objectEvents.length > 0 && (
+                <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '2px', maxHeight: '96px', overflowY: 'auto' }}>
+                  {objectEvents.slice().reverse().map((event, i) => (
+                    <span key={i}>
+                      <span style={{ color: '#9CA3AF' }}>Gen {event.generation}</span>{' '}
+                      <span style={{ color: event.kind === 'split' ? '#F472B6' : '#60A5FA' }}>{OBJECT_EVENT_NAMES[event.kind]}</span>{' '}
+                      {event.from.map(id => `#${id}`).join(' ')} → {event.to.map(id => `#${id}`).join(' ')}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Main Controls - Floating Action Bar */}
+      <div style={{
+        position: 'absolute',
+        bottom: '16px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 1000,
+        maxWidth: '90vw',
+        pointerEvents: 'auto'
+      }}>
+        {linkError && <ErrorBanner message={linkError} onDismiss={() => setLinkError(null)} />}
+        {patternError && <ErrorBanner message={patternError} onDismiss={() => setPatternError(null)} />}
+        {recordingError && <ErrorBanner message={recordingError} onDismiss={() => setRecordingError(null)} />}
+        {simulationError && <ErrorBanner message={simulationError} onDismiss={() => setSimulationError(null)} />}
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '12px',
+          background: 'rgba(0, 0, 0, 0.7)',
+          backdropFilter: 'blur(12px)',
+          borderRadius: '9999px',
+          padding: '12px 16px',
+          border: '1px solid rgba(255, 255, 255, 0.1)',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)'
+        }}>
+          <button
+            onClick={toggleSimulation}
+            disabled={recordingOffline}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              background: recordingOffline ? 'rgba(107, 114, 128, 0.1)' : isRunning ? 'rgba(239, 68, 68, 0.2)' : 'rgba(34, 197, 94, 0.2)',
+              color: recordingOffline ? '#6B7280' : isRunning ? '#F87171' : '#4ADE80',
+              border: 'none',
+              cursor: recordingOffline ? 'not-allowed' : 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => !recordingOffline && (e.currentTarget.style.transform = 'scale(1.1)')}
+            onMouseLeave={(e) => !recordingOffline && (e.currentTarget.style.transform = 'scale(1)')}
+            title={recordingOffline ? "Recording steps the run" : (isRunning ? "Pause" : "Play") + keyHint('togglePlay')}
+          >
+            {isRunning ? "⏸" : "▶"}
+          </button>
+          
+          <button
+            onClick={stepBack}
+            disabled={isRunning || recordingOffline || generation <= history.first}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: isRunning || recordingOffline || generation <= history.first ? 'rgba(107, 114, 128, 0.1)' : 'rgba(59, 130, 246, 0.2)',
+              color: isRunning || recordingOffline || generation <= history.first ? '#6B7280' : '#60A5FA',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: isRunning || recordingOffline || generation <= history.first ? 'not-allowed' : 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => !isRunning && (e.currentTarget.style.transform = 'scale(1.1)')}
+            onMouseLeave={(e) => !isRunning && (e.currentTarget.style.transform = 'scale(1)')}
+            title={"Step Back" + keyHint('stepBack')}
+          >
+            ⏮
+          </button>
+          
+          <button
+            onClick={stepSimulation}
+            disabled={isRunning || recordingOffline}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: isRunning || recordingOffline ? 'rgba(107, 114, 128, 0.1)' : 'rgba(59, 130, 246, 0.2)',
+              color: isRunning || recordingOffline ? '#6B7280' : '#60A5FA',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: isRunning || recordingOffline ? 'not-allowed' : 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => !isRunning && (e.currentTarget.style.transform = 'scale(1.1)')}
+            onMouseLeave={(e) => !isRunning && (e.currentTarget.style.transform = 'scale(1)')}
+            title={"Step Forward" + keyHint('step')}
+          >
+            ⏭
+          </button>
+          
+          <div style={{ width: '1px', height: '32px', background: 'rgba(255, 255, 255, 0.2)' }}></div>
+          
+          <button
+            onClick={randomizeSimulation}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: 'rgba(234, 179, 8, 0.2)',
+              color: '#FACC15',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+            title={"Randomize" + keyHint('randomize')}
+          >
+            🎲
+          </button>
+          
+          <button
+            onClick={clearSimulation}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: 'rgba(239, 68, 68, 0.2)',
+              color: '#F87171',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+            title={"Clear All" + keyHint('clear')}
+          >
+            🗑
+          </button>
+
+          <button
+            onClick={() => setEditMode(!editMode)}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: editMode ? 'rgba(34, 197, 94, 0.35)' : 'rgba(34, 197, 94, 0.2)',
+              color: editMode ? '#86EFAC' : '#4ADE80',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+            title={(editMode ? "Stop Editing" : "Edit Cells") + keyHint('editMode')}
+          >
+            ✏
+          </button>
+
+          <button
+            onClick={() => setShowSlice(!showSlice)}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: showSlice ? 'rgba(14, 165, 233, 0.35)' : 'rgba(14, 165, 233, 0.2)',
+              color: showSlice ? '#7DD3FC' : '#38BDF8',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+            title={showSlice ? "Hide Slice View" : "Slice View"}
+          >
+            ◫
+          </button>
 
-      {/* Stats Overlay - Minimalist */}
-      <div style={{
-        position: 'absolute',
-        top: '16px',
-        left: '16px',
-        zIndex: 1000,
-        background: 'rgba(0, 0, 0, 0.6)',
-        backdropFilter: 'blur(12px)',
-        borderRadius: '8px',
-        padding: '12px',
-        border: '1px solid rgba(255, 255, 255, 0.1)',
-        color: 'white',
-        fontFamily: 'monospace',
-        fontSize: '14px',
-        pointerEvents: 'auto'
-      }}>
-        <div className="space-y-1">
-          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-            <span style={{ color: '#9CA3AF' }}>Gen</span>
-            <span style={{ color: '#60A5FA' }}>{generation}</span>
-          </div>
-          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-            <span style={{ color: '#9CA3AF' }}>Live</span>
-            <span style={{ color: '#34D399' }}>{aliveCells}</span>
-          </div>
-          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
-            <span style={{ color: '#9CA3AF' }}>Grid</span>
-            <span style={{ color: '#A78BFA' }}>{gridSize}³</span>
-          </div>
-        </div>
-      </div>
+          <button
+            onClick={() => setShowStats(!showStats)}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: showStats ? 'rgba(16, 185, 129, 0.35)' : 'rgba(16, 185, 129, 0.2)',
+              color: showStats ? '#6EE7B7' : '#34D399',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+            title={showStats ? "Hide Stats" : "Stats"}
+          >
+            📈
+          </button>
 
-      {/* Main Controls - Floating Action Bar */}
-      <div style={{
-        position: 'absolute',
-        bottom: '16px',
-        left: '50%',
-        transform: 'translateX(-50%)',
-        zIndex: 1000,
-        maxWidth: '90vw',
-        pointerEvents: 'auto'
-      }}>
-        <div style={{
-          display: 'flex',
-          alignItems: 'center',
-          gap: '12px',
-          background: 'rgba(0, 0, 0, 0.7)',
-          backdropFilter: 'blur(12px)',
-          borderRadius: '9999px',
-          padding: '12px 16px',
-          border: '1px solid rgba(255, 255, 255, 0.1)',
-          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.25)'
-        }}>
           <button
-            onClick={toggleSimulation}
+            onClick={() => setShowObjects(!showObjects)}
             style={{
               width: '48px',
               height: '48px',
               borderRadius: '50%',
+              background: showObjects ? 'rgba(245, 158, 11, 0.35)' : 'rgba(245, 158, 11, 0.2)',
+              color: showObjects ? '#FCD34D' : '#FBBF24',
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
               fontSize: '24px',
               transition: 'all 0.2s',
               transform: 'scale(1)',
-              background: isRunning ? 'rgba(239, 68, 68, 0.2)' : 'rgba(34, 197, 94, 0.2)',
-              color: isRunning ? '#F87171' : '#4ADE80',
               border: 'none',
               cursor: 'pointer',
               pointerEvents: 'auto'
             }}
             onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
             onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
-            title={isRunning ? "Pause" : "Play"}
+            title={showObjects ? "Hide Objects" : "Objects"}
           >
-            {isRunning ? "⏸" : "▶"}
+            ⬡
           </button>
-          
+
           <button
-            onClick={stepSimulation}
-            disabled={isRunning}
+            onClick={() => recording ? finishRecording() : startRecording()}
             style={{
               width: '48px',
               height: '48px',
               borderRadius: '50%',
-              background: isRunning ? 'rgba(107, 114, 128, 0.1)' : 'rgba(59, 130, 246, 0.2)',
-              color: isRunning ? '#6B7280' : '#60A5FA',
+              background: recording ? 'rgba(239, 68, 68, 0.35)' : 'rgba(239, 68, 68, 0.2)',
+              color: recording ? '#FCA5A5' : '#F87171',
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
@@ -441,26 +2499,26 @@ export default function GameOfLife3D() {
               transition: 'all 0.2s',
               transform: 'scale(1)',
               border: 'none',
-              cursor: isRunning ? 'not-allowed' : 'pointer',
+              cursor: 'pointer',
               pointerEvents: 'auto'
             }}
-            onMouseEnter={(e) => !isRunning && (e.currentTarget.style.transform = 'scale(1.1)')}
-            onMouseLeave={(e) => !isRunning && (e.currentTarget.style.transform = 'scale(1)')}
-            title="Step Forward"
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+            title={recording ? "Stop Recording and Save" : `Record ${RECORDING_FORMAT_NAMES[recordingOptions.format]}`}
           >
-            ⏭
+            {recording ? "⏹" : "⏺"}
           </button>
           
           <div style={{ width: '1px', height: '32px', background: 'rgba(255, 255, 255, 0.2)' }}></div>
           
           <button
-            onClick={() => resetSimulation(true)}
+            onClick={savePattern}
             style={{
               width: '48px',
               height: '48px',
               borderRadius: '50%',
-              background: 'rgba(234, 179, 8, 0.2)',
-              color: '#FACC15',
+              background: 'rgba(20, 184, 166, 0.2)',
+              color: '#2DD4BF',
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
@@ -473,19 +2531,19 @@ export default function GameOfLife3D() {
             }}
             onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
             onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
-            title="Randomize"
+            title="Save Pattern"
           >
-            🎲
+            💾
           </button>
           
           <button
-            onClick={clearSimulation}
+            onClick={() => patternInput.current?.click()}
             style={{
               width: '48px',
               height: '48px',
               borderRadius: '50%',
-              background: 'rgba(239, 68, 68, 0.2)',
-              color: '#F87171',
+              background: 'rgba(20, 184, 166, 0.2)',
+              color: '#2DD4BF',
               display: 'flex',
               alignItems: 'center',
               justifyContent: 'center',
@@ -498,10 +2556,22 @@ export default function GameOfLife3D() {
             }}
             onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
             onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
-            title="Clear All"
+            title="Load Pattern"
           >
-            🗑
+            📂
           </button>
+          <input
+            ref={patternInput}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Reset so choosing the same file again still fires onChange
+              e.target.value = '';
+              if (file) handlePatternFile(file);
+            }}
+          />
           
           <div style={{ width: '1px', height: '32px', background: 'rgba(255, 255, 255, 0.2)' }}></div>
           
@@ -525,11 +2595,153 @@ export default function GameOfLife3D() {
             }}
             onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
             onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
-            title="Settings"
+            title={"Settings" + keyHint('settings')}
           >
             ⚙
           </button>
+
+          <button
+            onClick={() => setShowHelp(!showHelp)}
+            style={{
+              width: '48px',
+              height: '48px',
+              borderRadius: '50%',
+              background: showHelp ? 'rgba(107, 114, 128, 0.5)' : 'rgba(107, 114, 128, 0.3)',
+              color: '#D1D5DB',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: '24px',
+              transition: 'all 0.2s',
+              transform: 'scale(1)',
+              border: 'none',
+              cursor: 'pointer',
+              pointerEvents: 'auto'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.transform = 'scale(1.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.transform = 'scale(1)'}
+            title={"Keyboard Shortcuts" + keyHint('help')}
+          >
+            ⌨
+          </button>
         </div>
+
+        {/* Slice plane picker for edit mode and the slice view */}
+        {(editMode || showSlice) && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            marginTop: '8px',
+            background: 'rgba(0, 0, 0, 0.7)',
+            backdropFilter: 'blur(12px)',
+            borderRadius: '9999px',
+            padding: '8px 16px',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            color: '#9CA3AF'
+          }}>
+            <span>Layer</span>
+            {AXIS_NAMES.map((name, axis) => (
+              <button
+                key={name}
+                onClick={() => {
+                  setSliceAxis(axis);
+                  setSliceIndex(Math.floor(dimensions[axis] / 2));
+                }}
+                style={{
+                  fontFamily: 'monospace',
+                  fontSize: '12px',
+                  background: axis === slicePlane.axis ? 'rgba(34, 197, 94, 0.35)' : 'rgba(107, 114, 128, 0.3)',
+                  color: axis === slicePlane.axis ? '#86EFAC' : '#D1D5DB',
+                  border: 'none',
+                  borderRadius: '8px',
+                  padding: '4px 8px',
+                  cursor: 'pointer'
+                }}
+              >
+                {name}
+              </button>
+            ))}
+            <input
+              type="range"
+              min="0"
+              max={dimensions[slicePlane.axis] - 1}
+              step="1"
+              value={slicePlane.index}
+              onChange={(e) => setSliceIndex(parseInt(e.target.value))}
+              style={{
+                flex: 1,
+                height: '8px',
+                background: 'rgba(107, 114, 128, 0.5)',
+                borderRadius: '8px',
+                appearance: 'none',
+                cursor: 'pointer',
+                pointerEvents: 'auto'
+              }}
+            />
+            <span style={{ color: '#4ADE80' }}>{AXIS_NAMES[slicePlane.axis].toLowerCase()} = {slicePlane.index}</span>
+            {showSlice && (['fade', 'only'] as SliceFocus[]).map(focus => (
+              <button
+                key={focus}
+                onClick={() => setSliceFocus(focus)}
+                title={focus === 'fade' ? 'Fade cells off the slice' : 'Show only the slice'}
+                style={{
+                  fontFamily: 'monospace',
+                  fontSize: '12px',
+                  background: focus === sliceFocus ? 'rgba(14, 165, 233, 0.35)' : 'rgba(107, 114, 128, 0.3)',
+                  color: focus === sliceFocus ? '#7DD3FC' : '#D1D5DB',
+                  border: 'none',
+                  borderRadius: '8px',
+                  padding: '4px 8px',
+                  cursor: 'pointer'
+                }}
+              >
+                {focus === 'fade' ? 'Fade' : 'Only'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Timeline of the generations kept in the history */}
+        {history.last > history.first && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            marginTop: '8px',
+            background: 'rgba(0, 0, 0, 0.7)',
+            backdropFilter: 'blur(12px)',
+            borderRadius: '9999px',
+            padding: '8px 16px',
+            border: '1px solid rgba(255, 255, 255, 0.1)',
+            fontFamily: 'monospace',
+            fontSize: '12px',
+            color: '#9CA3AF'
+          }}>
+            <span>{history.first}</span>
+            <input
+              type="range"
+              min={history.first}
+              max={history.last}
+              step="1"
+              value={generation}
+              onChange={(e) => seekGeneration(parseInt(e.target.value))}
+              title={`Generation ${generation}`}
+              style={{
+                flex: 1,
+                height: '8px',
+                background: 'rgba(107, 114, 128, 0.5)',
+                borderRadius: '8px',
+                appearance: 'none',
+                cursor: 'pointer',
+                pointerEvents: 'auto'
+              }}
+            />
+            <span>{history.last}</span>
+          </div>
+        )}
       </div>
 
       {/* Combined Settings Panel - Center Overlay */}
@@ -605,31 +2817,51 @@ export default function GameOfLife3D() {
                 {/* Grid Size */}
                 <div>
                   <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
-                    <span>Grid Size</span>
+                    <span>{engineKind === 'sparse' ? 'View Size' : 'Grid Size'}</span>
                     <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#A855F7' }}>
-                      {gridSize}³
+                      {formatDimensions(dimensions)}
                     </span>
                   </label>
-                  <input 
-                    type="range" 
-                    min="5" 
-                    max="50" 
-                    value={gridSize}
-                    onChange={(e) => {
-                      const newSize = parseInt(e.target.value);
-                      if (newSize > 40) console.warn('Warning: Grid sizes above 40 may cause performance issues.');
-                      setGridSize(newSize);
-                    }}
-                    style={{
-                      width: '100%',
-                      height: '12px',
-                      background: 'rgba(107, 114, 128, 0.5)',
-                      borderRadius: '8px',
-                      appearance: 'none',
-                      cursor: 'pointer',
-                      pointerEvents: 'auto'
-                    }}
-                  />
+                  <label style={{ fontSize: '12px', color: '#9CA3AF', display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={cubeGrid}
+                      onChange={(e) => {
+                        setCubeGrid(e.target.checked);
+                        if (e.target.checked) {
+                          setStartCells(null);
+                          setDimensions(([width]) => [width, width, width]);
+                        }
+                      }}
+                    />
+                    <span>Cube</span>
+                  </label>
+                  {(cubeGrid ? ['Size'] : ['Width', 'Height', 'Depth']).map((axisLabel, axis) => (
+                    <div key={axisLabel} style={{ marginBottom: '8px' }}>
+                      {!cubeGrid && (
+                        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: '#9CA3AF', marginBottom: '4px' }}>
+                          <span>{axisLabel}</span>
+                          <span style={{ fontFamily: 'monospace' }}>{dimensions[axis]}</span>
+                        </div>
+                      )}
+                      <input 
+                        type="range" 
+                        min={cubeGrid ? MIN_CUBE_LENGTH : 1} 
+                        max={cubeGrid ? MAX_CUBE_LENGTH : MAX_TYPED_LENGTH} 
+                        value={dimensions[axis]}
+                        onChange={(e) => setAxisDimension(axis, parseInt(e.target.value))}
+                        style={{
+                          width: '100%',
+                          height: '12px',
+                          background: 'rgba(107, 114, 128, 0.5)',
+                          borderRadius: '8px',
+                          appearance: 'none',
+                          cursor: 'pointer',
+                          pointerEvents: 'auto'
+                        }}
+                      />
+                    </div>
+                  ))}
                 </div>
                 
                 {/* Initial Density */}
@@ -658,6 +2890,44 @@ export default function GameOfLife3D() {
                     }}
                   />
                 </div>
+
+                {/* Seed Shape */}
+                <SeedGeneratorControl generator={seedGenerator} dimensions={dimensions} onChange={changeSeedGenerator} />
+
+                {/* Seed */}
+                <div>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+                    <span>Seed</span>
+                    <button
+                      onClick={randomizeSimulation}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      New
+                    </button>
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={seedText}
+                    onChange={(e) => handleSeedTextChange(e.target.value)}
+                    onBlur={() => !seedError && setSeedText(String(seed))}
+                    spellCheck={false}
+                    style={{
+                      width: '100%',
+                      boxSizing: 'border-box',
+                      fontFamily: 'monospace',
+                      fontSize: '14px',
+                      background: 'rgba(107, 114, 128, 0.3)',
+                      color: seedError ? '#F87171' : '#FBBF24',
+                      border: `1px solid ${seedError ? 'rgba(239, 68, 68, 0.5)' : 'rgba(255, 255, 255, 0.1)'}`,
+                      borderRadius: '8px',
+                      padding: '8px 12px'
+                    }}
+                  />
+                  {seedError && (
+                    <div style={{ fontSize: '12px', color: '#F87171', marginTop: '6px' }}>{seedError}</div>
+                  )}
+                </div>
                 
                 {/* Speed */}
                 <div>
@@ -669,8 +2939,8 @@ export default function GameOfLife3D() {
                   </label>
                   <input 
                     type="range" 
-                    min="50" 
-                    max="1000" 
+                    min={MIN_SPEED} 
+                    max={MAX_SPEED} 
                     step="10"
                     value={speed}
                     onChange={(e) => setSpeed(parseInt(e.target.value))}
@@ -685,6 +2955,86 @@ export default function GameOfLife3D() {
                     }}
                   />
                 </div>
+
+                {/* Stagnation */}
+                <div>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <span>When Stagnant</span>
+                    <select
+                      value={stagnationAction}
+                      onChange={(e) => setStagnationAction(e.target.value as StagnationAction)}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      {(Object.keys(STAGNATION_ACTION_NAMES) as StagnationAction[]).map(action => (
+                        <option key={action} value={action}>{STAGNATION_ACTION_NAMES[action]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {/* Render mode */}
+                <div>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <span>Draw Cells As</span>
+                    <select
+                      value={renderMode}
+                      onChange={(e) => setRenderMode(e.target.value as RenderMode)}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      {(Object.keys(RENDER_MODE_NAMES) as RenderMode[]).map(mode => (
+                        <option key={mode} value={mode}>{RENDER_MODE_NAMES[mode]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {/* Cell colors */}
+                <div>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <span>Color By</span>
+                    <select
+                      value={colorMode}
+                      onChange={(e) => chooseColorMode(e.target.value as ColorMode)}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      {(Object.keys(COLOR_MODE_NAMES) as ColorMode[]).map(mode => (
+                        <option key={mode} value={mode}>{COLOR_MODE_NAMES[mode]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {colorMode === 'position' && (
+                    <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '8px' }}>
+                      <span>Along</span>
+                      <select
+                        value={colorAxis}
+                        onChange={(e) => setColorAxis(parseInt(e.target.value))}
+                        style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                      >
+                        {AXIS_NAMES.map((name, axis) => <option key={name} value={axis}>{name}</option>)}
+                      </select>
+                    </label>
+                  )}
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginTop: '8px' }}>
+                    <span>Palette</span>
+                    <select
+                      value={palette}
+                      onChange={(e) => setPalette(e.target.value as PaletteId)}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      {palettesFor(colorMode).map(id => (
+                        <option key={id} value={id}>{PALETTES[id].name}{PALETTES[id].colorblindSafe ? ' (colorblind-safe)' : ''}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {/* Recording */}
+                <RecordingControl
+                  options={recordingOptions}
+                  webmSupported={webmSupported}
+                  disabled={recording !== null}
+                  onChange={setRecordingOptions}
+                />
               </div>
             </div>
 
@@ -696,28 +3046,145 @@ export default function GameOfLife3D() {
               </h3>
 
               <div style={{ display: 'flex', flexDirection: 'column', gap: '24px' }}>
-                {/* Periodic Boundaries Info */}
-                <div style={{ textAlign: 'center' }}>
-                  <div style={{ display: 'inline-flex', alignItems: 'center', gap: '8px', background: 'rgba(99, 102, 241, 0.2)', borderRadius: '8px', padding: '8px 12px' }}>
-                    <span style={{ color: '#818CF8', fontSize: '14px' }}>🌐</span>
-                    <span style={{ fontSize: '14px', color: '#A5B4FC' }}>Periodic Boundaries</span>
+                {/* World */}
+                <div>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+                    <span>World</span>
+                    <select
+                      value={engineKind}
+                      onChange={(e) => setEngineKind(e.target.value as EngineKind)}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      {(Object.keys(ENGINE_NAMES) as EngineKind[]).map(kind => (
+                        <option key={kind} value={kind}>{ENGINE_NAMES[kind]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {engineKind === 'sparse' && (
+                    <div style={{ fontSize: '12px', color: rangesContain(rule.birth, 0) ? '#F87171' : '#9CA3AF' }}>
+                      {rangesContain(rule.birth, 0)
+                        ? 'Rules with birth on 0 neighbors would fill an unbounded world; pick another rule'
+                        : 'Patterns travel without limit; the view follows the live cells'}
+                    </div>
+                  )}
+                </div>
+
+                {/* Boundaries */}
+                <div style={{ opacity: engineKind === 'sparse' ? 0.5 : 1 }}>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+                    <span style={{ color: '#818CF8' }}>🌐</span>
+                    <span>Boundaries</span>
+                    {engineKind === 'sparse' && <span style={{ fontSize: '12px', color: '#9CA3AF' }}>(none when unbounded)</span>}
+                  </label>
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px' }}>
+                    {boundaries.map((mode, axis) => (
+                      <div key={axis}>
+                        <div style={{ fontSize: '12px', color: '#9CA3AF', marginBottom: '4px' }}>{'XYZ'.charAt(axis)}</div>
+                        <select
+                          value={mode}
+                          disabled={engineKind === 'sparse'}
+                          onChange={(e) => setAxisBoundary(axis, e.target.value as BoundaryMode)}
+                          style={{ width: '100%', fontSize: '12px', background: 'rgba(99, 102, 241, 0.2)', color: '#A5B4FC', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                        >
+                          {BOUNDARY_MODES.map(option => (
+                            <option key={option} value={option}>{BOUNDARY_MODE_NAMES[option]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
                   </div>
                 </div>
                 
-                {/* Birth Rule */}
+                {/* Rule Notation */}
                 <div>
                   <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
-                    <span>Birth Neighbors</span>
-                    <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#34D399' }}>
-                      {birthRule}
+                    <span>Rule</span>
+                    <select
+                      value={RULE_PRESETS.find(preset => preset.notation === formatRuleNotation(rule, neighborhood))?.notation ?? ''}
+                      onChange={(e) => {
+                        if (!e.target.value) return;
+                        const preset = parseRuleNotation(e.target.value);
+                        applyRule(preset.rule, preset.neighborhood ?? MOORE_NEIGHBORHOOD);
+                      }}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      <option value="">Custom</option>
+                      {RULE_PRESETS.map(preset => (
+                        <option key={preset.notation} value={preset.notation}>{preset.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <input
+                    type="text"
+                    value={ruleText}
+                    onChange={(e) => handleRuleTextChange(e.target.value)}
+                    onBlur={() => !ruleError && setRuleText(formatRuleNotation(rule, neighborhood))}
+                    placeholder="B5-7/S4-6"
+                    spellCheck={false}
+                    style={{
+                      width: '100%',
+                      boxSizing: 'border-box',
+                      fontFamily: 'monospace',
+                      fontSize: '14px',
+                      background: 'rgba(107, 114, 128, 0.3)',
+                      color: ruleError ? '#F87171' : '#818CF8',
+                      border: `1px solid ${ruleError ? 'rgba(239, 68, 68, 0.5)' : 'rgba(255, 255, 255, 0.1)'}`,
+                      borderRadius: '8px',
+                      padding: '8px 12px'
+                    }}
+                  />
+                  {ruleError && (
+                    <div style={{ fontSize: '12px', color: '#F87171', marginTop: '6px' }}>{ruleError}</div>
+                  )}
+                </div>
+
+                {/* Pattern Library */}
+                <div>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+                    <span>Pattern Library</span>
+                    <select
+                      value={stamp?.id ?? ''}
+                      onChange={(e) => {
+                        const pattern = PATTERN_LIBRARY.find(entry => entry.id === e.target.value);
+                        if (pattern) chooseLibraryPattern(pattern);
+                      }}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer', maxWidth: '60%' }}
+                    >
+                      <option value="">Choose…</option>
+                      {RULE_PRESETS.filter(preset => PATTERN_LIBRARY.some(pattern => pattern.rule === preset.notation)).map(preset => (
+                        <optgroup key={preset.notation} label={`${preset.name} (${preset.notation})`}>
+                          {PATTERN_LIBRARY.filter(pattern => pattern.rule === preset.notation).map(pattern => (
+                            <option key={pattern.id} value={pattern.id} title={pattern.description}>
+                              {pattern.name} · {PATTERN_KIND_NAMES[patternKind(pattern)]}{pattern.period > 1 ? ` p${pattern.period}` : ''}
+                            </option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </label>
+                  <div style={{ fontSize: '12px', color: '#9CA3AF' }}>
+                    {stamp
+                      ? `${stamp.description}. Click a cell to place it.`
+                      : editMode
+                        ? 'Switches to the pattern\'s rule; click a cell to place it.'
+                        : 'Switches to the pattern\'s rule and starts from it alone, centered.'}
+                  </div>
+                </div>
+
+                {/* Generations States */}
+                <div>
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+                    <span>States</span>
+                    <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#C084FC' }}>
+                      {ruleStates(rule) === 2 ? 'Life' : ruleStates(rule)}
                     </span>
                   </label>
                   <input 
                     type="range" 
-                    min="1" 
-                    max="26" 
-                    value={birthRule}
-                    onChange={(e) => setBirthRule(parseInt(e.target.value))}
+                    min="2" 
+                    max="25" 
+                    value={Math.min(25, ruleStates(rule))}
+                    onChange={(e) => applyRule(createRule(rule.birth, rule.survival, parseInt(e.target.value)))}
                     style={{
                       width: '100%',
                       height: '12px',
@@ -729,77 +3196,140 @@ export default function GameOfLife3D() {
                     }}
                   />
                 </div>
-                
-                {/* Survival Range */}
+
+                {/* Neighborhood */}
                 <div>
-                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', marginBottom: '12px', display: 'block' }}>Survival Range</label>
-                  
-                  {/* Minimum */}
-                  <div style={{ marginBottom: '16px' }}>
-                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
-                      <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Minimum</span>
-                      <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#FACC15' }}>
-                        {survivalMin}
-                      </span>
-                    </div>
-                    <input 
-                      type="range" 
-                      min="1" 
-                      max="26" 
-                      value={survivalMin}
-                      onChange={(e) => {
-                        const val = parseInt(e.target.value);
-                        setSurvivalMin(val);
-                        if (val > survivalMax) setSurvivalMax(val);
-                      }}
-                      style={{
-                        width: '100%',
-                        height: '12px',
-                        background: 'rgba(107, 114, 128, 0.5)',
-                        borderRadius: '8px',
-                        appearance: 'none',
-                        cursor: 'pointer',
-                        pointerEvents: 'auto'
-                      }}
-                    />
+                  <label style={{ fontSize: '14px', fontWeight: '500', color: '#D1D5DB', display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+                    <span>Neighborhood</span>
+                    <select
+                      value={neighborhood.type}
+                      onChange={(e) => changeNeighborhoodType(e.target.value as NeighborhoodType)}
+                      style={{ fontSize: '12px', background: 'rgba(107, 114, 128, 0.5)', color: '#D1D5DB', border: 'none', borderRadius: '8px', padding: '4px 8px', cursor: 'pointer' }}
+                    >
+                      {(Object.keys(NEIGHBORHOOD_NAMES) as NeighborhoodType[]).map(type => (
+                        <option key={type} value={type}>{NEIGHBORHOOD_NAMES[type]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div style={{ fontSize: '12px', color: '#9CA3AF', marginBottom: '8px' }}>
+                    {neighborhoodSize(neighborhood)} neighbors
                   </div>
-                  
-                  {/* Maximum */}
-                  <div>
-                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
-                      <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Maximum</span>
-                      <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#FB923C' }}>
-                        {survivalMax}
-                      </span>
+
+                  {'radius' in neighborhood && (
+                    <div>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+                        <span style={{ fontSize: '12px', color: '#9CA3AF' }}>Radius</span>
+                        <span style={{ fontFamily: 'monospace', fontSize: '14px', background: 'rgba(107, 114, 128, 0.5)', borderRadius: '8px', padding: '4px 12px', color: '#F472B6' }}>
+                          {neighborhood.radius}
+                        </span>
+                      </div>
+                      <input
+                        type="range"
+                        min="1"
+                        max={MAX_NEIGHBORHOOD_RADIUS}
+                        value={neighborhood.radius}
+                        onChange={(e) => applyNeighborhood({ type: neighborhood.type, radius: parseInt(e.target.value) })}
+                        style={{
+                          width: '100%',
+                          height: '12px',
+                          background: 'rgba(107, 114, 128, 0.5)',
+                          borderRadius: '8px',
+                          appearance: 'none',
+                          cursor: 'pointer',
+                          pointerEvents: 'auto'
+                        }}
+                      />
                     </div>
-                    <input 
-                      type="range" 
-                      min="1" 
-                      max="26" 
-                      value={survivalMax}
-                      onChange={(e) => {
-                        const val = parseInt(e.target.value);
-                        setSurvivalMax(val);
-                        if (val < survivalMin) setSurvivalMin(val);
-                      }}
-                      style={{
-                        width: '100%',
-                        height: '12px',
-                        background: 'rgba(107, 114, 128, 0.5)',
-                        borderRadius: '8px',
-                        appearance: 'none',
-                        cursor: 'pointer',
-                        pointerEvents: 'auto'
-                      }}
-                    />
-                  </div>
+                  )}
+
+                  {neighborhood.type === 'custom' && (
+                    <div>
+                      <textarea
+                        value={offsetsText}
+                        onChange={(e) => handleOffsetsTextChange(e.target.value)}
+                        placeholder="1,0,0; -1,0,0; 0,1,0"
+                        spellCheck={false}
+                        rows={3}
+                        style={{
+                          width: '100%',
+                          boxSizing: 'border-box',
+                          fontFamily: 'monospace',
+                          fontSize: '12px',
+                          background: 'rgba(107, 114, 128, 0.3)',
+                          color: offsetsError ? '#F87171' : '#F472B6',
+                          border: `1px solid ${offsetsError ? 'rgba(239, 68, 68, 0.5)' : 'rgba(255, 255, 255, 0.1)'}`,
+                          borderRadius: '8px',
+                          padding: '8px 12px',
+                          resize: 'vertical'
+                        }}
+                      />
+                      {offsetsError && (
+                        <div style={{ fontSize: '12px', color: '#F87171', marginTop: '6px' }}>{offsetsError}</div>
+                      )}
+                    </div>
+                  )}
                 </div>
+
+                <CountRangeControl
+                  label="Birth Neighbors"
+                  ranges={rule.birth}
+                  maxCount={neighborhoodSize(neighborhood)}
+                  minColor="#34D399"
+                  maxColor="#10B981"
+                  onChange={(birth) => applyRule(createRule(birth, rule.survival, ruleStates(rule)))}
+                />
+
+                <CountRangeControl
+                  label="Survival Range"
+                  ranges={rule.survival}
+                  maxCount={neighborhoodSize(neighborhood)}
+                  minColor="#FACC15"
+                  maxColor="#FB923C"
+                  onChange={(survival) => applyRule(createRule(rule.birth, survival, ruleStates(rule)))}
+                />
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {/* Keyboard Shortcuts */}
+      {showHelp && (
+        <ShortcutHelp
+          bindings={keyBindings}
+          rebinding={rebinding}
+          onRebind={setRebinding}
+          onReset={() => changeKeyBindings({ ...DEFAULT_KEY_BINDINGS })}
+          onClose={() => {
+            setShowHelp(false);
+            setRebinding(null);
+          }}
+        />
+      )}
+
+      {/* Command Palette */}
+      {showPalette && (
+        <CommandPalette
+          actions={[
+            ...COMMAND_IDS.filter(command => command !== 'commandPalette').map(command => ({
+              title: COMMAND_NAMES[command],
+              combo: keyBindings[command],
+              run: () => runCommand(command)
+            })),
+            ...RULE_PRESETS.map(preset => ({
+              title: `Rule: ${preset.name}`,
+              keywords: `${preset.notation} preset`,
+              run: () => {
+                const parsed = parseRuleNotation(preset.notation);
+                applyRule(parsed.rule, parsed.neighborhood ?? MOORE_NEIGHBORHOOD);
+              }
+            }))
+          ]}
+          onTyped={runTypedCommand}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+
       <style jsx>{`
         input[type="range"]::-webkit-slider-thumb {
           appearance: none;
@@ -0,0 +1,384 @@
+/**
+ * Batch Runner
+ *
+ * Runs simulations headlessly for exploring rules: every combination of a
+ * sweep's rules, sizes, densities and seeds is run for a number of
+ * generations and reduced to a one-line summary (final population,
+ * extinction generation, detected period). scripts/batch.ts is the command
+ * line front end; this module has no Node dependencies so it can be tested
+ * and reused directly.
+ *
+ * A run stops early once it settles into a cycle, since stepping is
+ * deterministic and it can never leave it.
+ */
+
+import { normalizeBoundaries, type AxisBoundaries, type BoundaryMode } from './boundaries';
+import { CycleDetector, DEFAULT_MAX_PERIOD, type CycleStatus } from './cycleDetector';
+import { normalizeDimensions, type GridDimensions } from './flatGrid';
+import { GameOfLife3D } from './gameOfLife3D';
+import { measureGrid } from './generationStats';
+import { parseSeed } from './random';
+import { RULE_PRESETS, formatRuleNotation, parseRuleNotation } from './rules';
+
+export type BatchFormat = 'json' | 'csv';
+
+/** One simulation to run */
+export interface BatchRun {
+  /** Rule notation, optionally with a neighborhood code (see ./rules) */
+  rule: string;
+  size: GridDimensions;
+  density: number;
+  seed: number;
+  generations: number;
+  boundaries: AxisBoundaries;
+  /** Longest period to detect (default DEFAULT_MAX_PERIOD) */
+  maxPeriod?: number;
+}
+
+/** Every combination of these values is run */
+export interface BatchSweep {
+  rules: string[];
+  sizes: GridDimensions[];
+  densities: number[];
+  seeds: number[];
+  generations: number;
+  boundaries: AxisBoundaries;
+  maxPeriod?: number;
+}
+
+export interface BatchOptions extends BatchSweep {
+  format: BatchFormat;
+  /** File to write the summaries to, or null for standard output */
+  out: string | null;
+  help: boolean;
+}
+
+export interface RunSummary {
+  /** The rule in canonical notation */
+  rule: string;
+  /** Width, height and depth, e.g. "32x32x32" */
+  size: string;
+  boundaries: string;
+  density: number;
+  seed: number;
+  /** Generations requested */
+  generations: number;
+  /** Generations actually stepped; fewer when the run settled early */
+  generationsRun: number;
+  finalPopulation: number;
+  initialPopulation: number;
+  peakPopulation: number;
+  /** The run's status when it stopped: evolving, extinct, stillLife or oscillator */
+  status: CycleStatus['kind'];
+  /** First generation with no cells, or null if the run never died out */
+  extinctionGeneration: number | null;
+  /** Period of the cycle the run settled into (1 for a still life or extinction) */
+  period: number | null;
+  /** Generation the cycle started at */
+  cycleStart: number | null;
+}
+
+export const SUMMARY_COLUMNS: (keyof RunSummary)[] = [
+  'rule', 'size', 'boundaries', 'density', 'seed', 'generations', 'generationsRun',
+  'initialPopulation', 'peakPopulation', 'finalPopulation',
+  'status', 'extinctionGeneration', 'period', 'cycleStart'
+];
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  rules: ['B4/S4-5'],
+  sizes: [[20, 20, 20]],
+  densities: [0.1],
+  seeds: [1],
+  generations: 500,
+  boundaries: ['periodic', 'periodic', 'periodic'],
+  format: 'json',
+  out: null,
+  help: false
+};
+
+export const BATCH_USAGE = `Usage: npm run batch -- [options]
+
+Runs headless simulations and writes one summary per run. List options take
+comma-separated values or a start:end:step range; every combination of the
+rules, sizes, densities and seeds is run.
+
+Options:
+  --rule <notation>       Rule to run, e.g. B4/S4-5 or B4/S4/C5/N2; repeat for a sweep
+  --presets               Add every built-in rule preset to the sweep
+  --size <n|WxHxD>        Grid size, e.g. 32 or 40x40x10; repeat for a sweep (default 20)
+  --density <list>        Initial live fraction, e.g. 0.1 or 0.05:0.3:0.05 (default 0.1)
+  --seed <list>           Random seeds, e.g. 1,2,3 or 1:100 (default 1)
+  --generations <n>       Generations to run (default 500)
+  --boundaries <modes>    periodic, dead, alive or mirror, or one per axis as x,y,z
+  --max-period <n>        Longest period to detect (default ${DEFAULT_MAX_PERIOD})
+  --format <json|csv>     Output format (default json, or csv for a .csv --out file)
+  --out <file>            Write to a file instead of standard output
+  --help                  Show this message
+`;
+
+/** Options that take a value, as --name value or --name=value */
+const VALUE_OPTIONS = [
+  '--rule', '--size', '--density', '--seed', '--generations', '--boundaries', '--max-period', '--format', '--out'
+];
+
+/**
+ * Parses a whole number option, checking it lies within a range
+ */
+function parseWholeNumber(name: string, text: string, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  const value = Number(text);
+  if (!/^\s*\d+\s*$/.test(text) || value < min || value > max) {
+    throw new Error(`Invalid ${name} "${text}": expected a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Parses a comma-separated list of numbers, where each item may also be a
+ * start:end or start:end:step range (inclusive; the step defaults to 1)
+ */
+export function parseNumberList(text: string, parse: (item: string) => number): number[] {
+  const values: number[] = [];
+
+  for (const item of text.split(',').map(part => part.trim())) {
+    const bounds = item.split(':');
+    if (bounds.length === 1) {
+      values.push(parse(item));
+      continue;
+    }
+    if (bounds.length > 3) {
+      throw new Error(`Invalid range "${item}": expected start:end or start:end:step`);
+    }
+
+    const start = parse(bounds[0]);
+    const end = parse(bounds[1]);
+    const step = bounds.length === 3 ? Number(bounds[2]) : 1;
+    if (!isFinite(step) || step <= 0) {
+      throw new Error(`Invalid range "${item}": the step must be a positive number`);
+    }
+    if (end < start) {
+      throw new Error(`Invalid range "${item}": the end is before the start`);
+    }
+
+    // Round away the drift of adding fractional steps, so 0.1:0.3:0.1 ends at 0.3
+    const count = Math.floor((end - start) / step + 1e-9);
+    for (let i = 0; i <= count; i++) {
+      values.push(Number((start + i * step).toPrecision(12)));
+    }
+  }
+
+  return values;
+}
+
+export function parseDensity(text: string): number {
+  const value = Number(text);
+  if (text.trim() === '' || !isFinite(value) || value < 0 || value > 1) {
+    throw new Error(`Invalid density "${text}": expected a number from 0 to 1`);
+  }
+  return value;
+}
+
+/**
+ * Parses "32" (a cube) or "40x40x10"
+ */
+export function parseSize(text: string): GridDimensions {
+  const parts = text.toLowerCase().split('x');
+  if (parts.length !== 1 && parts.length !== 3) {
+    throw new Error(`Invalid size "${text}": expected one number or WIDTHxHEIGHTxDEPTH`);
+  }
+  const lengths = parts.map(part => parseWholeNumber('size', part, 1));
+  return normalizeDimensions(lengths.length === 1 ? lengths[0] : [lengths[0], lengths[1], lengths[2]]);
+}
+
+/**
+ * Parses one boundary mode, or three comma-separated modes for x, y and z
+ */
+export function parseBoundaries(text: string): AxisBoundaries {
+  const modes = text.split(',').map(part => part.trim()) as BoundaryMode[];
+  if (modes.length === 1) return normalizeBoundaries(modes[0]);
+  if (modes.length !== 3) {
+    throw new Error(`Invalid boundaries "${text}": expected one mode or three comma-separated modes`);
+  }
+  return normalizeBoundaries([modes[0], modes[1], modes[2]]);
+}
+
+/**
+ * Parses command line arguments (without the node and script paths)
+ */
+export function parseBatchArgs(argv: string[]): BatchOptions {
+  const options: BatchOptions = { ...DEFAULT_BATCH_OPTIONS };
+  const rules: string[] = [];
+  const sizes: GridDimensions[] = [];
+  let format: BatchFormat | null = null;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const equals = arg.indexOf('=');
+    const name = equals === -1 ? arg : arg.slice(0, equals);
+
+    if (name === '--help' || name === '-h') {
+      options.help = true;
+      continue;
+    }
+    if (name === '--presets') {
+      RULE_PRESETS.forEach(preset => rules.push(preset.notation));
+      continue;
+    }
+
+    if (VALUE_OPTIONS.indexOf(name) === -1) {
+      throw new Error(`Unknown option ${name} (see --help)`);
+    }
+
+    let value: string;
+    if (equals !== -1) {
+      value = arg.slice(equals + 1);
+    } else if (i + 1 < argv.length) {
+      value = argv[++i];
+    } else {
+      throw new Error(`Missing value for ${name}`);
+    }
+
+    switch (name) {
+      case '--rule':
+        parseRuleNotation(value);
+        rules.push(value.trim());
+        break;
+      case '--size':
+        sizes.push(parseSize(value));
+        break;
+      case '--density':
+        options.densities = parseNumberList(value, parseDensity);
+        break;
+      case '--seed':
+        options.seeds = parseNumberList(value, parseSeed);
+        break;
+      case '--generations':
+        options.generations = parseWholeNumber('generation count', value, 1);
+        break;
+      case '--boundaries':
+        options.boundaries = parseBoundaries(value);
+        break;
+      case '--max-period':
+        options.maxPeriod = parseWholeNumber('maximum period', value, 1);
+        break;
+      case '--format':
+        if (value !== 'json' && value !== 'csv') {
+          throw new Error(`Unknown format "${value}": expected json or csv`);
+        }
+        format = value;
+        break;
+      case '--out':
+        options.out = value;
+        break;
+    }
+  }
+
+  if (rules.length) options.rules = rules;
+  if (sizes.length) options.sizes = sizes;
+  options.format = format ?? (options.out && /\.csv$/i.test(options.out) ? 'csv' : 'json');
+  return options;
+}
+
+/**
+ * Lists every run of a sweep: rules vary slowest and seeds fastest
+ */
+export function expandSweep(sweep: BatchSweep): BatchRun[] {
+  const runs: BatchRun[] = [];
+  for (const rule of sweep.rules) {
+    for (const size of sweep.sizes) {
+      for (const density of sweep.densities) {
+        for (const seed of sweep.seeds) {
+          runs.push({
+            rule,
+            size,
+            density,
+            seed,
+            generations: sweep.generations,
+            boundaries: sweep.boundaries,
+            maxPeriod: sweep.maxPeriod
+          });
+        }
+      }
+    }
+  }
+  return runs;
+}
+
+/**
+ * Runs one simulation to completion and summarizes it
+ */
+export function runSimulation(run: BatchRun): RunSummary {
+  const { rule, neighborhood } = parseRuleNotation(run.rule);
+  const engine = new GameOfLife3D({ gridSize: run.size, rule, neighborhood, boundaries: run.boundaries });
+  const buffer = engine.createDoubleBuffer(engine.createRandomFlatGrid(run.density, run.seed));
+  const cycles = new CycleDetector(run.maxPeriod ?? DEFAULT_MAX_PERIOD);
+
+  const initialPopulation = measureGrid(buffer.front).population;
+  let population = initialPopulation;
+  let peakPopulation = initialPopulation;
+  let status = cycles.record(0, buffer.front);
+  let generation = 0;
+
+  while (generation < run.generations && status.kind === 'evolving') {
+    population = engine.advance(buffer).population;
+    generation++;
+    peakPopulation = Math.max(peakPopulation, population);
+    status = cycles.record(generation, buffer.front);
+  }
+
+  const [width, height, depth] = run.size;
+  const [x, y, z] = run.boundaries;
+  return {
+    rule: formatRuleNotation(rule, neighborhood),
+    size: `${width}x${height}x${depth}`,
+    boundaries: x === y && y === z ? x : `${x},${y},${z}`,
+    density: run.density,
+    seed: run.seed,
+    generations: run.generations,
+    generationsRun: generation,
+    initialPopulation,
+    peakPopulation,
+    finalPopulation: population,
+    status: status.kind,
+    extinctionGeneration: status.kind === 'extinct' ? status.since : null,
+    period: status.kind === 'oscillator' ? status.period : status.kind === 'evolving' ? null : 1,
+    cycleStart: status.kind === 'evolving' ? null : status.since
+  };
+}
+
+/**
+ * Runs every simulation of a sweep in order, reporting each summary as it
+ * finishes
+ */
+export function runBatch(sweep: BatchSweep, onRun?: (summary: RunSummary, index: number, total: number) => void): RunSummary[] {
+  const runs = expandSweep(sweep);
+  return runs.map((run, index) => {
+    const summary = runSimulation(run);
+    onRun?.(summary, index, runs.length);
+    return summary;
+  });
+}
+
+/**
+ * Quotes a CSV field when it contains a separator or quote (rules such as
+ * B4,6/S5 do)
+ */
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats summaries as CSV, one row per run; missing values are empty
+ */
+export function summariesToCsv(summaries: RunSummary[]): string {
+  const lines = [SUMMARY_COLUMNS.join(',')];
+  for (const summary of summaries) {
+    lines.push(SUMMARY_COLUMNS.map(column => csvField(summary[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function formatSummaries(summaries: RunSummary[], format: BatchFormat): string {
+  return format === 'csv' ? summariesToCsv(summaries) : JSON.stringify(summaries, null, 2) + '\n';
+}
@@ -0,0 +1,84 @@
+/**
+ * Boundary Modes
+ *
+ * What lies beyond each face of the grid, chosen separately for x, y and z:
+ *
+ * - periodic: the grid wraps around to the opposite face (a torus)
+ * - dead: outside cells are always empty
+ * - alive: outside cells always count as live neighbors
+ * - mirror: the grid is reflected at its faces, so the cell just outside
+ *   a face is a copy of the edge cell
+ *
+ * Mixing modes gives slabs (periodic x and y, dead z), tubes (one periodic
+ * axis) or closed boxes (dead or alive everywhere). A neighbor outside the
+ * grid along both a dead and an alive axis counts as dead.
+ */
+
+export type BoundaryMode = 'periodic' | 'dead' | 'alive' | 'mirror';
+
+/** Boundary modes for the x, y and z axes */
+export type AxisBoundaries = [x: BoundaryMode, y: BoundaryMode, z: BoundaryMode];
+
+export const BOUNDARY_MODES: BoundaryMode[] = ['periodic', 'dead', 'alive', 'mirror'];
+
+export const BOUNDARY_MODE_NAMES: Record<BoundaryMode, string> = {
+  periodic: 'Periodic',
+  dead: 'Dead',
+  alive: 'Alive',
+  mirror: 'Mirror'
+};
+
+/** resolveCoordinate's result for a coordinate outside a dead boundary */
+export const OUTSIDE_DEAD = -1;
+/** resolveCoordinate's result for a coordinate outside an alive boundary */
+export const OUTSIDE_ALIVE = -2;
+
+/**
+ * Expands a single mode to all three axes and validates the result
+ */
+export function normalizeBoundaries(boundaries: BoundaryMode | AxisBoundaries): AxisBoundaries {
+  const axes: AxisBoundaries = typeof boundaries === 'string'
+    ? [boundaries, boundaries, boundaries]
+    : [boundaries[0], boundaries[1], boundaries[2]];
+
+  axes.forEach(mode => {
+    if (BOUNDARY_MODES.indexOf(mode) === -1) {
+      throw new Error(`Unknown boundary mode "${mode}": expected ${BOUNDARY_MODES.join(', ')}`);
+    }
+  });
+
+  return axes;
+}
+
+/**
+ * Maps a coordinate along one axis into the grid: the coordinate of the cell
+ * it refers to, or OUTSIDE_DEAD / OUTSIDE_ALIVE when it lies beyond a
+ * dead or alive boundary
+ */
+export function resolveCoordinate(coordinate: number, length: number, mode: BoundaryMode): number {
+  if (coordinate >= 0 && coordinate < length) return coordinate;
+
+  switch (mode) {
+    case 'periodic':
+      return ((coordinate % length) + length) % length;
+    case 'dead':
+      return OUTSIDE_DEAD;
+    case 'alive':
+      return OUTSIDE_ALIVE;
+    case 'mirror': {
+      // Reflections repeat every two grid lengths
+      const folded = ((coordinate % (2 * length)) + 2 * length) % (2 * length);
+      return folded < length ? folded : 2 * length - 1 - folded;
+    }
+  }
+}
+
+/**
+ * Short description such as "Periodic" or "X Periodic, Y Periodic, Z Dead"
+ */
+export function describeBoundaries(boundaries: AxisBoundaries): string {
+  if (boundaries[0] === boundaries[1] && boundaries[1] === boundaries[2]) {
+    return BOUNDARY_MODE_NAMES[boundaries[0]];
+  }
+  return boundaries.map((mode, axis) => `${'XYZ'.charAt(axis)} ${BOUNDARY_MODE_NAMES[mode]}`).join(', ');
+}
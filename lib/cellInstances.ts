@@ -0,0 +1,201 @@
+/**
+ * Cell Instances
+ *
+ * Decides which cells the instanced mesh draws. Only cells worth drawing,
+ * those with a size to grow to and those still shrinking away, hold an
+ * instance slot, and the slots are kept packed at the front of the buffer,
+ * so the mesh draws `count` instances and a frame costs time in proportion
+ * to the live population rather than the grid's volume. A cell that has
+ * shrunk to nothing gives up its slot to the last one.
+ *
+ * Writes go through an InstanceSink, and the slots written since the last
+ * takeDirty are reported as ranges, so only changed data is uploaded.
+ */
+
+/**
+ * Where instance data is written: the mesh's matrix and color buffers
+ */
+export interface InstanceSink {
+  /** Places a cell at a size in a slot */
+  writeMatrix(slot: number, cell: number, scale: number): void;
+  /** Colors a slot for a cell in a state */
+  writeColor(slot: number, cell: number, state: number): void;
+}
+
+/** The size each cell should have, given its state */
+export type TargetScale = (cell: number, state: number) => number;
+
+/** Slots written since the last takeDirty, from `start` up to but not including `end` */
+export interface SlotRange {
+  start: number;
+  end: number;
+}
+
+/** Sizes closer than this to their target snap to it */
+const SNAP_DISTANCE = 0.001;
+
+function widen(range: SlotRange | null, slot: number): SlotRange {
+  if (!range) return { start: slot, end: slot + 1 };
+  if (slot < range.start) range.start = slot;
+  if (slot >= range.end) range.end = slot + 1;
+  return range;
+}
+
+export class CellInstances {
+  readonly cellCount: number;
+  /** Displayed size of every cell; always 0 for cells without a slot */
+  readonly scale: Float32Array;
+  /** The cell in each slot, for slots below count */
+  private cells: Int32Array;
+  /** The slot of each cell, or -1 */
+  private slots: Int32Array;
+  /** The state each cell was last colored for; 0 if never */
+  private colored: Uint8Array;
+  private used = 0;
+  private dirtyMatrices: SlotRange | null = null;
+  private dirtyColors: SlotRange | null = null;
+
+  /**
+   * `scale` gives the cells' starting sizes (a copy is kept); by default
+   * every cell starts at 0
+   */
+  constructor(cellCount: number, scale?: Float32Array) {
+    if (scale && scale.length !== cellCount) {
+      throw new Error(`Expected ${cellCount} starting sizes, got ${scale.length}`);
+    }
+    this.cellCount = cellCount;
+    this.scale = scale ? new Float32Array(scale) : new Float32Array(cellCount);
+    this.cells = new Int32Array(cellCount);
+    this.slots = new Int32Array(cellCount).fill(-1);
+    this.colored = new Uint8Array(cellCount);
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (this.scale[cell] > 0) this.claim(cell);
+    }
+  }
+
+  /** Number of slots in use, i.e. instances to draw */
+  get count(): number {
+    return this.used;
+  }
+
+  /** The slot of a cell, or -1 if it is not drawn */
+  slotOf(cell: number): number {
+    return this.slots[cell];
+  }
+
+  /** The cell drawn in a slot */
+  cellAt(slot: number): number {
+    if (slot < 0 || slot >= this.used) {
+      throw new Error(`Slot ${slot} is not in use`);
+    }
+    return this.cells[slot];
+  }
+
+  private claim(cell: number): number {
+    const slot = this.used++;
+    this.cells[slot] = cell;
+    this.slots[cell] = slot;
+    return slot;
+  }
+
+  private writeMatrix(sink: InstanceSink, slot: number, cell: number): void {
+    sink.writeMatrix(slot, cell, this.scale[cell]);
+    this.dirtyMatrices = widen(this.dirtyMatrices, slot);
+  }
+
+  private writeColor(sink: InstanceSink, slot: number, cell: number, state: number): void {
+    sink.writeColor(slot, cell, state);
+    this.colored[cell] = state;
+    this.dirtyColors = widen(this.dirtyColors, slot);
+  }
+
+  /**
+   * Takes in a new generation (or new targets): cells that now have a size
+   * to grow to get a slot, and drawn cells whose state changed are
+   * recolored. Cells that died keep their color as they shrink. This is
+   * the only pass over every cell, so call it when the cells or targets
+   * change, not every frame.
+   */
+  sync(states: ArrayLike<number>, target: TargetScale, sink: InstanceSink): void {
+    if (states.length !== this.cellCount) {
+      throw new Error(`Expected ${this.cellCount} cells, got ${states.length}`);
+    }
+    for (let cell = 0; cell < this.cellCount; cell++) {
+      const state = states[cell];
+      if (state === 0) continue;
+
+      let slot = this.slots[cell];
+      if (slot < 0) {
+        if (target(cell, state) <= 0) continue;
+        slot = this.claim(cell);
+        this.writeMatrix(sink, slot, cell);
+      }
+      if (this.colored[cell] !== state) this.writeColor(sink, slot, cell, state);
+    }
+  }
+
+  /**
+   * Eases every drawn cell's size a `fade` fraction of the way to its
+   * target (1 jumps straight there), writing the slots that changed. Cells
+   * that reach size 0 give up their slots.
+   */
+  update(states: ArrayLike<number>, target: TargetScale, fade: number, sink: InstanceSink): void {
+    let slot = 0;
+    while (slot < this.used) {
+      const cell = this.cells[slot];
+      const state = states[cell];
+      const goal = target(cell, state);
+      const current = this.scale[cell];
+
+      if (current !== goal) {
+        this.scale[cell] = fade >= 1 || Math.abs(goal - current) <= SNAP_DISTANCE
+          ? goal
+          : current + (goal - current) * fade;
+      }
+
+      if (this.scale[cell] === 0) {
+        // Move the last slot's cell here and look at it next
+        this.release(slot, sink);
+        continue;
+      }
+      if (current !== this.scale[cell]) this.writeMatrix(sink, slot, cell);
+      slot++;
+    }
+  }
+
+  private release(slot: number, sink: InstanceSink): void {
+    const cell = this.cells[slot];
+    this.slots[cell] = -1;
+    this.colored[cell] = 0;
+    const last = --this.used;
+    if (slot === last) return;
+
+    const moved = this.cells[last];
+    this.cells[slot] = moved;
+    this.slots[moved] = slot;
+    this.writeMatrix(sink, slot, moved);
+    this.writeColor(sink, slot, moved, this.colored[moved]);
+  }
+
+  /**
+   * Rewrites every drawn slot, e.g. after the buffers were replaced or
+   * colors depend on something new
+   */
+  rewrite(sink: InstanceSink): void {
+    for (let slot = 0; slot < this.used; slot++) {
+      const cell = this.cells[slot];
+      this.writeMatrix(sink, slot, cell);
+      this.writeColor(sink, slot, cell, this.colored[cell]);
+    }
+  }
+
+  /**
+   * The slots written since the last call, for matrices and for colors
+   */
+  takeDirty(): { matrices: SlotRange | null; colors: SlotRange | null } {
+    const dirty = { matrices: this.dirtyMatrices, colors: this.dirtyColors };
+    this.dirtyMatrices = null;
+    this.dirtyColors = null;
+    return dirty;
+  }
+}
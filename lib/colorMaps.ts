@@ -0,0 +1,304 @@
+/**
+ * Color Maps
+ *
+ * Colors the cells of a generation. A color mode picks what a cell is
+ * colored by (its state, age, neighbor count, position, object or birth
+ * generation) and a palette turns that figure into a color.
+ *
+ * Figures are cut into at most GRADIENT_LEVELS steps, so every cell's color
+ * is one entry of a small table. The renderer colors cells straight from
+ * the table, and faces of cells with the same entry can be merged.
+ */
+
+import type { FlatGrid3D } from './flatGrid';
+
+/** What cells are colored by */
+export type ColorMode = 'state' | 'age' | 'neighbors' | 'position' | 'component' | 'birth';
+
+export const COLOR_MODE_NAMES: Record<ColorMode, string> = {
+  state: 'State',
+  age: 'Age',
+  neighbors: 'Neighbor count',
+  position: 'Position',
+  component: 'Object',
+  birth: 'Birth generation'
+};
+
+/** A color in sRGB, components from 0 to 1 */
+export type RGB = [red: number, green: number, blue: number];
+
+export type PaletteId = 'classic' | 'viridis' | 'cividis' | 'plasma' | 'spectrum' | 'okabeIto' | 'tolBright' | 'tableau';
+
+export interface Palette {
+  name: string;
+  /** Sequential palettes run from low to high; categorical ones tell values apart */
+  kind: 'sequential' | 'categorical';
+  /** Whether the colors stay distinct with the common forms of color blindness */
+  colorblindSafe: boolean;
+  /** Stops of a sequential palette, evenly spaced; the colors of a categorical one */
+  colors: RGB[];
+}
+
+function hex(code: string): RGB {
+  const value = parseInt(code.slice(1), 16);
+  return [(value >> 16) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255];
+}
+
+function hsl(hue: number, saturation: number, lightness: number): RGB {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (offset: number) => {
+    const k = (offset + hue * 12) % 12;
+    return lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  // The original look: cyan, fading to a dark purple
+  classic: {
+    name: 'Classic',
+    kind: 'sequential',
+    colorblindSafe: false,
+    colors: [0, 0.25, 0.5, 0.75, 1].map(t => hsl(0.5 + t * 0.25, 1, 0.7 - t * 0.4))
+  },
+  viridis: {
+    name: 'Viridis',
+    kind: 'sequential',
+    colorblindSafe: true,
+    colors: ['#440154', '#472c7a', '#3b518b', '#2c718e', '#21908d', '#27ad81', '#5cc863', '#aadc32', '#fde725'].map(hex)
+  },
+  cividis: {
+    name: 'Cividis',
+    kind: 'sequential',
+    colorblindSafe: true,
+    colors: ['#00204c', '#213d6b', '#555b6c', '#7b7a77', '#a59c74', '#d3c064', '#ffe945'].map(hex)
+  },
+  plasma: {
+    name: 'Plasma',
+    kind: 'sequential',
+    colorblindSafe: true,
+    colors: ['#0d0887', '#5302a3', '#8b0aa5', '#b83289', '#db5c68', '#f48849', '#febc2a', '#f0f921'].map(hex)
+  },
+  spectrum: {
+    name: 'Spectrum',
+    kind: 'sequential',
+    colorblindSafe: false,
+    colors: ['#2c7bb6', '#00a6ca', '#00ccbc', '#90eb9d', '#ffff8c', '#f9d057', '#f29e2e', '#e76818', '#d7191c'].map(hex)
+  },
+  okabeIto: {
+    name: 'Okabe-Ito',
+    kind: 'categorical',
+    colorblindSafe: true,
+    colors: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7'].map(hex)
+  },
+  tolBright: {
+    name: 'Tol Bright',
+    kind: 'categorical',
+    colorblindSafe: true,
+    colors: ['#4477aa', '#ee6677', '#228833', '#ccbb44', '#66ccee', '#aa3377'].map(hex)
+  },
+  tableau: {
+    name: 'Tableau 10',
+    kind: 'categorical',
+    colorblindSafe: false,
+    colors: ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'].map(hex)
+  }
+};
+
+/** The palette each mode starts with */
+export const DEFAULT_PALETTES: Record<ColorMode, PaletteId> = {
+  state: 'classic',
+  age: 'viridis',
+  neighbors: 'plasma',
+  position: 'cividis',
+  component: 'okabeIto',
+  birth: 'viridis'
+};
+
+/**
+ * The palettes a mode can use: categorical ones for objects, which have no
+ * order, and sequential ones for everything else
+ */
+export function palettesFor(mode: ColorMode): PaletteId[] {
+  const kind = mode === 'component' ? 'categorical' : 'sequential';
+  return (Object.keys(PALETTES) as PaletteId[]).filter(id => PALETTES[id].kind === kind);
+}
+
+/**
+ * The color at `t` from 0 to 1 along a sequential palette, or the color
+ * at index `t` of a categorical one (repeating past the last)
+ */
+export function samplePalette(palette: Palette, t: number): RGB {
+  const { colors } = palette;
+  if (palette.kind === 'categorical') return colors[Math.floor(t) % colors.length];
+
+  const position = Math.max(0, Math.min(1, t)) * (colors.length - 1);
+  const index = Math.min(Math.floor(position), colors.length - 2);
+  const fraction = position - index;
+  const [from, to] = [colors[index], colors[index + 1]];
+  return [0, 1, 2].map(channel => from[channel] + (to[channel] - from[channel]) * fraction) as RGB;
+}
+
+/** What the modes other than state read, besides the cells */
+export interface ColorInputs {
+  /** The generation being colored */
+  generation: number;
+  /** Number of states of the rule */
+  states: number;
+  /** Most live neighbors a cell can have under the rule's neighborhood */
+  maxNeighbors: number;
+  /** The axis (0, 1 or 2 for X, Y or Z) position mode runs along */
+  axis: number;
+  /** Live neighbors of each cell, if reported */
+  neighbors?: Uint16Array;
+  /** The generation each non-empty cell appeared in, if reported */
+  births?: Uint32Array;
+  /** The tracked id of each live cell's object, if reported (see ./objectTracker) */
+  objectIds?: Int32Array;
+}
+
+/** What the colors mean, for showing next to the grid */
+export type ColorLegend =
+  | { type: 'gradient'; title: string; colors: RGB[]; min: string; max: string }
+  | { type: 'swatches'; title: string; entries: { color: RGB; label: string }[] };
+
+export interface CellColors {
+  mode: ColorMode;
+  /**
+   * Each cell's entry in `table`: 0 for empty cells and NO_VALUE for cells
+   * without a figure (such as dying cells in object mode). Null in state
+   * mode, where a cell in state s has entry s.
+   */
+  index: Uint8Array | null;
+  table: RGB[];
+  legend: ColorLegend;
+}
+
+/** Table entry of cells that have nothing to be colored by */
+export const NO_VALUE = 1;
+/** Color of cells that have nothing to be colored by */
+const NO_VALUE_COLOR: RGB = [0.45, 0.45, 0.45];
+/** Most steps a figure is cut into */
+export const GRADIENT_LEVELS = 64;
+
+const AXIS_NAMES = ['X', 'Y', 'Z'];
+
+/**
+ * Colors cells by their state: live cells at the start of the palette and
+ * dying cells of Generations rules along it. These colors do not depend on
+ * the cells, so they can be kept while the cells change.
+ */
+export function stateColors(paletteId: PaletteId, states: number): CellColors {
+  const palette = PALETTES[paletteId];
+  const table: RGB[] = [NO_VALUE_COLOR];
+  for (let state = 1; state < Math.max(states, 2); state++) {
+    table.push(samplePalette(palette, states > 2 ? (state - 1) / (states - 2) : 0));
+  }
+
+  const legend: ColorLegend = states > 2
+    ? { type: 'gradient', title: 'State', colors: palette.colors, min: 'Live', max: 'Dying' }
+    : { type: 'swatches', title: 'State', entries: [{ color: table[1], label: 'Live' }] };
+  return { mode: 'state', index: null, table, legend };
+}
+
+/**
+ * Colors the cells of a grid by a mode. Modes whose figures come from the
+ * simulation (age, birth generation, neighbor count and object) give every
+ * cell NO_VALUE until they are reported.
+ */
+export function colorCells(grid: FlatGrid3D, mode: ColorMode, paletteId: PaletteId, inputs: ColorInputs): CellColors {
+  if (mode === 'state') return stateColors(paletteId, inputs.states);
+
+  const palette = PALETTES[paletteId];
+  const { data } = grid;
+  const index = new Uint8Array(data.length);
+
+  // Objects keep their color for as long as they keep their id
+  const { objectIds } = inputs;
+  if (mode === 'component' && objectIds) {
+    const seen = new Set<number>();
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] === 0) continue;
+      const id = objectIds[i];
+      index[i] = id === 0 ? NO_VALUE : NO_VALUE + 1 + (id - 1) % palette.colors.length;
+      if (id !== 0) seen.add(id);
+    }
+    const entries = palette.colors.map(color => ({ color, label: '' }));
+    const title = `${seen.size} object${seen.size === 1 ? '' : 's'}`;
+    return { mode, index, table: [NO_VALUE_COLOR, NO_VALUE_COLOR, ...palette.colors], legend: { type: 'swatches', title, entries } };
+  }
+
+  // The figure each cell is colored by, the range it is shown over, and
+  // how the ends of the range are labelled
+  const { generation, births, neighbors, maxNeighbors, axis } = inputs;
+  let figure: ((cell: number) => number) | null = null;
+  let min = 0;
+  let max = 0;
+  let format = (value: number) => String(value);
+
+  if (mode === 'age' && births) {
+    figure = cell => generation - births[cell];
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] !== 0) max = Math.max(max, figure(i));
+    }
+    format = value => `${value} gen`;
+  } else if (mode === 'birth' && births) {
+    figure = cell => births[cell];
+    min = generation;
+    max = 0;
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] === 0) continue;
+      min = Math.min(min, births[i]);
+      max = Math.max(max, births[i]);
+    }
+    max = Math.max(min, max);
+    format = value => `Gen ${value}`;
+  } else if (mode === 'neighbors' && neighbors) {
+    figure = cell => neighbors[cell];
+    max = maxNeighbors;
+  } else if (mode === 'position') {
+    const { height, depth } = grid;
+    const stride = [height * depth, depth, 1][axis];
+    const size = grid.dimensions[axis];
+    figure = cell => Math.floor(cell / stride) % size;
+    max = size - 1;
+    format = value => `${AXIS_NAMES[axis]} ${value}`;
+  }
+
+  const levels = Math.min(GRADIENT_LEVELS, max - min + 1);
+  const table: RGB[] = [NO_VALUE_COLOR, NO_VALUE_COLOR];
+  for (let level = 0; level < levels; level++) {
+    table.push(samplePalette(palette, levels > 1 ? level / (levels - 1) : 0));
+  }
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 0) continue;
+    if (!figure) {
+      index[i] = NO_VALUE;
+      continue;
+    }
+    const t = max > min ? (Math.max(min, Math.min(max, figure(i))) - min) / (max - min) : 0;
+    index[i] = NO_VALUE + 1 + Math.round(t * (levels - 1));
+  }
+
+  const legend: ColorLegend = figure
+    ? { type: 'gradient', title: COLOR_MODE_NAMES[mode], colors: palette.colors, min: format(min), max: format(max) }
+    : { type: 'swatches', title: COLOR_MODE_NAMES[mode], entries: [{ color: NO_VALUE_COLOR, label: 'Waiting for the simulation' }] };
+  return { mode, index, table, legend };
+}
+
+/**
+ * The color of a table entry; entries past the table (such as states a
+ * rule does not have) have no value
+ */
+export function entryColor(colors: CellColors, entry: number): RGB {
+  return colors.table[entry] ?? NO_VALUE_COLOR;
+}
+
+/**
+ * The color of a cell. Cells that emptied but are still being drawn (as
+ * they shrink away) keep their state's color in state mode and have no
+ * figure in the others.
+ */
+export function cellColor(colors: CellColors, cell: number, state: number): RGB {
+  return entryColor(colors, colors.index ? colors.index[cell] || NO_VALUE : state);
+}
@@ -0,0 +1,97 @@
+/**
+ * Command Palette
+ *
+ * Finds commands by typing part of their names, and reads the commands
+ * that take a value typed after them:
+ *
+ *   rule B6/S5-7       switches rule (any notation ./rules accepts)
+ *   size 30            a 30³ grid (5 to 50, as on the cube size slider)
+ *   size 40x40x10      a 40×40×10 grid ("×" or spaces work too)
+ *
+ * Rule notation typed on its own, such as "B5/S4-5", sets the rule too.
+ */
+
+import { normalizeDimensions, type GridDimensions } from './flatGrid';
+import { parseRuleNotation } from './rules';
+
+/** Longest side a typed grid size may have, as on the axis size sliders */
+export const MAX_TYPED_LENGTH = 100;
+/** Shortest and longest side of a typed cube, as on the cube size slider */
+export const MIN_CUBE_LENGTH = 5;
+export const MAX_CUBE_LENGTH = 50;
+
+/** Something the palette lists */
+export interface PaletteEntry {
+  title: string;
+  /** Other words the entry is found by */
+  keywords?: string;
+}
+
+/**
+ * The entries whose title or keywords hold every word of the query, best
+ * matches first: titles starting with the query, then titles containing
+ * it, then the rest, each in their original order
+ */
+export function searchPalette<T extends PaletteEntry>(entries: T[], query: string): T[] {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(word => word !== '');
+  if (!words.length) return entries.slice();
+
+  const phrase = words.join(' ');
+  const rank = (entry: T) => {
+    const title = entry.title.toLowerCase();
+    return title.indexOf(phrase) === 0 ? 0 : title.indexOf(phrase) !== -1 ? 1 : 2;
+  };
+  return entries
+    .filter(entry => {
+      const text = `${entry.title} ${entry.keywords ?? ''}`.toLowerCase();
+      return words.every(word => text.indexOf(word) !== -1);
+    })
+    .map((entry, order) => ({ entry, order, rank: rank(entry) }))
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .map(({ entry }) => entry);
+}
+
+/** A command typed with its value */
+export type TypedCommand =
+  | { type: 'rule'; notation: string }
+  | { type: 'size'; dimensions: GridDimensions };
+
+/**
+ * Reads a typed command, or returns null if the text is not one. Throws if
+ * it is one but its value is invalid.
+ */
+export function parseTypedCommand(text: string): TypedCommand | null {
+  const trimmed = text.trim();
+  const [, word, value] = /^(\S+)\s*(.*)$/.exec(trimmed) ?? [];
+  if (!word) return null;
+
+  if (word.toLowerCase() === 'rule' && value) {
+    parseRuleNotation(value);
+    return { type: 'rule', notation: value };
+  }
+  if (word.toLowerCase() === 'size' && value) {
+    return { type: 'size', dimensions: parseTypedSize(value) };
+  }
+  // Bare notation needs both parts, so words that merely start with B or S stay searches
+  if (/^b[\d,\-\s]*\/\s*s/i.test(trimmed)) {
+    parseRuleNotation(trimmed);
+    return { type: 'rule', notation: trimmed };
+  }
+  return null;
+}
+
+function parseTypedSize(value: string): GridDimensions {
+  const parts = value.trim().split(/\s*[x×*,\s]\s*/i);
+  if ((parts.length !== 1 && parts.length !== 3) || !parts.every(part => /^\d+$/.test(part))) {
+    throw new Error(`Invalid size "${value}": expected one length or width×height×depth`);
+  }
+  const lengths = parts.map(part => parseInt(part, 10));
+  if (lengths.length === 1 && lengths[0] > 0 && (lengths[0] < MIN_CUBE_LENGTH || lengths[0] > MAX_CUBE_LENGTH)) {
+    throw new Error(`Invalid size "${value}": a cube's side must be from ${MIN_CUBE_LENGTH} to ${MAX_CUBE_LENGTH}`);
+  }
+  const dimensions = normalizeDimensions(lengths.length === 1 ? lengths[0] : [lengths[0], lengths[1], lengths[2]]);
+  if (dimensions.some(length => length > MAX_TYPED_LENGTH)) {
+    throw new Error(`Invalid size "${value}": sides can be at most ${MAX_TYPED_LENGTH}`);
+  }
+  return dimensions;
+}
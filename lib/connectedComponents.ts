@@ -0,0 +1,178 @@
+/**
+ * Connected Components
+ *
+ * Groups the live cells of a grid into objects: two live cells belong to
+ * the same object when one lies in the other's neighborhood, directly or
+ * through other live cells of the object. The neighborhood is the rule's
+ * (the 26 touching cells by default), taken both ways so that a lopsided
+ * custom neighborhood still links cells symmetrically, and objects reach
+ * across the faces of periodic axes.
+ *
+ * Positions of an object that wraps around a periodic axis are measured
+ * as if the grid were unrolled, so its box and centroid hold it in one
+ * piece: the box starts inside the grid and may end past its far side. An
+ * object as long as an axis can run around it and have no ends, so its box
+ * spans the axis and its centroid is the plain mean along it.
+ */
+
+import type { AxisBoundaries } from './boundaries';
+import type { FlatGrid3D, Vector3Tuple } from './flatGrid';
+import { MOORE_NEIGHBORHOOD, neighborhoodOffsets, type Neighborhood, type Offset3D } from './neighborhood';
+
+export interface ComponentOptions {
+  /** Which cells link up; radius-1 Moore by default */
+  neighborhood?: Neighborhood;
+  /** Periodic axes link cells across their faces; none by default */
+  boundaries?: AxisBoundaries;
+}
+
+/** One object of live cells */
+export interface GridObject {
+  /** Its number in the labels */
+  label: number;
+  /** Number of cells */
+  size: number;
+  /** Smallest box holding every cell, by its first and last cells */
+  boundingBox: { min: Vector3Tuple; max: Vector3Tuple };
+  /** Mean position of the cells, inside the grid */
+  centroid: Vector3Tuple;
+  /** Index of its first cell in the grid's data */
+  firstCell: number;
+}
+
+export interface ComponentLabels {
+  /** The object of every cell, numbered from 1; 0 for cells that are not live */
+  labels: Int32Array;
+  /** Number of objects */
+  count: number;
+  /** The objects, in label order */
+  objects: GridObject[];
+}
+
+/**
+ * The offsets that link a cell to others: the neighborhood's and their
+ * opposites, without repeats
+ */
+function linkOffsets(neighborhood: Neighborhood): Offset3D[] {
+  const seen = new Set<string>();
+  const offsets: Offset3D[] = [];
+  neighborhoodOffsets(neighborhood).forEach(([dx, dy, dz]) => {
+    [[dx, dy, dz], [-dx, -dy, -dz]].forEach(offset => {
+      const key = offset.join();
+      if (seen.has(key)) return;
+      seen.add(key);
+      offsets.push(offset as Offset3D);
+    });
+  });
+  return offsets;
+}
+
+/**
+ * Labels the objects formed by the live (state 1) cells of a grid,
+ * numbered in the order their first cell comes in the grid's data
+ */
+export function labelComponents(grid: FlatGrid3D, options: ComponentOptions = {}): ComponentLabels {
+  const { width, height, depth, data } = grid;
+  const sizes: Vector3Tuple = [width, height, depth];
+  const offsets = linkOffsets(options.neighborhood ?? MOORE_NEIGHBORHOOD);
+  const dx = Int32Array.from(offsets, offset => offset[0]);
+  const dy = Int32Array.from(offsets, offset => offset[1]);
+  const dz = Int32Array.from(offsets, offset => offset[2]);
+  const [wrapX, wrapY, wrapZ] = [0, 1, 2].map(axis => options.boundaries?.[axis] === 'periodic');
+  const labels = new Int32Array(data.length);
+  const objects: GridObject[] = [];
+
+  // Cells found but not yet visited, as a stack of unrolled positions
+  const pendingX = new Int32Array(data.length);
+  const pendingY = new Int32Array(data.length);
+  const pendingZ = new Int32Array(data.length);
+
+  for (let seed = 0; seed < data.length; seed++) {
+    if (data[seed] !== 1 || labels[seed] !== 0) continue;
+
+    const label = objects.length + 1;
+    const z0 = seed % depth;
+    const y0 = ((seed - z0) / depth) % height;
+    const x0 = (seed - z0 - y0 * depth) / (height * depth);
+    labels[seed] = label;
+    pendingX[0] = x0;
+    pendingY[0] = y0;
+    pendingZ[0] = z0;
+    let pending = 1;
+
+    let size = 0;
+    let [sumX, sumY, sumZ] = [0, 0, 0];
+    let [minX, minY, minZ] = [x0, y0, z0];
+    let [maxX, maxY, maxZ] = [x0, y0, z0];
+    // Sums of the positions within the grid, for objects that run around an axis
+    let [wrappedX, wrappedY, wrappedZ] = [0, 0, 0];
+
+    while (pending > 0) {
+      pending--;
+      const px = pendingX[pending];
+      const py = pendingY[pending];
+      const pz = pendingZ[pending];
+      size++;
+      sumX += px;
+      sumY += py;
+      sumZ += pz;
+      if (px < minX) minX = px;
+      if (py < minY) minY = py;
+      if (pz < minZ) minZ = pz;
+      if (px > maxX) maxX = px;
+      if (py > maxY) maxY = py;
+      if (pz > maxZ) maxZ = pz;
+
+      for (let i = 0; i < dx.length; i++) {
+        const nx = px + dx[i];
+        const ny = py + dy[i];
+        const nz = pz + dz[i];
+        let x = nx % width;
+        let y = ny % height;
+        let z = nz % depth;
+        if (x < 0) x += width;
+        if (y < 0) y += height;
+        if (z < 0) z += depth;
+        if ((x !== nx && !wrapX) || (y !== ny && !wrapY) || (z !== nz && !wrapZ)) continue;
+
+        const cell = (x * height + y) * depth + z;
+        if (data[cell] !== 1 || labels[cell] !== 0) continue;
+        wrappedX += x;
+        wrappedY += y;
+        wrappedZ += z;
+        labels[cell] = label;
+        pendingX[pending] = nx;
+        pendingY[pending] = ny;
+        pendingZ[pending] = nz;
+        pending++;
+      }
+    }
+
+    // Unrolling may have taken the object below 0 on a periodic axis; move
+    // it back by whole turns so its box starts inside the grid
+    wrappedX += x0;
+    wrappedY += y0;
+    wrappedZ += z0;
+    const min: Vector3Tuple = [minX, minY, minZ];
+    const max: Vector3Tuple = [maxX, maxY, maxZ];
+    const sum = [sumX, sumY, sumZ];
+    const wrappedSum = [wrappedX, wrappedY, wrappedZ];
+    const centroid: Vector3Tuple = [0, 0, 0];
+    for (let axis = 0; axis < 3; axis++) {
+      if (max[axis] - min[axis] + 1 >= sizes[axis]) {
+        min[axis] = 0;
+        max[axis] = sizes[axis] - 1;
+        centroid[axis] = wrappedSum[axis] / size;
+        continue;
+      }
+      const shift = Math.floor(min[axis] / sizes[axis]) * sizes[axis];
+      min[axis] -= shift;
+      max[axis] -= shift;
+      const mean = sum[axis] / size - shift;
+      centroid[axis] = mean >= sizes[axis] ? mean - sizes[axis] : mean;
+    }
+    objects.push({ label, size, boundingBox: { min, max }, centroid, firstCell: seed });
+  }
+
+  return { labels, count: objects.length, objects };
+}
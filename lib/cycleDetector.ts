@@ -0,0 +1,139 @@
+/**
+ * Cycle and Stagnation Detection
+ *
+ * Keeps a rolling history of grid hashes, one per generation, and reports
+ * when a generation repeats an earlier one. Because stepping is
+ * deterministic, a repeat means the run has settled into a cycle for good:
+ * extinction, a still life (period 1) or an oscillator (period N).
+ *
+ * Only hashes are stored, so the history stays small. The hash is 53 bits
+ * (two independent 32-bit hashes), which makes a false repeat within the
+ * history window vanishingly unlikely.
+ *
+ * Worlds of the sparse engine are recorded the same way. A repeat has to
+ * be in the same place, so a glider travelling through an unbounded world
+ * is still evolving.
+ */
+
+import type { FlatGrid3D } from './flatGrid';
+import { SparseGrid3D } from './sparseLife3D';
+
+/** The longest period the default history can detect */
+export const DEFAULT_MAX_PERIOD = 1024;
+
+export type CycleStatus =
+  | { kind: 'evolving' }
+  /** Every cell is empty, and has been since `since` */
+  | { kind: 'extinct'; since: number }
+  /** The grid has not changed since `since` */
+  | { kind: 'stillLife'; since: number }
+  /** The grid repeats every `period` generations, starting at `since` */
+  | { kind: 'oscillator'; period: number; since: number };
+
+/**
+ * Hashes a grid's cell states into a whole number below 2^53
+ */
+export function hashGrid(grid: FlatGrid3D): number {
+  const { data } = grid;
+  let fnv = 0x811c9dc5;
+  let mix = 0x9747b28c;
+
+  for (let i = 0; i < data.length; i++) {
+    fnv = Math.imul(fnv ^ data[i], 0x01000193);
+    mix = Math.imul(mix ^ data[i], 0x5bd1e995);
+    mix ^= mix >>> 15;
+  }
+
+  // 32 bits of one hash and 21 of the other fit exactly in a double
+  return (fnv >>> 0) * 0x200000 + ((mix >>> 0) >>> 11);
+}
+
+/**
+ * Describes a status for display, e.g. "Oscillator, period 2 since gen 143"
+ */
+export function describeCycle(status: CycleStatus): string {
+  switch (status.kind) {
+    case 'evolving':
+      return 'Evolving';
+    case 'extinct':
+      return `Extinct since gen ${status.since}`;
+    case 'stillLife':
+      return `Still life since gen ${status.since}`;
+    case 'oscillator':
+      return `Oscillator, period ${status.period} since gen ${status.since}`;
+  }
+}
+
+export class CycleDetector {
+  readonly maxPeriod: number;
+  private currentStatus: CycleStatus = { kind: 'evolving' };
+  /** Hashes of the last maxPeriod generations, oldest first */
+  private hashes: number[] = [];
+  /** The generation each hash in the history was seen at */
+  private lastSeen = new Map<number, number>();
+
+  constructor(maxPeriod = DEFAULT_MAX_PERIOD) {
+    if (!Number.isInteger(maxPeriod) || maxPeriod < 1) {
+      throw new Error(`Invalid maximum period ${maxPeriod}: expected a positive whole number`);
+    }
+    this.maxPeriod = maxPeriod;
+  }
+
+  get status(): CycleStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Forgets the history, e.g. after cells were edited or the rule changed
+   */
+  reset(): void {
+    this.currentStatus = { kind: 'evolving' };
+    this.hashes = [];
+    this.lastSeen.clear();
+  }
+
+  /**
+   * Records the grid of a generation and returns the updated status.
+   * Generations must be recorded consecutively; once a cycle is found the
+   * status stays put until reset, since the run can no longer leave it.
+   */
+  record(generation: number, grid: FlatGrid3D | SparseGrid3D): CycleStatus {
+    if (this.currentStatus.kind !== 'evolving') return this.currentStatus;
+
+    const hash = grid instanceof SparseGrid3D ? grid.hash() : hashGrid(grid);
+    const previous = this.lastSeen.get(hash);
+
+    if (previous !== undefined) {
+      const period = generation - previous;
+      // The first repeat is found as early as possible, so the cycle starts
+      // at the earlier occurrence
+      const since = previous;
+      if (period === 1) {
+        this.currentStatus = isEmpty(grid) ? { kind: 'extinct', since } : { kind: 'stillLife', since };
+      } else {
+        this.currentStatus = { kind: 'oscillator', period, since };
+      }
+      return this.currentStatus;
+    }
+
+    this.hashes.push(hash);
+    this.lastSeen.set(hash, generation);
+
+    // Until a repeat is found every hash in the history is distinct
+    if (this.hashes.length > this.maxPeriod) {
+      this.lastSeen.delete(this.hashes.shift()!);
+    }
+
+    return this.currentStatus;
+  }
+}
+
+function isEmpty(grid: FlatGrid3D | SparseGrid3D): boolean {
+  if (grid instanceof SparseGrid3D) return grid.size === 0;
+
+  const { data } = grid;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] !== 0) return false;
+  }
+  return true;
+}
@@ -0,0 +1,211 @@
+/**
+ * Flat Typed-Array Grid
+ *
+ * Stores a 3D grid in a single Uint8Array instead of nested arrays. Cells are
+ * laid out in the same x, y, z order as the nested Grid3D (grid[x][y][z]), so
+ * the index of a cell is (x * height + y) * depth + z and the z axis is contiguous.
+ */
+
+import type { Grid3D } from './gameOfLife3D';
+
+/** Number of cells along x, y and z */
+export type GridDimensions = [width: number, height: number, depth: number];
+
+/** A position or direction in grid coordinates */
+export type Vector3Tuple = [x: number, y: number, z: number];
+
+/** Either the edge length of a cube or full dimensions */
+export type GridSize = number | GridDimensions;
+
+/**
+ * Expands a cube's edge length to dimensions and validates them
+ */
+export function normalizeDimensions(size: GridSize): GridDimensions {
+  const dimensions: GridDimensions = typeof size === 'number' ? [size, size, size] : [size[0], size[1], size[2]];
+
+  if (!dimensions.every(length => Number.isInteger(length) && length > 0)) {
+    throw new Error(`Invalid grid dimensions ${dimensions.join('x')}: expected positive whole numbers`);
+  }
+
+  return dimensions;
+}
+
+/**
+ * Formats dimensions as "20³" for a cube or "100×100×4" otherwise
+ */
+export function formatDimensions([width, height, depth]: GridDimensions): string {
+  return width === height && height === depth ? `${width}³` : `${width}×${height}×${depth}`;
+}
+
+export class FlatGrid3D {
+  readonly width: number;
+  readonly height: number;
+  readonly depth: number;
+  readonly data: Uint8Array;
+
+  constructor(width: number, height = width, depth = width, data?: Uint8Array) {
+    this.width = width;
+    this.height = height;
+    this.depth = depth;
+    this.data = data ?? new Uint8Array(width * height * depth);
+
+    if (this.data.length !== width * height * depth) {
+      throw new Error(
+        `Grid data has ${this.data.length} cells but ${width}x${height}x${depth} needs ${width * height * depth}`
+      );
+    }
+  }
+
+  /**
+   * The grid's width, height and depth
+   */
+  get dimensions(): GridDimensions {
+    return [this.width, this.height, this.depth];
+  }
+
+  /**
+   * Total number of cells in the grid
+   */
+  get cellCount(): number {
+    return this.data.length;
+  }
+
+  /**
+   * Converts a position into an index into data (no bounds check)
+   */
+  index(x: number, y: number, z: number): number {
+    return (x * this.height + y) * this.depth + z;
+  }
+
+  /**
+   * Checks whether a position lies inside the grid
+   */
+  inBounds(x: number, y: number, z: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height && z >= 0 && z < this.depth;
+  }
+
+  /**
+   * Gets a cell's state, treating positions outside the grid as empty
+   */
+  get(x: number, y: number, z: number): number {
+    return this.inBounds(x, y, z) ? this.data[this.index(x, y, z)] : 0;
+  }
+
+  /**
+   * Sets a cell's state; positions outside the grid are ignored
+   */
+  set(x: number, y: number, z: number, value: number): void {
+    if (this.inBounds(x, y, z)) {
+      this.data[this.index(x, y, z)] = value;
+    }
+  }
+
+  /**
+   * Checks whether another grid has the same dimensions
+   */
+  sameShape(other: FlatGrid3D): boolean {
+    return this.width === other.width && this.height === other.height && this.depth === other.depth;
+  }
+
+  /**
+   * Checks whether two grids have the same dimensions and cell states
+   */
+  equals(other: FlatGrid3D): boolean {
+    if (!this.sameShape(other)) return false;
+
+    const a = this.data;
+    const b = other.data;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Copies another grid of the same shape into this one
+   */
+  copyFrom(other: FlatGrid3D): void {
+    if (!this.sameShape(other)) {
+      throw new Error('Cannot copy between grids of different dimensions');
+    }
+    this.data.set(other.data);
+  }
+
+  /**
+   * Sets every cell to zero
+   */
+  clear(): void {
+    this.data.fill(0);
+  }
+
+  /**
+   * Creates a deep copy of this grid
+   */
+  clone(): FlatGrid3D {
+    return new FlatGrid3D(this.width, this.height, this.depth, new Uint8Array(this.data));
+  }
+
+  /**
+   * Converts to a nested Grid3D
+   */
+  toNested(): Grid3D {
+    const grid: Grid3D = [];
+    let i = 0;
+    for (let x = 0; x < this.width; x++) {
+      const plane: number[][] = [];
+      for (let y = 0; y < this.height; y++) {
+        const row: number[] = [];
+        for (let z = 0; z < this.depth; z++) {
+          row.push(this.data[i++]);
+        }
+        plane.push(row);
+      }
+      grid.push(plane);
+    }
+    return grid;
+  }
+
+  /**
+   * Builds a flat grid from a nested Grid3D
+   */
+  static fromNested(grid: Grid3D): FlatGrid3D {
+    const width = grid.length;
+    const height = width ? grid[0].length : 0;
+    const depth = height ? grid[0][0].length : 0;
+    const flat = new FlatGrid3D(width, height, depth);
+
+    let i = 0;
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        for (let z = 0; z < depth; z++) {
+          flat.data[i++] = grid[x][y][z];
+        }
+      }
+    }
+    return flat;
+  }
+}
+
+/**
+ * A pair of same-sized grids for stepping without allocation: the next
+ * generation is written into `back`, then the two are swapped so that
+ * `front` always holds the current generation and `back` the previous one.
+ */
+export class GridDoubleBuffer {
+  front: FlatGrid3D;
+  back: FlatGrid3D;
+
+  constructor(front: FlatGrid3D, back: FlatGrid3D = new FlatGrid3D(front.width, front.height, front.depth)) {
+    if (!front.sameShape(back)) {
+      throw new Error('Double buffer grids must have the same dimensions');
+    }
+    this.front = front;
+    this.back = back;
+  }
+
+  swap(): void {
+    const previous = this.front;
+    this.front = this.back;
+    this.back = previous;
+  }
+}
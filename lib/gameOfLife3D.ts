@@ -1,50 +1,368 @@
 /**
  * 3D Game of Life Simulation Logic
- * 
+ *
  * This module contains the core logic for running Conway's Game of Life in 3D space.
- * Each cell has 26 neighbors in a 3x3x3 cube (excluding the center cell).
+ * By default each cell has 26 neighbors in a 3x3x3 cube (excluding the center
+ * cell); other neighborhoods are described in ./neighborhood.
+ * Birth and survival are decided by a LifeRule (see ./rules).
+ *
+ * Cell states: 0 is empty and 1 is alive. Generations rules add dying states
+ * 2..states-1, which a live cell steps through after failing to survive;
+ * only live cells count as neighbors.
+ *
+ * What lies beyond the grid's faces is set per axis (see ./boundaries).
+ *
+ * Stepping runs on flat Uint8Array grids (see ./flatGrid); the nested Grid3D
+ * methods are kept as an adapter over the same kernel.
  */
 
+import { OUTSIDE_ALIVE, OUTSIDE_DEAD, normalizeBoundaries, resolveCoordinate, type AxisBoundaries, type BoundaryMode } from './boundaries';
+import { labelComponents, type ComponentLabels } from './connectedComponents';
+import { FlatGrid3D, GridDoubleBuffer, normalizeDimensions, type GridDimensions, type GridSize } from './flatGrid';
+import { LiveCellTally, type StepStats } from './generationStats';
+import { MOORE_NEIGHBORHOOD, neighborhoodOffsets, neighborhoodSize, type Neighborhood, type Offset3D } from './neighborhood';
+import { ObjectTracker } from './objectTracker';
+import { resolveRandom, type RandomSource } from './random';
+import { DEFAULT_RULE, MAX_STATES, countsFromRanges, rangesContain, ruleFromRange, ruleStates, type LifeRule } from './rules';
+
 export interface GameOfLife3DConfig {
-  gridSize: number;
-  birthRule: number;
-  survivalMin: number;
-  survivalMax: number;
-  periodicBoundaries: boolean;
+  /** Width, height and depth, or one number for a cube */
+  gridSize: GridSize;
+  /** Birth/survival sets; takes precedence over the numeric fields below */
+  rule?: LifeRule;
+  /** Legacy shorthand: birth on exactly this many neighbors */
+  birthRule?: number;
+  /** Legacy shorthand: survival on survivalMin..survivalMax neighbors */
+  survivalMin?: number;
+  survivalMax?: number;
+  /** Cells counted as neighbors; defaults to the 26-cell Moore neighborhood */
+  neighborhood?: Neighborhood;
+  /** One mode for every axis or one per axis; takes precedence over periodicBoundaries */
+  boundaries?: BoundaryMode | AxisBoundaries;
+  /** Legacy shorthand: periodic (true) or dead (false) on every axis; defaults to true */
+  periodicBoundaries?: boolean;
 }
 
 export type Grid3D = number[][][];
 
+/** Either grid representation accepted by the engine's utility methods */
+export type AnyGrid = Grid3D | FlatGrid3D;
+
+const LEGACY_RULE_KEYS = ['birthRule', 'survivalMin', 'survivalMax'] as const;
+
+/**
+ * Resolves the rule a config describes, converting the legacy numeric
+ * fields when no explicit rule is given
+ */
+export function resolveRule(config: GameOfLife3DConfig): LifeRule {
+  if (config.rule) return config.rule;
+
+  const [defaultBirth] = DEFAULT_RULE.birth[0];
+  const [defaultMin, defaultMax] = DEFAULT_RULE.survival[0];
+  return ruleFromRange(
+    config.birthRule ?? defaultBirth,
+    config.survivalMin ?? defaultMin,
+    config.survivalMax ?? defaultMax
+  );
+}
+
+/**
+ * Lays config changes over a config. Setting the rule or boundaries through
+ * the legacy fields replaces an explicit rule or boundary modes underneath.
+ */
+export function mergeConfig<Base extends Partial<GameOfLife3DConfig>, Changes extends Partial<GameOfLife3DConfig>>(
+  base: Base,
+  changes: Changes
+): Base & Changes {
+  const merged = { ...base, ...changes };
+  if (LEGACY_RULE_KEYS.some(key => changes[key] !== undefined) && !changes.rule) {
+    delete merged.rule;
+  }
+  if (changes.periodicBoundaries !== undefined && !changes.boundaries) {
+    delete merged.boundaries;
+  }
+  return merged;
+}
+
+/**
+ * Resolves the per-axis boundary modes a config describes, falling back to
+ * the legacy periodicBoundaries flag
+ */
+export function resolveBoundaries(config: GameOfLife3DConfig): AxisBoundaries {
+  if (config.boundaries) return normalizeBoundaries(config.boundaries);
+  return normalizeBoundaries(config.periodicBoundaries === false ? 'dead' : 'periodic');
+}
+
+/** Next-state lookup tables for a rule, shared by the dense and sparse engines */
+export interface RuleTables {
+  /** Next state of an empty cell (1 or 0), indexed by neighbor count */
+  birth: Uint8Array;
+  /** Next state of a live cell, indexed by neighbor count */
+  survival: Uint8Array;
+  /** Next state of a dying cell, indexed by its current state */
+  decay: Uint8Array;
+  /** State a live cell enters when it fails to survive */
+  dyingState: number;
+}
+
+/**
+ * Precomputes the next state for every cell state and neighbor count, so
+ * stepping avoids scanning the rule's ranges
+ */
+export function createRuleTables(rule: LifeRule, neighborhood: Neighborhood): RuleTables {
+  const states = ruleStates(rule);
+  const maxNeighbors = neighborhoodSize(neighborhood);
+  const dyingState = states > 2 ? 2 : 0;
+
+  // survival holds the next state of a live cell, not just a flag
+  const birth = new Uint8Array(maxNeighbors + 1);
+  const survival = new Uint8Array(maxNeighbors + 1).fill(dyingState);
+  countsFromRanges(rule.birth).forEach(n => {
+    if (n <= maxNeighbors) birth[n] = 1;
+  });
+  countsFromRanges(rule.survival).forEach(n => {
+    if (n <= maxNeighbors) survival[n] = 1;
+  });
+
+  const decay = new Uint8Array(MAX_STATES + 1);
+  for (let state = 2; state < states - 1; state++) {
+    decay[state] = state + 1;
+  }
+
+  return { birth, survival, decay, dyingState };
+}
+
+/**
+ * For each coordinate along one axis, the index deltas of the cells within
+ * `radius` of it. Cells beyond a periodic or mirror boundary map back into
+ * the grid; cells beyond a dead or alive boundary are left out.
+ */
+function buildAxisNeighbors(length: number, stride: number, radius: number, mode: BoundaryMode): Int32Array[] {
+  const table: Int32Array[] = [];
+
+  for (let c = 0; c < length; c++) {
+    const deltas: number[] = [];
+    for (let d = -radius; d <= radius; d++) {
+      const n = resolveCoordinate(c + d, length, mode);
+      if (n >= 0) deltas.push((n - c) * stride);
+    }
+    table.push(new Int32Array(deltas));
+  }
+
+  return table;
+}
+
+/**
+ * For each coordinate along one axis, the coordinate `delta` away from it
+ * as resolved by resolveCoordinate
+ */
+function buildOffsetMap(length: number, delta: number, mode: BoundaryMode): Int32Array {
+  const map = new Int32Array(length);
+
+  for (let c = 0; c < length; c++) {
+    map[c] = resolveCoordinate(c + delta, length, mode);
+  }
+
+  return map;
+}
+
+/**
+ * Number of cells in each cell's radius-r box that lie beyond an alive
+ * boundary (and not beyond a dead one). The axis tables leave such cells
+ * out, so this is the box size less what the tables cover, taken per axis.
+ */
+function countAliveOutside(
+  grid: FlatGrid3D,
+  tables: [Int32Array[], Int32Array[], Int32Array[]],
+  radius: number,
+  boundaries: AxisBoundaries
+): Uint16Array {
+  const { width, height, depth } = grid;
+  const span = 2 * radius + 1;
+  const [xTable, yTable, zTable] = tables;
+  // Cells beyond a dead boundary never count, so they are not in the total
+  const total = (axis: number, covered: number) => boundaries[axis] === 'dead' ? covered : span;
+  const result = new Uint16Array(grid.cellCount);
+
+  let i = 0;
+  for (let x = 0; x < width; x++) {
+    const xIn = xTable[x].length;
+    for (let y = 0; y < height; y++) {
+      const yIn = yTable[y].length;
+      for (let z = 0; z < depth; z++, i++) {
+        const zIn = zTable[z].length;
+        result[i] = total(0, xIn) * total(1, yIn) * total(2, zIn) - xIn * yIn * zIn;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * One pass of the separable neighborhood sum: dst[i] is the sum of src over
+ * the cells within the axis table's reach of i along a single axis.
+ *
+ * Three-cell reaches (radius 1 away from a dead edge) are by far the most
+ * common and get a fused fast path that reads all three cells at once.
+ */
+function sumAlongAxis(
+  src: Uint16Array,
+  dst: Uint16Array,
+  grid: FlatGrid3D,
+  axis: 0 | 1 | 2,
+  table: Int32Array[]
+): void {
+  const { width, height, depth } = grid;
+
+  if (axis === 2) {
+    // z is contiguous, so each cell looks up its own deltas
+    let i = 0;
+    for (let row = 0; row < width * height; row++) {
+      for (let z = 0; z < depth; z++, i++) {
+        const deltas = table[z];
+        if (deltas.length === 3) {
+          dst[i] = src[i + deltas[0]] + src[i + deltas[1]] + src[i + deltas[2]];
+        } else {
+          let sum = 0;
+          for (let k = 0; k < deltas.length; k++) {
+            sum += src[i + deltas[k]];
+          }
+          dst[i] = sum;
+        }
+      }
+    }
+    return;
+  }
+
+  // Along x (or y) every cell in a y-z plane (or z row) shares the same
+  // deltas, so whole contiguous blocks are summed at once
+  const outerCount = axis === 0 ? 1 : width;
+  const length = axis === 0 ? width : height;
+  const blockSize = axis === 0 ? height * depth : depth;
+
+  for (let outer = 0; outer < outerCount; outer++) {
+    for (let c = 0; c < length; c++) {
+      const base = (outer * length + c) * blockSize;
+      const end = base + blockSize;
+      const deltas = table[c];
+
+      if (deltas.length === 3) {
+        const d0 = deltas[0];
+        const d1 = deltas[1];
+        const d2 = deltas[2];
+        for (let j = base; j < end; j++) {
+          dst[j] = src[j + d0] + src[j + d1] + src[j + d2];
+        }
+        continue;
+      }
+
+      dst.fill(0, base, end);
+      for (let k = 0; k < deltas.length; k++) {
+        const offset = deltas[k];
+        for (let j = base; j < end; j++) {
+          dst[j] += src[j + offset];
+        }
+      }
+    }
+  }
+}
+
 export class GameOfLife3D {
   private config: GameOfLife3DConfig;
+  private rule: LifeRule;
+  private neighborhood: Neighborhood = MOORE_NEIGHBORHOOD;
+  private offsets: Offset3D[] = [];
+  /** Indexed by neighbor count, so sized to the neighborhood */
+  private birthTable = new Uint8Array(0);
+  private survivalTable = new Uint8Array(0);
+  /** Next state of a dying cell, indexed by its current state */
+  private decayTable = new Uint8Array(0);
+  /** State a live cell enters when it fails to survive */
+  private dyingState = 0;
+
+  // Scratch space for the neighbor-count pass, reused between steps
+  private counts = new Uint16Array(0);
+  private partialSums = new Uint16Array(0);
+  private axisTables: [Int32Array[], Int32Array[], Int32Array[]] | null = null;
+  /** Per-offset axis maps for neighborhoods that are not a box */
+  private offsetMaps: [Int32Array, Int32Array, Int32Array][] | null = null;
+  /** Per-cell count of Moore neighbors beyond an alive boundary, if any axis has one */
+  private aliveOutside: Uint16Array | null = null;
+  private tablesKey = '';
+  private boundaries: AxisBoundaries;
+  private dimensions: GridDimensions;
 
   constructor(config: GameOfLife3DConfig) {
-    this.config = config;
+    this.config = { ...config };
+    this.dimensions = normalizeDimensions(this.config.gridSize);
+    this.rule = resolveRule(this.config);
+    this.boundaries = resolveBoundaries(this.config);
+    this.applyNeighborhood();
+    this.buildRuleTables();
+  }
+
+  /**
+   * Caches the configured neighborhood's offsets
+   */
+  private applyNeighborhood(): void {
+    this.neighborhood = this.config.neighborhood ?? MOORE_NEIGHBORHOOD;
+    this.offsets = neighborhoodOffsets(this.neighborhood);
+    this.tablesKey = '';
+  }
+
+  /**
+   * Precomputes lookup tables so step() avoids scanning ranges
+   */
+  private buildRuleTables(): void {
+    const tables = createRuleTables(this.rule, this.neighborhood);
+    this.birthTable = tables.birth;
+    this.survivalTable = tables.survival;
+    this.decayTable = tables.decay;
+    this.dyingState = tables.dyingState;
   }
 
   /**
    * Creates an empty 3D grid filled with zeros
    */
   createEmptyGrid(): Grid3D {
-    const { gridSize } = this.config;
-    return Array(gridSize).fill(null).map(() =>
-      Array(gridSize).fill(null).map(() =>
-        Array(gridSize).fill(0)
+    const [width, height, depth] = this.dimensions;
+    return Array(width).fill(null).map(() =>
+      Array(height).fill(null).map(() =>
+        Array(depth).fill(0)
       )
     );
   }
 
   /**
-   * Creates a random grid with the specified density
+   * Creates an empty flat grid sized to the configuration
+   */
+  createFlatGrid(): FlatGrid3D {
+    const [width, height, depth] = this.dimensions;
+    return new FlatGrid3D(width, height, depth);
+  }
+
+  /**
+   * Creates a double buffer of flat grids for allocation-free stepping
+   */
+  createDoubleBuffer(initial?: FlatGrid3D): GridDoubleBuffer {
+    return new GridDoubleBuffer(initial ?? this.createFlatGrid());
+  }
+
+  /**
+   * Creates a random grid with the specified density. A seed (or a seeded
+   * source from ./random) makes the grid reproducible; the nested and flat
+   * versions give the same cells for the same seed.
    */
-  createRandomGrid(density: number): Grid3D {
+  createRandomGrid(density: number, seedOrRandom?: number | RandomSource): Grid3D {
     const grid = this.createEmptyGrid();
-    const { gridSize } = this.config;
+    const [width, height, depth] = this.dimensions;
+    const random = resolveRandom(seedOrRandom);
 
-    for (let x = 0; x < gridSize; x++) {
-      for (let y = 0; y < gridSize; y++) {
-        for (let z = 0; z < gridSize; z++) {
-          grid[x][y][z] = Math.random() < density ? 1 : 0;
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        for (let z = 0; z < depth; z++) {
+          grid[x][y][z] = random() < density ? 1 : 0;
         }
       }
     }
@@ -52,109 +370,370 @@ export class GameOfLife3D {
     return grid;
   }
 
+  /**
+   * Creates a random flat grid with the specified density, reproducibly when
+   * given a seed or seeded source
+   */
+  createRandomFlatGrid(density: number, seedOrRandom?: number | RandomSource): FlatGrid3D {
+    const grid = this.createFlatGrid();
+    const { data } = grid;
+    const random = resolveRandom(seedOrRandom);
+
+    for (let i = 0; i < data.length; i++) {
+      data[i] = random() < density ? 1 : 0;
+    }
+
+    return grid;
+  }
+
   /**
    * Counts the number of living neighbors for a cell at position (x, y, z)
    */
-  countNeighbors(grid: Grid3D, x: number, y: number, z: number): number {
-    const { gridSize, periodicBoundaries } = this.config;
+  countNeighbors(grid: AnyGrid, x: number, y: number, z: number): number {
+    const [width, height, depth] = this.dimensions;
+    const [xMode, yMode, zMode] = this.boundaries;
     let count = 0;
 
-    for (let dx = -1; dx <= 1; dx++) {
-      for (let dy = -1; dy <= 1; dy++) {
-        for (let dz = -1; dz <= 1; dz++) {
-          // Skip the center cell (the cell itself)
-          if (dx === 0 && dy === 0 && dz === 0) continue;
-
-          let nx = x + dx;
-          let ny = y + dy;
-          let nz = z + dz;
-
-          if (periodicBoundaries) {
-            // Wrap around edges (toroidal topology)
-            nx = (nx + gridSize) % gridSize;
-            ny = (ny + gridSize) % gridSize;
-            nz = (nz + gridSize) % gridSize;
-          } else {
-            // Check bounds for non-periodic boundaries
-            if (nx < 0 || nx >= gridSize || 
-                ny < 0 || ny >= gridSize || 
-                nz < 0 || nz >= gridSize) {
-              continue;
+    for (const [dx, dy, dz] of this.offsets) {
+      const nx = resolveCoordinate(x + dx, width, xMode);
+      const ny = resolveCoordinate(y + dy, height, yMode);
+      const nz = resolveCoordinate(z + dz, depth, zMode);
+
+      if (nx === OUTSIDE_DEAD || ny === OUTSIDE_DEAD || nz === OUTSIDE_DEAD) continue;
+
+      if (nx === OUTSIDE_ALIVE || ny === OUTSIDE_ALIVE || nz === OUTSIDE_ALIVE) {
+        count++;
+      } else if (this.getCell(grid, nx, ny, nz) === 1) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Computes the live neighbor count of every cell in one pass.
+   *
+   * The returned array is scratch space owned by the engine: it is
+   * overwritten by the next call or step, and indexed like the grid's data.
+   */
+  computeNeighborCounts(grid: FlatGrid3D): Uint16Array {
+    const counts = this.sumNeighborhoods(grid);
+    const { data } = grid;
+
+    for (let i = 0; i < counts.length; i++) {
+      if (data[i] === 1) counts[i]--;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Sums the live cells in every cell's neighborhood, including the cell itself.
+   *
+   * Moore neighborhoods are boxes, and a box sum is separable, so it is done
+   * as three 1D sums: along z, then y, then x. Other neighborhoods add up
+   * one shifted copy of the grid per offset.
+   */
+  private sumNeighborhoods(grid: FlatGrid3D): Uint16Array {
+    const { cellCount } = grid;
+    if (this.counts.length !== cellCount) {
+      this.counts = new Uint16Array(cellCount);
+      this.partialSums = new Uint16Array(cellCount);
+    }
+
+    const { counts, partialSums } = this;
+    const { data } = grid;
+
+    // Reducing the grid to a 16-bit live mask first keeps every pass working
+    // on the same array type, which is noticeably faster than mixing types
+    for (let i = 0; i < cellCount; i++) {
+      partialSums[i] = data[i] === 1 ? 1 : 0;
+    }
+
+    if (this.neighborhood.type !== 'moore') {
+      this.sumStencil(grid, partialSums, counts);
+      return counts;
+    }
+
+    const [xTable, yTable, zTable] = this.getAxisTables(grid, this.neighborhood.radius);
+    sumAlongAxis(partialSums, counts, grid, 2, zTable);
+    sumAlongAxis(counts, partialSums, grid, 1, yTable);
+    sumAlongAxis(partialSums, counts, grid, 0, xTable);
+
+    const { aliveOutside } = this;
+    if (aliveOutside) {
+      for (let i = 0; i < cellCount; i++) {
+        counts[i] += aliveOutside[i];
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Sums an arbitrary stencil: counts starts as the live mask (the cell
+   * itself) and gains the mask shifted by each offset in turn
+   */
+  private sumStencil(grid: FlatGrid3D, mask: Uint16Array, counts: Uint16Array): void {
+    const { width, height, depth } = grid;
+    counts.set(mask);
+
+    this.getOffsetMaps(grid).forEach(([xMap, yMap, zMap]) => {
+      for (let x = 0; x < width; x++) {
+        const mx = xMap[x];
+        if (mx === OUTSIDE_DEAD) continue;
+
+        for (let y = 0; y < height; y++) {
+          const my = yMap[y];
+          if (my === OUTSIDE_DEAD) continue;
+
+          const base = (x * height + y) * depth;
+
+          if (mx === OUTSIDE_ALIVE || my === OUTSIDE_ALIVE) {
+            // The whole row lies beyond an alive boundary
+            for (let z = 0; z < depth; z++) {
+              if (zMap[z] !== OUTSIDE_DEAD) counts[base + z]++;
             }
+            continue;
           }
 
-          count += grid[nx][ny][nz];
+          const sourceBase = (mx * height + my) * depth;
+          for (let z = 0; z < depth; z++) {
+            const mz = zMap[z];
+            if (mz >= 0) {
+              counts[base + z] += mask[sourceBase + mz];
+            } else if (mz === OUTSIDE_ALIVE) {
+              counts[base + z]++;
+            }
+          }
         }
       }
+    });
+  }
+
+  /**
+   * Key for the cached per-grid tables; they are rebuilt whenever the grid
+   * shape, boundary modes or neighborhood change
+   */
+  private shapeKey(grid: FlatGrid3D): string {
+    return `${grid.width},${grid.height},${grid.depth},${this.boundaries.join(',')}`;
+  }
+
+  /**
+   * Returns the per-axis neighbor tables for a radius-r Moore neighborhood
+   */
+  private getAxisTables(grid: FlatGrid3D, radius: number): [Int32Array[], Int32Array[], Int32Array[]] {
+    const { boundaries } = this;
+    const { width, height, depth } = grid;
+    const key = this.shapeKey(grid);
+
+    if (!this.axisTables || this.tablesKey !== key) {
+      this.axisTables = [
+        buildAxisNeighbors(width, height * depth, radius, boundaries[0]),
+        buildAxisNeighbors(height, depth, radius, boundaries[1]),
+        buildAxisNeighbors(depth, 1, radius, boundaries[2])
+      ];
+      this.aliveOutside = boundaries.indexOf('alive') === -1
+        ? null
+        : countAliveOutside(grid, this.axisTables, radius, boundaries);
+      this.tablesKey = key;
     }
 
-    return count;
+    return this.axisTables;
+  }
+
+  /**
+   * Returns, for each stencil offset, where every x, y and z coordinate
+   * reads its neighbor from
+   */
+  private getOffsetMaps(grid: FlatGrid3D): [Int32Array, Int32Array, Int32Array][] {
+    const { boundaries } = this;
+    const { width, height, depth } = grid;
+    const key = this.shapeKey(grid);
+
+    if (!this.offsetMaps || this.tablesKey !== key) {
+      this.offsetMaps = this.offsets.map(([dx, dy, dz]): [Int32Array, Int32Array, Int32Array] => [
+        buildOffsetMap(width, dx, boundaries[0]),
+        buildOffsetMap(height, dy, boundaries[1]),
+        buildOffsetMap(depth, dz, boundaries[2])
+      ]);
+      this.tablesKey = key;
+    }
+
+    return this.offsetMaps;
   }
 
   /**
    * Applies the Game of Life rules to determine if a cell should be alive in the next generation
    */
   applyCellRule(isCurrentlyAlive: boolean, neighborCount: number): boolean {
-    const { birthRule, survivalMin, survivalMax } = this.config;
+    const { birth, survival } = this.rule;
 
     if (isCurrentlyAlive) {
-      // Survival rule: live cell survives if it has the right number of neighbors
-      return neighborCount >= survivalMin && neighborCount <= survivalMax;
+      // Survival rule: live cell survives if its neighbor count is in the survival set
+      return rangesContain(survival, neighborCount);
     } else {
-      // Birth rule: dead cell becomes alive if it has exactly the birth number of neighbors
-      return neighborCount === birthRule;
+      // Birth rule: dead cell becomes alive if its neighbor count is in the birth set
+      return rangesContain(birth, neighborCount);
     }
   }
 
   /**
-   * Advances the simulation by one generation
+   * Gets the next state of a single cell given its live neighbor count
    */
-  step(currentGrid: Grid3D): Grid3D {
-    const { gridSize } = this.config;
-    const newGrid = this.createEmptyGrid();
+  nextCellState(state: number, neighborCount: number): number {
+    if (state === 1) {
+      return this.applyCellRule(true, neighborCount) ? 1 : this.dyingState;
+    }
+    if (state === 0) {
+      return this.applyCellRule(false, neighborCount) ? 1 : 0;
+    }
+    return this.decayTable[state];
+  }
 
-    for (let x = 0; x < gridSize; x++) {
-      for (let y = 0; y < gridSize; y++) {
-        for (let z = 0; z < gridSize; z++) {
-          const neighbors = this.countNeighbors(currentGrid, x, y, z);
-          const isCurrentlyAlive = currentGrid[x][y][z] === 1;
-          const shouldBeAlive = this.applyCellRule(isCurrentlyAlive, neighbors);
-          
-          newGrid[x][y][z] = shouldBeAlive ? 1 : 0;
-        }
+  /**
+   * Writes the generation after `current` into `next` without allocating.
+   * Both grids must have the same shape and must not be the same object.
+   * Returns the births, deaths and other figures of the new generation,
+   * gathered in the same pass.
+   */
+  stepInto(current: FlatGrid3D, next: FlatGrid3D): StepStats {
+    if (current === next || !current.sameShape(next)) {
+      throw new Error('stepInto needs two distinct grids of the same dimensions');
+    }
+
+    const counts = this.sumNeighborhoods(current);
+    const { birthTable, survivalTable, decayTable } = this;
+    const src = current.data;
+    const dst = next.data;
+    const tally = new LiveCellTally(next);
+    let births = 0;
+    let survivors = 0;
+    let previousPopulation = 0;
+
+    // The cell itself is taken out of its neighborhood sum here rather than
+    // in a separate pass, leaving counts holding the neighbor counts
+    for (let i = 0; i < src.length; i++) {
+      const state = src[i];
+      let nextState: number;
+      if (state === 1) {
+        const neighbors = counts[i] - 1;
+        counts[i] = neighbors;
+        nextState = survivalTable[neighbors];
+        previousPopulation++;
+        if (nextState === 1) survivors++;
+      } else if (state === 0) {
+        nextState = birthTable[counts[i]];
+        if (nextState === 1) births++;
+      } else {
+        nextState = decayTable[state];
       }
+      dst[i] = nextState;
+      if (nextState === 1) tally.add(i);
     }
 
-    return newGrid;
+    return tally.finish(births, previousPopulation - survivors, survivors);
   }
 
   /**
-   * Counts the total number of living cells in the grid
+   * Advances a double buffer by one generation: the new generation ends up
+   * in `front` and the previous one in `back`
    */
-  countLivingCells(grid: Grid3D): number {
-    const { gridSize } = this.config;
-    let count = 0;
+  advance(buffer: GridDoubleBuffer): StepStats {
+    const stats = this.stepInto(buffer.front, buffer.back);
+    buffer.swap();
+    return stats;
+  }
+
+  /**
+   * Advances the simulation by one generation
+   */
+  step(currentGrid: FlatGrid3D): FlatGrid3D;
+  step(currentGrid: Grid3D): Grid3D;
+  step(currentGrid: AnyGrid): AnyGrid {
+    if (currentGrid instanceof FlatGrid3D) {
+      const next = new FlatGrid3D(currentGrid.width, currentGrid.height, currentGrid.depth);
+      this.stepInto(currentGrid, next);
+      return next;
+    }
 
-    for (let x = 0; x < gridSize; x++) {
-      for (let y = 0; y < gridSize; y++) {
-        for (let z = 0; z < gridSize; z++) {
-          count += grid[x][y][z];
+    const current = FlatGrid3D.fromNested(currentGrid);
+    const next = new FlatGrid3D(current.width, current.height, current.depth);
+    this.stepInto(current, next);
+    return next.toNested();
+  }
+
+  /**
+   * Finds the objects of live cells in a grid, linked by this engine's
+   * neighborhood and across its periodic faces (see ./connectedComponents)
+   */
+  findObjects(grid: FlatGrid3D): ComponentLabels {
+    return labelComponents(grid, { neighborhood: this.neighborhood, boundaries: this.getBoundaries() });
+  }
+
+  /**
+   * Creates a tracker that follows objects from generation to generation
+   * under this engine's neighborhood and boundaries (see ./objectTracker)
+   */
+  createObjectTracker(): ObjectTracker {
+    return new ObjectTracker({ neighborhood: this.neighborhood, boundaries: this.getBoundaries() });
+  }
+
+  /**
+   * Counts the total number of living cells (state 1) in the grid
+   */
+  countLivingCells(grid: AnyGrid): number {
+    return this.countCellsByState(grid)[1];
+  }
+
+  /**
+   * Counts the cells in each state: element 0 is empty cells, 1 live cells
+   * and 2 onwards the dying states of a Generations rule
+   */
+  countCellsByState(grid: AnyGrid): number[] {
+    const histogram = new Uint32Array(MAX_STATES + 1);
+
+    if (grid instanceof FlatGrid3D) {
+      const { data } = grid;
+      for (let i = 0; i < data.length; i++) {
+        histogram[data[i]]++;
+      }
+    } else {
+      const [width, height, depth] = this.dimensions;
+
+      for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) {
+          for (let z = 0; z < depth; z++) {
+            histogram[grid[x][y][z]]++;
+          }
         }
       }
     }
 
-    return count;
+    // Always report every state of the rule, plus any stray higher states
+    let length = ruleStates(this.rule);
+    for (let state = length; state <= MAX_STATES; state++) {
+      if (histogram[state] > 0) length = state + 1;
+    }
+    return Array.prototype.slice.call(histogram, 0, length);
   }
 
   /**
    * Checks if two grids are identical
    */
-  gridsEqual(grid1: Grid3D, grid2: Grid3D): boolean {
-    const { gridSize } = this.config;
+  gridsEqual(grid1: AnyGrid, grid2: AnyGrid): boolean {
+    if (grid1 instanceof FlatGrid3D || grid2 instanceof FlatGrid3D) {
+      const flat1 = grid1 instanceof FlatGrid3D ? grid1 : FlatGrid3D.fromNested(grid1);
+      const flat2 = grid2 instanceof FlatGrid3D ? grid2 : FlatGrid3D.fromNested(grid2);
+      return flat1.equals(flat2);
+    }
 
-    for (let x = 0; x < gridSize; x++) {
-      for (let y = 0; y < gridSize; y++) {
-        for (let z = 0; z < gridSize; z++) {
+    const [width, height, depth] = this.dimensions;
+
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        for (let z = 0; z < depth; z++) {
           if (grid1[x][y][z] !== grid2[x][y][z]) {
             return false;
           }
@@ -168,13 +747,19 @@ export class GameOfLife3D {
   /**
    * Copies a grid (deep copy)
    */
-  copyGrid(grid: Grid3D): Grid3D {
-    const { gridSize } = this.config;
+  copyGrid(grid: FlatGrid3D): FlatGrid3D;
+  copyGrid(grid: Grid3D): Grid3D;
+  copyGrid(grid: AnyGrid): AnyGrid {
+    if (grid instanceof FlatGrid3D) {
+      return grid.clone();
+    }
+
+    const [width, height, depth] = this.dimensions;
     const newGrid = this.createEmptyGrid();
 
-    for (let x = 0; x < gridSize; x++) {
-      for (let y = 0; y < gridSize; y++) {
-        for (let z = 0; z < gridSize; z++) {
+    for (let x = 0; x < width; x++) {
+      for (let y = 0; y < height; y++) {
+        for (let z = 0; z < depth; z++) {
           newGrid[x][y][z] = grid[x][y][z];
         }
       }
@@ -186,9 +771,13 @@ export class GameOfLife3D {
   /**
    * Sets a cell's state at the given position
    */
-  setCell(grid: Grid3D, x: number, y: number, z: number, value: number): void {
-    const { gridSize } = this.config;
-    if (x >= 0 && x < gridSize && y >= 0 && y < gridSize && z >= 0 && z < gridSize) {
+  setCell(grid: AnyGrid, x: number, y: number, z: number, value: number): void {
+    if (grid instanceof FlatGrid3D) {
+      grid.set(x, y, z, value);
+      return;
+    }
+
+    if (this.inBounds(x, y, z)) {
       grid[x][y][z] = value;
     }
   }
@@ -196,19 +785,38 @@ export class GameOfLife3D {
   /**
    * Gets a cell's state at the given position
    */
-  getCell(grid: Grid3D, x: number, y: number, z: number): number {
-    const { gridSize } = this.config;
-    if (x >= 0 && x < gridSize && y >= 0 && y < gridSize && z >= 0 && z < gridSize) {
+  getCell(grid: AnyGrid, x: number, y: number, z: number): number {
+    if (grid instanceof FlatGrid3D) {
+      return grid.get(x, y, z);
+    }
+
+    if (this.inBounds(x, y, z)) {
       return grid[x][y][z];
     }
     return 0;
   }
 
+  /**
+   * Checks whether a position lies inside the configured dimensions
+   */
+  private inBounds(x: number, y: number, z: number): boolean {
+    const [width, height, depth] = this.dimensions;
+    return x >= 0 && x < width && y >= 0 && y < height && z >= 0 && z < depth;
+  }
+
   /**
    * Updates the configuration
    */
   updateConfig(newConfig: Partial<GameOfLife3DConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+    this.config = mergeConfig(this.config, newConfig);
+
+    this.dimensions = normalizeDimensions(this.config.gridSize);
+    this.rule = resolveRule(this.config);
+    this.boundaries = resolveBoundaries(this.config);
+    if (newConfig.neighborhood !== undefined) {
+      this.applyNeighborhood();
+    }
+    this.buildRuleTables();
   }
 
   /**
@@ -217,4 +825,32 @@ export class GameOfLife3D {
   getConfig(): GameOfLife3DConfig {
     return { ...this.config };
   }
+
+  /**
+   * Gets the birth/survival rule in effect
+   */
+  getRule(): LifeRule {
+    return this.rule;
+  }
+
+  /**
+   * Gets the grid's width, height and depth
+   */
+  getDimensions(): GridDimensions {
+    return [this.dimensions[0], this.dimensions[1], this.dimensions[2]];
+  }
+
+  /**
+   * Gets the boundary modes in effect for the x, y and z axes
+   */
+  getBoundaries(): AxisBoundaries {
+    return [this.boundaries[0], this.boundaries[1], this.boundaries[2]];
+  }
+
+  /**
+   * Gets the neighborhood in effect
+   */
+  getNeighborhood(): Neighborhood {
+    return this.neighborhood;
+  }
 }
@@ -0,0 +1,301 @@
+/**
+ * Generation History
+ *
+ * A bounded record of recent generations for stepping back and scrubbing.
+ * Most generations are stored as a diff against the one before (the indices
+ * of changed cells and their new states), with a full keyframe at least
+ * every `keyframeInterval` generations so that restoring any generation
+ * replays only a few diffs. A diff that would be larger than a keyframe
+ * is stored as a keyframe instead.
+ *
+ * The oldest generations are dropped, a keyframe interval at a time, once
+ * the history holds more than `maxGenerations` or `maxBytes`.
+ *
+ * The worlds of the sparse engine have no fixed layout to diff by index,
+ * so SparseGenerationHistory keeps each of their generations whole.
+ */
+
+import { FlatGrid3D } from './flatGrid';
+import type { SparseGrid3D } from './sparseLife3D';
+
+export interface HistoryOptions {
+  /** Most generations to keep (default 1000) */
+  maxGenerations?: number;
+  /** Most bytes of cell data to keep (default 64 MiB) */
+  maxBytes?: number;
+  /** Generations between full keyframes (default 32) */
+  keyframeInterval?: number;
+}
+
+/** The generations a history can restore, inclusive */
+export interface HistoryRange {
+  first: number;
+  last: number;
+}
+
+type HistoryEntry =
+  | { kind: 'keyframe'; data: Uint8Array }
+  | { kind: 'diff'; indices: Uint32Array; values: Uint8Array };
+
+/** Bytes a diff entry takes per changed cell: a 32-bit index and a state */
+const DIFF_BYTES_PER_CELL = 5;
+
+function entryBytes(entry: HistoryEntry): number {
+  return entry.kind === 'keyframe' ? entry.data.byteLength : entry.indices.byteLength + entry.values.byteLength;
+}
+
+function checkOptions(options: [name: string, value: number][]): void {
+  for (const [name, value] of options) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid history option ${name}=${value}: expected a positive whole number`);
+    }
+  }
+}
+
+function notInHistory(generation: number, range: HistoryRange | null): Error {
+  return new Error(range
+    ? `Generation ${generation} is not in the history (${range.first} to ${range.last})`
+    : `Generation ${generation} is not in the history, which is empty`);
+}
+
+export class GenerationHistory {
+  readonly maxGenerations: number;
+  readonly maxBytes: number;
+  readonly keyframeInterval: number;
+  /** Consecutive generations, starting at `first`; the first is always a keyframe */
+  private entries: HistoryEntry[] = [];
+  private first = 0;
+  private bytes = 0;
+  /** The cells of the last generation, to diff the next one against */
+  private latest: FlatGrid3D | null = null;
+
+  constructor({ maxGenerations = 1000, maxBytes = 64 * 1024 * 1024, keyframeInterval = 32 }: HistoryOptions = {}) {
+    checkOptions([['maxGenerations', maxGenerations], ['maxBytes', maxBytes], ['keyframeInterval', keyframeInterval]]);
+    this.maxGenerations = maxGenerations;
+    this.maxBytes = maxBytes;
+    this.keyframeInterval = keyframeInterval;
+  }
+
+  /**
+   * The stored generations, or null when nothing has been recorded
+   */
+  get range(): HistoryRange | null {
+    return this.entries.length ? { first: this.first, last: this.first + this.entries.length - 1 } : null;
+  }
+
+  /**
+   * Bytes of cell data currently stored
+   */
+  get byteLength(): number {
+    return this.bytes;
+  }
+
+  has(generation: number): boolean {
+    const range = this.range;
+    return range !== null && generation >= range.first && generation <= range.last;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.first = 0;
+    this.bytes = 0;
+    this.latest = null;
+  }
+
+  /**
+   * Records the cells of a generation. Recording a generation that is
+   * already stored replaces it and forgets every later one, since the run
+   * has taken a different course from there; a generation that does not
+   * follow on from the history starts a new one.
+   */
+  record(generation: number, grid: FlatGrid3D): void {
+    const range = this.range;
+    if (!range || !this.latest || !grid.sameShape(this.latest) ||
+        generation < range.first || generation > range.last + 1) {
+      this.clear();
+      this.first = generation;
+      this.latest = grid.clone();
+      this.push({ kind: 'keyframe', data: grid.data.slice() });
+      return;
+    }
+
+    if (generation <= range.last) {
+      this.truncate(generation);
+      if (!this.entries.length) {
+        this.record(generation, grid);
+        return;
+      }
+      this.restore(generation - 1, this.latest);
+    }
+
+    const entry: HistoryEntry = this.diffsSinceKeyframe() + 1 >= this.keyframeInterval
+      ? { kind: 'keyframe', data: grid.data.slice() }
+      : this.diff(this.latest.data, grid.data);
+
+    this.latest.copyFrom(grid);
+    this.push(entry);
+    this.trim();
+  }
+
+  /**
+   * Writes the cells of a stored generation into `target`
+   */
+  restore(generation: number, target: FlatGrid3D): void {
+    if (!this.has(generation)) {
+      throw notInHistory(generation, this.range);
+    }
+
+    let offset = generation - this.first;
+    while (this.entries[offset].kind !== 'keyframe') offset--;
+
+    const { data } = target;
+    for (; offset <= generation - this.first; offset++) {
+      const entry = this.entries[offset];
+      if (entry.kind === 'keyframe') {
+        if (entry.data.length !== data.length) {
+          throw new Error('Cannot restore a generation into a grid of different dimensions');
+        }
+        data.set(entry.data);
+      } else {
+        for (let i = 0; i < entry.indices.length; i++) {
+          data[entry.indices[i]] = entry.values[i];
+        }
+      }
+    }
+  }
+
+  private diffsSinceKeyframe(): number {
+    let count = 0;
+    for (let i = this.entries.length - 1; this.entries[i].kind !== 'keyframe'; i--) count++;
+    return count;
+  }
+
+  private diff(previous: Uint8Array, next: Uint8Array): HistoryEntry {
+    let changed = 0;
+    for (let i = 0; i < next.length; i++) {
+      if (previous[i] !== next[i]) changed++;
+    }
+    if (changed * DIFF_BYTES_PER_CELL >= next.length) {
+      return { kind: 'keyframe', data: next.slice() };
+    }
+
+    const indices = new Uint32Array(changed);
+    const values = new Uint8Array(changed);
+    let j = 0;
+    for (let i = 0; i < next.length; i++) {
+      if (previous[i] !== next[i]) {
+        indices[j] = i;
+        values[j++] = next[i];
+      }
+    }
+    return { kind: 'diff', indices, values };
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.entries.push(entry);
+    this.bytes += entryBytes(entry);
+  }
+
+  /**
+   * Forgets `generation` and everything after it
+   */
+  private truncate(generation: number): void {
+    const removed = this.entries.splice(generation - this.first);
+    for (const entry of removed) {
+      this.bytes -= entryBytes(entry);
+    }
+  }
+
+  /**
+   * Drops the oldest generations up to the next keyframe while over budget,
+   * always keeping the latest keyframe and what follows it
+   */
+  private trim(): void {
+    while (this.entries.length > this.maxGenerations || this.bytes > this.maxBytes) {
+      let next = 1;
+      while (next < this.entries.length && this.entries[next].kind !== 'keyframe') next++;
+      if (next >= this.entries.length) return;
+
+      for (const entry of this.entries.splice(0, next)) {
+        this.bytes -= entryBytes(entry);
+      }
+      this.first += next;
+    }
+  }
+}
+
+/**
+ * A history of sparse worlds (see ./sparseLife3D), with the same limits and
+ * rules for recording as GenerationHistory. Each generation is stored
+ * whole, so there are no keyframes: the oldest generations are dropped one
+ * at a time.
+ */
+export class SparseGenerationHistory {
+  readonly maxGenerations: number;
+  readonly maxBytes: number;
+  /** Consecutive generations, starting at `first` */
+  private worlds: SparseGrid3D[] = [];
+  private first = 0;
+  private bytes = 0;
+
+  constructor({ maxGenerations = 1000, maxBytes = 64 * 1024 * 1024 }: HistoryOptions = {}) {
+    checkOptions([['maxGenerations', maxGenerations], ['maxBytes', maxBytes]]);
+    this.maxGenerations = maxGenerations;
+    this.maxBytes = maxBytes;
+  }
+
+  get range(): HistoryRange | null {
+    return this.worlds.length ? { first: this.first, last: this.first + this.worlds.length - 1 } : null;
+  }
+
+  get byteLength(): number {
+    return this.bytes;
+  }
+
+  has(generation: number): boolean {
+    const range = this.range;
+    return range !== null && generation >= range.first && generation <= range.last;
+  }
+
+  clear(): void {
+    this.worlds = [];
+    this.first = 0;
+    this.bytes = 0;
+  }
+
+  /**
+   * Records the cells of a generation, replacing it and forgetting every
+   * later one if it is already stored
+   */
+  record(generation: number, world: SparseGrid3D): void {
+    const range = this.range;
+    if (!range || generation < range.first || generation > range.last + 1) {
+      this.clear();
+      this.first = generation;
+    } else {
+      for (const removed of this.worlds.splice(generation - this.first)) {
+        this.bytes -= removed.byteLength;
+      }
+    }
+
+    const copy = world.clone();
+    this.worlds.push(copy);
+    this.bytes += copy.byteLength;
+
+    // The latest generation is always kept
+    while (this.worlds.length > 1 && (this.worlds.length > this.maxGenerations || this.bytes > this.maxBytes)) {
+      this.bytes -= this.worlds.shift()!.byteLength;
+      this.first++;
+    }
+  }
+
+  /**
+   * Copies the cells of a stored generation into `target`
+   */
+  restore(generation: number, target: SparseGrid3D): void {
+    if (!this.has(generation)) {
+      throw notInHistory(generation, this.range);
+    }
+    target.copyFrom(this.worlds[generation - this.first]);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Generation Statistics
+ *
+ * Per-generation figures for studying how a rule behaves. The engine
+ * gathers them while it steps (see GameOfLife3D.stepInto), so they cost
+ * no extra pass over the grid.
+ *
+ * Only live cells (state 1) count: the dying cells of a Generations rule
+ * are neither population nor births. Positions are plain grid coordinates,
+ * so on a periodic grid a pattern straddling an edge has a bounding box
+ * spanning the whole grid.
+ */
+
+import type { FlatGrid3D, Vector3Tuple } from './flatGrid';
+
+/** Figures for one generation, as produced by a step */
+export interface StepStats {
+  /** Live cells */
+  population: number;
+  /** Cells that became live in this step */
+  births: number;
+  /** Live cells that did not survive this step */
+  deaths: number;
+  /** Live cells that stayed live */
+  survivors: number;
+  /** Smallest and largest coordinates of live cells, or null when there are none */
+  boundingBox: { min: Vector3Tuple; max: Vector3Tuple } | null;
+  /** Mean position of the live cells, or null when there are none */
+  centerOfMass: Vector3Tuple | null;
+}
+
+export interface GenerationStats extends StepStats {
+  generation: number;
+}
+
+/** Most rows a run keeps for charting and export */
+export const MAX_STATS_ROWS = 100000;
+
+export const STATS_CSV_HEADER = [
+  'generation', 'population', 'births', 'deaths', 'survivors',
+  'min_x', 'min_y', 'min_z', 'max_x', 'max_y', 'max_z',
+  'center_x', 'center_y', 'center_z'
+].join(',');
+
+/**
+ * Collects the live cells of a generation one at a time; shared by the
+ * engines' step loops and measureGrid
+ */
+export class LiveCellTally {
+  population = 0;
+  private height: number;
+  private depth: number;
+  private min: Vector3Tuple = [Infinity, Infinity, Infinity];
+  private max: Vector3Tuple = [-Infinity, -Infinity, -Infinity];
+  private sum: Vector3Tuple = [0, 0, 0];
+
+  /**
+   * `grid` gives the layout of the indices passed to add(); tallies fed
+   * only positions (see addCell) need none
+   */
+  constructor(grid?: FlatGrid3D) {
+    this.height = grid ? grid.height : 0;
+    this.depth = grid ? grid.depth : 0;
+  }
+
+  /**
+   * Adds the live cell at a flat grid index
+   */
+  add(index: number): void {
+    const plane = this.height * this.depth;
+    const x = (index / plane) | 0;
+    const rest = index - x * plane;
+    const y = (rest / this.depth) | 0;
+    this.addCell(x, y, rest - y * this.depth);
+  }
+
+  /**
+   * Adds the live cell at a position
+   */
+  addCell(x: number, y: number, z: number): void {
+    this.population++;
+    const { min, max, sum } = this;
+    if (x < min[0]) min[0] = x;
+    if (y < min[1]) min[1] = y;
+    if (z < min[2]) min[2] = z;
+    if (x > max[0]) max[0] = x;
+    if (y > max[1]) max[1] = y;
+    if (z > max[2]) max[2] = z;
+    sum[0] += x;
+    sum[1] += y;
+    sum[2] += z;
+  }
+
+  finish(births: number, deaths: number, survivors: number): StepStats {
+    const { population, min, max, sum } = this;
+    if (population === 0) {
+      return { population, births, deaths, survivors, boundingBox: null, centerOfMass: null };
+    }
+    return {
+      population,
+      births,
+      deaths,
+      survivors,
+      boundingBox: { min: [min[0], min[1], min[2]], max: [max[0], max[1], max[2]] },
+      centerOfMass: [sum[0] / population, sum[1] / population, sum[2] / population]
+    };
+  }
+}
+
+/**
+ * Measures a grid that was not produced by a step (e.g. a new or edited
+ * grid). There is no previous generation, so births, deaths and survivors
+ * are 0.
+ */
+export function measureGrid(grid: FlatGrid3D): StepStats {
+  const tally = new LiveCellTally(grid);
+  const { data } = grid;
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === 1) tally.add(i);
+  }
+  return tally.finish(0, 0, 0);
+}
+
+/**
+ * Adds newly reported rows to a series. The new rows replace any rows from
+ * their first generation on (the run was rewound or edited there), and the
+ * oldest rows are dropped beyond `maxRows`.
+ */
+export function appendStats(series: GenerationStats[], rows: GenerationStats[], maxRows = MAX_STATS_ROWS): GenerationStats[] {
+  if (!rows.length) return series;
+
+  let keep = series.length;
+  while (keep > 0 && series[keep - 1].generation >= rows[0].generation) keep--;
+
+  const merged = series.slice(0, keep).concat(rows);
+  return merged.length > maxRows ? merged.slice(merged.length - maxRows) : merged;
+}
+
+/**
+ * Formats a series as CSV, one row per generation. Position columns are
+ * empty for generations without live cells.
+ */
+export function statsToCsv(series: GenerationStats[]): string {
+  const lines = [STATS_CSV_HEADER];
+  for (const row of series) {
+    const box = row.boundingBox ? [...row.boundingBox.min, ...row.boundingBox.max] : ['', '', '', '', '', ''];
+    const center = row.centerOfMass
+      ? row.centerOfMass.map(value => Number(value.toFixed(3)))
+      : ['', '', ''];
+    lines.push([row.generation, row.population, row.births, row.deaths, row.survivors, ...box, ...center].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
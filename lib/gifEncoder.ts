@@ -0,0 +1,238 @@
+/**
+ * GIF Encoder
+ *
+ * Writes animated GIF89a files from RGBA frames, entirely in memory. Every
+ * frame shares one fixed palette (a 6×7×6 color cube, with more levels of
+ * green, which the eye is most sensitive to), so frames need no per-frame
+ * color analysis and encode in one pass. Pixel data is LZW-compressed as
+ * the format requires.
+ */
+
+/** Levels of red, green and blue in the palette */
+const LEVELS: [red: number, green: number, blue: number] = [6, 7, 6];
+
+/** The palette as RGB triples; the entries after the color cube are black */
+export const GIF_PALETTE: Uint8Array = (() => {
+  const palette = new Uint8Array(256 * 3);
+  let i = 0;
+  for (let r = 0; r < LEVELS[0]; r++) {
+    for (let g = 0; g < LEVELS[1]; g++) {
+      for (let b = 0; b < LEVELS[2]; b++) {
+        palette[i++] = Math.round((r * 255) / (LEVELS[0] - 1));
+        palette[i++] = Math.round((g * 255) / (LEVELS[1] - 1));
+        palette[i++] = Math.round((b * 255) / (LEVELS[2] - 1));
+      }
+    }
+  }
+  return palette;
+})();
+
+/**
+ * The palette index of the color nearest to an RGB color
+ */
+export function paletteIndex(red: number, green: number, blue: number): number {
+  const r = Math.round((red * (LEVELS[0] - 1)) / 255);
+  const g = Math.round((green * (LEVELS[1] - 1)) / 255);
+  const b = Math.round((blue * (LEVELS[2] - 1)) / 255);
+  return (r * LEVELS[1] + g) * LEVELS[2] + b;
+}
+
+/**
+ * Appends bytes to a growing buffer
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  /** A 16-bit value, least significant byte first */
+  short(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  write(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  text(value: string): void {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+const MIN_CODE_SIZE = 8;
+const CLEAR_CODE = 1 << MIN_CODE_SIZE;
+const END_CODE = CLEAR_CODE + 1;
+const MAX_CODE = 4096;
+
+/**
+ * LZW-compresses palette indices into GIF image data: the minimum code
+ * size, then the codes in sub-blocks of up to 255 bytes
+ */
+function compress(indices: Uint8Array, out: ByteWriter): void {
+  out.byte(MIN_CODE_SIZE);
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bits = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    out.byte(blockLength);
+    out.write(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const emit = (code: number, size: number) => {
+    bits |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block[blockLength++] = bits & 0xff;
+      if (blockLength === 255) flushBlock();
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  // Codes of the strings seen so far, keyed by prefix code * 256 + next index
+  const table = new Map<number, number>();
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = END_CODE + 1;
+  emit(CLEAR_CODE, codeSize);
+
+  let prefix = indices.length ? indices[0] : 0;
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = prefix * 256 + index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix, codeSize);
+    // The decoder widens its codes once its table reaches the current width
+    if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+    if (nextCode < MAX_CODE) {
+      table.set(key, nextCode++);
+    } else {
+      emit(CLEAR_CODE, codeSize);
+      table.clear();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = END_CODE + 1;
+    }
+    prefix = index;
+  }
+
+  if (indices.length) {
+    emit(prefix, codeSize);
+    if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  emit(END_CODE, codeSize);
+  if (bitCount > 0) {
+    block[blockLength++] = bits & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  if (blockLength > 0) flushBlock();
+  out.byte(0);
+}
+
+export class GifEncoder {
+  readonly width: number;
+  readonly height: number;
+  private out = new ByteWriter();
+  private frames = 0;
+  private finished = false;
+
+  /**
+   * `loop` is the number of times to repeat the animation, 0 for forever
+   */
+  constructor(width: number, height: number, { loop = 0 }: { loop?: number } = {}) {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1 || width > 0xffff || height > 0xffff) {
+      throw new Error(`Invalid GIF size ${width}×${height}`);
+    }
+    this.width = width;
+    this.height = height;
+
+    const out = this.out;
+    out.text('GIF89a');
+    out.short(width);
+    out.short(height);
+    // A global color table of 256 entries, 8 bits per primary
+    out.byte(0xf7);
+    out.byte(0);
+    out.byte(0);
+    out.write(GIF_PALETTE);
+
+    // The Netscape extension that makes the animation loop
+    out.write([0x21, 0xff, 0x0b]);
+    out.text('NETSCAPE2.0');
+    out.write([0x03, 0x01]);
+    out.short(loop);
+    out.byte(0);
+  }
+
+  /**
+   * Number of frames added so far
+   */
+  get frameCount(): number {
+    return this.frames;
+  }
+
+  /**
+   * Adds a frame of RGBA pixels, row by row from the top left, shown for
+   * `delay` hundredths of a second
+   */
+  addFrame(rgba: ArrayLike<number>, delay: number): void {
+    if (this.finished) {
+      throw new Error('Cannot add frames to a finished GIF');
+    }
+    const pixels = this.width * this.height;
+    if (rgba.length !== pixels * 4) {
+      throw new Error(`Frame has ${rgba.length / 4} pixels but a ${this.width}×${this.height} GIF needs ${pixels}`);
+    }
+
+    const indices = new Uint8Array(pixels);
+    for (let i = 0; i < pixels; i++) {
+      indices[i] = paletteIndex(rgba[i * 4], rgba[i * 4 + 1], rgba[i * 4 + 2]);
+    }
+
+    const out = this.out;
+    // Graphic control extension: the frame's delay, with no transparency
+    out.write([0x21, 0xf9, 0x04, 0x00]);
+    out.short(Math.max(0, Math.round(delay)));
+    out.write([0x00, 0x00]);
+
+    // Image descriptor covering the whole canvas, using the global palette
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(this.width);
+    out.short(this.height);
+    out.byte(0);
+    compress(indices, out);
+    this.frames++;
+  }
+
+  /**
+   * Ends the file and returns its bytes
+   */
+  finish(): Uint8Array {
+    if (!this.finished) {
+      this.out.byte(0x3b);
+      this.finished = true;
+    }
+    return this.out.toBytes();
+  }
+}
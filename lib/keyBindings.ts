@@ -0,0 +1,187 @@
+/**
+ * Keyboard Shortcuts
+ *
+ * The commands the keyboard can run, the key each one is bound to, and the
+ * bindings a user has changed, saved in the browser's local storage.
+ *
+ * Keys are written as combos such as "R", "Shift+R", "Ctrl+K", "Space" or
+ * "ArrowLeft": modifiers first, in the order Ctrl, Alt, Shift, then the
+ * key. Letters are upper case. Shift is left out for symbols, since it is
+ * part of the symbol typed ("?" rather than "Shift+/"), and the Command key
+ * counts as Ctrl so that shortcuts carry over to macOS.
+ */
+
+export type CommandId =
+  | 'togglePlay'
+  | 'step'
+  | 'stepBack'
+  | 'randomize'
+  | 'clear'
+  | 'settings'
+  | 'speedUp'
+  | 'speedDown'
+  | 'editMode'
+  | 'help'
+  | 'commandPalette';
+
+export const COMMAND_NAMES: Record<CommandId, string> = {
+  togglePlay: 'Play / Pause',
+  step: 'Step forward',
+  stepBack: 'Step back',
+  randomize: 'Randomize',
+  clear: 'Clear',
+  settings: 'Settings',
+  speedUp: 'Speed up',
+  speedDown: 'Slow down',
+  editMode: 'Edit mode',
+  help: 'Keyboard shortcuts',
+  commandPalette: 'Command palette'
+};
+
+export const COMMAND_IDS = Object.keys(COMMAND_NAMES) as CommandId[];
+
+/** Commands that run again while their key is held down */
+export const REPEATING_COMMANDS: CommandId[] = ['step', 'stepBack', 'speedUp', 'speedDown'];
+
+/** The key combo of every command; null leaves a command without a key */
+export type KeyBindings = Record<CommandId, string | null>;
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  togglePlay: 'Space',
+  step: 'ArrowRight',
+  stepBack: 'ArrowLeft',
+  randomize: 'R',
+  clear: 'C',
+  settings: 'S',
+  speedUp: ']',
+  speedDown: '[',
+  editMode: 'E',
+  help: '?',
+  commandPalette: 'Ctrl+K'
+};
+
+/** Where changed bindings are kept in local storage */
+export const KEY_BINDINGS_STORAGE_KEY = 'life3d.keyBindings';
+
+/** The parts of a keyboard event a combo is made from */
+export interface KeyPress {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'];
+
+/**
+ * The combo of a key press, or null for a modifier pressed on its own
+ */
+export function keyCombo(press: KeyPress): string | null {
+  if (MODIFIER_KEYS.indexOf(press.key) !== -1) return null;
+
+  const key = press.key === ' ' ? 'Space' : press.key.length === 1 ? press.key.toUpperCase() : press.key;
+  const symbol = key.length === 1 && key.toLowerCase() === key.toUpperCase();
+  const modifiers: string[] = [];
+  if (press.ctrlKey || press.metaKey) modifiers.push('Ctrl');
+  if (press.altKey) modifiers.push('Alt');
+  if (press.shiftKey && !symbol) modifiers.push('Shift');
+  return modifiers.concat(key).join('+');
+}
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc'
+};
+
+/**
+ * Writes a combo for display, e.g. "Shift+←"
+ */
+export function describeCombo(combo: string | null): string {
+  if (!combo) return '–';
+  return combo.split('+').map(part => KEY_SYMBOLS[part] ?? part).join('+');
+}
+
+/**
+ * The command bound to a combo, if any
+ */
+export function commandForCombo(bindings: KeyBindings, combo: string): CommandId | null {
+  return COMMAND_IDS.find(command => bindings[command] === combo) ?? null;
+}
+
+/**
+ * Binds a command to a combo (or to none). A command that had the combo
+ * before loses it, so a key never runs two commands.
+ */
+export function rebindKey(bindings: KeyBindings, command: CommandId, combo: string | null): KeyBindings {
+  const next = { ...bindings };
+  if (combo !== null) {
+    COMMAND_IDS.forEach(other => {
+      if (next[other] === combo) next[other] = null;
+    });
+  }
+  next[command] = combo;
+  return next;
+}
+
+/**
+ * Reads saved bindings over the defaults. Unknown commands and values that
+ * are not combos are ignored, and unreadable data gives the defaults.
+ */
+export function parseKeyBindings(json: string): KeyBindings {
+  let saved: unknown;
+  try {
+    saved = JSON.parse(json);
+  } catch {
+    return { ...DEFAULT_KEY_BINDINGS };
+  }
+  if (typeof saved !== 'object' || saved === null) return { ...DEFAULT_KEY_BINDINGS };
+
+  const entries = saved as Record<string, unknown>;
+  return COMMAND_IDS.reduce((bindings, command) => {
+    const combo = entries[command];
+    return combo === null || (typeof combo === 'string' && combo !== '')
+      ? rebindKey(bindings, command, combo)
+      : bindings;
+  }, { ...DEFAULT_KEY_BINDINGS });
+}
+
+/**
+ * Loads the saved bindings, or the defaults when there are none or storage
+ * is unavailable
+ */
+export function loadKeyBindings(storage: Pick<Storage, 'getItem'> | null): KeyBindings {
+  let json: string | null = null;
+  try {
+    json = storage?.getItem(KEY_BINDINGS_STORAGE_KEY) ?? null;
+  } catch (error) {
+    console.warn(`Could not read saved key bindings: ${(error as Error).message}`);
+  }
+  return json === null ? { ...DEFAULT_KEY_BINDINGS } : parseKeyBindings(json);
+}
+
+/**
+ * Saves bindings, keeping only those that differ from the defaults so that
+ * later changes to the defaults still reach everything left unchanged.
+ * Returns false if storage refused them.
+ */
+export function saveKeyBindings(storage: Pick<Storage, 'setItem' | 'removeItem'>, bindings: KeyBindings): boolean {
+  const changed: Partial<KeyBindings> = {};
+  COMMAND_IDS.forEach(command => {
+    if (bindings[command] !== DEFAULT_KEY_BINDINGS[command]) changed[command] = bindings[command];
+  });
+  try {
+    if (Object.keys(changed).length === 0) {
+      storage.removeItem(KEY_BINDINGS_STORAGE_KEY);
+    } else {
+      storage.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(changed));
+    }
+    return true;
+  } catch (error) {
+    console.warn(`Could not save key bindings: ${(error as Error).message}`);
+    return false;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Neighborhoods
+ *
+ * Which cells count as a cell's neighbors. The classic 3D rules use the 26
+ * cells of the surrounding 3x3x3 cube (Moore, radius 1); other choices are
+ * the 6 face neighbors (von Neumann), the 18 face and edge neighbors, larger
+ * radius-r versions of Moore and von Neumann, or any list of offsets.
+ *
+ * Neighborhoods have a short code for rule notation: "M" or "M2" (Moore,
+ * radius 1 or 2), "N" or "N2" (von Neumann) and "E" (faces and edges).
+ * Custom stencils have no code.
+ */
+
+export type Offset3D = [dx: number, dy: number, dz: number];
+
+export type Neighborhood =
+  | { type: 'moore'; radius: number }
+  | { type: 'vonNeumann'; radius: number }
+  | { type: 'faceEdge' }
+  | { type: 'custom'; offsets: Offset3D[] };
+
+export type NeighborhoodType = Neighborhood['type'];
+
+/** The 26-cell 3x3x3 neighborhood */
+export const MOORE_NEIGHBORHOOD: Neighborhood = { type: 'moore', radius: 1 };
+
+/** Larger radii make neighbor counts too big for the engine's 16-bit counters */
+export const MAX_NEIGHBORHOOD_RADIUS = 5;
+
+export const NEIGHBORHOOD_NAMES: Record<NeighborhoodType, string> = {
+  moore: 'Moore',
+  vonNeumann: 'von Neumann',
+  faceEdge: 'Faces + Edges',
+  custom: 'Custom'
+};
+
+function validateRadius(radius: number): number {
+  if (!Number.isInteger(radius) || radius < 1 || radius > MAX_NEIGHBORHOOD_RADIUS) {
+    throw new Error(`Invalid neighborhood radius ${radius}: expected 1 to ${MAX_NEIGHBORHOOD_RADIUS}`);
+  }
+  return radius;
+}
+
+/**
+ * Lists the offsets of a neighborhood's cells, excluding the cell itself
+ */
+export function neighborhoodOffsets(neighborhood: Neighborhood): Offset3D[] {
+  if (neighborhood.type === 'custom') {
+    return neighborhood.offsets.map((offset): Offset3D => [offset[0], offset[1], offset[2]]);
+  }
+
+  const radius = neighborhood.type === 'faceEdge' ? 1 : validateRadius(neighborhood.radius);
+  const offsets: Offset3D[] = [];
+
+  for (let dx = -radius; dx <= radius; dx++) {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        if (dx === 0 && dy === 0 && dz === 0) continue;
+
+        const manhattan = Math.abs(dx) + Math.abs(dy) + Math.abs(dz);
+        if (neighborhood.type === 'vonNeumann' && manhattan > radius) continue;
+        // Faces and edges differ in one or two coordinates; corners in all three
+        if (neighborhood.type === 'faceEdge' && manhattan > 2) continue;
+
+        offsets.push([dx, dy, dz]);
+      }
+    }
+  }
+
+  return offsets;
+}
+
+/**
+ * Number of neighbors, i.e. the largest possible neighbor count
+ */
+export function neighborhoodSize(neighborhood: Neighborhood): number {
+  if (neighborhood.type === 'moore') {
+    return (2 * validateRadius(neighborhood.radius) + 1) ** 3 - 1;
+  }
+  return neighborhoodOffsets(neighborhood).length;
+}
+
+/**
+ * Checks whether a neighborhood is the default radius-1 Moore neighborhood
+ */
+export function isDefaultNeighborhood(neighborhood: Neighborhood): boolean {
+  return neighborhood.type === 'moore' && neighborhood.radius === 1;
+}
+
+/**
+ * Builds a custom neighborhood, rejecting the origin, non-integer and
+ * duplicate offsets
+ */
+export function createCustomNeighborhood(offsets: Offset3D[]): Neighborhood {
+  const seen: Record<string, boolean> = {};
+
+  for (const offset of offsets) {
+    if (offset.length !== 3 || !offset.every(value => Number.isInteger(value))) {
+      throw new Error(`Invalid offset [${offset.join(', ')}]: expected three whole numbers`);
+    }
+    if (offset[0] === 0 && offset[1] === 0 && offset[2] === 0) {
+      throw new Error('A neighborhood cannot include the cell itself (0, 0, 0)');
+    }
+    const key = offset.join(',');
+    if (seen[key]) {
+      throw new Error(`Duplicate offset (${key})`);
+    }
+    seen[key] = true;
+  }
+
+  if (offsets.length === 0) {
+    throw new Error('A custom neighborhood needs at least one offset');
+  }
+
+  return { type: 'custom', offsets: offsets.map((offset): Offset3D => [offset[0], offset[1], offset[2]]) };
+}
+
+/**
+ * Parses a stencil written as offset triples separated by semicolons or
+ * new lines, e.g. "1,0,0; -1,0,0; 0,2,0"
+ */
+export function parseOffsets(text: string): Offset3D[] {
+  return text
+    .split(/[;\n]/)
+    .map(part => part.trim())
+    .filter(part => part !== '')
+    .map((part): Offset3D => {
+      const values = part.replace(/[()[\]]/g, '').split(/[\s,]+/).filter(value => value !== '');
+      if (values.length !== 3 || !values.every(value => /^-?\d+$/.test(value))) {
+        throw new Error(`Invalid offset "${part}": expected three whole numbers like "1,0,-1"`);
+      }
+      return [parseInt(values[0], 10), parseInt(values[1], 10), parseInt(values[2], 10)];
+    });
+}
+
+/**
+ * Formats offsets in the form accepted by parseOffsets
+ */
+export function formatOffsets(offsets: Offset3D[]): string {
+  return offsets.map(offset => offset.join(',')).join('; ');
+}
+
+/**
+ * Parses a neighborhood code such as "M", "N2" or "E"
+ */
+export function parseNeighborhoodCode(code: string): Neighborhood {
+  const match = /^([MNE])(\d*)$/i.exec(code.trim());
+  if (!match) {
+    throw new Error(`Unknown neighborhood "${code}": expected M, N or E, optionally followed by a radius`);
+  }
+
+  const letter = match[1].toUpperCase();
+  const radius = match[2] ? parseInt(match[2], 10) : 1;
+
+  if (letter === 'E') {
+    if (radius !== 1) throw new Error(`Neighborhood "${code}" does not take a radius`);
+    return { type: 'faceEdge' };
+  }
+  return { type: letter === 'M' ? 'moore' : 'vonNeumann', radius: validateRadius(radius) };
+}
+
+/**
+ * Gets the code for a neighborhood, or null for custom stencils
+ */
+export function neighborhoodCode(neighborhood: Neighborhood): string | null {
+  switch (neighborhood.type) {
+    case 'moore':
+      return neighborhood.radius === 1 ? 'M' : `M${neighborhood.radius}`;
+    case 'vonNeumann':
+      return neighborhood.radius === 1 ? 'N' : `N${neighborhood.radius}`;
+    case 'faceEdge':
+      return 'E';
+    case 'custom':
+      return null;
+  }
+}
+
+/**
+ * Human-readable description, e.g. "von Neumann r2 (24)"
+ */
+export function describeNeighborhood(neighborhood: Neighborhood): string {
+  const name = NEIGHBORHOOD_NAMES[neighborhood.type];
+  const radius = 'radius' in neighborhood && neighborhood.radius > 1 ? ` r${neighborhood.radius}` : '';
+  return `${name}${radius} (${neighborhoodSize(neighborhood)})`;
+}
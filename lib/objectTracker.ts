@@ -0,0 +1,184 @@
+/**
+ * Object Tracking
+ *
+ * Follows the objects of a run (see ./connectedComponents) from one
+ * generation to the next, giving each a lasting id, a velocity and an age.
+ *
+ * Objects of consecutive generations are linked through the cells of
+ * either generation: an object and its successor overlap or touch, so they
+ * fall in the same object of the union of both generations' live cells.
+ * When one object leads to one, the id carries on. When objects split,
+ * merge or both, the event is recorded and the largest object after it
+ * carries on the id of the largest one before it; the rest get new ids.
+ *
+ * Velocity is the mean movement of the centroid over the last
+ * VELOCITY_WINDOW generations, taking the short way across periodic axes.
+ */
+
+import { labelComponents, type ComponentOptions, type GridObject } from './connectedComponents';
+import { FlatGrid3D, type Vector3Tuple } from './flatGrid';
+
+/** Generations the velocity is averaged over */
+export const VELOCITY_WINDOW = 12;
+/** Speed, in cells per generation, above which an object counts as moving */
+export const MOVING_SPEED = 0.05;
+
+export interface TrackedObject extends GridObject {
+  /** Lasting id, numbered from 1 in the order objects are first seen */
+  id: number;
+  /** Mean centroid movement per generation over the recent generations */
+  velocity: Vector3Tuple;
+  /**
+   * Whether the object has kept moving for the whole velocity window. A
+   * glider moves; an oscillator's centroid comes back to where it was.
+   */
+  moving: boolean;
+  /** The generation the object appeared in, or last split or merged */
+  since: number;
+}
+
+/**
+ * A change in which objects there are: one object became several (split),
+ * several became one (merge) or several became several (regroup)
+ */
+export interface ObjectEvent {
+  generation: number;
+  kind: 'split' | 'merge' | 'regroup';
+  /** Ids of the objects before */
+  from: number[];
+  /** Ids of the objects after */
+  to: number[];
+}
+
+export interface ObjectFrame {
+  generation: number;
+  /** The objects, in label order */
+  objects: TrackedObject[];
+  /** The id of every cell's object; 0 for cells that are not live */
+  ids: Int32Array;
+  /** What split or merged since the previous frame */
+  events: ObjectEvent[];
+}
+
+/** Recent centroid movements of an object */
+interface Motion {
+  steps: Vector3Tuple[];
+  /** Where the next movement goes in `steps` once it is full */
+  next: number;
+}
+
+export class ObjectTracker {
+  private options: ComponentOptions;
+  private nextId = 1;
+  private previous: { data: Uint8Array; objects: TrackedObject[] } | null = null;
+  private motions = new Map<number, Motion>();
+
+  constructor(options: ComponentOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Forgets what came before and starts tracking at this grid
+   */
+  reset(grid: FlatGrid3D, generation: number): ObjectFrame {
+    this.previous = null;
+    this.motions.clear();
+    return this.update(grid, generation);
+  }
+
+  /**
+   * Finds the objects of the next grid and links them to the previous one's.
+   * The grid must have the same dimensions as the one before.
+   */
+  update(grid: FlatGrid3D, generation: number): ObjectFrame {
+    const { labels, objects } = labelComponents(grid, this.options);
+    const previous = this.previous;
+    if (previous && previous.data.length !== grid.data.length) {
+      throw new Error('Object tracking needs grids of one size; reset it for a new grid');
+    }
+
+    // The linked objects of before and after, by the union object holding them
+    let unionLabels: Int32Array | null = null;
+    if (previous) {
+      const union = new FlatGrid3D(grid.width, grid.height, grid.depth);
+      for (let i = 0; i < union.data.length; i++) {
+        union.data[i] = grid.data[i] === 1 || previous.data[i] === 1 ? 1 : 0;
+      }
+      unionLabels = labelComponents(union, this.options).labels;
+    }
+    const groups = new Map<number, { before: TrackedObject[]; after: GridObject[] }>();
+    const groupOf = (object: GridObject) => {
+      const key = unionLabels ? unionLabels[object.firstCell] : object.label;
+      if (!groups.has(key)) groups.set(key, { before: [], after: [] });
+      return groups.get(key)!;
+    };
+    previous?.objects.forEach(object => groupOf(object).before.push(object));
+    objects.forEach(object => groupOf(object).after.push(object));
+
+    const tracked = new Map<GridObject, TrackedObject>();
+    const events: ObjectEvent[] = [];
+    const motions = new Map<number, Motion>();
+    groups.forEach(({ before, after }) => {
+      if (!after.length) return;
+      const largest = (list: GridObject[]) => list.reduce((best, object) => object.size > best.size ? object : best);
+      const parent = before.length ? largest(before) as TrackedObject : null;
+      const heir = largest(after);
+      after.forEach(object => {
+        const id = parent && object === heir ? parent.id : this.nextId++;
+        tracked.set(object, { ...object, id, velocity: [0, 0, 0], moving: false, since: generation });
+      });
+      if (!parent) return;
+
+      const successor = tracked.get(heir)!;
+      if (before.length === 1 && after.length === 1) {
+        successor.since = parent.since;
+        const motion = this.motions.get(parent.id) ?? { steps: [], next: 0 };
+        this.move(motion, parent.centroid, heir.centroid, grid);
+        motions.set(parent.id, motion);
+        successor.velocity = meanStep(motion);
+        successor.moving = motion.steps.length === VELOCITY_WINDOW && Math.hypot(...successor.velocity) > MOVING_SPEED;
+        return;
+      }
+      events.push({
+        generation,
+        kind: before.length === 1 ? 'split' : after.length === 1 ? 'merge' : 'regroup',
+        from: before.map(object => (object as TrackedObject).id).sort((a, b) => a - b),
+        to: after.map(object => tracked.get(object)!.id).sort((a, b) => a - b)
+      });
+    });
+
+    const current = objects.map(object => tracked.get(object)!);
+    const ids = new Int32Array(labels.length);
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] !== 0) ids[i] = current[labels[i] - 1].id;
+    }
+
+    this.previous = { data: grid.data.slice(), objects: current };
+    this.motions = motions;
+    return { generation, objects: current, ids, events };
+  }
+
+  /**
+   * Records a centroid movement, taking the short way across periodic axes
+   */
+  private move(motion: Motion, from: Vector3Tuple, to: Vector3Tuple, grid: FlatGrid3D): void {
+    const step = [0, 1, 2].map(axis => {
+      const size = grid.dimensions[axis];
+      const change = to[axis] - from[axis];
+      return this.options.boundaries?.[axis] === 'periodic' ? change - size * Math.round(change / size) : change;
+    }) as Vector3Tuple;
+
+    if (motion.steps.length < VELOCITY_WINDOW) {
+      motion.steps.push(step);
+    } else {
+      motion.steps[motion.next] = step;
+      motion.next = (motion.next + 1) % VELOCITY_WINDOW;
+    }
+  }
+}
+
+function meanStep(motion: Motion): Vector3Tuple {
+  const sum: Vector3Tuple = [0, 0, 0];
+  motion.steps.forEach(step => step.forEach((value, axis) => { sum[axis] += value; }));
+  return sum.map(value => value / motion.steps.length) as Vector3Tuple;
+}
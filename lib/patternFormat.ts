@@ -0,0 +1,217 @@
+/**
+ * 3D Pattern File Format
+ *
+ * Patterns are stored as JSON:
+ *
+ *   {
+ *     "format": "3d-life-pattern",
+ *     "version": 1,
+ *     "name": "Glider",                       // optional
+ *     "dimensions": [20, 20, 20],
+ *     "rule": "B6/S5-7",                      // B/S notation, may end in a neighborhood code
+ *     "neighborhood": [[1, 0, 0], ...],       // only for custom stencils, which have no code
+ *     "boundaries": ["periodic", "periodic", "dead"],
+ *     "cells": [[x, y, z], [x, y, z, state], ...]
+ *   }
+ *
+ * `cells` lists every non-empty cell. Live cells are plain [x, y, z]
+ * triples; the dying cells of a Generations rule add their state as a
+ * fourth element. `boundaries` may also be a single mode for all axes.
+ *
+ * Readers reject files with a newer version than they know, and grids with
+ * a side longer than MAX_PATTERN_LENGTH.
+ */
+
+import { normalizeBoundaries, type AxisBoundaries, type BoundaryMode } from './boundaries';
+import { FlatGrid3D, formatDimensions, normalizeDimensions, type GridDimensions } from './flatGrid';
+import { resolveBoundaries, resolveRule, type GameOfLife3DConfig } from './gameOfLife3D';
+import { MOORE_NEIGHBORHOOD, createCustomNeighborhood, type Neighborhood, type Offset3D } from './neighborhood';
+import { formatRuleNotation, parseRuleNotation, ruleStates } from './rules';
+
+export const PATTERN_FORMAT = '3d-life-pattern';
+export const PATTERN_FORMAT_VERSION = 1;
+/** Longest side a pattern's grid may have, as on the size sliders */
+export const MAX_PATTERN_LENGTH = 100;
+
+/** A cell entry: position, plus the state when it is not 1 (live) */
+export type PatternCell = [x: number, y: number, z: number] | [x: number, y: number, z: number, state: number];
+
+/** The JSON document as written to disk */
+export interface PatternFile {
+  format: typeof PATTERN_FORMAT;
+  version: number;
+  name?: string;
+  dimensions: GridDimensions;
+  rule: string;
+  neighborhood?: Offset3D[];
+  boundaries: BoundaryMode | AxisBoundaries;
+  cells: PatternCell[];
+}
+
+/** A decoded pattern, ready to initialize a simulation with */
+export interface Pattern {
+  name?: string;
+  config: GameOfLife3DConfig;
+  grid: FlatGrid3D;
+}
+
+function invalid(message: string): Error {
+  return new Error(`Invalid pattern file: ${message}`);
+}
+
+/**
+ * Runs a parser from another module, prefixing its error message
+ */
+function checked<T>(field: string, parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    throw invalid(`${field}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Builds the pattern document for a grid and the config it runs under
+ */
+export function createPatternFile(grid: FlatGrid3D, config: GameOfLife3DConfig, name?: string): PatternFile {
+  const neighborhood = config.neighborhood ?? MOORE_NEIGHBORHOOD;
+  const boundaries = resolveBoundaries(config);
+  const cells: PatternCell[] = [];
+
+  for (let x = 0; x < grid.width; x++) {
+    for (let y = 0; y < grid.height; y++) {
+      for (let z = 0; z < grid.depth; z++) {
+        const state = grid.get(x, y, z);
+        if (state === 1) cells.push([x, y, z]);
+        else if (state > 1) cells.push([x, y, z, state]);
+      }
+    }
+  }
+
+  const file: PatternFile = {
+    format: PATTERN_FORMAT,
+    version: PATTERN_FORMAT_VERSION,
+    dimensions: grid.dimensions,
+    rule: formatRuleNotation(resolveRule(config), neighborhood),
+    boundaries: boundaries[0] === boundaries[1] && boundaries[1] === boundaries[2] ? boundaries[0] : boundaries,
+    cells
+  };
+
+  if (name) file.name = name;
+  if (neighborhood.type === 'custom') file.neighborhood = neighborhood.offsets;
+
+  return file;
+}
+
+/**
+ * Serializes a grid and its config as pattern JSON, one cell per line
+ */
+export function serializePattern(grid: FlatGrid3D, config: GameOfLife3DConfig, name?: string): string {
+  const { cells, ...header } = createPatternFile(grid, config, name);
+  const headerJson = JSON.stringify(header, null, 2);
+  const cellLines = cells.map(cell => `    ${JSON.stringify(cell)}`).join(',\n');
+
+  // Splice the cell list in by hand so large patterns stay compact
+  return `${headerJson.slice(0, -2)},\n  "cells": [${cells.length ? `\n${cellLines}\n  ` : ''}]\n}\n`;
+}
+
+/**
+ * Parses and validates pattern JSON. Every problem is reported as an
+ * "Invalid pattern file: ..." error naming the offending field.
+ */
+export function deserializePattern(text: string): Pattern {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw invalid(`not valid JSON (${(error as Error).message})`);
+  }
+  return readPatternFile(data);
+}
+
+/**
+ * Validates an already-parsed pattern document
+ */
+export function readPatternFile(data: unknown): Pattern {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw invalid('expected a JSON object');
+  }
+  const file = data as Partial<Record<keyof PatternFile, unknown>>;
+
+  if (file.format !== PATTERN_FORMAT) {
+    throw invalid(`"format" must be "${PATTERN_FORMAT}"`);
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    throw invalid('"version" must be a positive whole number');
+  }
+  if (file.version > PATTERN_FORMAT_VERSION) {
+    throw invalid(`version ${file.version} is newer than the supported version ${PATTERN_FORMAT_VERSION}`);
+  }
+  if (file.name !== undefined && typeof file.name !== 'string') {
+    throw invalid('"name" must be a string');
+  }
+
+  if (!Array.isArray(file.dimensions) || file.dimensions.length !== 3) {
+    throw invalid('"dimensions" must be [width, height, depth]');
+  }
+  const dimensions = checked('"dimensions"', () => normalizeDimensions(file.dimensions as GridDimensions));
+  if (dimensions.some(length => length > MAX_PATTERN_LENGTH)) {
+    throw invalid(`"dimensions": sides can be at most ${MAX_PATTERN_LENGTH}, not ${formatDimensions(dimensions)}`);
+  }
+
+  if (typeof file.rule !== 'string') {
+    throw invalid('"rule" must be a string in B/S notation');
+  }
+  const notation = file.rule;
+  const { rule, neighborhood: coded } = checked('"rule"', () => parseRuleNotation(notation));
+
+  let neighborhood: Neighborhood = coded ?? MOORE_NEIGHBORHOOD;
+  if (file.neighborhood !== undefined) {
+    if (coded) {
+      throw invalid('"neighborhood" offsets cannot be combined with a neighborhood code in "rule"');
+    }
+    if (!Array.isArray(file.neighborhood)) {
+      throw invalid('"neighborhood" must be a list of [dx, dy, dz] offsets');
+    }
+    const offsets = file.neighborhood as Offset3D[];
+    neighborhood = checked('"neighborhood"', () => createCustomNeighborhood(offsets));
+  }
+
+  if (typeof file.boundaries !== 'string' && !(Array.isArray(file.boundaries) && file.boundaries.length === 3)) {
+    throw invalid('"boundaries" must be a boundary mode or one mode per axis');
+  }
+  const boundaries = checked('"boundaries"', () => normalizeBoundaries(file.boundaries as BoundaryMode | AxisBoundaries));
+
+  if (!Array.isArray(file.cells)) {
+    throw invalid('"cells" must be a list of [x, y, z] or [x, y, z, state] entries');
+  }
+
+  const [width, height, depth] = dimensions;
+  const grid = new FlatGrid3D(width, height, depth);
+  const states = ruleStates(rule);
+
+  file.cells.forEach((cell: unknown, i: number) => {
+    const isCell = Array.isArray(cell) &&
+      (cell.length === 3 || cell.length === 4) &&
+      cell.every(value => typeof value === 'number' && Number.isInteger(value));
+    if (!isCell) {
+      throw invalid(`cell ${i} (${JSON.stringify(cell)}) must be [x, y, z] or [x, y, z, state] with whole numbers`);
+    }
+
+    const [x, y, z, state = 1] = cell as number[];
+    if (!grid.inBounds(x, y, z)) {
+      throw invalid(`cell ${i} (${x}, ${y}, ${z}) lies outside the ${formatDimensions(dimensions)} grid`);
+    }
+    if (state < 1 || state >= states) {
+      throw invalid(`cell ${i} (${x}, ${y}, ${z}) has state ${state}, but rule ${notation} has states 1 to ${states - 1}`);
+    }
+    if (grid.get(x, y, z) !== 0) {
+      throw invalid(`cell ${i} (${x}, ${y}, ${z}) is listed more than once`);
+    }
+
+    grid.set(x, y, z, state);
+  });
+
+  const config: GameOfLife3DConfig = { gridSize: dimensions, rule, neighborhood, boundaries };
+  return file.name === undefined ? { config, grid } : { name: file.name, config, grid };
+}
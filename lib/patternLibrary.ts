@@ -0,0 +1,237 @@
+/**
+ * Pattern Library
+ *
+ * A catalog of small known patterns for the preset rules: still lifes,
+ * oscillators and gliders. Each entry belongs to one rule, since a pattern
+ * that is stable under one rule usually falls apart under any other.
+ *
+ * Cells are live cells relative to the pattern's own corner, in the phase
+ * listed. Every entry's period and displacement are checked against the
+ * engine by the tests.
+ */
+
+import { FlatGrid3D, formatDimensions, type GridDimensions, type Vector3Tuple } from './flatGrid';
+
+export interface LibraryPattern {
+  id: string;
+  name: string;
+  /** The rule the pattern lives in, in rule notation */
+  rule: string;
+  description: string;
+  /** Generations until the pattern repeats; 1 for a still life */
+  period: number;
+  /** How far the pattern moves each period; zero unless it is a glider */
+  displacement: Vector3Tuple;
+  cells: Vector3Tuple[];
+}
+
+export type LibraryPatternKind = 'stillLife' | 'oscillator' | 'glider';
+
+export const PATTERN_KIND_NAMES: Record<LibraryPatternKind, string> = {
+  stillLife: 'Still life',
+  oscillator: 'Oscillator',
+  glider: 'Glider'
+};
+
+export const PATTERN_LIBRARY: LibraryPattern[] = [
+  {
+    id: 'bays-glider',
+    name: 'Bays glider',
+    rule: 'B6/S5-7',
+    description: 'The 10-cell glider Carter Bays found in rule 5766; moves one cell diagonally every 4 generations',
+    period: 4,
+    displacement: [1, 0, 1],
+    cells: [
+      [0, 0, 1], [0, 1, 1], [1, 0, 2], [1, 1, 2], [2, 0, 0], [2, 0, 1],
+      [2, 0, 2], [2, 1, 0], [2, 1, 1], [2, 1, 2]
+    ]
+  },
+  {
+    id: '5766-cube',
+    name: 'Cube',
+    rule: 'B6/S5-7',
+    description: 'A 2×2×2 block; each cell has 7 neighbors and no empty cell has 6',
+    period: 1,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 0], [0, 0, 1], [0, 1, 0], [0, 1, 1], [1, 0, 0], [1, 0, 1],
+      [1, 1, 0], [1, 1, 1]
+    ]
+  },
+  {
+    id: '5766-plate-blinker',
+    name: 'Plate blinker',
+    rule: 'B6/S5-7',
+    description: 'A flat 2×3 plate that flips to stand upright and back',
+    period: 2,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 0], [0, 0, 1], [0, 0, 2], [1, 0, 0], [1, 0, 1], [1, 0, 2]
+    ]
+  },
+  {
+    id: '4555-glider',
+    name: '4555 glider',
+    rule: 'B5/S4-5',
+    description: 'A 10-cell glider of rule 4555; moves one cell diagonally every 4 generations',
+    period: 4,
+    displacement: [1, 1, 0],
+    cells: [
+      [0, 1, 0], [0, 1, 3], [0, 2, 1], [0, 2, 2], [1, 0, 1], [1, 0, 2],
+      [1, 1, 0], [1, 1, 3], [1, 2, 1], [1, 2, 2]
+    ]
+  },
+  {
+    id: '4555-ring',
+    name: 'Ring',
+    rule: 'B5/S4-5',
+    description: 'Eight cells around an empty 1×2 core',
+    period: 1,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 1], [0, 1, 1], [1, 0, 0], [1, 0, 2], [1, 1, 0], [1, 1, 2],
+      [2, 0, 1], [2, 1, 1]
+    ]
+  },
+  {
+    id: '4555-blinker',
+    name: 'Blinker',
+    rule: 'B5/S4-5',
+    description: 'A 7-cell period 2 oscillator',
+    period: 2,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 1, 1], [0, 1, 2], [1, 0, 1], [1, 1, 0], [1, 2, 1], [2, 1, 1],
+      [2, 1, 2]
+    ]
+  },
+  {
+    id: '4555-pulsar',
+    name: 'Pulsar',
+    rule: 'B5/S4-5',
+    description: 'An 8-cell period 4 oscillator',
+    period: 4,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 1, 1], [1, 0, 0], [1, 1, 2], [1, 2, 1], [2, 0, 0], [2, 1, 2],
+      [2, 2, 1], [3, 1, 1]
+    ]
+  },
+  {
+    id: '4545-bent-block',
+    name: 'Bent block',
+    rule: 'B4/S4-5',
+    description: 'A 5-cell still life of the default rule',
+    period: 1,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 0], [0, 0, 1], [1, 0, 0], [1, 1, 0], [1, 1, 1]
+    ]
+  },
+  {
+    id: '4545-blinker',
+    name: 'Corner blinker',
+    rule: 'B4/S4-5',
+    description: 'Four corners of a 2×2×2 cube that swap with the other four every generation',
+    period: 2,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 0], [1, 0, 0], [1, 0, 1], [1, 1, 0]
+    ]
+  },
+  {
+    id: 'classic-cube',
+    name: 'Cube',
+    rule: 'B6-8/S5-7',
+    description: 'A 2×2×2 block',
+    period: 1,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 0], [0, 0, 1], [0, 1, 0], [0, 1, 1], [1, 0, 0], [1, 0, 1],
+      [1, 1, 0], [1, 1, 1]
+    ]
+  },
+  {
+    id: 'classic-period-4',
+    name: 'Period 4 oscillator',
+    rule: 'B6-8/S5-7',
+    description: 'A 14-cell period 4 oscillator',
+    period: 4,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 1], [0, 1, 2], [0, 2, 0], [0, 2, 2], [0, 3, 1], [1, 0, 1],
+      [1, 0, 2], [1, 1, 0], [1, 2, 0], [1, 3, 1], [2, 1, 1], [2, 1, 2],
+      [2, 2, 0], [2, 2, 1]
+    ]
+  },
+  {
+    id: 'classic-period-6',
+    name: 'Period 6 oscillator',
+    rule: 'B6-8/S5-7',
+    description: 'Two hollow square rings stacked on a 2×2 core',
+    period: 6,
+    displacement: [0, 0, 0],
+    cells: [
+      [0, 0, 1], [0, 0, 2], [0, 1, 0], [0, 1, 3], [0, 2, 0], [0, 2, 3],
+      [0, 3, 1], [0, 3, 2], [1, 0, 1], [1, 0, 2], [1, 1, 0], [1, 1, 3],
+      [1, 2, 0], [1, 2, 3], [1, 3, 1], [1, 3, 2], [2, 1, 1], [2, 1, 2],
+      [2, 2, 1], [2, 2, 2]
+    ]
+  }
+];
+
+export function findLibraryPattern(id: string): LibraryPattern {
+  const pattern = PATTERN_LIBRARY.find(entry => entry.id === id);
+  if (!pattern) {
+    throw new Error(`Unknown library pattern "${id}"`);
+  }
+  return pattern;
+}
+
+export function patternKind(pattern: LibraryPattern): LibraryPatternKind {
+  if (pattern.displacement.some(offset => offset !== 0)) return 'glider';
+  return pattern.period === 1 ? 'stillLife' : 'oscillator';
+}
+
+/**
+ * The size of the box the pattern's cells fit in
+ */
+export function patternExtent(pattern: LibraryPattern): GridDimensions {
+  const extent: GridDimensions = [0, 0, 0];
+  for (const cell of pattern.cells) {
+    for (let axis = 0; axis < 3; axis++) {
+      extent[axis] = Math.max(extent[axis], cell[axis] + 1);
+    }
+  }
+  return extent;
+}
+
+/**
+ * Positions the pattern's cells in a grid so that its middle lies on
+ * `center` (the middle of the grid by default). Near a face the pattern is
+ * shifted inwards so that it lies wholly inside the grid.
+ */
+export function placePattern(pattern: LibraryPattern, dimensions: GridDimensions, center?: Vector3Tuple): Vector3Tuple[] {
+  const extent = patternExtent(pattern);
+  if (extent.some((length, axis) => length > dimensions[axis])) {
+    throw new Error(`${pattern.name} is ${formatDimensions(extent)} and does not fit in a ${formatDimensions(dimensions)} grid`);
+  }
+
+  const corner = extent.map((length, axis) => {
+    const middle = center ? center[axis] : Math.floor(dimensions[axis] / 2);
+    const start = middle - Math.floor(length / 2);
+    return Math.min(Math.max(start, 0), dimensions[axis] - length);
+  });
+  return pattern.cells.map(([x, y, z]) => [x + corner[0], y + corner[1], z + corner[2]]);
+}
+
+/**
+ * A grid of the given size holding only the pattern, in the middle
+ */
+export function createPatternGrid(pattern: LibraryPattern, dimensions: GridDimensions): FlatGrid3D {
+  const grid = new FlatGrid3D(dimensions[0], dimensions[1], dimensions[2]);
+  for (const [x, y, z] of placePattern(pattern, dimensions)) {
+    grid.set(x, y, z, 1);
+  }
+  return grid;
+}
@@ -0,0 +1,53 @@
+/**
+ * Seeded Random Numbers
+ *
+ * A small deterministic PRNG (mulberry32) so that a seed always produces the
+ * same sequence on every platform. It only uses 32-bit integer arithmetic,
+ * which JavaScript engines agree on exactly.
+ */
+
+/** A source of uniform random numbers in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/**
+ * Creates a random source from a 32-bit seed
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a fresh seed for a new run
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Turns a seed into a seeded source; sources are passed through and
+ * nothing at all falls back to Math.random
+ */
+export function resolveRandom(seedOrRandom?: number | RandomSource): RandomSource {
+  if (seedOrRandom === undefined) return Math.random;
+  return typeof seedOrRandom === 'number' ? createSeededRandom(seedOrRandom) : seedOrRandom;
+}
+
+/**
+ * Parses a seed typed by the user: a whole number from 0 to 4294967295
+ */
+export function parseSeed(text: string): number {
+  const trimmed = text.trim();
+  const seed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || seed > 0xffffffff) {
+    throw new Error(`Invalid seed "${text}": expected a whole number from 0 to 4294967295`);
+  }
+  return seed;
+}
@@ -0,0 +1,350 @@
+/**
+ * Recording
+ *
+ * Captures the rendered canvas frame by frame, one frame per generation,
+ * and encodes the frames to a WebM video (with the browser's VideoEncoder)
+ * or an animated GIF, entirely in the browser.
+ *
+ * - live: frames are taken as the run plays, each generation's first
+ *   rendered frame, so fades and auto-rotation show as they appear on
+ *   screen. Generations that go by while a frame is encoding are skipped.
+ * - offline: the run is stepped one generation at a time and frame N is
+ *   rendered only after generation N has arrived, with visuals settled,
+ *   so the same start gives the same video however slow encoding is.
+ *
+ * Either way the camera can orbit the grid at an even pace over the
+ * recording.
+ */
+
+import type { Vector3Tuple } from './flatGrid';
+import { GifEncoder } from './gifEncoder';
+import { WebmMuxer } from './webmMuxer';
+
+export type RecordingFormat = 'webm' | 'gif';
+export type RecordingMode = 'live' | 'offline';
+
+export const RECORDING_FORMAT_NAMES: Record<RecordingFormat, string> = {
+  webm: 'WebM video',
+  gif: 'Animated GIF'
+};
+
+export const RECORDING_MODE_NAMES: Record<RecordingMode, string> = {
+  live: 'Live',
+  offline: 'Offline (deterministic)'
+};
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  mode: RecordingMode;
+  /** Frames to record, one generation each */
+  frames: number;
+  /** Frames per second of the output */
+  fps: number;
+  /** Turns the camera makes around the grid over the recording; 0 leaves it alone */
+  orbitTurns: number;
+  /** Longest side of the output in pixels; the canvas is scaled down to fit */
+  maxSize: number;
+}
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  format: 'webm',
+  mode: 'offline',
+  frames: 120,
+  fps: 15,
+  orbitTurns: 1,
+  maxSize: 720
+};
+
+export const MAX_RECORDING_FRAMES = 3600;
+export const MAX_RECORDING_SIZE = 3840;
+/** Browsers slow down GIF frames shown for less than 2 hundredths of a second */
+export const MAX_GIF_FPS = 50;
+export const MAX_VIDEO_FPS = 60;
+
+/** A WebM keyframe every this many seconds, so players can seek */
+const KEYFRAME_SECONDS = 2;
+/** Frames the video encoder may have queued before capturing waits */
+const MAX_ENCODE_QUEUE = 4;
+
+function invalid(message: string): Error {
+  return new Error(`Invalid recording options: ${message}`);
+}
+
+function checkInteger(name: string, value: unknown, min: number, max: number): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw invalid(`${name} must be a whole number from ${min} to ${max}`);
+  }
+}
+
+/**
+ * Checks recording options, throwing an "Invalid recording options: ..."
+ * error if any is out of range
+ */
+export function validateRecordingOptions(options: RecordingOptions): RecordingOptions {
+  if (!(options.format in RECORDING_FORMAT_NAMES)) {
+    throw invalid(`unknown format "${options.format}"`);
+  }
+  if (!(options.mode in RECORDING_MODE_NAMES)) {
+    throw invalid(`unknown mode "${options.mode}"`);
+  }
+  checkInteger('frames', options.frames, 1, MAX_RECORDING_FRAMES);
+  checkInteger('fps', options.fps, 1, options.format === 'gif' ? MAX_GIF_FPS : MAX_VIDEO_FPS);
+  if (typeof options.orbitTurns !== 'number' || !(Math.abs(options.orbitTurns) <= 10)) {
+    throw invalid('orbit turns must be a number from -10 to 10');
+  }
+  checkInteger('size', options.maxSize, 16, MAX_RECORDING_SIZE);
+  return options;
+}
+
+/**
+ * The output size for a canvas: scaled down (never up) so its longer side
+ * fits in `maxSize`, in even pixels as video encoders expect
+ */
+export function recordingSize(width: number, height: number, maxSize: number): [width: number, height: number] {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const even = (length: number) => Math.max(2, 2 * Math.round((length * scale) / 2));
+  return [even(width), even(height)];
+}
+
+/**
+ * Where the camera is for a frame of an orbit: its start position turned
+ * about the vertical axis through the origin, `turns` times over the
+ * recording. The height and distance stay the same.
+ */
+export function orbitCameraPosition(start: Vector3Tuple, frame: number, frames: number, turns: number): Vector3Tuple {
+  const angle = (2 * Math.PI * turns * frame) / frames;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [start[0] * cos + start[2] * sin, start[1], start[2] * cos - start[0] * sin];
+}
+
+/**
+ * Hundredths of a second to show a GIF frame for. Rounding is carried
+ * over, so frames keep to the frame rate on average.
+ */
+export function gifFrameDelay(frame: number, fps: number): number {
+  return Math.round((100 * (frame + 1)) / fps) - Math.round((100 * frame) / fps);
+}
+
+/**
+ * Encodes captured frames into a file
+ */
+export interface FrameRecorder {
+  /**
+   * Adds a frame. The source is read before this returns (so it can be
+   * drawn over straight away); the promise settles once the frame has
+   * been encoded, or at least queued for encoding.
+   */
+  addFrame(source: HTMLCanvasElement, frame: number): Promise<void>;
+  finish(): Promise<Blob>;
+  /** Stops, discarding the frames so far */
+  cancel(): void;
+}
+
+/**
+ * One recording in progress: which generations to capture, where the
+ * camera goes for each frame, and the frames captured so far
+ */
+export class RecordingSession {
+  readonly options: RecordingOptions;
+  private recorder: FrameRecorder;
+  private cameraStart: Vector3Tuple;
+  private captured = 0;
+  /** Generations of the first and latest frames captured */
+  private firstGeneration: number | null = null;
+  private lastGeneration: number | null = null;
+  private busy = false;
+  private finished = false;
+
+  constructor(options: RecordingOptions, recorder: FrameRecorder, cameraStart: Vector3Tuple) {
+    this.options = validateRecordingOptions(options);
+    this.recorder = recorder;
+    this.cameraStart = [cameraStart[0], cameraStart[1], cameraStart[2]];
+  }
+
+  get framesCaptured(): number {
+    return this.captured;
+  }
+
+  /** Whether every frame has been captured */
+  get complete(): boolean {
+    return this.captured >= this.options.frames;
+  }
+
+  /**
+   * The frame to capture while `generation` is on screen, or null to wait.
+   * The first frame shows whatever generation is on screen. After that,
+   * offline, frame N must show the first frame's generation + N; live, any
+   * later generation will do.
+   */
+  frameFor(generation: number): number | null {
+    if (this.busy || this.finished || this.complete) return null;
+    if (this.options.mode === 'offline' && this.firstGeneration !== null) {
+      return generation === this.firstGeneration + this.captured ? this.captured : null;
+    }
+    return this.lastGeneration === null || generation > this.lastGeneration ? this.captured : null;
+  }
+
+  /**
+   * Where to put the camera for a frame, or null when not orbiting
+   */
+  cameraPosition(frame: number): Vector3Tuple | null {
+    const { orbitTurns, frames } = this.options;
+    return orbitTurns === 0 ? null : orbitCameraPosition(this.cameraStart, frame, frames, orbitTurns);
+  }
+
+  /**
+   * Captures the canvas showing `generation` as the next frame. Check
+   * frameFor first; capturing a generation it turns down throws.
+   */
+  async capture(source: HTMLCanvasElement, generation: number): Promise<void> {
+    const frame = this.frameFor(generation);
+    if (frame === null) {
+      throw new Error(`Generation ${generation} is not the next frame to record`);
+    }
+
+    this.busy = true;
+    if (this.firstGeneration === null) this.firstGeneration = generation;
+    this.lastGeneration = generation;
+    try {
+      await this.recorder.addFrame(source, frame);
+      this.captured++;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Ends the recording with the frames captured so far
+   */
+  finish(): Promise<Blob> {
+    if (this.finished) {
+      return Promise.reject(new Error('Recording has already finished'));
+    }
+    this.finished = true;
+    if (this.captured === 0) {
+      this.recorder.cancel();
+      return Promise.reject(new Error('No frames were recorded'));
+    }
+    return this.recorder.finish();
+  }
+
+  cancel(): void {
+    if (!this.finished) {
+      this.finished = true;
+      this.recorder.cancel();
+    }
+  }
+
+  /** A file name such as "life-gen12-131.webm", from the generations recorded */
+  fileName(): string {
+    return `life-gen${this.firstGeneration ?? 0}-${this.lastGeneration ?? 0}.${this.options.format}`;
+  }
+}
+
+/**
+ * Whether this browser can encode video, which WebM recording needs
+ */
+export function videoEncodingSupported(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+/** A canvas to scale frames down to the output size */
+function createScaler(width: number, height: number): { canvas: HTMLCanvasElement; context: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create a canvas to scale frames');
+  }
+  return { canvas, context };
+}
+
+function createGifRecorder(width: number, height: number, fps: number): FrameRecorder {
+  const { context } = createScaler(width, height);
+  const encoder = new GifEncoder(width, height);
+
+  return {
+    async addFrame(source, frame) {
+      context.drawImage(source, 0, 0, width, height);
+      encoder.addFrame(context.getImageData(0, 0, width, height).data, gifFrameDelay(frame, fps));
+    },
+    async finish() {
+      const bytes = encoder.finish();
+      return new Blob([bytes.buffer as ArrayBuffer], { type: 'image/gif' });
+    },
+    cancel() {}
+  };
+}
+
+async function createWebmRecorder(width: number, height: number, fps: number): Promise<FrameRecorder> {
+  if (!videoEncodingSupported()) {
+    throw new Error('This browser cannot encode video; record a GIF instead');
+  }
+  const config: VideoEncoderConfig = {
+    codec: 'vp8',
+    width,
+    height,
+    framerate: fps,
+    bitrate: Math.round(width * height * fps * 0.2)
+  };
+  const support = await VideoEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    throw new Error(`This browser cannot encode ${width}×${height} VP8 video; record a GIF instead`);
+  }
+
+  const { canvas, context } = createScaler(width, height);
+  const muxer = new WebmMuxer({ width, height, codec: 'V_VP8' });
+  const frameDuration = Math.round(1000000 / fps);
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addFrame(data, chunk.timestamp, chunk.type === 'key', chunk.duration ?? frameDuration);
+    },
+    error: error => {
+      failure = error;
+    }
+  });
+  encoder.configure(config);
+
+  const check = () => {
+    if (failure) throw failure;
+  };
+
+  return {
+    async addFrame(source, frame) {
+      check();
+      context.drawImage(source, 0, 0, width, height);
+      const videoFrame = new VideoFrame(canvas, { timestamp: frame * frameDuration, duration: frameDuration });
+      encoder.encode(videoFrame, { keyFrame: frame % Math.max(1, Math.round(fps * KEYFRAME_SECONDS)) === 0 });
+      videoFrame.close();
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        check();
+      }
+    },
+    async finish() {
+      await encoder.flush();
+      encoder.close();
+      check();
+      const bytes = muxer.finish();
+      return new Blob([bytes.buffer as ArrayBuffer], { type: 'video/webm' });
+    },
+    cancel() {
+      if (encoder.state !== 'closed') encoder.close();
+    }
+  };
+}
+
+/**
+ * Creates the encoder for a recording of a canvas of the given size
+ */
+export function createFrameRecorder(options: RecordingOptions, canvasWidth: number, canvasHeight: number): Promise<FrameRecorder> {
+  const [width, height] = recordingSize(canvasWidth, canvasHeight, options.maxSize);
+  return options.format === 'gif'
+    ? Promise.resolve(createGifRecorder(width, height, options.fps))
+    : createWebmRecorder(width, height, options.fps);
+}
@@ -0,0 +1,278 @@
+/**
+ * Birth/Survival Rule Notation
+ *
+ * Rules are written in the common "B/S" notation used for outer-totalistic
+ * cellular automata, e.g. `B5-7/S4-6` or `B4,6/S3,5,7`. Each side lists the
+ * neighbor counts that cause a birth (dead -> alive) or let a live cell survive.
+ * Counts may be given individually, separated by commas, or as inclusive
+ * ranges using `a-b` (or `a..b`).
+ *
+ * Rules from the "Generations" family add a state count with `/C<n>`, e.g.
+ * `B4/S4/C5`: a live cell that fails to survive passes through n - 2 dying
+ * states before it becomes empty, and only live cells count as neighbors.
+ * The equivalent survival/birth/states form used by many 3D CA tools,
+ * `4/4/5/M` ("445"), is accepted as well.
+ *
+ * A rule may also name its neighborhood with a code from ./neighborhood,
+ * e.g. `B1,3/S0-6/N` for von Neumann; see parseRuleNotation.
+ */
+
+import { MOORE_NEIGHBORHOOD, isDefaultNeighborhood, neighborhoodCode, parseNeighborhoodCode, type Neighborhood } from './neighborhood';
+
+/** Inclusive range of neighbor counts, e.g. [4, 6] means 4, 5 or 6 */
+export type CountRange = [number, number];
+
+export interface LifeRule {
+  birth: CountRange[];
+  survival: CountRange[];
+  /** Total number of cell states including empty and live; 2 (the default) is plain Life */
+  states?: number;
+}
+
+/** Cell states are stored in a byte, so this is the most a rule can have */
+export const MAX_STATES = 255;
+
+/** The app's default rule: birth on 4 neighbors, survival on 4-5 */
+export const DEFAULT_RULE: LifeRule = {
+  birth: [[4, 4]],
+  survival: [[4, 5]]
+};
+
+/**
+ * Sorts ranges and merges any that overlap or touch, so that every rule
+ * has a single canonical representation
+ */
+export function normalizeRanges(ranges: CountRange[]): CountRange[] {
+  const sorted = ranges
+    .map(([a, b]): CountRange => (a <= b ? [a, b] : [b, a]))
+    .sort((r1, r2) => r1[0] - r2[0]);
+
+  const merged: CountRange[] = [];
+  for (const [lo, hi] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && lo <= last[1] + 1) {
+      last[1] = Math.max(last[1], hi);
+    } else {
+      merged.push([lo, hi]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Builds ranges from a list of individual neighbor counts
+ */
+export function rangesFromCounts(counts: number[]): CountRange[] {
+  return normalizeRanges(counts.map((n): CountRange => [n, n]));
+}
+
+/**
+ * Expands ranges into the individual neighbor counts they contain
+ */
+export function countsFromRanges(ranges: CountRange[]): number[] {
+  const counts: number[] = [];
+  for (const [lo, hi] of normalizeRanges(ranges)) {
+    for (let n = lo; n <= hi; n++) counts.push(n);
+  }
+  return counts;
+}
+
+/**
+ * Checks whether a neighbor count falls inside any of the given ranges
+ */
+export function rangesContain(ranges: CountRange[], count: number): boolean {
+  for (const [lo, hi] of ranges) {
+    if (count >= lo && count <= hi) return true;
+  }
+  return false;
+}
+
+/**
+ * Creates a normalized rule from birth and survival ranges
+ */
+export function createRule(birth: CountRange[], survival: CountRange[], states = 2): LifeRule {
+  const rule: LifeRule = {
+    birth: normalizeRanges(birth),
+    survival: normalizeRanges(survival)
+  };
+  if (states !== 2) {
+    rule.states = validateStates(states, `${states}`);
+  }
+  return rule;
+}
+
+/**
+ * Gets the number of states a rule uses (2 unless it is a Generations rule)
+ */
+export function ruleStates(rule: LifeRule): number {
+  return rule.states ?? 2;
+}
+
+function validateStates(states: number, source: string): number {
+  if (!Number.isInteger(states) || states < 2 || states > MAX_STATES) {
+    throw new Error(`Invalid state count "${source}": expected a whole number from 2 to ${MAX_STATES}`);
+  }
+  return states;
+}
+
+/**
+ * Converts the legacy single birth count plus survival range into a rule
+ */
+export function ruleFromRange(birthRule: number, survivalMin: number, survivalMax: number): LifeRule {
+  return createRule([[birthRule, birthRule]], [[survivalMin, survivalMax]]);
+}
+
+/**
+ * Parses a count list such as "4,6,8-10" into ranges. An empty string
+ * is a valid (empty) list.
+ */
+export function parseCountList(text: string): CountRange[] {
+  const trimmed = text.trim();
+  if (trimmed === '') return [];
+
+  const ranges: CountRange[] = [];
+  for (const part of trimmed.split(',')) {
+    const match = /^\s*(\d+)\s*(?:(?:-|\.\.)\s*(\d+)\s*)?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid neighbor count "${part.trim()}" in "${text}"`);
+    }
+    const lo = parseInt(match[1], 10);
+    const hi = match[2] !== undefined ? parseInt(match[2], 10) : lo;
+    if (hi < lo) {
+      throw new Error(`Invalid range "${part.trim()}": end is smaller than start`);
+    }
+    ranges.push([lo, hi]);
+  }
+  return normalizeRanges(ranges);
+}
+
+/**
+ * Formats ranges as a count list, collapsing consecutive counts into a-b
+ */
+export function formatCountList(ranges: CountRange[]): string {
+  return normalizeRanges(ranges)
+    .map(([lo, hi]) => (lo === hi ? `${lo}` : `${lo}-${hi}`))
+    .join(',');
+}
+
+/**
+ * Parses rule notation like "B5-7/S4-6" or "B4/S4/C5". The parts may appear
+ * in any order, are case-insensitive, and B or S may be empty ("B3/S").
+ * Survival/birth/states notation such as "4/4/5/M" is also accepted.
+ * Any neighborhood code in the notation is checked but not returned.
+ */
+export function parseRule(notation: string): LifeRule {
+  return parseRuleNotation(notation).rule;
+}
+
+/**
+ * Parses rule notation together with its optional neighborhood code, e.g.
+ * "B4/S4/C5/N2" or "4/4/5/N". The neighborhood is left out when the
+ * notation has no code.
+ */
+export function parseRuleNotation(notation: string): { rule: LifeRule; neighborhood?: Neighborhood } {
+  const parts = notation.trim().split('/').map(part => part.trim());
+
+  if (parts.length >= 3 && /^[\d,.\-\s]*$/.test(parts[0])) {
+    return parseSurvivalBirthStates(notation, parts);
+  }
+
+  let birth: CountRange[] | null = null;
+  let survival: CountRange[] | null = null;
+  let states: number | null = null;
+  let neighborhood: Neighborhood | undefined;
+
+  for (const part of parts) {
+    const prefix = part.charAt(0).toUpperCase();
+    const body = part.slice(1);
+
+    if (prefix === 'B' && birth === null) {
+      birth = parseCountList(body);
+    } else if (prefix === 'S' && survival === null) {
+      survival = parseCountList(body);
+    } else if ((prefix === 'C' || prefix === 'G') && states === null && /^\s*\d+\s*$/.test(body)) {
+      states = validateStates(parseInt(body, 10), body.trim());
+    } else if (/^[MNE]\d*$/i.test(part) && neighborhood === undefined) {
+      neighborhood = parseNeighborhoodCode(part);
+    } else {
+      throw new Error(`Invalid rule "${notation}": unexpected part "${part}"`);
+    }
+  }
+
+  if (birth === null || survival === null) {
+    throw new Error(`Invalid rule "${notation}": expected the form B<counts>/S<counts>`);
+  }
+
+  return {
+    rule: states === null ? { birth, survival } : createRule(birth, survival, states),
+    neighborhood
+  };
+}
+
+/**
+ * Parses the "survival/birth/states[/neighborhood]" form, e.g. "4/4/5/M"
+ */
+function parseSurvivalBirthStates(notation: string, parts: string[]): { rule: LifeRule; neighborhood?: Neighborhood } {
+  if (parts.length > 4) {
+    throw new Error(`Invalid rule "${notation}": expected the form S/B/C or S/B/C/N`);
+  }
+  if (!/^\d+$/.test(parts[2])) {
+    throw new Error(`Invalid rule "${notation}": state count "${parts[2]}" is not a number`);
+  }
+  if (parts.length === 4 && !/^[MNE]\d*$/i.test(parts[3])) {
+    throw new Error(`Invalid rule "${notation}": unsupported neighborhood "${parts[3]}"`);
+  }
+
+  const survival = parseCountList(parts[0]);
+  const birth = parseCountList(parts[1]);
+  return {
+    rule: createRule(birth, survival, validateStates(parseInt(parts[2], 10), parts[2])),
+    neighborhood: parts.length === 4 ? parseNeighborhoodCode(parts[3]) : undefined
+  };
+}
+
+/**
+ * Formats a rule in canonical B/S notation, e.g. "B5-7/S4-6" or "B4/S4/C5"
+ */
+export function formatRule(rule: LifeRule): string {
+  const states = ruleStates(rule);
+  const base = `B${formatCountList(rule.birth)}/S${formatCountList(rule.survival)}`;
+  return states === 2 ? base : `${base}/C${states}`;
+}
+
+/**
+ * Checks whether two rules describe the same birth and survival sets
+ */
+export function rulesEqual(a: LifeRule, b: LifeRule): boolean {
+  return formatRule(a) === formatRule(b);
+}
+
+/**
+ * Formats a rule with its neighborhood code, e.g. "B1,3/S0-6/N". The code is
+ * left out for the default Moore neighborhood and for custom stencils,
+ * which have no code.
+ */
+export function formatRuleNotation(rule: LifeRule, neighborhood: Neighborhood = MOORE_NEIGHBORHOOD): string {
+  const code = isDefaultNeighborhood(neighborhood) ? null : neighborhoodCode(neighborhood);
+  return code ? `${formatRule(rule)}/${code}` : formatRule(rule);
+}
+
+/**
+ * Well-known rules offered as presets in the settings panel
+ */
+export const RULE_PRESETS: { name: string; notation: string }[] = [
+  { name: 'Default', notation: 'B4/S4-5' },
+  { name: 'Classic 3D Life', notation: 'B6-8/S5-7' },
+  { name: 'Bays 4555', notation: 'B5/S4-5' },
+  { name: 'Bays 5766', notation: 'B6/S5-7' },
+  { name: 'Explosive Growth', notation: 'B3-4/S5-8' },
+  { name: 'Crystal Growth', notation: 'B1/S1-2' },
+  { name: 'Sparse Ecology', notation: 'B2/S1-3' },
+  { name: '445', notation: 'B4/S4/C5' },
+  { name: 'Amoeba', notation: 'B5-7,12-13,15/S9-26/C5' },
+  { name: 'Pyroclastic', notation: 'B6-8/S4-7/C10' },
+  { name: 'Builder', notation: 'B4,6,8-9/S2,6,9/C10' },
+  { name: 'Clouds', notation: 'B13-14,17-19/S13-26' },
+  { name: 'Crystal Growth (von Neumann)', notation: 'B1,3/S0-6/N' },
+  { name: 'Slow Decay (faces + edges)', notation: 'B5-6/S3-7/C4/E' }
+];
@@ -0,0 +1,375 @@
+/**
+ * Seed Generators
+ *
+ * Ways of filling a grid at random for the start of a run. Every generator
+ * makes cells live with probability `density`, but shapes where and how:
+ *
+ * - uniform: the whole grid (the same cells as GameOfLife3D.createRandomFlatGrid)
+ * - box: a central box, `size` times each grid dimension
+ * - sphere: a central sphere (an ellipsoid in a grid that is not a cube),
+ *   `radius` times half each grid dimension
+ * - mirror: mirror symmetric across the middle of each chosen axis
+ * - rotational: unchanged by a half (order 2) or quarter (order 4) turn
+ *   about an axis through the middle of the grid
+ * - gradient: density rising along an axis, from density × (1 - contrast)
+ *   at the low face to density × (1 + contrast) at the high face
+ * - blobs: smooth random blobs covering `coverage` of the grid, about
+ *   `scale` cells across, filled at `density`
+ *
+ * A seed makes every generator reproducible.
+ */
+
+import { FlatGrid3D, type GridDimensions } from './flatGrid';
+import { resolveRandom, type RandomSource } from './random';
+
+export type SeedGenerator =
+  | { type: 'uniform' }
+  | { type: 'box'; size: number }
+  | { type: 'sphere'; radius: number }
+  | { type: 'mirror'; axes: [x: boolean, y: boolean, z: boolean] }
+  | { type: 'rotational'; axis: number; order: 2 | 4 }
+  | { type: 'gradient'; axis: number; contrast: number }
+  | { type: 'blobs'; scale: number; coverage: number };
+
+export type SeedGeneratorType = SeedGenerator['type'];
+
+export const SEED_GENERATOR_NAMES: Record<SeedGeneratorType, string> = {
+  uniform: 'Uniform',
+  box: 'Central Box',
+  sphere: 'Central Sphere',
+  mirror: 'Mirror Symmetric',
+  rotational: 'Rotationally Symmetric',
+  gradient: 'Gradient',
+  blobs: 'Noise Blobs'
+};
+
+export const UNIFORM_GENERATOR: SeedGenerator = { type: 'uniform' };
+
+/** The parameters each generator starts with when picked */
+export const DEFAULT_SEED_GENERATORS: Record<SeedGeneratorType, SeedGenerator> = {
+  uniform: UNIFORM_GENERATOR,
+  box: { type: 'box', size: 0.5 },
+  sphere: { type: 'sphere', radius: 0.6 },
+  mirror: { type: 'mirror', axes: [true, false, false] },
+  rotational: { type: 'rotational', axis: 1, order: 4 },
+  gradient: { type: 'gradient', axis: 1, contrast: 1 },
+  blobs: { type: 'blobs', scale: 6, coverage: 0.3 }
+};
+
+/** Largest blob scale, in cells */
+export const MAX_BLOB_SCALE = 64;
+
+const AXIS_LETTERS = 'xyz';
+
+function invalid(message: string): Error {
+  return new Error(`Invalid seed generator: ${message}`);
+}
+
+function checkFraction(name: string, value: unknown, allowZero = true): void {
+  if (typeof value !== 'number' || !(allowZero ? value >= 0 : value > 0) || !(value <= 1)) {
+    throw invalid(`${name} must be a number ${allowZero ? 'from 0' : 'above 0 and up'} to 1`);
+  }
+}
+
+function checkAxis(value: unknown): void {
+  if (value !== 0 && value !== 1 && value !== 2) {
+    throw invalid('axis must be 0 (x), 1 (y) or 2 (z)');
+  }
+}
+
+/**
+ * Checks that a value is a generator with valid parameters, e.g. one read
+ * from a link. Throws an "Invalid seed generator: ..." error otherwise.
+ */
+export function validateSeedGenerator(value: unknown): SeedGenerator {
+  if (typeof value !== 'object' || value === null) {
+    throw invalid('expected an object');
+  }
+  const generator = value as SeedGenerator;
+
+  switch (generator.type) {
+    case 'uniform':
+      break;
+    case 'box':
+      checkFraction('size', generator.size, false);
+      break;
+    case 'sphere':
+      checkFraction('radius', generator.radius, false);
+      break;
+    case 'mirror':
+      if (!Array.isArray(generator.axes) || generator.axes.length !== 3 ||
+          !generator.axes.every(axis => typeof axis === 'boolean')) {
+        throw invalid('axes must be three true/false flags');
+      }
+      break;
+    case 'rotational':
+      checkAxis(generator.axis);
+      if (generator.order !== 2 && generator.order !== 4) {
+        throw invalid('order must be 2 or 4');
+      }
+      break;
+    case 'gradient':
+      checkAxis(generator.axis);
+      checkFraction('contrast', generator.contrast);
+      break;
+    case 'blobs':
+      if (typeof generator.scale !== 'number' || !(generator.scale >= 1 && generator.scale <= MAX_BLOB_SCALE)) {
+        throw invalid(`scale must be a number from 1 to ${MAX_BLOB_SCALE}`);
+      }
+      checkFraction('coverage', generator.coverage);
+      break;
+    default:
+      throw invalid(`unknown type "${(generator as { type: unknown }).type}"`);
+  }
+
+  return generator;
+}
+
+/**
+ * Short description such as "Central Box 50%" or "Mirror Symmetric (x, z)"
+ */
+export function describeSeedGenerator(generator: SeedGenerator): string {
+  const name = SEED_GENERATOR_NAMES[generator.type];
+  switch (generator.type) {
+    case 'uniform':
+      return name;
+    case 'box':
+      return `${name} ${Math.round(generator.size * 100)}%`;
+    case 'sphere':
+      return `${name} ${Math.round(generator.radius * 100)}%`;
+    case 'mirror': {
+      const axes = generator.axes.map((on, axis) => on ? AXIS_LETTERS.charAt(axis) : '').filter(Boolean);
+      return `${name} (${axes.length ? axes.join(', ') : 'none'})`;
+    }
+    case 'rotational':
+      return `${name} (${generator.order}-fold about ${AXIS_LETTERS.charAt(generator.axis)})`;
+    case 'gradient':
+      return `${name} along ${AXIS_LETTERS.charAt(generator.axis)}`;
+    case 'blobs':
+      return `${name} ${generator.scale} cells, ${Math.round(generator.coverage * 100)}%`;
+  }
+}
+
+/**
+ * Whether a quarter turn about an axis maps the grid onto itself, i.e. the
+ * cross-section across that axis is square
+ */
+export function quarterTurnFits(dimensions: GridDimensions, axis: number): boolean {
+  const [u, v] = [0, 1, 2].filter(other => other !== axis);
+  return dimensions[u] === dimensions[v];
+}
+
+/**
+ * Adapts a generator to a grid: a quarter-turn symmetry falls back to a
+ * half turn when the grid's cross-section is not square
+ */
+export function fitSeedGenerator(generator: SeedGenerator, dimensions: GridDimensions): SeedGenerator {
+  if (generator.type === 'rotational' && generator.order === 4 && !quarterTurnFits(dimensions, generator.axis)) {
+    return { ...generator, order: 2 };
+  }
+  return generator;
+}
+
+/**
+ * Fills a new grid using a generator. The random numbers are drawn in a
+ * fixed order, so a seed always gives the same grid.
+ */
+export function generateSeedGrid(
+  dimensions: GridDimensions,
+  density: number,
+  generator: SeedGenerator = UNIFORM_GENERATOR,
+  seedOrRandom?: number | RandomSource
+): FlatGrid3D {
+  validateSeedGenerator(generator);
+  const [width, height, depth] = dimensions;
+  const grid = new FlatGrid3D(width, height, depth);
+  const random = resolveRandom(seedOrRandom);
+
+  switch (generator.type) {
+    case 'uniform':
+      fillWhere(grid, random, () => density);
+      break;
+
+    case 'box': {
+      const ranges = dimensions.map(length => {
+        const size = Math.max(1, Math.round(length * generator.size));
+        const start = Math.floor((length - size) / 2);
+        return [start, start + size];
+      });
+      fillWhere(grid, random, (x, y, z) =>
+        [x, y, z].every((value, axis) => value >= ranges[axis][0] && value < ranges[axis][1]) ? density : 0);
+      break;
+    }
+
+    case 'sphere':
+      fillWhere(grid, random, (x, y, z) => {
+        let distance = 0;
+        [x, y, z].forEach((value, axis) => {
+          const half = dimensions[axis] / 2;
+          const offset = (value + 0.5 - half) / (half * generator.radius);
+          distance += offset * offset;
+        });
+        return distance <= 1 ? density : 0;
+      });
+      break;
+
+    case 'gradient':
+      fillWhere(grid, random, (x, y, z) => {
+        const position = ([x, y, z][generator.axis] + 0.5) / dimensions[generator.axis];
+        return Math.min(1, density * (1 + generator.contrast * (2 * position - 1)));
+      });
+      break;
+
+    case 'mirror':
+    case 'rotational':
+      fillSymmetric(grid, random, density, symmetryMaps(dimensions, generator));
+      break;
+
+    case 'blobs': {
+      const inside = blobMask(dimensions, generator.scale, generator.coverage, random);
+      fillWhere(grid, random, (x, y, z) => inside[grid.index(x, y, z)] ? density : 0);
+      break;
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Draws one random number per cell, in index order, making the cell live
+ * when it falls below the cell's probability
+ */
+function fillWhere(grid: FlatGrid3D, random: RandomSource, probability: (x: number, y: number, z: number) => number): void {
+  const { data, width, height, depth } = grid;
+  let i = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < depth; z++, i++) {
+        data[i] = random() < probability(x, y, z) ? 1 : 0;
+      }
+    }
+  }
+}
+
+type CoordinateMap = (x: number, y: number, z: number) => [number, number, number];
+
+/**
+ * The maps a symmetric seed must be unchanged by, besides the identity
+ */
+function symmetryMaps(
+  dimensions: GridDimensions,
+  generator: Extract<SeedGenerator, { type: 'mirror' | 'rotational' }>
+): CoordinateMap[] {
+  const [width, height, depth] = dimensions;
+
+  if (generator.type === 'mirror') {
+    const maps: CoordinateMap[] = [];
+    // Every combination of the chosen reflections
+    for (let mask = 1; mask < 8; mask++) {
+      if ([0, 1, 2].some(axis => (mask >> axis) & 1 && !generator.axes[axis])) continue;
+      maps.push((x, y, z) => [
+        mask & 1 ? width - 1 - x : x,
+        mask & 2 ? height - 1 - y : y,
+        mask & 4 ? depth - 1 - z : z
+      ]);
+    }
+    return maps;
+  }
+
+  // Rotations turn the plane of the two other axes
+  const [u, v] = [0, 1, 2].filter(axis => axis !== generator.axis);
+  const uLength = dimensions[u];
+  const vLength = dimensions[v];
+  if (generator.order === 4 && !quarterTurnFits(dimensions, generator.axis)) {
+    throw invalid(
+      `a quarter turn about ${AXIS_LETTERS.charAt(generator.axis)} needs a square ` +
+      `${AXIS_LETTERS.charAt(u)}-${AXIS_LETTERS.charAt(v)} cross-section, not ${uLength}×${vLength}`
+    );
+  }
+
+  const turn = (coordinates: [number, number, number], quarter: boolean): [number, number, number] => {
+    const result: [number, number, number] = [coordinates[0], coordinates[1], coordinates[2]];
+    if (quarter) {
+      result[u] = coordinates[v];
+      result[v] = uLength - 1 - coordinates[u];
+    } else {
+      result[u] = uLength - 1 - coordinates[u];
+      result[v] = vLength - 1 - coordinates[v];
+    }
+    return result;
+  };
+
+  const half: CoordinateMap = (x, y, z) => turn([x, y, z], false);
+  if (generator.order === 2) return [half];
+  const quarter: CoordinateMap = (x, y, z) => turn([x, y, z], true);
+  return [quarter, half, (x, y, z) => half(...quarter(x, y, z))];
+}
+
+/**
+ * Draws a random state for the first cell of each orbit (in index order)
+ * and copies it to the rest of the orbit
+ */
+function fillSymmetric(grid: FlatGrid3D, random: RandomSource, density: number, maps: CoordinateMap[]): void {
+  const { data, width, height, depth } = grid;
+  let i = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < depth; z++, i++) {
+        let first = i;
+        for (const map of maps) {
+          const [mx, my, mz] = map(x, y, z);
+          first = Math.min(first, grid.index(mx, my, mz));
+        }
+        data[i] = first === i ? (random() < density ? 1 : 0) : data[first];
+      }
+    }
+  }
+}
+
+/**
+ * Marks the cells inside blobs: smooth value noise on a lattice `scale`
+ * cells apart, cut at the level that leaves `coverage` of the cells inside
+ */
+function blobMask(dimensions: GridDimensions, scale: number, coverage: number, random: RandomSource): Uint8Array {
+  const [width, height, depth] = dimensions;
+  const lattice = dimensions.map(length => Math.ceil(length / scale) + 2);
+  const values = new Float32Array(lattice[0] * lattice[1] * lattice[2]);
+  for (let i = 0; i < values.length; i++) values[i] = random();
+
+  const at = (lx: number, ly: number, lz: number) => values[(lx * lattice[1] + ly) * lattice[2] + lz];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+
+  const noise = new Float32Array(width * height * depth);
+  let i = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      for (let z = 0; z < depth; z++, i++) {
+        const fx = (x + 0.5) / scale;
+        const fy = (y + 0.5) / scale;
+        const fz = (z + 0.5) / scale;
+        const [lx, ly, lz] = [Math.floor(fx), Math.floor(fy), Math.floor(fz)];
+        const [tx, ty, tz] = [smooth(fx - lx), smooth(fy - ly), smooth(fz - lz)];
+
+        let sum = 0;
+        for (let corner = 0; corner < 8; corner++) {
+          const cx = corner & 1;
+          const cy = (corner >> 1) & 1;
+          const cz = (corner >> 2) & 1;
+          const weight = (cx ? tx : 1 - tx) * (cy ? ty : 1 - ty) * (cz ? tz : 1 - tz);
+          sum += weight * at(lx + cx, ly + cy, lz + cz);
+        }
+        noise[i] = sum;
+      }
+    }
+  }
+
+  const inside = new Uint8Array(noise.length);
+  const count = Math.round(coverage * noise.length);
+  if (count === 0) return inside;
+
+  const threshold = noise.slice().sort()[noise.length - count];
+  for (let j = 0; j < noise.length; j++) {
+    inside[j] = noise[j] >= threshold ? 1 : 0;
+  }
+  return inside;
+}
@@ -0,0 +1,26 @@
+/**
+ * Simulation Web Worker
+ *
+ * Runs the engine off the main thread. Requests and responses follow
+ * ./simulationProtocol; grid buffers are transferred back to the UI.
+ */
+
+import { SimulationHost } from './simulationHost';
+import { transferablesOf, type SimulationRequest, type SimulationResponse } from './simulationProtocol';
+
+const host = new SimulationHost();
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const request = event.data;
+  let response: SimulationResponse | null;
+
+  try {
+    response = host.handle(request);
+  } catch (error) {
+    response = { type: 'error', reason: request.type, message: (error as Error).message };
+  }
+
+  if (response) {
+    self.postMessage(response, { transfer: transferablesOf(response) });
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * Simulation Client
+ *
+ * UI-side wrapper around the simulation worker. It sends typed requests and
+ * hands each reported generation to a callback as a FlatGrid3D.
+ *
+ * Step requests are coalesced: while one step is being computed, further
+ * steps are queued and sent together once it returns, so a slow worker
+ * never builds up a backlog and the UI always renders the latest generation.
+ */
+
+import type { CycleStatus } from './cycleDetector';
+import { FlatGrid3D, type Vector3Tuple } from './flatGrid';
+import type { HistoryRange } from './generationHistory';
+import type { GenerationStats } from './generationStats';
+import type { GameOfLife3DConfig } from './gameOfLife3D';
+import type { SeedGenerator } from './seedGenerators';
+import {
+  transferablesOf,
+  type CellUpdate,
+  type EngineKind,
+  type GenerationMessage,
+  type ObjectReport,
+  type ReportOptions,
+  type SimulationRequest,
+  type SimulationResponse
+} from './simulationProtocol';
+
+/** The subset of the Worker API the client uses */
+export interface WorkerLike {
+  postMessage(message: SimulationRequest, transfer: Transferable[]): void;
+  onmessage: ((event: MessageEvent<SimulationResponse>) => void) | null;
+  terminate(): void;
+}
+
+export interface GenerationSnapshot {
+  generation: number;
+  population: number;
+  stats: GenerationStats[];
+  grid: FlatGrid3D;
+  /** World position of the grid's first cell; see GenerationMessage */
+  origin: Vector3Tuple;
+  cycle: CycleStatus;
+  history: HistoryRange;
+  reason: GenerationMessage['reason'];
+  /** Live neighbors of each cell, indexed like the grid's data, when reported */
+  neighbors?: Uint16Array;
+  /** The generation each non-empty cell appeared in, when reported */
+  births?: Uint32Array;
+  /** The objects, when reported */
+  objects?: ObjectReport;
+  /** The tracked id of each cell's object, when objects are reported */
+  objectIds?: Int32Array;
+}
+
+export interface SimulationClientCallbacks {
+  onGeneration: (snapshot: GenerationSnapshot) => void;
+  onError?: (message: string) => void;
+}
+
+export class SimulationClient {
+  private worker: WorkerLike;
+  private callbacks: SimulationClientCallbacks;
+  private stepInFlight = false;
+  private queuedSteps = 0;
+
+  constructor(worker: WorkerLike, callbacks: SimulationClientCallbacks) {
+    this.worker = worker;
+    this.callbacks = callbacks;
+    this.worker.onmessage = (event) => this.receive(event.data);
+  }
+
+  /**
+   * Starts a new run; any queued steps from the previous run are dropped
+   */
+  init(
+    config: GameOfLife3DConfig,
+    options: { engine?: EngineKind; density?: number; seed?: number; generator?: SeedGenerator; cells?: FlatGrid3D } = {}
+  ): void {
+    this.queuedSteps = 0;
+    const { engine, density, seed, generator } = options;
+    const cells = options.cells ? options.cells.data.slice().buffer : undefined;
+    this.send({ type: 'init', config, engine, density, seed, generator, cells });
+  }
+
+  configure(config: Partial<GameOfLife3DConfig>): void {
+    this.send({ type: 'configure', config });
+  }
+
+  step(count = 1): void {
+    if (this.stepInFlight) {
+      this.queuedSteps += count;
+      return;
+    }
+    this.stepInFlight = true;
+    this.send({ type: 'step', count });
+  }
+
+  /**
+   * Jumps to a generation in the history; queued steps are dropped, as they
+   * were meant for the generation being left
+   */
+  seek(generation: number): void {
+    this.queuedSteps = 0;
+    this.send({ type: 'seek', generation });
+  }
+
+  setCells(cells: CellUpdate[]): void {
+    this.send({ type: 'setCells', cells });
+  }
+
+  snapshot(): void {
+    this.send({ type: 'snapshot' });
+  }
+
+  /**
+   * Chooses the figures later generations carry; the current
+   * generation is reported again with them
+   */
+  report(options: ReportOptions): void {
+    this.send({ type: 'report', ...options });
+  }
+
+  /**
+   * Whether a step is being computed or waiting to be sent
+   */
+  get busy(): boolean {
+    return this.stepInFlight || this.queuedSteps > 0;
+  }
+
+  dispose(): void {
+    this.worker.onmessage = null;
+    this.worker.terminate();
+  }
+
+  private send(request: SimulationRequest): void {
+    this.worker.postMessage(request, transferablesOf(request));
+  }
+
+  private receive(response: SimulationResponse): void {
+    if (response.reason === 'step') {
+      this.stepInFlight = false;
+      if (this.queuedSteps > 0) {
+        const count = this.queuedSteps;
+        this.queuedSteps = 0;
+        this.step(count);
+      }
+    }
+
+    if (response.type === 'error') {
+      this.callbacks.onError?.(response.message);
+      return;
+    }
+
+    const [width, height, depth] = response.dimensions;
+    this.callbacks.onGeneration({
+      generation: response.generation,
+      population: response.population,
+      stats: response.stats,
+      grid: new FlatGrid3D(width, height, depth, new Uint8Array(response.cells)),
+      origin: response.origin,
+      cycle: response.cycle,
+      history: response.history,
+      reason: response.reason,
+      neighbors: response.neighbors ? new Uint16Array(response.neighbors) : undefined,
+      births: response.births ? new Uint32Array(response.births) : undefined,
+      objects: response.objects,
+      objectIds: response.objectIds ? new Int32Array(response.objectIds) : undefined
+    });
+  }
+}
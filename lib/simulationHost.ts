@@ -0,0 +1,387 @@
+/**
+ * Simulation Host
+ *
+ * Owns the engine and grid on the worker side of the simulation protocol.
+ * It has no dependency on the worker global, so it can be driven directly
+ * (e.g. from tests); ./simulation.worker wires it to postMessage.
+ *
+ * Either engine can be behind it: the dense engine with its bounded grid,
+ * or the sparse engine with an unbounded world, of which only a box that
+ * follows the live cells is reported.
+ *
+ * When asked to, it also reports each cell's neighbor count and the
+ * generation it appeared in. Births are followed step by step only while
+ * they are reported, since that costs a pass over the cells per step.
+ * Objects are tracked the same way, on the dense engine only; a sparse
+ * world's reported box moves with the cells, so it reports no objects.
+ *
+ * Settings configured before the first init are kept for it, so a client
+ * can send them as soon as the worker starts.
+ */
+
+import { CycleDetector } from './cycleDetector';
+import { FlatGrid3D, normalizeDimensions, type GridDimensions, type GridDoubleBuffer, type Vector3Tuple } from './flatGrid';
+import { GameOfLife3D, mergeConfig, type GameOfLife3DConfig } from './gameOfLife3D';
+import { GenerationHistory, SparseGenerationHistory } from './generationHistory';
+import { measureGrid, type GenerationStats, type StepStats } from './generationStats';
+import type { ObjectEvent, ObjectFrame, ObjectTracker } from './objectTracker';
+import { generateSeedGrid, type SeedGenerator } from './seedGenerators';
+import { MAX_REPORTED_OBJECTS, type EngineKind, type GenerationMessage, type ReportOptions, type SimulationRequest, type SimulationRequestType } from './simulationProtocol';
+import { SparseGameOfLife3D, SparseGrid3D, followLiveRegion, measureWorld, packCell } from './sparseLife3D';
+
+/** The engine in use and the cells it steps */
+type HostState =
+  | {
+      kind: 'dense';
+      engine: GameOfLife3D;
+      buffer: GridDoubleBuffer;
+      history: GenerationHistory;
+      /** Birth generation of every cell, while births are reported */
+      births: Uint32Array | null;
+      /** Object tracking, while objects are reported */
+      objects: {
+        tracker: ObjectTracker;
+        frame: ObjectFrame;
+        /** Splits and merges not reported yet */
+        events: ObjectEvent[];
+      } | null;
+    }
+  | {
+      kind: 'sparse';
+      engine: SparseGameOfLife3D;
+      world: SparseGrid3D;
+      history: SparseGenerationHistory;
+      /** Birth generation of every non-empty cell by key, while births are reported */
+      births: Map<number, number> | null;
+      /** Size of the box of cells reported back */
+      view: GridDimensions;
+      /** World position of the box's first cell */
+      origin: Vector3Tuple;
+    };
+
+export class SimulationHost {
+  private state: HostState | null = null;
+  private generation = 0;
+  private cycles = new CycleDetector();
+  private report: ReportOptions = { neighbors: false, births: false, objects: false };
+  /** Settings configured before the first init, applied under its config */
+  private pendingConfig: Partial<GameOfLife3DConfig> = {};
+
+  /**
+   * Handles one request, returning the generation to report back (if any).
+   * Throws on invalid requests; the caller turns that into an error message.
+   */
+  handle(request: SimulationRequest): GenerationMessage | null {
+    switch (request.type) {
+      case 'init':
+        this.init(mergeConfig(this.pendingConfig, request.config), request.engine, request.density, request.seed, request.generator, request.cells);
+        return this.snapshot('init');
+
+      case 'configure': {
+        const state = this.state;
+        if (!state) {
+          this.pendingConfig = mergeConfig(this.pendingConfig, request.config);
+          return null;
+        }
+        const dimensions = state.kind === 'dense' ? state.engine.getDimensions() : state.view;
+        if (request.config.gridSize !== undefined &&
+            normalizeDimensions(request.config.gridSize).join() !== dimensions.join()) {
+          throw new Error('Changing the grid size needs a new init');
+        }
+        state.engine.updateConfig(request.config);
+        // Cycles and later generations found under the old settings say
+        // nothing about the new ones
+        this.recordHistory();
+        this.restartCycleDetection();
+        // The neighborhood or boundaries that link objects may have changed
+        this.restartObjects();
+        return null;
+      }
+
+      case 'step': {
+        const state = this.requireState();
+        const stats: GenerationStats[] = [];
+        for (let i = 0; i < request.count; i++) {
+          const stepStats = state.kind === 'dense' ? state.engine.advance(state.buffer) : state.engine.advance(state.world);
+          this.generation++;
+          this.recordBirths();
+          this.trackObjects();
+          stats.push({ generation: this.generation, ...stepStats });
+          this.recordHistory();
+          this.cycles.record(this.generation, state.kind === 'dense' ? state.buffer.front : state.world);
+        }
+        if (stats.length) this.follow(stats[stats.length - 1]);
+        return this.snapshot('step', stats);
+      }
+
+      case 'setCells': {
+        const state = this.requireState();
+        for (const [x, y, z, value] of request.cells) {
+          // Painted cells are born now, unless they were already there
+          if (state.kind === 'dense') {
+            const grid = state.buffer.front;
+            const appears = grid.inBounds(x, y, z) && grid.get(x, y, z) === 0;
+            state.engine.setCell(grid, x, y, z, value);
+            if (state.births && appears) state.births[grid.index(x, y, z)] = this.generation;
+          } else {
+            const appears = state.world.get(x, y, z) === 0;
+            state.world.set(x, y, z, value);
+            if (!state.births) continue;
+            if (state.world.get(x, y, z) === 0) {
+              state.births.delete(packCell(x, y, z));
+            } else if (appears) {
+              state.births.set(packCell(x, y, z), this.generation);
+            }
+          }
+        }
+        // The edit replaces this generation in the history and discards any
+        // generations after it
+        this.recordHistory();
+        this.restartCycleDetection();
+        this.trackObjects();
+        return this.snapshot('setCells');
+      }
+
+      case 'seek': {
+        const state = this.requireState();
+        if (state.kind === 'dense') {
+          state.history.restore(request.generation, state.buffer.front);
+        } else {
+          state.history.restore(request.generation, state.world);
+          this.follow(measureWorld(state.world));
+        }
+        this.generation = request.generation;
+        this.restartCycleDetection();
+        this.restartBirths();
+        this.restartObjects();
+        return this.snapshot('seek');
+      }
+
+      case 'snapshot':
+        this.requireState();
+        return this.snapshot('snapshot');
+
+      case 'report': {
+        const { neighbors, births, objects } = request;
+        const following = this.report;
+        this.report = { neighbors, births, objects };
+        if (!this.state) return null;
+        if (births !== following.births) this.restartBirths();
+        if (objects !== following.objects) this.restartObjects();
+        return this.snapshot('report');
+      }
+    }
+  }
+
+  private init(
+    config: GameOfLife3DConfig,
+    engineKind: EngineKind = 'dense',
+    density?: number,
+    seed?: number,
+    generator?: SeedGenerator,
+    cells?: ArrayBuffer
+  ): void {
+    const dimensions = normalizeDimensions(config.gridSize);
+    let grid: FlatGrid3D;
+
+    if (cells) {
+      grid = new FlatGrid3D(dimensions[0], dimensions[1], dimensions[2], new Uint8Array(cells));
+    } else if (density !== undefined) {
+      grid = generateSeedGrid(dimensions, density, generator, seed);
+    } else {
+      grid = new FlatGrid3D(dimensions[0], dimensions[1], dimensions[2]);
+    }
+
+    if (engineKind === 'sparse') {
+      this.state = {
+        kind: 'sparse',
+        engine: new SparseGameOfLife3D(config),
+        world: SparseGrid3D.fromFlatGrid(grid),
+        history: new SparseGenerationHistory(),
+        births: null,
+        view: dimensions,
+        origin: [0, 0, 0]
+      };
+    } else {
+      const engine = new GameOfLife3D(config);
+      this.state = {
+        kind: 'dense',
+        engine,
+        buffer: engine.createDoubleBuffer(grid),
+        history: new GenerationHistory(),
+        births: null,
+        objects: null
+      };
+    }
+
+    this.pendingConfig = {};
+    this.generation = 0;
+    this.recordHistory();
+    this.restartCycleDetection();
+    this.restartBirths();
+    this.restartObjects();
+  }
+
+  private recordHistory(): void {
+    const state = this.state!;
+    if (state.kind === 'dense') {
+      state.history.record(this.generation, state.buffer.front);
+    } else {
+      state.history.record(this.generation, state.world);
+    }
+  }
+
+  private restartCycleDetection(): void {
+    const state = this.state!;
+    this.cycles.reset();
+    this.cycles.record(this.generation, state.kind === 'dense' ? state.buffer.front : state.world);
+  }
+
+  /**
+   * Starts following births afresh if they are reported, with every
+   * non-empty cell counted as born in the current generation
+   */
+  private restartBirths(): void {
+    const state = this.state!;
+    if (!this.report.births) {
+      state.births = null;
+    } else if (state.kind === 'dense') {
+      state.births = new Uint32Array(state.buffer.front.cellCount).fill(this.generation);
+    } else {
+      const births = new Map<number, number>();
+      state.world.cells.forEach((_state, key) => births.set(key, this.generation));
+      state.births = births;
+    }
+  }
+
+  /**
+   * Dates the cells that appeared in the step just taken
+   */
+  private recordBirths(): void {
+    const state = this.state!;
+    if (!state.births) return;
+
+    if (state.kind === 'dense') {
+      const { births } = state;
+      const before = state.buffer.back.data;
+      const after = state.buffer.front.data;
+      for (let i = 0; i < after.length; i++) {
+        if (before[i] === 0 && after[i] !== 0) births[i] = this.generation;
+      }
+    } else {
+      // Cells that emptied are dropped along the way
+      const previous = state.births;
+      const births = new Map<number, number>();
+      state.world.cells.forEach((_state, key) => births.set(key, previous.get(key) ?? this.generation));
+      state.births = births;
+    }
+  }
+
+  /**
+   * Starts tracking objects afresh from the current generation if they
+   * are reported
+   */
+  private restartObjects(): void {
+    const state = this.state!;
+    if (state.kind !== 'dense') return;
+    if (!this.report.objects) {
+      state.objects = null;
+      return;
+    }
+    const tracker = state.engine.createObjectTracker();
+    state.objects = { tracker, frame: tracker.reset(state.buffer.front, this.generation), events: [] };
+  }
+
+  /**
+   * Links the objects of the current generation to those before it
+   */
+  private trackObjects(): void {
+    const state = this.state!;
+    if (state.kind !== 'dense' || !state.objects) return;
+    const { objects } = state;
+    objects.frame = objects.tracker.update(state.buffer.front, this.generation);
+    objects.events.push(...objects.frame.events);
+  }
+
+  /**
+   * Moves the reported box of a sparse world to keep the live cells of a
+   * generation in sight
+   */
+  private follow(stats: StepStats): void {
+    const state = this.state!;
+    if (state.kind === 'sparse') {
+      state.origin = followLiveRegion(state.origin, state.view, stats.boundingBox);
+    }
+  }
+
+  private requireState(): HostState {
+    if (!this.state) {
+      throw new Error('Simulation has not been initialized');
+    }
+    return this.state;
+  }
+
+  /**
+   * Copies the current generation into a fresh buffer that can be transferred.
+   * Without stats from stepping, the current generation is measured.
+   */
+  private snapshot(reason: SimulationRequestType, stats?: GenerationStats[]): GenerationMessage {
+    const state = this.requireState();
+    const rows = stats ?? [{
+      generation: this.generation,
+      ...(state.kind === 'dense' ? measureGrid(state.buffer.front) : measureWorld(state.world))
+    }];
+    // A sparse world's box is a fresh grid already; a dense grid is copied
+    const grid = state.kind === 'dense' ? state.buffer.front : state.world.window(state.origin, state.view);
+    const message: GenerationMessage = {
+      type: 'generation',
+      reason,
+      generation: this.generation,
+      population: rows[rows.length - 1].population,
+      stats: rows,
+      dimensions: [grid.width, grid.height, grid.depth],
+      origin: state.kind === 'dense' ? [0, 0, 0] : [state.origin[0], state.origin[1], state.origin[2]],
+      cycle: this.cycles.status,
+      history: state.history.range!,
+      cells: state.kind === 'dense' ? grid.data.slice().buffer : grid.data.buffer
+    };
+
+    if (this.report.neighbors) {
+      const counts = state.kind === 'dense'
+        ? state.engine.computeNeighborCounts(grid).slice()
+        : state.engine.computeNeighborCounts(state.world, state.origin, state.view);
+      message.neighbors = counts.buffer;
+    }
+    if (state.births) {
+      let births: Uint32Array;
+      if (state.kind === 'dense') {
+        births = state.births.slice();
+      } else {
+        births = new Uint32Array(grid.cellCount);
+        const [ox, oy, oz] = state.origin;
+        const dates = state.births;
+        state.world.forEach((_state, x, y, z) => {
+          if (grid.inBounds(x - ox, y - oy, z - oz)) births[grid.index(x - ox, y - oy, z - oz)] = dates.get(packCell(x, y, z))!;
+        });
+      }
+      // Empty cells read 0
+      for (let i = 0; i < births.length; i++) {
+        if (grid.data[i] === 0) births[i] = 0;
+      }
+      message.births = births.buffer;
+    }
+    if (state.kind === 'dense' && state.objects) {
+      const { frame, events } = state.objects;
+      const largest = frame.objects.slice().sort((a, b) => b.size - a.size || a.id - b.id);
+      message.objects = {
+        count: frame.objects.length,
+        moving: frame.objects.filter(object => object.moving).length,
+        objects: largest.slice(0, MAX_REPORTED_OBJECTS),
+        events
+      };
+      message.objectIds = frame.ids.slice().buffer;
+      state.objects.events = [];
+    }
+    return message;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Simulation Worker Message Protocol
+ *
+ * Messages exchanged between the UI thread and the simulation worker. Grid
+ * data travels as raw ArrayBuffers in the flat grid layout (see ./flatGrid)
+ * so it can be transferred rather than copied.
+ *
+ * The sparse engine (see ./sparseLife3D) runs an unbounded world. Its
+ * generations report the cells of a box of the configured grid size that
+ * follows the live cells, with `origin` giving where the box lies.
+ *
+ * Generations can also carry per-cell figures for coloring, laid out like
+ * the cells, and the objects the live cells form, when asked for with a
+ * report request.
+ */
+
+import type { CycleStatus } from './cycleDetector';
+import type { GridDimensions, Vector3Tuple } from './flatGrid';
+import type { HistoryRange } from './generationHistory';
+import type { GenerationStats } from './generationStats';
+import type { GameOfLife3DConfig } from './gameOfLife3D';
+import type { ObjectEvent, TrackedObject } from './objectTracker';
+import type { SeedGenerator } from './seedGenerators';
+
+/** A single cell edit: position and new state */
+export type CellUpdate = [x: number, y: number, z: number, value: number];
+
+/** The dense engine's bounded grid, or the sparse engine's unbounded world */
+export type EngineKind = 'dense' | 'sparse';
+
+export const ENGINE_NAMES: Record<EngineKind, string> = {
+  dense: 'Bounded grid',
+  sparse: 'Unbounded (sparse)'
+};
+
+/** Per-cell figures generations carry besides the cells */
+export interface ReportOptions {
+  /** Live neighbors of every cell, as the rule's neighborhood counts them */
+  neighbors: boolean;
+  /** The generation each non-empty cell appeared in */
+  births: boolean;
+  /** The objects of live cells, tracked from generation to generation (dense engine only) */
+  objects: boolean;
+}
+
+/** Most objects a generation lists; the rest are only counted */
+export const MAX_REPORTED_OBJECTS = 100;
+
+/** The objects of a generation (see ./objectTracker) */
+export interface ObjectReport {
+  /** Number of objects */
+  count: number;
+  /** Number of them moving */
+  moving: number;
+  /** The largest objects, largest first, at most MAX_REPORTED_OBJECTS */
+  objects: TrackedObject[];
+  /** Splits and merges since the generation reported before */
+  events: ObjectEvent[];
+}
+
+export type SimulationRequest =
+  /**
+   * Creates the engine (dense by default); the grid is random at `density`,
+   * shaped by `generator` (uniform by default) and reproducible when `seed`
+   * is given, or `cells` if given, or empty. A sparse world starts with
+   * these cells in the box from [0, 0, 0] to the grid size.
+   */
+  | {
+      type: 'init';
+      config: GameOfLife3DConfig;
+      engine?: EngineKind;
+      density?: number;
+      seed?: number;
+      generator?: SeedGenerator;
+      cells?: ArrayBuffer;
+    }
+  /** Changes engine settings that keep the grid dimensions (e.g. the rule) */
+  | { type: 'configure'; config: Partial<GameOfLife3DConfig> }
+  /** Advances `count` generations and reports only the last one */
+  | { type: 'step'; count: number }
+  /** Positions are world positions: a cell's position in `cells` plus `origin` */
+  | { type: 'setCells'; cells: CellUpdate[] }
+  /** Returns to a generation kept in the history; stepping continues from there */
+  | { type: 'seek'; generation: number }
+  | { type: 'snapshot' }
+  /**
+   * Chooses the figures reported from now on, and reports the current
+   * generation with them. Births are only followed while reported: cells
+   * present when reporting starts, or at a generation sought back to,
+   * count as born then.
+   */
+  | ({ type: 'report' } & ReportOptions);
+
+export type SimulationRequestType = SimulationRequest['type'];
+
+export interface GenerationMessage {
+  type: 'generation';
+  /** The request that produced this generation */
+  reason: SimulationRequestType;
+  generation: number;
+  population: number;
+  /**
+   * Figures for every generation a step advanced through, in order; other
+   * requests report the current generation alone, without births or deaths
+   */
+  stats: GenerationStats[];
+  dimensions: GridDimensions;
+  /** World position of the first cell in `cells`; always [0, 0, 0] for the dense engine */
+  origin: Vector3Tuple;
+  /** Whether the run has settled into a cycle (see ./cycleDetector) */
+  cycle: CycleStatus;
+  /** The generations that can be sought back to */
+  history: HistoryRange;
+  /** Grid data in flat layout; transferred, so owned by the receiver */
+  cells: ArrayBuffer;
+  /** Neighbor counts as a Uint16Array, when reported */
+  neighbors?: ArrayBuffer;
+  /** Birth generations as a Uint32Array, when reported; 0 for empty cells */
+  births?: ArrayBuffer;
+  /** The objects, when reported */
+  objects?: ObjectReport;
+  /** The tracked id of every cell's object as an Int32Array, when objects are reported; 0 for cells that are not live */
+  objectIds?: ArrayBuffer;
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  reason: SimulationRequestType;
+  message: string;
+}
+
+export type SimulationResponse = GenerationMessage | ErrorMessage;
+
+/**
+ * Lists the buffers in a message that should be transferred, not copied
+ */
+export function transferablesOf(message: SimulationRequest | SimulationResponse): Transferable[] {
+  if (message.type === 'generation') {
+    const buffers = [message.cells];
+    if (message.neighbors) buffers.push(message.neighbors);
+    if (message.births) buffers.push(message.births);
+    if (message.objectIds) buffers.push(message.objectIds);
+    return buffers;
+  }
+  if (message.type === 'init' && message.cells) return [message.cells];
+  return [];
+}
@@ -0,0 +1,70 @@
+/**
+ * Slice Planes
+ *
+ * A slice is one layer of the grid across an axis, used to look inside the
+ * grid and to edit it a layer at a time. A slice is laid out as a 2D grid
+ * whose columns (u) and rows (v) are the two remaining axes in X, Y, Z
+ * order: an X slice runs over (y, z), a Y slice over (x, z) and a Z slice
+ * over (x, y).
+ */
+
+import type { FlatGrid3D, Vector3Tuple } from './flatGrid';
+
+/** One layer of the grid */
+export interface SlicePlane {
+  /** 0, 1 or 2 for the X, Y or Z axis */
+  axis: number;
+  index: number;
+}
+
+/** The cells of a slice, row by row */
+export interface SliceCells {
+  columns: number;
+  rows: number;
+  /** State of the cell in column u and row v at v * columns + u */
+  data: Uint8Array;
+}
+
+/**
+ * The axes a slice's columns and rows run along
+ */
+export function sliceAxes(axis: number): [u: number, v: number] {
+  if (axis === 0) return [1, 2];
+  if (axis === 1) return [0, 2];
+  if (axis === 2) return [0, 1];
+  throw new Error(`Invalid slice axis ${axis}: expected 0, 1 or 2`);
+}
+
+/**
+ * The grid position of a slice cell
+ */
+export function sliceCell(plane: SlicePlane, u: number, v: number): Vector3Tuple {
+  const [uAxis, vAxis] = sliceAxes(plane.axis);
+  const cell: Vector3Tuple = [0, 0, 0];
+  cell[plane.axis] = plane.index;
+  cell[uAxis] = u;
+  cell[vAxis] = v;
+  return cell;
+}
+
+/**
+ * Copies the cells of a slice out of a grid
+ */
+export function extractSlice(grid: FlatGrid3D, plane: SlicePlane): SliceCells {
+  const size = grid.dimensions;
+  if (!Number.isInteger(plane.index) || plane.index < 0 || plane.index >= size[plane.axis]) {
+    throw new Error(`Slice ${plane.index} is outside the grid, which has ${size[plane.axis]} layers on that axis`);
+  }
+
+  const [uAxis, vAxis] = sliceAxes(plane.axis);
+  const columns = size[uAxis];
+  const rows = size[vAxis];
+  const data = new Uint8Array(columns * rows);
+  for (let v = 0; v < rows; v++) {
+    for (let u = 0; u < columns; u++) {
+      const [x, y, z] = sliceCell(plane, u, v);
+      data[v * columns + u] = grid.data[grid.index(x, y, z)];
+    }
+  }
+  return { columns, rows, data };
+}
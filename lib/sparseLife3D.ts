@@ -0,0 +1,404 @@
+/**
+ * Sparse 3D Game of Life
+ *
+ * An alternative to the dense engine (./gameOfLife3D) for unbounded worlds.
+ * Only non-empty cells are stored, keyed by position, and a step visits
+ * only live cells and their neighbors, so its cost follows the population
+ * rather than the volume. There are no faces: gliders travel on instead of
+ * wrapping around or hitting a wall.
+ *
+ * Positions are packed into one number, which bounds the world at
+ * ±WORLD_LIMIT cells on each axis; cells that would be born beyond it are
+ * dropped. Rules with birth on 0 neighbors are refused, since every empty
+ * cell of the endless space would be born.
+ *
+ * Otherwise the rules match the dense engine: the same rules,
+ * neighborhoods and Generations dying states, and the same StepStats,
+ * with positions in world coordinates.
+ */
+
+import { FlatGrid3D, type GridDimensions, type Vector3Tuple } from './flatGrid';
+import { createRuleTables, resolveRule, type GameOfLife3DConfig, type RuleTables } from './gameOfLife3D';
+import { LiveCellTally, type StepStats } from './generationStats';
+import { MOORE_NEIGHBORHOOD, neighborhoodOffsets, type Neighborhood } from './neighborhood';
+import { formatRule, rangesContain, type LifeRule } from './rules';
+
+/** Cells may lie from -WORLD_LIMIT to WORLD_LIMIT on each axis */
+export const WORLD_LIMIT = 65000;
+
+// Each coordinate takes 17 bits of the key, biased to be positive. The
+// room between WORLD_LIMIT and the bias keeps a neighbor's key (a cell's
+// key plus a fixed delta) from spilling into the next coordinate.
+const SPAN = 0x20000;
+const BIAS = 0x10000;
+const MAX_REACH = BIAS - WORLD_LIMIT - 1;
+
+/**
+ * Packs a position into the key it is stored under; positions must lie
+ * within ±WORLD_LIMIT
+ */
+export function packCell(x: number, y: number, z: number): number {
+  return ((x + BIAS) * SPAN + (y + BIAS)) * SPAN + (z + BIAS);
+}
+
+export function unpackCell(key: number): Vector3Tuple {
+  const z = key % SPAN;
+  const rest = (key - z) / SPAN;
+  const y = rest % SPAN;
+  return [(rest - y) / SPAN - BIAS, y - BIAS, z - BIAS];
+}
+
+function inWorld(x: number, y: number, z: number): boolean {
+  return Math.abs(x) <= WORLD_LIMIT && Math.abs(y) <= WORLD_LIMIT && Math.abs(z) <= WORLD_LIMIT;
+}
+
+/** Mixes a cell into a 32-bit hash; see SparseGrid3D.hash */
+function mixCell(key: number, state: number, seed: number): number {
+  const low = key % 0x100000000;
+  const high = (key - low) / 0x100000000;
+  let hash = Math.imul(low ^ seed, 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13) ^ (high * 256 + state), 0xc2b2ae35);
+  return hash ^ (hash >>> 16);
+}
+
+/**
+ * The non-empty cells of an unbounded world. Positions outside
+ * ±WORLD_LIMIT are always empty, and setting them is ignored.
+ */
+export class SparseGrid3D {
+  /** Packed position (see packCell) to state, for every non-empty cell */
+  cells = new Map<number, number>();
+
+  /**
+   * Number of non-empty cells, dying ones included
+   */
+  get size(): number {
+    return this.cells.size;
+  }
+
+  /**
+   * Rough bytes of memory the cells take, for history budgets
+   */
+  get byteLength(): number {
+    return this.cells.size * 16;
+  }
+
+  get(x: number, y: number, z: number): number {
+    return inWorld(x, y, z) ? this.cells.get(packCell(x, y, z)) ?? 0 : 0;
+  }
+
+  set(x: number, y: number, z: number, value: number): void {
+    if (!inWorld(x, y, z)) return;
+    if (value === 0) {
+      this.cells.delete(packCell(x, y, z));
+    } else {
+      this.cells.set(packCell(x, y, z), value);
+    }
+  }
+
+  /**
+   * Calls back with every non-empty cell, in no particular order
+   */
+  forEach(callback: (state: number, x: number, y: number, z: number) => void): void {
+    this.cells.forEach((state, key) => {
+      const [x, y, z] = unpackCell(key);
+      callback(state, x, y, z);
+    });
+  }
+
+  clear(): void {
+    this.cells.clear();
+  }
+
+  clone(): SparseGrid3D {
+    const copy = new SparseGrid3D();
+    this.cells.forEach((state, key) => copy.cells.set(key, state));
+    return copy;
+  }
+
+  /**
+   * Copies another world's cells into this one
+   */
+  copyFrom(other: SparseGrid3D): void {
+    if (other === this) return;
+    this.cells.clear();
+    other.cells.forEach((state, key) => this.cells.set(key, state));
+  }
+
+  /**
+   * Exchanges cells with another world without copying
+   */
+  swap(other: SparseGrid3D): void {
+    const cells = this.cells;
+    this.cells = other.cells;
+    other.cells = cells;
+  }
+
+  equals(other: SparseGrid3D): boolean {
+    if (this.cells.size !== other.cells.size) return false;
+
+    let same = true;
+    this.cells.forEach((state, key) => {
+      if (same && other.cells.get(key) !== state) same = false;
+    });
+    return same;
+  }
+
+  /**
+   * Hashes the cells into a whole number below 2^53, like hashGrid for
+   * dense grids. Cells are summed rather than chained, so the order they
+   * are stored in does not matter.
+   */
+  hash(): number {
+    let first = this.cells.size;
+    let second = 0;
+    this.cells.forEach((state, key) => {
+      first = (first + mixCell(key, state, 0x811c9dc5)) | 0;
+      second = (second + mixCell(key, state, 0x9747b28c)) | 0;
+    });
+    return (first >>> 0) * 0x200000 + ((second >>> 0) >>> 11);
+  }
+
+  /**
+   * Copies the cells inside a box into a dense grid; `origin` is the world
+   * position of the grid's [0, 0, 0]
+   */
+  window(origin: Vector3Tuple, dimensions: GridDimensions): FlatGrid3D {
+    const grid = new FlatGrid3D(dimensions[0], dimensions[1], dimensions[2]);
+    const [ox, oy, oz] = origin;
+    this.forEach((state, x, y, z) => grid.set(x - ox, y - oy, z - oz, state));
+    return grid;
+  }
+
+  /**
+   * Builds a world from the non-empty cells of a dense grid placed with its
+   * [0, 0, 0] at `origin`
+   */
+  static fromFlatGrid(grid: FlatGrid3D, origin: Vector3Tuple = [0, 0, 0]): SparseGrid3D {
+    const world = new SparseGrid3D();
+    const { data } = grid;
+    let i = 0;
+    for (let x = 0; x < grid.width; x++) {
+      for (let y = 0; y < grid.height; y++) {
+        for (let z = 0; z < grid.depth; z++) {
+          if (data[i] !== 0) world.set(x + origin[0], y + origin[1], z + origin[2], data[i]);
+          i++;
+        }
+      }
+    }
+    return world;
+  }
+}
+
+/**
+ * Measures a world that was not produced by a step, like measureGrid for
+ * dense grids
+ */
+export function measureWorld(world: SparseGrid3D): StepStats {
+  const tally = new LiveCellTally();
+  world.forEach((state, x, y, z) => {
+    if (state === 1) tally.addCell(x, y, z);
+  });
+  return tally.finish(0, 0, 0);
+}
+
+/**
+ * Where a view of `size` cells should start to keep the live cells in
+ * sight. The view holds still while they stay clear of its faces, so that
+ * moving patterns are seen to move, and recenters on them once they come
+ * within a sixth of the view of a face.
+ */
+export function followLiveRegion(
+  origin: Vector3Tuple,
+  size: GridDimensions,
+  box: StepStats['boundingBox']
+): Vector3Tuple {
+  if (!box) return origin;
+
+  return origin.map((start, axis) => {
+    const margin = Math.floor(size[axis] / 6);
+    const min = box.min[axis];
+    const max = box.max[axis];
+    if (min >= start + margin && max <= start + size[axis] - 1 - margin) return start;
+    return Math.round((min + max + 1 - size[axis]) / 2);
+  }) as Vector3Tuple;
+}
+
+/** What stepping needs from a config */
+interface SparseSettings {
+  rule: LifeRule;
+  neighborhood: Neighborhood;
+  /** Key differences between a cell and each of its neighbors */
+  deltas: number[];
+  tables: RuleTables;
+}
+
+/**
+ * Resolves a config for stepping, throwing if its rule or neighborhood
+ * cannot run in an unbounded world
+ */
+function resolveSettings(config: GameOfLife3DConfig): SparseSettings {
+  const rule = resolveRule(config);
+  const neighborhood = config.neighborhood ?? MOORE_NEIGHBORHOOD;
+  if (rangesContain(rule.birth, 0)) {
+    throw new Error(`${formatRule(rule)} has birth on 0 neighbors, which would fill an unbounded world`);
+  }
+
+  const offsets = neighborhoodOffsets(neighborhood);
+  const reach = Math.max(...offsets.map(offset => Math.max(...offset.map(Math.abs))));
+  if (reach > MAX_REACH) {
+    throw new Error(`Neighborhood offsets reach ${reach} cells, more than the ${MAX_REACH} an unbounded world allows`);
+  }
+
+  return {
+    rule,
+    neighborhood,
+    deltas: offsets.map(([dx, dy, dz]) => (dx * SPAN + dy) * SPAN + dz),
+    tables: createRuleTables(rule, neighborhood)
+  };
+}
+
+export class SparseGameOfLife3D {
+  private config: GameOfLife3DConfig;
+  private settings: SparseSettings;
+  // Scratch space reused between steps
+  private counts = new Map<number, number>();
+  private spare = new SparseGrid3D();
+
+  /**
+   * Takes the same config as the dense engine; gridSize and the boundaries
+   * do not apply, as the world has no edges
+   */
+  constructor(config: GameOfLife3DConfig) {
+    this.config = { ...config };
+    this.settings = resolveSettings(this.config);
+  }
+
+  /**
+   * Writes the generation after `current` into `next`, replacing its cells,
+   * and returns the figures of the new generation. The two worlds must not
+   * be the same object.
+   */
+  stepInto(current: SparseGrid3D, next: SparseGrid3D): StepStats {
+    if (current === next) {
+      throw new Error('stepInto needs two distinct worlds');
+    }
+
+    const { counts } = this;
+    const { deltas, tables: { birth, survival, decay } } = this.settings;
+    const { cells } = current;
+    const nextCells = next.cells;
+    const tally = new LiveCellTally();
+    let births = 0;
+    let survivors = 0;
+    let previousPopulation = 0;
+
+    // Only cells next to a live cell can have neighbors, so only they are counted
+    counts.clear();
+    cells.forEach((state, key) => {
+      if (state !== 1) return;
+      for (let i = 0; i < deltas.length; i++) {
+        const neighbor = key + deltas[i];
+        counts.set(neighbor, (counts.get(neighbor) ?? 0) + 1);
+      }
+    });
+
+    nextCells.clear();
+    cells.forEach((state, key) => {
+      let nextState: number;
+      if (state === 1) {
+        previousPopulation++;
+        nextState = survival[counts.get(key) ?? 0];
+        if (nextState === 1) survivors++;
+      } else {
+        nextState = decay[state];
+      }
+      if (nextState !== 0) {
+        nextCells.set(key, nextState);
+        if (nextState === 1) {
+          const [x, y, z] = unpackCell(key);
+          tally.addCell(x, y, z);
+        }
+      }
+    });
+
+    counts.forEach((neighbors, key) => {
+      if (birth[neighbors] !== 1 || cells.has(key)) return;
+      const [x, y, z] = unpackCell(key);
+      if (!inWorld(x, y, z)) return;
+      nextCells.set(key, 1);
+      tally.addCell(x, y, z);
+      births++;
+    });
+
+    return tally.finish(births, previousPopulation - survivors, survivors);
+  }
+
+  /**
+   * Advances a world by one generation in place
+   */
+  advance(world: SparseGrid3D): StepStats {
+    const stats = this.stepInto(world, this.spare);
+    world.swap(this.spare);
+    return stats;
+  }
+
+  /**
+   * Counts the live neighbors of every cell in a box, like the dense
+   * engine's computeNeighborCounts; `origin` is the world position of the
+   * box's first cell. The counts are indexed like a FlatGrid3D's data.
+   */
+  computeNeighborCounts(world: SparseGrid3D, origin: Vector3Tuple, dimensions: GridDimensions): Uint16Array {
+    const [width, height, depth] = dimensions;
+    const counts = new Uint16Array(width * height * depth);
+    const offsets = neighborhoodOffsets(this.settings.neighborhood);
+
+    world.forEach((state, x, y, z) => {
+      if (state !== 1) return;
+      for (let i = 0; i < offsets.length; i++) {
+        const nx = x + offsets[i][0] - origin[0];
+        const ny = y + offsets[i][1] - origin[1];
+        const nz = z + offsets[i][2] - origin[2];
+        if (nx >= 0 && nx < width && ny >= 0 && ny < height && nz >= 0 && nz < depth) {
+          counts[(nx * height + ny) * depth + nz]++;
+        }
+      }
+    });
+    return counts;
+  }
+
+  /**
+   * Returns the generation after `world`, leaving it unchanged
+   */
+  step(world: SparseGrid3D): SparseGrid3D {
+    const next = new SparseGrid3D();
+    this.stepInto(world, next);
+    return next;
+  }
+
+  /**
+   * Updates the configuration. Throws, keeping the old settings, if the
+   * new rule or neighborhood cannot run unbounded.
+   */
+  updateConfig(newConfig: Partial<GameOfLife3DConfig>): void {
+    const config = { ...this.config, ...newConfig };
+    // As in the dense engine, legacy numeric fields replace an explicit rule
+    if ((newConfig.birthRule ?? newConfig.survivalMin ?? newConfig.survivalMax) !== undefined && !newConfig.rule) {
+      delete config.rule;
+    }
+    this.settings = resolveSettings(config);
+    this.config = config;
+  }
+
+  getConfig(): GameOfLife3DConfig {
+    return { ...this.config };
+  }
+
+  getRule(): LifeRule {
+    return this.settings.rule;
+  }
+
+  getNeighborhood(): Neighborhood {
+    return this.settings.neighborhood;
+  }
+}
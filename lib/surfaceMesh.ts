@@ -0,0 +1,193 @@
+/**
+ * Surface Mesh
+ *
+ * Builds one solid mesh from a grid: only faces between a non-empty cell
+ * and an empty one (or the outside of the grid) are emitted, so the inside
+ * of a blob costs nothing, and coplanar faces of cells with the same value
+ * (their state, unless other values are given) are merged greedily into rectangles, so a flat wall of any size is two
+ * triangles.
+ *
+ * The mesh is in grid units with the grid's first corner at the origin:
+ * cell (x, y, z) fills the unit box from (x, y, z) to (x + 1, y + 1, z + 1).
+ */
+
+import type { FlatGrid3D } from './flatGrid';
+import type { SlicePlane } from './slicePlane';
+
+export interface SurfaceMesh {
+  /** Vertex positions, 3 per vertex, 4 vertices per quad */
+  positions: Float32Array;
+  /** Vertex normals, pointing out of the cells */
+  normals: Float32Array;
+  /** Vertex colors, 3 per vertex */
+  colors: Float32Array;
+  /** Two counter-clockwise triangles per quad */
+  indices: Uint32Array;
+  /** Number of quads */
+  quads: number;
+}
+
+export interface SurfaceMeshOptions {
+  /**
+   * A value for every cell, indexed like the grid's data, which faces are
+   * merged and colored by; values of non-empty cells must be above 0. The
+   * cells' states by default.
+   */
+  values?: ArrayLike<number>;
+  /** RGB color of each value, components from 0 to 1; white by default */
+  color?: (value: number) => [red: number, green: number, blue: number];
+  /** Only cells on this plane are meshed */
+  plane?: SlicePlane;
+}
+
+const WHITE: [number, number, number] = [1, 1, 1];
+
+/**
+ * Vertex data that grows as quads are added
+ */
+class QuadBuffer {
+  positions = new Float32Array(12 * 1024);
+  normals = new Float32Array(12 * 1024);
+  colors = new Float32Array(12 * 1024);
+  quads = 0;
+
+  add(corners: number[], normal: number[], rgb: [number, number, number]): void {
+    let at = this.quads * 12;
+    if (at === this.positions.length) this.grow();
+    for (let corner = 0; corner < 4; corner++) {
+      for (let axis = 0; axis < 3; axis++) {
+        this.positions[at] = corners[corner * 3 + axis];
+        this.normals[at] = normal[axis];
+        this.colors[at] = rgb[axis];
+        at++;
+      }
+    }
+    this.quads++;
+  }
+
+  private grow(): void {
+    const grown = (array: Float32Array) => {
+      const bigger = new Float32Array(array.length * 2);
+      bigger.set(array);
+      return bigger;
+    };
+    this.positions = grown(this.positions);
+    this.normals = grown(this.normals);
+    this.colors = grown(this.colors);
+  }
+}
+
+export function buildSurfaceMesh(grid: FlatGrid3D, options: SurfaceMeshOptions = {}): SurfaceMesh {
+  const { color = () => WHITE, plane } = options;
+  const values = options.values ?? grid.data;
+  const dims = [grid.width, grid.height, grid.depth];
+  // Distance in the data between neighbors along each axis
+  const strides = [grid.height * grid.depth, grid.depth, 1];
+
+  let data = grid.data;
+  if (plane) {
+    data = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+      if (Math.floor(i / strides[plane.axis]) % dims[plane.axis] === plane.index) data[i] = grid.data[i];
+    }
+  }
+
+  const buffer = new QuadBuffer();
+  const palette = new Map<number, [number, number, number]>();
+  const corners = new Array<number>(12);
+  const normal = [0, 0, 0];
+
+  // One sweep per axis, through every plane between two layers of cells
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const [sizeD, sizeU, sizeV] = [dims[d], dims[u], dims[v]];
+    const [strideD, strideU, strideV] = [strides[d], strides[u], strides[v]];
+    // A face on this plane: +value facing +d, -value facing -d, 0 for none
+    const mask = new Int32Array(sizeU * sizeV);
+
+    for (let layer = -1; layer < sizeD; layer++) {
+      let n = 0;
+      for (let j = 0; j < sizeV; j++) {
+        let index = layer * strideD + j * strideV;
+        for (let i = 0; i < sizeU; i++, index += strideU) {
+          const below = layer >= 0 && data[index] !== 0 ? values[index] : 0;
+          const above = layer < sizeD - 1 && data[index + strideD] !== 0 ? values[index + strideD] : 0;
+          mask[n++] = (below !== 0) === (above !== 0) ? 0 : below !== 0 ? below : -above;
+        }
+      }
+
+      // Cover the mask with rectangles of equal faces, widest first
+      n = 0;
+      for (let j = 0; j < sizeV; j++) {
+        for (let i = 0; i < sizeU;) {
+          const face = mask[n];
+          if (face === 0) {
+            i++;
+            n++;
+            continue;
+          }
+
+          let width = 1;
+          while (i + width < sizeU && mask[n + width] === face) width++;
+          let height = 1;
+          grow: while (j + height < sizeV) {
+            const row = n + height * sizeU;
+            for (let k = 0; k < width; k++) {
+              if (mask[row + k] !== face) break grow;
+            }
+            height++;
+          }
+          for (let h = 0; h < height; h++) {
+            mask.fill(0, n + h * sizeU, n + h * sizeU + width);
+          }
+
+          // Corners go around the rectangle from (i, j) along u, then v;
+          // u × v points along +d, so faces pointing the other way wind backwards
+          const order = face > 0 ? [0, 1, 2, 3] : [3, 2, 1, 0];
+          for (let corner = 0; corner < 4; corner++) {
+            const at = order[corner] * 3;
+            corners[at + d] = layer + 1;
+            corners[at + u] = corner === 1 || corner === 2 ? i + width : i;
+            corners[at + v] = corner === 2 || corner === 3 ? j + height : j;
+          }
+          normal[d] = face > 0 ? 1 : -1;
+          normal[u] = 0;
+          normal[v] = 0;
+
+          const value = Math.abs(face);
+          let rgb = palette.get(value);
+          if (!rgb) {
+            rgb = color(value);
+            palette.set(value, rgb);
+          }
+          buffer.add(corners, normal, rgb);
+
+          i += width;
+          n += width;
+        }
+      }
+    }
+  }
+
+  const { quads } = buffer;
+  const indices = new Uint32Array(quads * 6);
+  for (let quad = 0; quad < quads; quad++) {
+    const first = quad * 4;
+    const at = quad * 6;
+    indices[at] = first;
+    indices[at + 1] = first + 1;
+    indices[at + 2] = first + 2;
+    indices[at + 3] = first;
+    indices[at + 4] = first + 2;
+    indices[at + 5] = first + 3;
+  }
+
+  return {
+    positions: buffer.positions.slice(0, quads * 12),
+    normals: buffer.normals.slice(0, quads * 12),
+    colors: buffer.colors.slice(0, quads * 12),
+    indices,
+    quads
+  };
+}
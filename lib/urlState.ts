@@ -0,0 +1,158 @@
+/**
+ * Shareable URL State
+ *
+ * Encodes everything needed to reproduce a run into a URL hash, since the
+ * static export has no backend to store runs on. The hash looks like
+ * `#1.<data>`: a format version, then base64url of the deflated state.
+ *
+ * The state holds the pattern settings (dimensions, rule, neighborhood,
+ * boundaries; see ./patternFormat), the density, seed and generator of the
+ * random start (see ./seedGenerators), the engine, and optionally the start
+ * cells themselves when the run did not begin from a random grid. Deflate
+ * turns the mostly-empty cell data into a few bytes.
+ *
+ * Links are untrusted input: decoding checks the settings as strictly as a
+ * loaded pattern file, grid size limit included, before making any cells.
+ */
+
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { FlatGrid3D, normalizeDimensions } from './flatGrid';
+import { resolveRule, type GameOfLife3DConfig } from './gameOfLife3D';
+import { PATTERN_FORMAT, PATTERN_FORMAT_VERSION, createPatternFile, readPatternFile } from './patternFormat';
+import { ruleStates } from './rules';
+import { validateSeedGenerator, type SeedGenerator } from './seedGenerators';
+import type { EngineKind } from './simulationProtocol';
+
+export const URL_STATE_VERSION = 1;
+
+export interface SharedState {
+  config: GameOfLife3DConfig;
+  density: number;
+  seed: number;
+  /** How the random grid is shaped; uniform when left out */
+  generator?: SeedGenerator;
+  /** The engine to run on; dense when left out */
+  engine?: EngineKind;
+  /** Start cells; when left out the run starts from a random grid */
+  cells?: FlatGrid3D;
+}
+
+function invalid(message: string): Error {
+  return new Error(`Invalid link: ${message}`);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Convert in chunks to stay within argument count limits
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.prototype.slice.call(bytes, i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encodes a state as a URL hash, without the leading "#"
+ */
+export function encodeUrlState(state: SharedState): string {
+  const [width, height, depth] = normalizeDimensions(state.config.gridSize);
+  // The settings are a pattern file without its cells (and without the format
+  // marker, which the hash version replaces)
+  const { format, version, cells, ...settings } = createPatternFile(new FlatGrid3D(width, height, depth), state.config);
+  // Uniform starts leave the generator out, so their links stay as they were
+  const generator = state.generator && state.generator.type !== 'uniform' ? { generator: state.generator } : {};
+  const engine = state.engine === 'sparse' ? { engine: state.engine } : {};
+  const header = strToU8(JSON.stringify({ ...settings, density: state.density, seed: state.seed, ...generator, ...engine }));
+
+  // The JSON header never contains a zero byte, so one separates it from the cells
+  const cellData = state.cells ? state.cells.data : new Uint8Array(0);
+  const payload = new Uint8Array(header.length + 1 + cellData.length);
+  payload.set(header);
+  payload.set(cellData, header.length + 1);
+
+  return `${URL_STATE_VERSION}.${toBase64Url(deflateSync(payload, { level: 9 }))}`;
+}
+
+/**
+ * Decodes a URL hash (with or without the leading "#"). Throws an
+ * "Invalid link: ..." error if it is not a state hash or is damaged.
+ */
+export function decodeUrlState(hash: string): SharedState {
+  const match = /^#?(\d+)\.([A-Za-z0-9_-]+)$/.exec(hash.trim());
+  if (!match) {
+    throw invalid('expected a hash of the form #1.<data>');
+  }
+  if (parseInt(match[1], 10) !== URL_STATE_VERSION) {
+    throw invalid(`version ${match[1]} is not supported`);
+  }
+
+  let payload: Uint8Array;
+  try {
+    payload = inflateSync(fromBase64Url(match[2]));
+  } catch (error) {
+    throw invalid('the data is damaged or incomplete');
+  }
+
+  const separator = payload.indexOf(0);
+  const headerBytes = separator === -1 ? payload : payload.subarray(0, separator);
+  let header: Record<string, unknown>;
+  try {
+    header = JSON.parse(strFromU8(headerBytes));
+  } catch (error) {
+    throw invalid('the settings are not valid JSON');
+  }
+
+  const { density, seed, generator, engine, ...settings } = header;
+  if (typeof density !== 'number' || !(density >= 0 && density <= 1)) {
+    throw invalid('density must be a number from 0 to 1');
+  }
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    throw invalid('seed must be a 32-bit whole number');
+  }
+  if (engine !== undefined && engine !== 'dense' && engine !== 'sparse') {
+    throw invalid('engine must be "dense" or "sparse"');
+  }
+
+  let config: GameOfLife3DConfig;
+  try {
+    ({ config } = readPatternFile({ ...settings, format: PATTERN_FORMAT, version: PATTERN_FORMAT_VERSION, cells: [] }));
+  } catch (error) {
+    throw invalid((error as Error).message.replace(/^Invalid pattern file: /, ''));
+  }
+  const state: SharedState = { config, density, seed };
+  if (engine === 'sparse') state.engine = engine;
+
+  if (generator !== undefined) {
+    try {
+      state.generator = validateSeedGenerator(generator);
+    } catch (error) {
+      throw invalid((error as Error).message.replace(/^Invalid seed generator: /, 'seed generator: '));
+    }
+  }
+
+  const cellData = separator === -1 ? null : payload.subarray(separator + 1);
+  if (cellData && cellData.length > 0) {
+    const [width, height, depth] = normalizeDimensions(config.gridSize);
+    if (cellData.length !== width * height * depth) {
+      throw invalid(`the cells do not fill a ${width}×${height}×${depth} grid`);
+    }
+
+    const states = ruleStates(resolveRule(config));
+    for (let i = 0; i < cellData.length; i++) {
+      if (cellData[i] >= states) {
+        throw invalid(`a cell has state ${cellData[i]}, but the rule only has ${states} states`);
+      }
+    }
+    state.cells = new FlatGrid3D(width, height, depth, cellData.slice());
+  }
+
+  return state;
+}
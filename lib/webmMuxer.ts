@@ -0,0 +1,224 @@
+/**
+ * WebM Muxer
+ *
+ * Packs encoded video frames (from the browser's VideoEncoder) into a WebM
+ * file, entirely in memory. WebM is Matroska restricted to a few codecs:
+ * a file is a tree of EBML elements, each an ID, a length and a body.
+ * Frames go in as SimpleBlocks, with a new Cluster at every keyframe.
+ */
+
+export type WebmCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebmMuxerOptions {
+  width: number;
+  height: number;
+  codec: WebmCodec;
+}
+
+/** Element IDs, with their length markers, as Matroska defines them */
+const IDS = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3
+} as const;
+
+/** Timestamps are stored in milliseconds */
+const TIMECODE_SCALE = 1000000;
+
+/** A block's timestamp is a signed 16-bit offset from its cluster's */
+const MAX_BLOCK_OFFSET = 0x7fff;
+
+type Body = Uint8Array | Body[];
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  let length = 0;
+  parts.forEach(part => { length += part.length; });
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+}
+
+function flatten(body: Body): Uint8Array {
+  if (body instanceof Uint8Array) return body;
+  return concat(body.map(flatten));
+}
+
+/** The shortest big-endian bytes of a non-negative integer */
+function uintBytes(value: number): Uint8Array {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encodes an element length as a variable-length integer: the count of
+ * leading zero bits in the first byte gives the number of extra bytes
+ */
+function lengthBytes(length: number): Uint8Array {
+  let width = 1;
+  // All ones are reserved to mean "unknown length"
+  while (length >= Math.pow(2, 7 * width) - 1) width++;
+  if (width > 8) {
+    throw new Error(`Element of ${length} bytes is too long for WebM`);
+  }
+  const bytes = new Uint8Array(width);
+  let value = length;
+  for (let i = width - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (width - 1);
+  return bytes;
+}
+
+function element(id: number, body: Body): Uint8Array {
+  const data = flatten(body);
+  return concat([uintBytes(id), lengthBytes(data.length), data]);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  return element(id, uintBytes(value));
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0x7f;
+  return element(id, bytes);
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+interface Cluster {
+  /** Milliseconds */
+  timecode: number;
+  blocks: Uint8Array[];
+}
+
+export class WebmMuxer {
+  private options: WebmMuxerOptions;
+  private clusters: Cluster[] = [];
+  private lastTimestamp = -1;
+  private duration = 0;
+
+  constructor(options: WebmMuxerOptions) {
+    const { width, height } = options;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+      throw new Error(`Invalid video size ${width}×${height}`);
+    }
+    this.options = { ...options };
+  }
+
+  /**
+   * Number of frames added so far
+   */
+  get frameCount(): number {
+    let count = 0;
+    this.clusters.forEach(cluster => { count += cluster.blocks.length; });
+    return count;
+  }
+
+  /**
+   * Adds an encoded frame. Timestamps and durations are in microseconds,
+   * as VideoEncoder reports them, and must not go backwards. The first
+   * frame must be a keyframe.
+   */
+  addFrame(data: Uint8Array, timestamp: number, keyframe: boolean, duration = 0): void {
+    const time = Math.round(timestamp / 1000);
+    if (time < this.lastTimestamp) {
+      throw new Error(`Frame at ${time}ms comes before the previous frame at ${this.lastTimestamp}ms`);
+    }
+    let cluster = this.clusters[this.clusters.length - 1];
+    if (!cluster && !keyframe) {
+      throw new Error('The first frame of a video must be a keyframe');
+    }
+    if (!cluster || keyframe || time - cluster.timecode > MAX_BLOCK_OFFSET) {
+      cluster = { timecode: time, blocks: [] };
+      this.clusters.push(cluster);
+    }
+
+    const offset = time - cluster.timecode;
+    // Track number 1 (as a variable-length integer), the offset, then flags
+    const header = new Uint8Array([0x81, (offset >> 8) & 0xff, offset & 0xff, keyframe ? 0x80 : 0]);
+    cluster.blocks.push(element(IDS.SimpleBlock, [header, data]));
+
+    this.lastTimestamp = time;
+    this.duration = Math.max(this.duration, time + Math.round(duration / 1000));
+  }
+
+  /**
+   * Returns the bytes of the whole file
+   */
+  finish(): Uint8Array {
+    const { width, height, codec } = this.options;
+    const header = element(IDS.EBML, [
+      uintElement(IDS.EBMLVersion, 1),
+      uintElement(IDS.EBMLReadVersion, 1),
+      uintElement(IDS.EBMLMaxIDLength, 4),
+      uintElement(IDS.EBMLMaxSizeLength, 8),
+      stringElement(IDS.DocType, 'webm'),
+      uintElement(IDS.DocTypeVersion, 2),
+      uintElement(IDS.DocTypeReadVersion, 2)
+    ]);
+
+    const info = element(IDS.Info, [
+      uintElement(IDS.TimecodeScale, TIMECODE_SCALE),
+      stringElement(IDS.MuxingApp, '3D Game of Life'),
+      stringElement(IDS.WritingApp, '3D Game of Life'),
+      floatElement(IDS.Duration, this.duration)
+    ]);
+
+    const tracks = element(IDS.Tracks, [
+      element(IDS.TrackEntry, [
+        uintElement(IDS.TrackNumber, 1),
+        uintElement(IDS.TrackUID, 1),
+        // A video track
+        uintElement(IDS.TrackType, 1),
+        stringElement(IDS.CodecID, codec),
+        element(IDS.Video, [
+          uintElement(IDS.PixelWidth, width),
+          uintElement(IDS.PixelHeight, height)
+        ])
+      ])
+    ]);
+
+    const clusters = this.clusters.map(cluster =>
+      element(IDS.Cluster, [uintElement(IDS.Timecode, cluster.timecode), ...cluster.blocks])
+    );
+
+    return concat([header, element(IDS.Segment, [info, tracks, ...clusters])]);
+  }
+}
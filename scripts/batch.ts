@@ -0,0 +1,45 @@
+/**
+ * Headless batch runner
+ *
+ * Command line front end for ../lib/batchRunner; run `npm run batch -- --help`
+ * for the options. Progress goes to standard error so that summaries written
+ * to standard output can be piped or redirected.
+ */
+
+import { writeFileSync } from 'fs';
+import { BATCH_USAGE, formatSummaries, parseBatchArgs, runBatch, type BatchOptions } from '../lib/batchRunner';
+
+function main(argv: string[]): number {
+  let options: BatchOptions;
+  try {
+    options = parseBatchArgs(argv);
+  } catch (error) {
+    process.stderr.write(`${(error as Error).message}\n\n${BATCH_USAGE}`);
+    return 1;
+  }
+
+  if (options.help) {
+    process.stdout.write(BATCH_USAGE);
+    return 0;
+  }
+
+  const summaries = runBatch(options, (summary, index, total) => {
+    const outcome = summary.status === 'evolving'
+      ? `population ${summary.finalPopulation}`
+      : `${summary.status} at gen ${summary.cycleStart}${summary.status === 'oscillator' ? `, period ${summary.period}` : ''}`;
+    process.stderr.write(
+      `[${index + 1}/${total}] ${summary.rule} ${summary.size} density ${summary.density} seed ${summary.seed}: ${outcome}\n`
+    );
+  });
+
+  const output = formatSummaries(summaries, options.format);
+  if (options.out) {
+    writeFileSync(options.out, output);
+    process.stderr.write(`Wrote ${summaries.length} summaries to ${options.out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
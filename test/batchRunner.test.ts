@@ -0,0 +1,200 @@
+/**
+ * Tests for the headless batch runner
+ */
+
+import {
+  DEFAULT_BATCH_OPTIONS,
+  expandSweep,
+  formatSummaries,
+  parseBatchArgs,
+  parseNumberList,
+  parseDensity,
+  parseSize,
+  runBatch,
+  runSimulation,
+  summariesToCsv,
+  SUMMARY_COLUMNS,
+  type BatchRun
+} from '../lib/batchRunner';
+import { CycleDetector } from '../lib/cycleDetector';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import { parseRule, RULE_PRESETS } from '../lib/rules';
+
+const RUN: BatchRun = {
+  rule: 'B5/S4-5',
+  size: [10, 10, 10],
+  density: 0.15,
+  seed: 3,
+  generations: 300,
+  boundaries: ['periodic', 'periodic', 'periodic']
+};
+
+describe('batchRunner', () => {
+  describe('parseNumberList', () => {
+    test('parses single values, lists and ranges', () => {
+      expect(parseNumberList('7', Number)).toEqual([7]);
+      expect(parseNumberList('1, 2,5', Number)).toEqual([1, 2, 5]);
+      expect(parseNumberList('1:4', Number)).toEqual([1, 2, 3, 4]);
+      expect(parseNumberList('1:3,10', Number)).toEqual([1, 2, 3, 10]);
+    });
+
+    test('fractional steps end exactly on the last value', () => {
+      expect(parseNumberList('0.05:0.2:0.05', parseDensity)).toEqual([0.05, 0.1, 0.15, 0.2]);
+      expect(parseNumberList('0.1:0.3:0.1', parseDensity)).toEqual([0.1, 0.2, 0.3]);
+    });
+
+    test('rejects malformed ranges and invalid items', () => {
+      expect(() => parseNumberList('1:2:3:4', Number)).toThrow('Invalid range');
+      expect(() => parseNumberList('5:1', Number)).toThrow('the end is before the start');
+      expect(() => parseNumberList('1:5:0', Number)).toThrow('the step must be a positive number');
+      expect(() => parseNumberList('0.1,1.5', parseDensity)).toThrow('Invalid density "1.5"');
+    });
+  });
+
+  test('parseSize accepts cubes and boxes', () => {
+    expect(parseSize('12')).toEqual([12, 12, 12]);
+    expect(parseSize('40x40x10')).toEqual([40, 40, 10]);
+    expect(() => parseSize('40x40')).toThrow('Invalid size');
+    expect(() => parseSize('0')).toThrow('Invalid size');
+  });
+
+  describe('parseBatchArgs', () => {
+    test('defaults to a single run', () => {
+      expect(parseBatchArgs([])).toEqual(DEFAULT_BATCH_OPTIONS);
+    });
+
+    test('collects repeated rules and sizes and parses lists', () => {
+      const options = parseBatchArgs([
+        '--rule', 'B4/S4-5', '--rule=B4,6/S5',
+        '--size', '16', '--size', '20x20x8',
+        '--density', '0.1,0.2', '--seed', '1:3', '--generations', '50',
+        '--boundaries', 'periodic,periodic,dead', '--max-period', '64'
+      ]);
+
+      expect(options.rules).toEqual(['B4/S4-5', 'B4,6/S5']);
+      expect(options.sizes).toEqual([[16, 16, 16], [20, 20, 8]]);
+      expect(options.densities).toEqual([0.1, 0.2]);
+      expect(options.seeds).toEqual([1, 2, 3]);
+      expect(options.generations).toBe(50);
+      expect(options.boundaries).toEqual(['periodic', 'periodic', 'dead']);
+      expect(options.maxPeriod).toBe(64);
+    });
+
+    test('--presets adds every preset rule', () => {
+      expect(parseBatchArgs(['--presets']).rules).toEqual(RULE_PRESETS.map(preset => preset.notation));
+    });
+
+    test('picks the format from --format or the output file name', () => {
+      expect(parseBatchArgs(['--out', 'runs.csv']).format).toBe('csv');
+      expect(parseBatchArgs(['--out', 'runs.json']).format).toBe('json');
+      expect(parseBatchArgs(['--out', 'runs.txt', '--format', 'csv']).format).toBe('csv');
+    });
+
+    test('rejects unknown options and bad values', () => {
+      expect(() => parseBatchArgs(['--speed', '3'])).toThrow('Unknown option --speed');
+      expect(() => parseBatchArgs(['--rule'])).toThrow('Missing value for --rule');
+      expect(() => parseBatchArgs(['--rule', 'B4/Q2'])).toThrow();
+      expect(() => parseBatchArgs(['--generations', '0'])).toThrow('Invalid generation count "0"');
+      expect(() => parseBatchArgs(['--seed', '-1'])).toThrow('Invalid seed');
+      expect(() => parseBatchArgs(['--boundaries', 'sticky'])).toThrow('Unknown boundary mode "sticky"');
+      expect(() => parseBatchArgs(['--format', 'xml'])).toThrow('Unknown format "xml"');
+    });
+  });
+
+  test('expandSweep runs every combination, seeds varying fastest', () => {
+    const runs = expandSweep({
+      ...DEFAULT_BATCH_OPTIONS,
+      rules: ['B4/S4-5', 'B5/S4-5'],
+      densities: [0.1, 0.2],
+      seeds: [1, 2, 3]
+    });
+
+    expect(runs).toHaveLength(12);
+    expect(runs.slice(0, 4).map(run => [run.rule, run.density, run.seed])).toEqual([
+      ['B4/S4-5', 0.1, 1], ['B4/S4-5', 0.1, 2], ['B4/S4-5', 0.1, 3], ['B4/S4-5', 0.2, 1]
+    ]);
+  });
+
+  describe('runSimulation', () => {
+    test('matches stepping the engine by hand', () => {
+      const summary = runSimulation(RUN);
+
+      const engine = new GameOfLife3D({ gridSize: RUN.size, rule: parseRule(RUN.rule), boundaries: 'periodic' });
+      const buffer = engine.createDoubleBuffer(engine.createRandomFlatGrid(RUN.density, RUN.seed));
+      const detector = new CycleDetector();
+      detector.record(0, buffer.front);
+      let population = 0;
+      for (let generation = 1; generation <= summary.generationsRun; generation++) {
+        population = engine.advance(buffer).population;
+        detector.record(generation, buffer.front);
+      }
+
+      expect(summary.finalPopulation).toBe(population);
+      expect(summary.status).toBe(detector.status.kind);
+      expect(summary.rule).toBe('B5/S4-5');
+      expect(summary.size).toBe('10x10x10');
+      expect(summary.boundaries).toBe('periodic');
+    });
+
+    test('stops at extinction and reports when it happened', () => {
+      const summary = runSimulation({ ...RUN, rule: 'B26/S26', density: 0.05 });
+
+      expect(summary.status).toBe('extinct');
+      expect(summary.finalPopulation).toBe(0);
+      expect(summary.extinctionGeneration).toBe(1);
+      expect(summary.period).toBe(1);
+      expect(summary.cycleStart).toBe(1);
+      expect(summary.generationsRun).toBe(2);
+    });
+
+    test('reports the period of an oscillator', () => {
+      // An empty grid fills (B0) and a full one empties (no survival), so
+      // the two alternate
+      const summary = runSimulation({ ...RUN, rule: 'B0/S', density: 0 });
+
+      expect(summary.status).toBe('oscillator');
+      expect(summary.period).toBe(2);
+      expect(summary.cycleStart).toBe(0);
+      expect(summary.extinctionGeneration).toBeNull();
+      expect(summary.peakPopulation).toBe(1000);
+    });
+
+    test('leaves the cycle fields empty for a run still evolving at the end', () => {
+      const summary = runSimulation({ ...RUN, rule: 'B4/S4-5', generations: 5 });
+
+      expect(summary.status).toBe('evolving');
+      expect(summary.generationsRun).toBe(5);
+      expect(summary.period).toBeNull();
+      expect(summary.cycleStart).toBeNull();
+    });
+
+    test('is deterministic for a seed', () => {
+      expect(runSimulation(RUN)).toEqual(runSimulation(RUN));
+    });
+  });
+
+  test('runBatch reports progress for every run', () => {
+    const progress: string[] = [];
+    const summaries = runBatch(
+      { ...DEFAULT_BATCH_OPTIONS, sizes: [[6, 6, 6]], seeds: [1, 2], generations: 10 },
+      (summary, index, total) => progress.push(`${index + 1}/${total} seed ${summary.seed}`)
+    );
+
+    expect(summaries.map(summary => summary.seed)).toEqual([1, 2]);
+    expect(progress).toEqual(['1/2 seed 1', '2/2 seed 2']);
+  });
+
+  test('summariesToCsv quotes rules containing commas and leaves nulls empty', () => {
+    const summary = runSimulation({ ...RUN, rule: 'B4,6/S5', generations: 1 });
+    const [header, row] = summariesToCsv([summary]).trim().split('\n');
+
+    expect(header).toBe(SUMMARY_COLUMNS.join(','));
+    expect(row.startsWith('"B4,6/S5",10x10x10,periodic,0.15,3,1,1,')).toBe(true);
+    expect(row.endsWith(',evolving,,,')).toBe(true);
+  });
+
+  test('formatSummaries writes JSON that round-trips', () => {
+    const summaries = [runSimulation({ ...RUN, generations: 3 })];
+    expect(JSON.parse(formatSummaries(summaries, 'json'))).toEqual(summaries);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for boundary modes
+ */
+
+import {
+  OUTSIDE_ALIVE,
+  OUTSIDE_DEAD,
+  describeBoundaries,
+  normalizeBoundaries,
+  resolveCoordinate,
+  type BoundaryMode
+} from '../lib/boundaries';
+
+describe('boundaries', () => {
+  test('leaves coordinates inside the grid alone', () => {
+    (['periodic', 'dead', 'alive', 'mirror'] as BoundaryMode[]).forEach(mode => {
+      expect(resolveCoordinate(3, 5, mode)).toBe(3);
+    });
+  });
+
+  test('wraps periodic coordinates', () => {
+    expect(resolveCoordinate(-1, 5, 'periodic')).toBe(4);
+    expect(resolveCoordinate(5, 5, 'periodic')).toBe(0);
+    expect(resolveCoordinate(-7, 5, 'periodic')).toBe(3);
+  });
+
+  test('reports dead and alive outside cells', () => {
+    expect(resolveCoordinate(-1, 5, 'dead')).toBe(OUTSIDE_DEAD);
+    expect(resolveCoordinate(5, 5, 'alive')).toBe(OUTSIDE_ALIVE);
+  });
+
+  test('reflects mirror coordinates at the edge cell', () => {
+    expect(resolveCoordinate(-1, 5, 'mirror')).toBe(0);
+    expect(resolveCoordinate(-2, 5, 'mirror')).toBe(1);
+    expect(resolveCoordinate(5, 5, 'mirror')).toBe(4);
+    expect(resolveCoordinate(6, 5, 'mirror')).toBe(3);
+    // Reaches beyond a whole grid length fold back and forth
+    expect(resolveCoordinate(-3, 2, 'mirror')).toBe(1);
+    expect(resolveCoordinate(-1, 1, 'mirror')).toBe(0);
+  });
+
+  test('normalizes a single mode to every axis', () => {
+    expect(normalizeBoundaries('mirror')).toEqual(['mirror', 'mirror', 'mirror']);
+    expect(normalizeBoundaries(['periodic', 'periodic', 'dead'])).toEqual(['periodic', 'periodic', 'dead']);
+    expect(() => normalizeBoundaries('open' as BoundaryMode)).toThrow(/Unknown boundary mode "open"/);
+  });
+
+  test('describes boundaries', () => {
+    expect(describeBoundaries(['alive', 'alive', 'alive'])).toBe('Alive');
+    expect(describeBoundaries(['periodic', 'periodic', 'dead'])).toBe('X Periodic, Y Periodic, Z Dead');
+  });
+});
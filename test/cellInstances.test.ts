@@ -0,0 +1,145 @@
+/**
+ * Tests for packing drawn cells into instance slots
+ */
+
+import { CellInstances, type InstanceSink, type TargetScale } from '../lib/cellInstances';
+
+/** A sink that keeps what each slot holds, like the mesh's buffers */
+function recordingSink() {
+  const matrices = new Map<number, { cell: number; scale: number }>();
+  const colors = new Map<number, { cell: number; state: number }>();
+  const sink: InstanceSink & { writes: number } = {
+    writes: 0,
+    writeMatrix(slot, cell, scale) {
+      matrices.set(slot, { cell, scale });
+      this.writes++;
+    },
+    writeColor(slot, cell, state) {
+      colors.set(slot, { cell, state });
+      this.writes++;
+    }
+  };
+  return { sink, matrices, colors };
+}
+
+/** Live cells are full size */
+const liveSize: TargetScale = (_cell, state) => (state > 0 ? 1 : 0);
+
+/** The cells in slots 0 to count - 1, sorted */
+function drawnCells(instances: CellInstances): number[] {
+  const cells: number[] = [];
+  for (let slot = 0; slot < instances.count; slot++) cells.push(instances.cellAt(slot));
+  return cells.sort((a, b) => a - b);
+}
+
+describe('cellInstances', () => {
+  test('draws only cells with a size, packed at the front', () => {
+    const { sink, matrices, colors } = recordingSink();
+    const instances = new CellInstances(1000);
+    const states = new Uint8Array(1000);
+    states[3] = 1;
+    states[500] = 1;
+    states[999] = 2;
+
+    instances.sync(states, liveSize, sink);
+    expect(instances.count).toBe(3);
+    expect(drawnCells(instances)).toEqual([3, 500, 999]);
+    for (let slot = 0; slot < 3; slot++) {
+      expect(matrices.get(slot)!.cell).toBe(instances.cellAt(slot));
+      expect(colors.get(slot)).toEqual({ cell: instances.cellAt(slot), state: states[instances.cellAt(slot)] });
+    }
+    expect(instances.takeDirty()).toEqual({ matrices: { start: 0, end: 3 }, colors: { start: 0, end: 3 } });
+  });
+
+  test('eases sizes and writes only the slots that changed', () => {
+    const { sink, matrices } = recordingSink();
+    const instances = new CellInstances(10);
+    const states = new Uint8Array(10);
+    states[2] = 1;
+    states[7] = 1;
+    instances.sync(states, liveSize, sink);
+    instances.update(states, liveSize, 1, sink);
+    instances.takeDirty();
+
+    // Nothing changes, so nothing is written
+    sink.writes = 0;
+    instances.update(states, liveSize, 0.5, sink);
+    expect(sink.writes).toBe(0);
+    expect(instances.takeDirty()).toEqual({ matrices: null, colors: null });
+
+    // One cell starts shrinking
+    states[7] = 0;
+    instances.update(states, liveSize, 0.5, sink);
+    const slot = instances.slotOf(7);
+    expect(instances.takeDirty()).toEqual({ matrices: { start: slot, end: slot + 1 }, colors: null });
+    expect(matrices.get(slot)).toEqual({ cell: 7, scale: 0.5 });
+  });
+
+  test('cells that shrink away give up their slots to the last one', () => {
+    const { sink, matrices, colors } = recordingSink();
+    const instances = new CellInstances(10);
+    const states = new Uint8Array(10);
+    [1, 4, 6, 8].forEach(cell => { states[cell] = 1; });
+    instances.sync(states, liveSize, sink);
+    instances.update(states, liveSize, 1, sink);
+
+    const freed = instances.slotOf(1);
+    states[1] = 0;
+    // Fading keeps the cell drawn until its size reaches 0
+    instances.update(states, liveSize, 0.5, sink);
+    expect(instances.count).toBe(4);
+    expect(instances.scale[1]).toBe(0.5);
+
+    instances.update(states, liveSize, 1, sink);
+    expect(instances.count).toBe(3);
+    expect(instances.slotOf(1)).toBe(-1);
+    expect(drawnCells(instances)).toEqual([4, 6, 8]);
+    // The slot was refilled with the last slot's cell, matrix and color included
+    const moved = instances.cellAt(freed);
+    expect(matrices.get(freed)).toEqual({ cell: moved, scale: 1 });
+    expect(colors.get(freed)).toEqual({ cell: moved, state: 1 });
+  });
+
+  test('dying cells keep their last color while they shrink', () => {
+    const { sink, colors } = recordingSink();
+    const instances = new CellInstances(4);
+    const states = new Uint8Array([0, 3, 0, 0]);
+    instances.sync(states, liveSize, sink);
+    instances.update(states, liveSize, 1, sink);
+
+    states[1] = 0;
+    instances.sync(states, liveSize, sink);
+    instances.update(states, liveSize, 0.5, sink);
+    expect(colors.get(0)).toEqual({ cell: 1, state: 3 });
+
+    // A cell changing state is recolored on the next sync
+    states[1] = 2;
+    instances.sync(states, liveSize, sink);
+    expect(colors.get(0)).toEqual({ cell: 1, state: 2 });
+  });
+
+  test('starts with the given sizes and rewrites every drawn slot on request', () => {
+    const { sink, matrices } = recordingSink();
+    const instances = new CellInstances(5, new Float32Array([0, 1, 0, 0.5, 0]));
+    expect(drawnCells(instances)).toEqual([1, 3]);
+
+    instances.rewrite(sink);
+    expect(matrices.size).toBe(2);
+    expect(instances.takeDirty().matrices).toEqual({ start: 0, end: 2 });
+    expect(() => instances.cellAt(2)).toThrow('Slot 2 is not in use');
+    expect(() => new CellInstances(5, new Float32Array(4))).toThrow('Expected 5 starting sizes, got 4');
+  });
+
+  test('cells with no size to grow to are not drawn', () => {
+    const { sink } = recordingSink();
+    const instances = new CellInstances(6);
+    const states = new Uint8Array([1, 1, 1, 1, 1, 1]);
+    // Only even cells are shown, as with a slice view that hides the rest
+    const evenOnly: TargetScale = (cell, state) => (state > 0 && cell % 2 === 0 ? 1 : 0);
+
+    instances.sync(states, evenOnly, sink);
+    expect(drawnCells(instances)).toEqual([0, 2, 4]);
+    instances.sync(states, liveSize, sink);
+    expect(instances.count).toBe(6);
+  });
+});
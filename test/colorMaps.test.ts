@@ -0,0 +1,124 @@
+/**
+ * Tests for color modes and palettes
+ */
+
+import {
+  COLOR_MODE_NAMES,
+  DEFAULT_PALETTES,
+  GRADIENT_LEVELS,
+  NO_VALUE,
+  PALETTES,
+  cellColor,
+  colorCells,
+  palettesFor,
+  samplePalette,
+  stateColors,
+  type ColorInputs,
+  type ColorMode
+} from '../lib/colorMaps';
+import { FlatGrid3D } from '../lib/flatGrid';
+
+const inputs: ColorInputs = { generation: 10, states: 2, maxNeighbors: 26, axis: 0 };
+
+function close(actual: number[], expected: number[]) {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 3));
+}
+
+describe('colorMaps', () => {
+  test('every mode has a choice of palettes, including a colorblind-safe one, and starts on one of them', () => {
+    (Object.keys(COLOR_MODE_NAMES) as ColorMode[]).forEach(mode => {
+      const palettes = palettesFor(mode);
+      expect(palettes.length).toBeGreaterThan(1);
+      expect(palettes).toContain(DEFAULT_PALETTES[mode]);
+      expect(palettes.some(id => PALETTES[id].colorblindSafe)).toBe(true);
+    });
+    expect(palettesFor('component').every(id => PALETTES[id].kind === 'categorical')).toBe(true);
+    expect(palettesFor('age').every(id => PALETTES[id].kind === 'sequential')).toBe(true);
+  });
+
+  test('samples sequential palettes between their stops and repeats categorical ones', () => {
+    const palette = { name: 'Test', kind: 'sequential' as const, colorblindSafe: false, colors: [[0, 0, 0], [1, 0.5, 0]] as [number, number, number][] };
+    close(samplePalette(palette, 0), [0, 0, 0]);
+    close(samplePalette(palette, 0.5), [0.5, 0.25, 0]);
+    close(samplePalette(palette, 2), [1, 0.5, 0]);
+
+    const okabeIto = PALETTES.okabeIto;
+    expect(samplePalette(okabeIto, okabeIto.colors.length + 1)).toEqual(okabeIto.colors[1]);
+  });
+
+  test('state colors keep the classic cyan to purple ramp and do not need the cells', () => {
+    const colors = stateColors('classic', 5);
+    expect(colors.index).toBeNull();
+    close(colors.table[1], [0.4, 1, 1]);
+    // hsl(270°, 100%, 30%)
+    close(colors.table[4], [0.3, 0, 0.6]);
+    expect(colors.legend).toMatchObject({ type: 'gradient', min: 'Live', max: 'Dying' });
+    expect(cellColor(colors, 0, 3)).toEqual(colors.table[3]);
+    expect(stateColors('viridis', 2).legend).toMatchObject({ type: 'swatches', entries: [{ label: 'Live' }] });
+  });
+
+  test('neighbor counts run over the whole range the neighborhood allows', () => {
+    const grid = new FlatGrid3D(3, 1, 1, new Uint8Array([1, 0, 1]));
+    const neighbors = new Uint16Array([0, 2, 26]);
+    const colors = colorCells(grid, 'neighbors', 'plasma', { ...inputs, neighbors });
+
+    expect(Array.from(colors.index!)).toEqual([NO_VALUE + 1, 0, NO_VALUE + 27]);
+    expect(colors.table[NO_VALUE + 1]).toEqual(PALETTES.plasma.colors[0]);
+    close(colors.table[NO_VALUE + 27], PALETTES.plasma.colors[PALETTES.plasma.colors.length - 1]);
+    expect(colors.legend).toMatchObject({ type: 'gradient', title: 'Neighbor count', min: '0', max: '26' });
+  });
+
+  test('figures the simulation has not reported yet leave cells without a value', () => {
+    const grid = new FlatGrid3D(2, 1, 1, new Uint8Array([1, 0]));
+    const colors = colorCells(grid, 'age', 'viridis', inputs);
+    expect(Array.from(colors.index!)).toEqual([NO_VALUE, 0]);
+    expect(colors.legend.type).toBe('swatches');
+    // Cells still shrinking away after they emptied have no value either
+    expect(cellColor(colors, 1, 1)).toEqual(colors.table[NO_VALUE]);
+  });
+
+  test('age and birth generation read the births, cut into at most GRADIENT_LEVELS steps', () => {
+    const grid = new FlatGrid3D(4, 1, 1, new Uint8Array([1, 2, 1, 0]));
+    const births = new Uint32Array([10, 6, 0, 0]);
+
+    const age = colorCells(grid, 'age', 'viridis', { ...inputs, births });
+    expect(Array.from(age.index!)).toEqual([NO_VALUE + 1, NO_VALUE + 5, NO_VALUE + 11, 0]);
+    expect(age.legend).toMatchObject({ min: '0 gen', max: '10 gen' });
+
+    const birth = colorCells(grid, 'birth', 'viridis', { ...inputs, births });
+    expect(Array.from(birth.index!)).toEqual([NO_VALUE + 11, NO_VALUE + 7, NO_VALUE + 1, 0]);
+    expect(birth.legend).toMatchObject({ min: 'Gen 0', max: 'Gen 10' });
+
+    const old = new Uint32Array([1000, 0, 500, 0]);
+    const long = colorCells(grid, 'birth', 'viridis', { ...inputs, generation: 1000, births: old });
+    expect(long.table.length).toBe(NO_VALUE + 1 + GRADIENT_LEVELS);
+    expect(Array.from(long.index!)).toEqual([NO_VALUE + GRADIENT_LEVELS, NO_VALUE + 1, NO_VALUE + 33, 0]);
+  });
+
+  test('position runs along the chosen axis', () => {
+    const grid = new FlatGrid3D(2, 3, 1);
+    grid.data.fill(1);
+    const colors = colorCells(grid, 'position', 'cividis', { ...inputs, axis: 1 });
+
+    expect([0, 1, 2].map(y => colors.index![grid.index(1, y, 0)])).toEqual([NO_VALUE + 1, NO_VALUE + 2, NO_VALUE + 3]);
+    expect(colors.index![grid.index(0, 2, 0)]).toBe(NO_VALUE + 3);
+    expect(colors.legend).toMatchObject({ min: 'Y 0', max: 'Y 2' });
+  });
+
+  test('cells of one object share a color by its tracked id, and neighboring objects differ', () => {
+    const grid = new FlatGrid3D(5, 1, 1, new Uint8Array([1, 1, 0, 1, 2]));
+    const waiting = colorCells(grid, 'component', 'tolBright', inputs);
+    expect(Array.from(waiting.index!)).toEqual([NO_VALUE, NO_VALUE, 0, NO_VALUE, NO_VALUE]);
+
+    const objectIds = new Int32Array([7, 7, 0, 2, 0]);
+    const colors = colorCells(grid, 'component', 'tolBright', { ...inputs, objectIds });
+    const [a, b, , c, dying] = Array.from(colors.index!);
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+    expect(dying).toBe(NO_VALUE);
+    expect(colors.table[a]).toEqual(PALETTES.tolBright.colors[0]);
+    expect(colors.table[c]).toEqual(PALETTES.tolBright.colors[1]);
+    expect(colors.legend).toMatchObject({ type: 'swatches', title: '2 objects' });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tests for searching the command palette and reading typed commands
+ */
+
+import { MAX_CUBE_LENGTH, MAX_TYPED_LENGTH, MIN_CUBE_LENGTH, parseTypedCommand, searchPalette } from '../lib/commandPalette';
+
+const entries = [
+  { title: 'Play / Pause' },
+  { title: 'Step back' },
+  { title: 'Step forward' },
+  { title: 'Rule: Bays 5766', keywords: 'B6/S5-7 preset' },
+  { title: 'Keyboard shortcuts', keywords: 'help keys' }
+];
+
+describe('commandPalette', () => {
+  test('lists everything for an empty query', () => {
+    expect(searchPalette(entries, '  ')).toEqual(entries);
+  });
+
+  test('finds entries holding every word, titles starting with the query first', () => {
+    expect(searchPalette(entries, 'step').map(entry => entry.title)).toEqual(['Step back', 'Step forward']);
+    expect(searchPalette(entries, 'FORWARD st').map(entry => entry.title)).toEqual(['Step forward']);
+    expect(searchPalette(entries, 'help').map(entry => entry.title)).toEqual(['Keyboard shortcuts']);
+    expect(searchPalette(entries, 'b6/s5').map(entry => entry.title)).toEqual(['Rule: Bays 5766']);
+    expect(searchPalette(entries, 'back').map(entry => entry.title)).toEqual(['Step back']);
+    expect(searchPalette([{ title: 'Go back' }, { title: 'Back' }], 'back').map(entry => entry.title)).toEqual(['Back', 'Go back']);
+    expect(searchPalette(entries, 'nothing')).toEqual([]);
+  });
+
+  test('reads rules typed after "rule" or on their own', () => {
+    expect(parseTypedCommand('rule B6/S5-7')).toEqual({ type: 'rule', notation: 'B6/S5-7' });
+    expect(parseTypedCommand('Rule 4/4/5/M')).toEqual({ type: 'rule', notation: '4/4/5/M' });
+    expect(parseTypedCommand(' b5/s4-5 ')).toEqual({ type: 'rule', notation: 'b5/s4-5' });
+    expect(() => parseTypedCommand('rule B6/X')).toThrow(/Invalid rule/);
+    expect(parseTypedCommand('rule')).toBeNull();
+    expect(parseTypedCommand('step back')).toBeNull();
+  });
+
+  test('keeps typed cubes within the cube slider\'s range', () => {
+    expect(parseTypedCommand(`size ${MIN_CUBE_LENGTH}`)).toEqual({ type: 'size', dimensions: [5, 5, 5] });
+    expect(parseTypedCommand(`size ${MAX_CUBE_LENGTH}`)).toEqual({ type: 'size', dimensions: [50, 50, 50] });
+    expect(() => parseTypedCommand(`size ${MIN_CUBE_LENGTH - 1}`)).toThrow(/cube's side must be from 5 to 50/);
+    expect(() => parseTypedCommand('size 100')).toThrow(/cube's side must be from 5 to 50/);
+    // Spelled out, each side may use the axis sliders' range
+    expect(parseTypedCommand('size 100x100x100')).toEqual({ type: 'size', dimensions: [100, 100, 100] });
+  });
+
+  test('reads sizes as one length or three', () => {
+    expect(parseTypedCommand('size 30')).toEqual({ type: 'size', dimensions: [30, 30, 30] });
+    expect(parseTypedCommand('size 40x40x10')).toEqual({ type: 'size', dimensions: [40, 40, 10] });
+    expect(parseTypedCommand('SIZE 40 × 30 × 10')).toEqual({ type: 'size', dimensions: [40, 30, 10] });
+    expect(() => parseTypedCommand('size 40x40')).toThrow(/one length or width×height×depth/);
+    expect(() => parseTypedCommand('size 0')).toThrow(/positive whole numbers/);
+    expect(() => parseTypedCommand(`size ${MAX_TYPED_LENGTH + 1}x10x10`)).toThrow(/at most 100/);
+  });
+});
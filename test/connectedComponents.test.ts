@@ -0,0 +1,97 @@
+/**
+ * Tests for labelling the objects of a grid
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { labelComponents } from '../lib/connectedComponents';
+import { createCustomNeighborhood } from '../lib/neighborhood';
+
+describe('connectedComponents', () => {
+  test('cells touching by a face, edge or corner form one object', () => {
+    const grid = new FlatGrid3D(5);
+    grid.set(0, 0, 0, 1);
+    grid.set(1, 1, 1, 1);
+    grid.set(2, 2, 1, 1);
+    grid.set(2, 3, 1, 1);
+    grid.set(4, 4, 4, 1);
+
+    const { labels, count } = labelComponents(grid);
+    expect(count).toBe(2);
+    expect([[0, 0, 0], [1, 1, 1], [2, 2, 1], [2, 3, 1]].map(([x, y, z]) => labels[grid.index(x, y, z)])).toEqual([1, 1, 1, 1]);
+    expect(labels[grid.index(4, 4, 4)]).toBe(2);
+    expect(labels.filter(label => label !== 0).length).toBe(5);
+  });
+
+  test('dying cells and empty cells are not part of any object', () => {
+    const grid = new FlatGrid3D(3, 1, 1);
+    grid.set(0, 0, 0, 1);
+    grid.set(1, 0, 0, 2);
+    grid.set(2, 0, 0, 1);
+
+    const { labels, count } = labelComponents(grid);
+    expect(count).toBe(2);
+    expect(Array.from(labels)).toEqual([1, 0, 2]);
+  });
+
+  test('does not join cells across the faces of the grid', () => {
+    const grid = new FlatGrid3D(4);
+    grid.set(0, 2, 2, 1);
+    grid.set(3, 2, 2, 1);
+    expect(labelComponents(grid).count).toBe(2);
+    expect(labelComponents(new FlatGrid3D(4)).count).toBe(0);
+  });
+
+  test('periodic axes join cells across the faces they wrap', () => {
+    const grid = new FlatGrid3D(4);
+    grid.set(0, 2, 2, 1);
+    grid.set(3, 2, 2, 1);
+    grid.set(2, 0, 0, 1);
+    grid.set(2, 3, 0, 1);
+
+    const { count } = labelComponents(grid, { boundaries: ['periodic', 'dead', 'mirror'] });
+    expect(count).toBe(3);
+  });
+
+  test('uses the neighborhood given, both ways round', () => {
+    const grid = new FlatGrid3D(4, 1, 1, new Uint8Array([1, 0, 1, 1]));
+    expect(labelComponents(grid, { neighborhood: { type: 'vonNeumann', radius: 2 } }).count).toBe(1);
+    expect(labelComponents(grid, { neighborhood: { type: 'faceEdge' } }).count).toBe(2);
+
+    // Only the cell two to the left is a neighbor, yet the first cell reaches the third
+    const lopsided = createCustomNeighborhood([[-2, 0, 0]]);
+    expect(Array.from(labelComponents(grid, { neighborhood: lopsided }).labels)).toEqual([1, 0, 1, 2]);
+  });
+
+  test('measures the size, box and centroid of each object', () => {
+    const grid = new FlatGrid3D(6);
+    grid.set(1, 1, 1, 1);
+    grid.set(2, 1, 1, 1);
+    grid.set(3, 2, 1, 1);
+    grid.set(3, 3, 1, 1);
+
+    const [object] = labelComponents(grid).objects;
+    expect(object).toMatchObject({
+      label: 1,
+      size: 4,
+      boundingBox: { min: [1, 1, 1], max: [3, 3, 1] },
+      centroid: [2.25, 1.75, 1],
+      firstCell: grid.index(1, 1, 1)
+    });
+  });
+
+  test('keeps an object that wraps around in one piece', () => {
+    const grid = new FlatGrid3D(6, 1, 1, new Uint8Array([1, 1, 0, 0, 0, 1]));
+    const { count, objects } = labelComponents(grid, { boundaries: ['periodic', 'periodic', 'periodic'] });
+
+    expect(count).toBe(1);
+    // Cells 5, 6 and 7 of the grid unrolled
+    expect(objects[0].boundingBox).toEqual({ min: [5, 0, 0], max: [7, 0, 0] });
+    expect(objects[0].centroid).toEqual([0, 0, 0]);
+
+    // A ring all the way around has no ends
+    const ring = new FlatGrid3D(4, 1, 1, new Uint8Array([1, 1, 1, 1]));
+    const [around] = labelComponents(ring, { boundaries: ['periodic', 'dead', 'dead'] }).objects;
+    expect(around.boundingBox).toEqual({ min: [0, 0, 0], max: [3, 0, 0] });
+    expect(around.centroid).toEqual([1.5, 0, 0]);
+  });
+});
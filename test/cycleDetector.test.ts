@@ -0,0 +1,76 @@
+/**
+ * Tests for cycle and stagnation detection
+ */
+
+import { CycleDetector, describeCycle, hashGrid } from '../lib/cycleDetector';
+import { FlatGrid3D } from '../lib/flatGrid';
+
+/** A 3³ grid with one live cell at the given index */
+function gridWith(index: number): FlatGrid3D {
+  const grid = new FlatGrid3D(3);
+  grid.data[index] = 1;
+  return grid;
+}
+
+function recordAll(detector: CycleDetector, grids: FlatGrid3D[]) {
+  return grids.map((grid, generation) => detector.record(generation, grid));
+}
+
+describe('cycleDetector', () => {
+  test('hashes depend on every cell and its state', () => {
+    const grid = gridWith(5);
+    expect(hashGrid(grid)).toBe(hashGrid(gridWith(5)));
+    expect(hashGrid(grid)).not.toBe(hashGrid(gridWith(6)));
+
+    grid.data[5] = 2;
+    expect(hashGrid(grid)).not.toBe(hashGrid(gridWith(5)));
+    expect(Number.isSafeInteger(hashGrid(grid))).toBe(true);
+  });
+
+  test('reports evolving until a generation repeats', () => {
+    const statuses = recordAll(new CycleDetector(), [gridWith(0), gridWith(1), gridWith(2)]);
+    expect(statuses.every(status => status.kind === 'evolving')).toBe(true);
+  });
+
+  test('detects still lifes and extinction', () => {
+    const still = recordAll(new CycleDetector(), [gridWith(0), gridWith(1), gridWith(1)]);
+    expect(still[2]).toEqual({ kind: 'stillLife', since: 1 });
+
+    const empty = new FlatGrid3D(3);
+    const extinct = recordAll(new CycleDetector(), [gridWith(0), gridWith(1), empty, empty]);
+    expect(extinct[3]).toEqual({ kind: 'extinct', since: 2 });
+  });
+
+  test('detects oscillators with their period and start', () => {
+    const detector = new CycleDetector();
+    const statuses = recordAll(detector, [gridWith(0), gridWith(1), gridWith(2), gridWith(3), gridWith(1)]);
+
+    expect(statuses[4]).toEqual({ kind: 'oscillator', period: 3, since: 1 });
+    expect(describeCycle(statuses[4])).toBe('Oscillator, period 3 since gen 1');
+    // The status holds from then on
+    expect(detector.record(5, gridWith(8))).toBe(detector.status);
+  });
+
+  test('only remembers maxPeriod generations', () => {
+    const sequence = [gridWith(0), gridWith(1), gridWith(2), gridWith(0)];
+    expect(recordAll(new CycleDetector(2), sequence)[3].kind).toBe('evolving');
+    expect(recordAll(new CycleDetector(3), sequence)[3]).toEqual({ kind: 'oscillator', period: 3, since: 0 });
+    expect(() => new CycleDetector(0)).toThrow(/Invalid maximum period 0/);
+  });
+
+  test('reset forgets the history', () => {
+    const detector = new CycleDetector();
+    recordAll(detector, [gridWith(0), gridWith(0)]);
+    expect(detector.status.kind).toBe('stillLife');
+
+    detector.reset();
+    expect(detector.status).toEqual({ kind: 'evolving' });
+    expect(detector.record(7, gridWith(0)).kind).toBe('evolving');
+  });
+
+  test('describes every status', () => {
+    expect(describeCycle({ kind: 'evolving' })).toBe('Evolving');
+    expect(describeCycle({ kind: 'extinct', since: 12 })).toBe('Extinct since gen 12');
+    expect(describeCycle({ kind: 'stillLife', since: 50 })).toBe('Still life since gen 50');
+  });
+});
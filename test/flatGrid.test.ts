@@ -0,0 +1,277 @@
+/**
+ * Tests for the flat typed-array grid backend
+ */
+
+import type { AxisBoundaries } from '../lib/boundaries';
+import { FlatGrid3D, GridDoubleBuffer, formatDimensions, normalizeDimensions } from '../lib/flatGrid';
+import { GameOfLife3D, type GameOfLife3DConfig } from '../lib/gameOfLife3D';
+import { parseRule, parseRuleNotation } from '../lib/rules';
+
+const defaultConfig: GameOfLife3DConfig = {
+  gridSize: 6,
+  birthRule: 4,
+  survivalMin: 4,
+  survivalMax: 5,
+  periodicBoundaries: true
+};
+
+/**
+ * Steps a flat grid cell by cell using countNeighbors and nextCellState,
+ * as a reference for the optimized kernel
+ */
+function referenceStep(game: GameOfLife3D, grid: FlatGrid3D): FlatGrid3D {
+  const next = new FlatGrid3D(grid.width, grid.height, grid.depth);
+  for (let x = 0; x < grid.width; x++) {
+    for (let y = 0; y < grid.height; y++) {
+      for (let z = 0; z < grid.depth; z++) {
+        const neighbors = game.countNeighbors(grid, x, y, z);
+        next.set(x, y, z, game.nextCellState(grid.get(x, y, z), neighbors));
+      }
+    }
+  }
+  return next;
+}
+
+describe('FlatGrid3D', () => {
+  test('creates an empty grid with the given dimensions', () => {
+    const grid = new FlatGrid3D(2, 3, 4);
+    expect(grid.cellCount).toBe(24);
+    expect(grid.data.every(value => value === 0)).toBe(true);
+  });
+
+  test('uses the same x, y, z order as nested grids', () => {
+    const grid = new FlatGrid3D(2, 3, 4);
+    expect(grid.index(0, 0, 1)).toBe(1);
+    expect(grid.index(0, 1, 0)).toBe(4);
+    expect(grid.index(1, 0, 0)).toBe(12);
+  });
+
+  test('rejects data of the wrong length', () => {
+    expect(() => new FlatGrid3D(2, 2, 2, new Uint8Array(7))).toThrow(/needs 8/);
+  });
+
+  test('get and set ignore out-of-bounds positions', () => {
+    const grid = new FlatGrid3D(3);
+    grid.set(1, 2, 0, 1);
+    grid.set(3, 0, 0, 1);
+    grid.set(-1, 0, 0, 1);
+
+    expect(grid.get(1, 2, 0)).toBe(1);
+    expect(grid.get(3, 0, 0)).toBe(0);
+    expect(grid.get(-1, 0, 0)).toBe(0);
+    expect(grid.data.reduce((sum, value) => sum + value, 0)).toBe(1);
+  });
+
+  test('converts to and from nested grids', () => {
+    const grid = new FlatGrid3D(2, 3, 4);
+    grid.set(1, 2, 3, 1);
+    grid.set(0, 1, 2, 1);
+
+    const nested = grid.toNested();
+    expect(nested.length).toBe(2);
+    expect(nested[0].length).toBe(3);
+    expect(nested[0][0].length).toBe(4);
+    expect(nested[1][2][3]).toBe(1);
+    expect(nested[0][1][2]).toBe(1);
+
+    expect(FlatGrid3D.fromNested(nested).equals(grid)).toBe(true);
+  });
+
+  test('clones independently', () => {
+    const grid = new FlatGrid3D(3);
+    grid.set(1, 1, 1, 1);
+    const copy = grid.clone();
+    copy.set(0, 0, 0, 1);
+
+    expect(grid.get(0, 0, 0)).toBe(0);
+    expect(copy.get(1, 1, 1)).toBe(1);
+  });
+
+  test('grids of different shape are not equal', () => {
+    expect(new FlatGrid3D(2, 2, 3).equals(new FlatGrid3D(2, 3, 2))).toBe(false);
+    expect(() => new FlatGrid3D(2).copyFrom(new FlatGrid3D(3))).toThrow();
+  });
+});
+
+describe('Grid Dimensions', () => {
+  test('expands a single size to a cube', () => {
+    expect(normalizeDimensions(4)).toEqual([4, 4, 4]);
+    expect(normalizeDimensions([100, 100, 4])).toEqual([100, 100, 4]);
+    expect(new FlatGrid3D(2, 3, 4).dimensions).toEqual([2, 3, 4]);
+  });
+
+  test('rejects invalid dimensions', () => {
+    expect(() => normalizeDimensions(0)).toThrow(/Invalid grid dimensions 0x0x0/);
+    expect(() => normalizeDimensions([4, 2.5, 4])).toThrow(/positive whole numbers/);
+  });
+
+  test('formats cubes and boxes', () => {
+    expect(formatDimensions([20, 20, 20])).toBe('20³');
+    expect(formatDimensions([100, 100, 4])).toBe('100×100×4');
+  });
+});
+
+describe('GridDoubleBuffer', () => {
+  test('swaps front and back', () => {
+    const buffer = new GridDoubleBuffer(new FlatGrid3D(2));
+    const { front, back } = buffer;
+    buffer.swap();
+
+    expect(buffer.front).toBe(back);
+    expect(buffer.back).toBe(front);
+  });
+
+  test('rejects mismatched grids', () => {
+    expect(() => new GridDoubleBuffer(new FlatGrid3D(2), new FlatGrid3D(3))).toThrow();
+  });
+});
+
+describe('GameOfLife3D flat backend', () => {
+  let game: GameOfLife3D;
+
+  beforeEach(() => {
+    game = new GameOfLife3D(defaultConfig);
+  });
+
+  test('neighbor counts match countNeighbors', () => {
+    const grid = game.createRandomFlatGrid(0.4);
+    const counts = game.computeNeighborCounts(grid);
+
+    for (let x = 0; x < grid.width; x++) {
+      for (let y = 0; y < grid.height; y++) {
+        for (let z = 0; z < grid.depth; z++) {
+          expect(counts[grid.index(x, y, z)]).toBe(game.countNeighbors(grid, x, y, z));
+        }
+      }
+    }
+  });
+
+  test.each([
+    ['B3,5-6/S2,4-7', true],
+    ['B3,5-6/S2,4-7', false],
+    ['B3-4/S2-5/C6', true],
+    ['B1,3/S0-6/N', true],
+    ['B1,3/S0-6/N', false],
+    ['B5-6/S3-7/C4/E', false],
+    ['B10-20/S12-40/M2', true],
+    ['B10-20/S12-40/M2', false],
+    ['B3-5/S2-8/N2', true]
+  ])('stepInto matches the reference step (%s, periodic: %s)', (notation, periodicBoundaries) => {
+    const { rule, neighborhood } = parseRuleNotation(notation);
+    const ruleGame = new GameOfLife3D({ ...defaultConfig, periodicBoundaries, rule, neighborhood });
+    let grid = ruleGame.createRandomFlatGrid(0.3);
+
+    for (let generation = 0; generation < 5; generation++) {
+      const next = ruleGame.step(grid);
+      expect(next.equals(referenceStep(ruleGame, grid))).toBe(true);
+      grid = next;
+    }
+  });
+
+  test.each<[string, AxisBoundaries]>([
+    ['B3,5-6/S2,4-7', ['alive', 'alive', 'alive']],
+    ['B3,5-6/S2,4-7', ['mirror', 'mirror', 'mirror']],
+    ['B3,5-6/S2,4-7', ['periodic', 'alive', 'mirror']],
+    ['B3,5-6/S2,4-7/C4', ['alive', 'dead', 'periodic']],
+    ['B10-20/S12-40/M2', ['mirror', 'alive', 'dead']],
+    ['B1,3/S0-6/N', ['alive', 'mirror', 'dead']],
+    ['B3-5/S2-8/N2', ['alive', 'alive', 'periodic']]
+  ])('stepInto matches the reference step (%s, boundaries: %j)', (notation, boundaries) => {
+    const { rule, neighborhood } = parseRuleNotation(notation);
+    const boundaryGame = new GameOfLife3D({ ...defaultConfig, boundaries, rule, neighborhood });
+    let grid = boundaryGame.createRandomFlatGrid(0.3);
+
+    for (let generation = 0; generation < 3; generation++) {
+      const next = boundaryGame.step(grid);
+      expect(next.equals(referenceStep(boundaryGame, grid))).toBe(true);
+      grid = next;
+    }
+  });
+
+  test.each<[string, AxisBoundaries]>([
+    ['B3,5-6/S2,4-7', ['periodic', 'periodic', 'periodic']],
+    ['B3,5-6/S2,4-7/C3', ['periodic', 'periodic', 'dead']],
+    ['B10-20/S12-40/M2', ['periodic', 'mirror', 'alive']],
+    ['B1,3/S0-6/N', ['dead', 'periodic', 'periodic']]
+  ])('stepInto matches the reference step on a 7x5x3 grid (%s, boundaries: %j)', (notation, boundaries) => {
+    const { rule, neighborhood } = parseRuleNotation(notation);
+    const boxGame = new GameOfLife3D({ ...defaultConfig, gridSize: [7, 5, 3], boundaries, rule, neighborhood });
+    let grid = boxGame.createRandomFlatGrid(0.3);
+    expect(grid.dimensions).toEqual([7, 5, 3]);
+
+    for (let generation = 0; generation < 3; generation++) {
+      const next = boxGame.step(grid);
+      expect(next.equals(referenceStep(boxGame, grid))).toBe(true);
+      grid = next;
+    }
+  });
+
+  test('custom stencils match the reference step', () => {
+    const customGame = new GameOfLife3D({
+      ...defaultConfig,
+      rule: parseRule('B1-2/S1'),
+      neighborhood: { type: 'custom', offsets: [[1, 0, 0], [0, 2, 0], [-1, -1, 3]] }
+    });
+    const grid = customGame.createRandomFlatGrid(0.3);
+
+    expect(customGame.step(grid).equals(referenceStep(customGame, grid))).toBe(true);
+  });
+
+  test('handles grids smaller than the neighborhood', () => {
+    const tinyGame = new GameOfLife3D({ ...defaultConfig, gridSize: 2, rule: parseRule('B/S0-26') });
+    const grid = tinyGame.createFlatGrid();
+    grid.set(0, 0, 0, 1);
+
+    expect(tinyGame.step(grid).equals(referenceStep(tinyGame, grid))).toBe(true);
+  });
+
+  test('nested and flat steps agree', () => {
+    const nested = game.createRandomGrid(0.3);
+    const flat = FlatGrid3D.fromNested(nested);
+
+    expect(game.step(flat).equals(FlatGrid3D.fromNested(game.step(nested)))).toBe(true);
+  });
+
+  test('advance keeps the previous generation in back', () => {
+    const buffer = game.createDoubleBuffer(game.createRandomFlatGrid(0.3));
+    const initial = buffer.front.clone();
+    const expected = game.step(initial);
+
+    game.advance(buffer);
+
+    expect(buffer.front.equals(expected)).toBe(true);
+    expect(buffer.back.equals(initial)).toBe(true);
+  });
+
+  test('stepInto rejects stepping a grid into itself', () => {
+    const grid = game.createFlatGrid();
+    expect(() => game.stepInto(grid, grid)).toThrow();
+  });
+
+  test('utility methods accept flat grids', () => {
+    const grid = game.createFlatGrid();
+    game.setCell(grid, 1, 2, 3, 1);
+    game.setCell(grid, 10, 0, 0, 1);
+
+    expect(game.getCell(grid, 1, 2, 3)).toBe(1);
+    expect(game.countLivingCells(grid)).toBe(1);
+
+    const copy = game.copyGrid(grid);
+    expect(copy).toBeInstanceOf(FlatGrid3D);
+    expect(game.gridsEqual(grid, copy)).toBe(true);
+    expect(game.gridsEqual(grid, grid.toNested())).toBe(true);
+
+    game.setCell(copy, 0, 0, 0, 1);
+    expect(game.gridsEqual(grid, copy)).toBe(false);
+  });
+
+  test('steps a 128³ grid', () => {
+    const largeGame = new GameOfLife3D({ ...defaultConfig, gridSize: 128 });
+    const buffer = largeGame.createDoubleBuffer(largeGame.createRandomFlatGrid(0.1));
+
+    largeGame.advance(buffer);
+
+    expect(buffer.front.cellCount).toBe(128 ** 3);
+    expect(largeGame.countLivingCells(buffer.front)).toBeGreaterThan(0);
+  });
+});
@@ -2,16 +2,18 @@
  * Tests for 3D Game of Life Logic
  */
 
+import { FlatGrid3D } from '../lib/flatGrid';
 import { GameOfLife3D, type GameOfLife3DConfig, type Grid3D } from '../lib/gameOfLife3D';
+import { parseRule, parseRuleNotation } from '../lib/rules';
 
 // Test configuration
-const defaultConfig: GameOfLife3DConfig = {
+const defaultConfig = {
   gridSize: 5,
   birthRule: 4,
   survivalMin: 4,
   survivalMax: 5,
   periodicBoundaries: true
-};
+} satisfies GameOfLife3DConfig;
 
 describe('GameOfLife3D', () => {
   let game: GameOfLife3D;
@@ -48,6 +50,22 @@ describe('GameOfLife3D', () => {
       expect(actualDensity).toBeGreaterThan(0.1);
       expect(actualDensity).toBeLessThan(0.6);
     });
+
+    test('creates the same random grid for the same seed', () => {
+      const first = game.createRandomGrid(0.3, 99);
+      expect(game.createRandomGrid(0.3, 99)).toEqual(first);
+      expect(game.createRandomGrid(0.3, 100)).not.toEqual(first);
+    });
+
+    test('nested and flat random grids agree for a seed', () => {
+      const nested = game.createRandomGrid(0.4, 5);
+      expect(game.createRandomFlatGrid(0.4, 5).equals(FlatGrid3D.fromNested(nested))).toBe(true);
+    });
+
+    test('draws from an injected random source', () => {
+      expect(game.countLivingCells(game.createRandomGrid(0.5, () => 0.25))).toBe(125);
+      expect(game.countLivingCells(game.createRandomGrid(0.5, () => 0.75))).toBe(0);
+    });
   });
 
   describe('Neighbor Counting', () => {
@@ -149,6 +167,37 @@ describe('GameOfLife3D', () => {
       expect(shouldDieLow).toBe(false);
       expect(shouldDieHigh).toBe(false);
     });
+
+    test('applies non-contiguous birth and survival sets', () => {
+      const ruleGame = new GameOfLife3D({ ...defaultConfig, rule: parseRule('B4,6/S3,5,7') });
+
+      expect(ruleGame.applyCellRule(false, 4)).toBe(true);
+      expect(ruleGame.applyCellRule(false, 5)).toBe(false);
+      expect(ruleGame.applyCellRule(false, 6)).toBe(true);
+      expect(ruleGame.applyCellRule(true, 3)).toBe(true);
+      expect(ruleGame.applyCellRule(true, 4)).toBe(false);
+      expect(ruleGame.applyCellRule(true, 7)).toBe(true);
+    });
+
+    test('explicit rule takes precedence over numeric fields', () => {
+      const ruleGame = new GameOfLife3D({ ...defaultConfig, rule: parseRule('B6/S1') });
+      expect(ruleGame.applyCellRule(false, defaultConfig.birthRule)).toBe(false);
+      expect(ruleGame.applyCellRule(false, 6)).toBe(true);
+    });
+
+    test('step uses the rule sets', () => {
+      const ruleGame = new GameOfLife3D({ ...defaultConfig, rule: parseRule('B2,4/S') });
+      const grid = ruleGame.createEmptyGrid();
+      grid[1][2][2] = 1;
+      grid[3][2][2] = 1;
+
+      const nextGrid = ruleGame.step(grid);
+
+      // Both live cells die (empty survival set); cells between them with 2 neighbors are born
+      expect(nextGrid[1][2][2]).toBe(0);
+      expect(nextGrid[2][2][2]).toBe(1);
+      expect(nextGrid[2][1][2]).toBe(1);
+    });
   });
 
   describe('Simulation Step', () => {
@@ -221,6 +270,249 @@ describe('GameOfLife3D', () => {
     });
   });
 
+  describe('Generations Rules', () => {
+    let generationsGame: GameOfLife3D;
+
+    beforeEach(() => {
+      generationsGame = new GameOfLife3D({ ...defaultConfig, rule: parseRule('B4/S4/C5') });
+    });
+
+    test('a dying cell passes through every refractory state', () => {
+      const grid = generationsGame.createEmptyGrid();
+      grid[2][2][2] = 1; // isolated, so it fails to survive
+
+      const states: number[] = [];
+      let current = grid;
+      for (let generation = 0; generation < 4; generation++) {
+        current = generationsGame.step(current);
+        states.push(current[2][2][2]);
+      }
+
+      expect(states).toEqual([2, 3, 4, 0]);
+    });
+
+    test('only live cells count as neighbors', () => {
+      const grid = generationsGame.createEmptyGrid();
+      grid[1][2][2] = 1;
+      grid[3][2][2] = 2;
+      grid[2][1][2] = 3;
+      grid[2][3][2] = 4;
+
+      expect(generationsGame.countNeighbors(grid, 2, 2, 2)).toBe(1);
+    });
+
+    test('dying cells block births', () => {
+      const grid = generationsGame.createEmptyGrid();
+      grid[1][2][2] = 1;
+      grid[3][2][2] = 1;
+      grid[2][1][2] = 1;
+      grid[2][3][2] = 1;
+      grid[2][2][2] = 2; // would be born from 4 neighbors if it were empty
+
+      expect(generationsGame.step(grid)[2][2][2]).toBe(3);
+    });
+
+    test('surviving cells stay live', () => {
+      const grid = generationsGame.createEmptyGrid();
+      grid[2][2][2] = 1;
+      grid[1][2][2] = 1;
+      grid[3][2][2] = 1;
+      grid[2][1][2] = 1;
+      grid[2][3][2] = 1;
+
+      expect(generationsGame.step(grid)[2][2][2]).toBe(1);
+    });
+
+    test('nextCellState follows the state cycle', () => {
+      expect(generationsGame.nextCellState(0, 4)).toBe(1);
+      expect(generationsGame.nextCellState(0, 3)).toBe(0);
+      expect(generationsGame.nextCellState(1, 4)).toBe(1);
+      expect(generationsGame.nextCellState(1, 3)).toBe(2);
+      expect(generationsGame.nextCellState(4, 4)).toBe(0);
+      expect(game.nextCellState(1, 3)).toBe(0);
+    });
+
+    test('counts cells by state and only live cells as living', () => {
+      const grid = generationsGame.createEmptyGrid();
+      grid[0][0][0] = 1;
+      grid[1][0][0] = 2;
+      grid[2][0][0] = 2;
+      grid[3][0][0] = 4;
+
+      expect(generationsGame.countLivingCells(grid)).toBe(1);
+      expect(generationsGame.countCellsByState(grid)).toEqual([121, 1, 2, 0, 1]);
+    });
+  });
+
+  describe('Neighborhoods', () => {
+    function gameWith(notation: string, periodicBoundaries = true): GameOfLife3D {
+      const { rule, neighborhood } = parseRuleNotation(notation);
+      return new GameOfLife3D({ ...defaultConfig, gridSize: 7, periodicBoundaries, rule, neighborhood });
+    }
+
+    function fullGrid(target: GameOfLife3D): Grid3D {
+      return target.createEmptyGrid().map(plane => plane.map(row => row.map(() => 1)));
+    }
+
+    test('counts up to the neighborhood size', () => {
+      expect(gameWith('B4/S4/N').countNeighbors(fullGrid(gameWith('B4/S4/N')), 3, 3, 3)).toBe(6);
+      expect(gameWith('B4/S4/E').countNeighbors(fullGrid(gameWith('B4/S4/E')), 3, 3, 3)).toBe(18);
+      expect(gameWith('B4/S4/N2').countNeighbors(fullGrid(gameWith('B4/S4/N2')), 3, 3, 3)).toBe(24);
+      expect(gameWith('B4/S4/M2').countNeighbors(fullGrid(gameWith('B4/S4/M2')), 3, 3, 3)).toBe(124);
+    });
+
+    test('von Neumann ignores edge and corner neighbors', () => {
+      const vonNeumann = gameWith('B1/S/N');
+      const grid = vonNeumann.createEmptyGrid();
+      grid[2][2][3] = 1; // edge neighbor of (3, 3, 3)
+      grid[2][2][2] = 1; // corner neighbor
+      grid[3][3][4] = 1; // face neighbor
+
+      expect(vonNeumann.countNeighbors(grid, 3, 3, 3)).toBe(1);
+      expect(vonNeumann.step(grid)[3][3][3]).toBe(1);
+    });
+
+    test('radius-2 neighborhoods wrap across periodic edges', () => {
+      const moore = gameWith('B1/S/M2');
+      const grid = moore.createEmptyGrid();
+      grid[5][5][5] = 1;
+
+      expect(moore.countNeighbors(grid, 0, 0, 0)).toBe(1);
+      expect(gameWith('B1/S/M2', false).countNeighbors(grid, 0, 0, 0)).toBe(0);
+    });
+
+    test('custom stencils count only their offsets', () => {
+      const custom = new GameOfLife3D({
+        ...defaultConfig,
+        rule: parseRule('B1/S'),
+        neighborhood: { type: 'custom', offsets: [[2, 0, 0], [0, -1, 1]] }
+      });
+      const grid = custom.createEmptyGrid();
+      grid[3][1][1] = 1;
+      grid[1][0][2] = 1;
+      grid[1][2][1] = 1; // not in the stencil
+
+      expect(custom.countNeighbors(grid, 1, 1, 1)).toBe(2);
+    });
+
+    test('rules beyond 26 neighbors apply to larger neighborhoods', () => {
+      const moore = gameWith('B40/S/M2');
+      const grid = moore.createEmptyGrid();
+      let placed = 0;
+      for (let x = 1; x <= 5 && placed < 40; x++) {
+        for (let y = 1; y <= 5 && placed < 40; y++) {
+          for (let z = 1; z <= 5 && placed < 40; z++) {
+            if (x === 3 && y === 3 && z === 3) continue;
+            grid[x][y][z] = 1;
+            placed++;
+          }
+        }
+      }
+
+      expect(moore.countNeighbors(grid, 3, 3, 3)).toBe(40);
+      expect(moore.step(grid)[3][3][3]).toBe(1);
+    });
+
+    test('updating the neighborhood changes the counts', () => {
+      const grid = fullGrid(game);
+      game.updateConfig({ neighborhood: { type: 'vonNeumann', radius: 1 } });
+
+      expect(game.countNeighbors(grid, 2, 2, 2)).toBe(6);
+      expect(game.getNeighborhood()).toEqual({ type: 'vonNeumann', radius: 1 });
+    });
+  });
+
+  describe('Boundary Modes', () => {
+    test('alive boundaries count outside cells as live', () => {
+      const closedBox = new GameOfLife3D({ ...defaultConfig, boundaries: 'alive' });
+      const grid = closedBox.createEmptyGrid();
+
+      expect(closedBox.countNeighbors(grid, 0, 0, 0)).toBe(19);
+      expect(closedBox.countNeighbors(grid, 0, 2, 2)).toBe(9);
+      expect(closedBox.countNeighbors(grid, 2, 2, 2)).toBe(0);
+    });
+
+    test('mirror boundaries reflect the edge cells', () => {
+      const mirrored = new GameOfLife3D({ ...defaultConfig, boundaries: 'mirror' });
+      const grid = mirrored.createEmptyGrid();
+      grid[0][2][2] = 1;
+
+      // The cell itself is reflected across the x = 0 face
+      expect(mirrored.countNeighbors(grid, 0, 2, 2)).toBe(1);
+      expect(mirrored.countNeighbors(grid, 0, 1, 2)).toBe(2);
+      expect(mirrored.countNeighbors(grid, 4, 2, 2)).toBe(0);
+    });
+
+    test('modes apply per axis', () => {
+      const slab = new GameOfLife3D({ ...defaultConfig, boundaries: ['periodic', 'periodic', 'dead'] });
+      const grid = slab.createEmptyGrid();
+      grid[4][4][4] = 1;
+
+      expect(slab.countNeighbors(grid, 0, 0, 4)).toBe(1);
+      expect(slab.countNeighbors(grid, 4, 4, 0)).toBe(0);
+    });
+
+    test('dead boundaries win over alive ones at corners', () => {
+      const mixed = new GameOfLife3D({ ...defaultConfig, boundaries: ['alive', 'dead', 'dead'] });
+      const grid = mixed.createEmptyGrid();
+
+      // Only the 9 cells beyond x = 0 and inside y and z are live
+      expect(mixed.countNeighbors(grid, 0, 2, 2)).toBe(9);
+      expect(mixed.countNeighbors(grid, 0, 0, 0)).toBe(4);
+    });
+
+    test('explicit boundaries take precedence over the periodic flag', () => {
+      const dead = new GameOfLife3D({ ...defaultConfig, periodicBoundaries: true, boundaries: 'dead' });
+      expect(dead.getBoundaries()).toEqual(['dead', 'dead', 'dead']);
+
+      dead.updateConfig({ periodicBoundaries: true });
+      expect(dead.getBoundaries()).toEqual(['periodic', 'periodic', 'periodic']);
+      expect(dead.getConfig().boundaries).toBeUndefined();
+    });
+  });
+
+  describe('Non-cubic Grids', () => {
+    let slab: GameOfLife3D;
+
+    beforeEach(() => {
+      slab = new GameOfLife3D({ ...defaultConfig, gridSize: [6, 4, 2] });
+    });
+
+    test('creates grids with independent dimensions', () => {
+      const grid = slab.createEmptyGrid();
+      expect(grid.length).toBe(6);
+      expect(grid[0].length).toBe(4);
+      expect(grid[0][0].length).toBe(2);
+      expect(slab.createFlatGrid().dimensions).toEqual([6, 4, 2]);
+      expect(slab.getDimensions()).toEqual([6, 4, 2]);
+    });
+
+    test('wraps each axis at its own length', () => {
+      const grid = slab.createEmptyGrid();
+      grid[5][3][1] = 1;
+
+      // z is only 2 deep, so the cells above and below are both z = 1
+      expect(slab.countNeighbors(grid, 0, 0, 0)).toBe(2);
+      expect(slab.countNeighbors(grid, 0, 1, 0)).toBe(0);
+    });
+
+    test('bounds checks use each axis length', () => {
+      const grid = slab.createEmptyGrid();
+      slab.setCell(grid, 5, 3, 1, 1);
+      slab.setCell(grid, 1, 1, 2, 1);
+
+      expect(slab.getCell(grid, 5, 3, 1)).toBe(1);
+      expect(slab.getCell(grid, 1, 1, 2)).toBe(0);
+      expect(slab.countLivingCells(grid)).toBe(1);
+      expect(slab.gridsEqual(grid, slab.copyGrid(grid))).toBe(true);
+    });
+
+    test('updating the grid size changes the dimensions', () => {
+      slab.updateConfig({ gridSize: 3 });
+      expect(slab.getDimensions()).toEqual([3, 3, 3]);
+    });
+  });
+
   describe('Utility Functions', () => {
     test('counts living cells correctly', () => {
       const grid = game.createEmptyGrid();
@@ -271,6 +563,18 @@ describe('GameOfLife3D', () => {
       expect(game.getCell(grid, -1, 0, 0)).toBe(0);
       expect(game.getCell(grid, 10, 0, 0)).toBe(0);
     });
+
+    test('finds objects with its own neighborhood and boundaries', () => {
+      const grid = new FlatGrid3D(5);
+      grid.set(0, 0, 0, 1);
+      grid.set(4, 1, 0, 1);
+
+      expect(game.findObjects(grid).count).toBe(1);
+      const faces = new GameOfLife3D({ ...defaultConfig, neighborhood: { type: 'vonNeumann', radius: 1 } });
+      expect(faces.findObjects(grid).count).toBe(2);
+      const walled = new GameOfLife3D({ ...defaultConfig, periodicBoundaries: false });
+      expect(walled.findObjects(grid).count).toBe(2);
+    });
   });
 
   describe('Configuration Management', () => {
@@ -284,6 +588,24 @@ describe('GameOfLife3D', () => {
       expect(config.gridSize).toBe(5); // Should keep original value
     });
 
+    test('numeric fields replace an explicit rule on update', () => {
+      const ruleGame = new GameOfLife3D({ gridSize: 5, rule: parseRule('B6/S1'), periodicBoundaries: true });
+      ruleGame.updateConfig({ birthRule: 3, survivalMin: 2, survivalMax: 3 });
+
+      expect(ruleGame.getConfig().rule).toBeUndefined();
+      expect(ruleGame.getRule()).toEqual(parseRule('B3/S2-3'));
+    });
+
+    test('updating the rule rebuilds the rule tables', () => {
+      game.updateConfig({ rule: parseRule('B1/S') });
+      const grid = game.createEmptyGrid();
+      grid[2][2][2] = 1;
+
+      const nextGrid = game.step(grid);
+      expect(nextGrid[2][2][2]).toBe(0);
+      expect(game.countLivingCells(nextGrid)).toBe(26);
+    });
+
     test('getConfig returns copy not reference', () => {
       const config1 = game.getConfig();
       const config2 = game.getConfig();
@@ -0,0 +1,158 @@
+/**
+ * Tests for the keyframe-and-diff generation history
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import { GenerationHistory, SparseGenerationHistory } from '../lib/generationHistory';
+import { SparseGrid3D } from '../lib/sparseLife3D';
+
+/** Runs a random 8³ grid for `count` generations, returning every one */
+function run(count: number): FlatGrid3D[] {
+  const engine = new GameOfLife3D({ gridSize: 8 });
+  const grids = [engine.createRandomFlatGrid(0.3, 11)];
+  for (let i = 1; i < count; i++) {
+    grids.push(engine.step(grids[i - 1]));
+  }
+  return grids;
+}
+
+function restored(history: GenerationHistory, generation: number): FlatGrid3D {
+  const grid = new FlatGrid3D(8);
+  history.restore(generation, grid);
+  return grid;
+}
+
+describe('GenerationHistory', () => {
+  test('restores every recorded generation', () => {
+    const grids = run(20);
+    const history = new GenerationHistory({ keyframeInterval: 4 });
+    grids.forEach((grid, generation) => history.record(generation, grid));
+
+    expect(history.range).toEqual({ first: 0, last: 19 });
+    grids.forEach((grid, generation) => {
+      expect(restored(history, generation).equals(grid)).toBe(true);
+    });
+  });
+
+  test('stores small changes as diffs', () => {
+    const grid = new FlatGrid3D(8);
+    const history = new GenerationHistory();
+    history.record(0, grid);
+    const keyframeBytes = history.byteLength;
+
+    grid.set(1, 2, 3, 1);
+    history.record(1, grid);
+    expect(history.byteLength - keyframeBytes).toBe(5);
+    expect(restored(history, 1).get(1, 2, 3)).toBe(1);
+    expect(restored(history, 0).get(1, 2, 3)).toBe(0);
+  });
+
+  test('drops the oldest generations a keyframe interval at a time', () => {
+    const grids = run(30);
+    const history = new GenerationHistory({ maxGenerations: 10, keyframeInterval: 4 });
+    grids.forEach((grid, generation) => history.record(generation, grid));
+
+    const range = history.range!;
+    expect(range.last).toBe(29);
+    expect(range.last - range.first + 1).toBeLessThanOrEqual(10);
+    expect(range.last - range.first + 1).toBeGreaterThan(10 - 4);
+    expect(restored(history, range.first).equals(grids[range.first])).toBe(true);
+    expect(() => restored(history, 0)).toThrow(`Generation 0 is not in the history (${range.first} to 29)`);
+  });
+
+  test('keeps within the byte budget', () => {
+    const history = new GenerationHistory({ maxBytes: 2048, keyframeInterval: 2 });
+    run(40).forEach((grid, generation) => history.record(generation, grid));
+
+    expect(history.byteLength).toBeLessThanOrEqual(2048);
+    expect(history.range!.last).toBe(39);
+  });
+
+  test('re-recording a generation forgets the later ones', () => {
+    const grids = run(10);
+    const history = new GenerationHistory({ keyframeInterval: 4 });
+    grids.forEach((grid, generation) => history.record(generation, grid));
+
+    const edited = grids[6].clone();
+    edited.set(0, 0, 0, edited.get(0, 0, 0) ? 0 : 1);
+    history.record(6, edited);
+
+    expect(history.range).toEqual({ first: 0, last: 6 });
+    expect(restored(history, 6).equals(edited)).toBe(true);
+    expect(restored(history, 5).equals(grids[5])).toBe(true);
+
+    // Continuing from the edit diffs against it
+    history.record(7, grids[7]);
+    expect(restored(history, 7).equals(grids[7])).toBe(true);
+  });
+
+  test('starts afresh when a generation does not follow on', () => {
+    const history = new GenerationHistory();
+    history.record(0, new FlatGrid3D(8));
+    history.record(5, new FlatGrid3D(8));
+    expect(history.range).toEqual({ first: 5, last: 5 });
+
+    history.record(6, new FlatGrid3D(4));
+    expect(history.range).toEqual({ first: 6, last: 6 });
+
+    history.clear();
+    expect(history.range).toBeNull();
+    expect(() => restored(history, 0)).toThrow(/history, which is empty/);
+  });
+
+  test('rejects invalid options', () => {
+    expect(() => new GenerationHistory({ keyframeInterval: 0 })).toThrow(/Invalid history option keyframeInterval=0/);
+    expect(() => new GenerationHistory({ maxGenerations: 1.5 })).toThrow(/maxGenerations=1.5/);
+  });
+});
+
+describe('SparseGenerationHistory', () => {
+  const worlds = run(12).map(grid => SparseGrid3D.fromFlatGrid(grid, [-4, 100, 0]));
+
+  function restoredWorld(history: SparseGenerationHistory, generation: number): SparseGrid3D {
+    const world = new SparseGrid3D();
+    history.restore(generation, world);
+    return world;
+  }
+
+  test('restores every recorded generation', () => {
+    const history = new SparseGenerationHistory();
+    worlds.forEach((world, generation) => history.record(generation, world));
+
+    expect(history.range).toEqual({ first: 0, last: 11 });
+    worlds.forEach((world, generation) => expect(restoredWorld(history, generation).equals(world)).toBe(true));
+    expect(() => history.restore(12, new SparseGrid3D())).toThrow('Generation 12 is not in the history (0 to 11)');
+  });
+
+  test('keeps copies, not the recorded worlds', () => {
+    const history = new SparseGenerationHistory();
+    const world = worlds[0].clone();
+    history.record(0, world);
+    world.clear();
+
+    expect(restoredWorld(history, 0).equals(worlds[0])).toBe(true);
+  });
+
+  test('drops the oldest generations one at a time', () => {
+    const history = new SparseGenerationHistory({ maxGenerations: 5 });
+    worlds.forEach((world, generation) => history.record(generation, world));
+    expect(history.range).toEqual({ first: 7, last: 11 });
+
+    const small = new SparseGenerationHistory({ maxBytes: worlds[11].byteLength });
+    worlds.forEach((world, generation) => small.record(generation, world));
+    expect(small.range).toEqual({ first: 11, last: 11 });
+  });
+
+  test('re-recording a generation forgets the later ones, and a gap starts afresh', () => {
+    const history = new SparseGenerationHistory();
+    worlds.slice(0, 6).forEach((world, generation) => history.record(generation, world));
+
+    history.record(3, worlds[9]);
+    expect(history.range).toEqual({ first: 0, last: 3 });
+    expect(restoredWorld(history, 3).equals(worlds[9])).toBe(true);
+
+    history.record(8, worlds[8]);
+    expect(history.range).toEqual({ first: 8, last: 8 });
+  });
+});
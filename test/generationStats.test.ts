@@ -0,0 +1,91 @@
+/**
+ * Tests for per-generation statistics
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import { STATS_CSV_HEADER, appendStats, measureGrid, statsToCsv, type GenerationStats } from '../lib/generationStats';
+import { parseRule } from '../lib/rules';
+
+function row(generation: number, population = 0): GenerationStats {
+  return { generation, population, births: 0, deaths: 0, survivors: 0, boundingBox: null, centerOfMass: null };
+}
+
+describe('generationStats', () => {
+  test('measures population, bounding box and center of mass', () => {
+    const grid = new FlatGrid3D(6, 5, 4);
+    grid.set(1, 2, 3, 1);
+    grid.set(4, 0, 1, 1);
+    grid.set(5, 4, 0, 2);
+
+    expect(measureGrid(grid)).toEqual({
+      population: 2,
+      births: 0,
+      deaths: 0,
+      survivors: 0,
+      boundingBox: { min: [1, 0, 1], max: [4, 2, 3] },
+      centerOfMass: [2.5, 1, 2]
+    });
+    expect(measureGrid(new FlatGrid3D(3))).toMatchObject({ population: 0, boundingBox: null, centerOfMass: null });
+  });
+
+  test('steps report births, deaths and survivors', () => {
+    const game = new GameOfLife3D({ gridSize: 10, rule: parseRule('B4/S4-5') });
+    const grid = game.createRandomFlatGrid(0.3, 21);
+    const next = game.createFlatGrid();
+    const stats = game.stepInto(grid, next);
+
+    let births = 0;
+    let deaths = 0;
+    let survivors = 0;
+    for (let i = 0; i < grid.cellCount; i++) {
+      if (grid.data[i] !== 1 && next.data[i] === 1) births++;
+      if (grid.data[i] === 1 && next.data[i] !== 1) deaths++;
+      if (grid.data[i] === 1 && next.data[i] === 1) survivors++;
+    }
+
+    expect(stats).toMatchObject({ births, deaths, survivors, population: births + survivors });
+    expect(stats.population).toBe(game.countLivingCells(next));
+    // The positions match a fresh measurement of the new generation
+    expect(stats.boundingBox).toEqual(measureGrid(next).boundingBox);
+    expect(stats.centerOfMass).toEqual(measureGrid(next).centerOfMass);
+  });
+
+  test('dying cells are neither population nor births', () => {
+    const game = new GameOfLife3D({ gridSize: 5, rule: parseRule('B/S/C3') });
+    const grid = game.createFlatGrid();
+    grid.set(2, 2, 2, 1);
+
+    const next = game.createFlatGrid();
+    expect(game.stepInto(grid, next)).toMatchObject({ population: 0, births: 0, deaths: 1, survivors: 0 });
+    expect(game.stepInto(next, grid)).toMatchObject({ population: 0, births: 0, deaths: 0 });
+  });
+
+  test('appending replaces rows from the first new generation on', () => {
+    const series = [row(0), row(1), row(2), row(3)];
+    expect(appendStats(series, [row(4)]).map(r => r.generation)).toEqual([0, 1, 2, 3, 4]);
+    expect(appendStats(series, [row(2, 7), row(3)]).map(r => r.population)).toEqual([0, 0, 7, 0]);
+    expect(appendStats(series, [row(0, 5)])).toEqual([row(0, 5)]);
+    expect(appendStats(series, [row(4), row(5)], 3).map(r => r.generation)).toEqual([3, 4, 5]);
+    expect(appendStats(series, [])).toBe(series);
+  });
+
+  test('exports CSV with a header and one row per generation', () => {
+    const filled: GenerationStats = {
+      generation: 1,
+      population: 3,
+      births: 2,
+      deaths: 1,
+      survivors: 1,
+      boundingBox: { min: [0, 1, 2], max: [3, 4, 5] },
+      centerOfMass: [1, 2.5, 10 / 3]
+    };
+
+    expect(statsToCsv([row(0), filled])).toBe([
+      STATS_CSV_HEADER,
+      '0,0,0,0,0,,,,,,,,,',
+      '1,3,2,1,1,0,1,2,3,4,5,1,2.5,3.333',
+      ''
+    ].join('\n'));
+  });
+});
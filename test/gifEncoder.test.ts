@@ -0,0 +1,165 @@
+/**
+ * Tests for the GIF encoder
+ */
+
+import { GIF_PALETTE, GifEncoder, paletteIndex } from '../lib/gifEncoder';
+
+interface DecodedFrame {
+  delay: number;
+  width: number;
+  height: number;
+  indices: number[];
+}
+
+/** Reads back the frames of a GIF written by the encoder */
+function decodeGif(bytes: Uint8Array): { width: number; height: number; loop: number; frames: DecodedFrame[] } {
+  const text = (start: number, length: number) => String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+  const short = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+  expect(text(0, 6)).toBe('GIF89a');
+
+  const width = short(6);
+  const height = short(8);
+  // Global color table of 256 entries
+  expect(bytes[10]).toBe(0xf7);
+  let at = 13 + 256 * 3;
+
+  let loop = -1;
+  let delay = 0;
+  const frames: DecodedFrame[] = [];
+  while (bytes[at] !== 0x3b) {
+    if (bytes[at] === 0x21 && bytes[at + 1] === 0xff) {
+      expect(text(at + 3, 11)).toBe('NETSCAPE2.0');
+      loop = short(at + 16);
+      at += 19;
+    } else if (bytes[at] === 0x21 && bytes[at + 1] === 0xf9) {
+      delay = short(at + 4);
+      at += 8;
+    } else if (bytes[at] === 0x2c) {
+      const frameWidth = short(at + 5);
+      const frameHeight = short(at + 7);
+      at += 10;
+      const minCodeSize = bytes[at++];
+      const data: number[] = [];
+      while (bytes[at] !== 0) {
+        const length = bytes[at];
+        data.push(...Array.from(bytes.subarray(at + 1, at + 1 + length)));
+        at += length + 1;
+      }
+      at++;
+      frames.push({ delay, width: frameWidth, height: frameHeight, indices: decompress(data, minCodeSize) });
+    } else {
+      throw new Error(`Unexpected block 0x${bytes[at].toString(16)} at ${at}`);
+    }
+  }
+  return { width, height, loop, frames };
+}
+
+/** A plain LZW decoder, as GIF readers implement it */
+function decompress(data: number[], minCodeSize: number): number[] {
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  let previous: number[] | null = null;
+  const output: number[] = [];
+  let bit = 0;
+
+  const reset = () => {
+    table = [];
+    for (let i = 0; i < clear; i++) table.push([i]);
+    table.push([], []);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  for (;;) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+    if (code === clear) {
+      reset();
+      continue;
+    }
+    if (code === end) break;
+
+    let entry: number[];
+    if (code < table.length) {
+      entry = table[code];
+    } else {
+      expect(code).toBe(table.length);
+      entry = previous!.concat(previous![0]);
+    }
+    output.push(...entry);
+    if (previous && table.length < 4096) {
+      table.push(previous.concat(entry[0]));
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  return output;
+}
+
+/** RGBA pixels that are all palette colors, so they survive quantizing unchanged */
+function paletteFrame(pixels: number, pick: (i: number) => number): { rgba: Uint8Array; indices: number[] } {
+  const rgba = new Uint8Array(pixels * 4);
+  const indices: number[] = [];
+  for (let i = 0; i < pixels; i++) {
+    const index = pick(i);
+    rgba.set(GIF_PALETTE.subarray(index * 3, index * 3 + 3), i * 4);
+    rgba[i * 4 + 3] = 255;
+    indices.push(index);
+  }
+  return { rgba, indices };
+}
+
+describe('gifEncoder', () => {
+  test('maps colors to the nearest palette entry', () => {
+    expect(paletteIndex(0, 0, 0)).toBe(0);
+    expect(paletteIndex(255, 255, 255)).toBe(251);
+    const index = paletteIndex(250, 10, 120);
+    expect(Array.from(GIF_PALETTE.subarray(index * 3, index * 3 + 3))).toEqual([255, 0, 102]);
+  });
+
+  test('writes frames that decode back to the same pixels', () => {
+    const encoder = new GifEncoder(7, 5, { loop: 3 });
+    const noise = paletteFrame(35, i => (i * 97 + 13) % 252);
+    const flat = paletteFrame(35, () => 40);
+    encoder.addFrame(noise.rgba, 4);
+    encoder.addFrame(flat.rgba, 7);
+
+    const gif = decodeGif(encoder.finish());
+    expect(gif).toMatchObject({ width: 7, height: 5, loop: 3 });
+    expect(gif.frames).toEqual([
+      { delay: 4, width: 7, height: 5, indices: noise.indices },
+      { delay: 7, width: 7, height: 5, indices: flat.indices }
+    ]);
+  });
+
+  test('stays decodable once the code table fills and is cleared', () => {
+    // Enough varied pixels to pass 4096 codes
+    const size = 160;
+    let state = 1;
+    const frame = paletteFrame(size * size, () => {
+      state = (state * 48271) % 2147483647;
+      return state % 252;
+    });
+    const encoder = new GifEncoder(size, size);
+    encoder.addFrame(frame.rgba, 10);
+
+    expect(decodeGif(encoder.finish()).frames[0].indices).toEqual(frame.indices);
+  });
+
+  test('rejects frames of the wrong size and frames after finishing', () => {
+    const encoder = new GifEncoder(2, 2);
+    expect(() => encoder.addFrame(new Uint8Array(12), 5)).toThrow('Frame has 3 pixels but a 2×2 GIF needs 4');
+
+    encoder.addFrame(new Uint8Array(16), 5);
+    expect(encoder.frameCount).toBe(1);
+    const bytes = encoder.finish();
+    expect(bytes[bytes.length - 1]).toBe(0x3b);
+    expect(() => encoder.addFrame(new Uint8Array(16), 5)).toThrow('Cannot add frames to a finished GIF');
+    expect(() => new GifEncoder(0, 4)).toThrow('Invalid GIF size 0×4');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for keyboard shortcuts and their saved bindings
+ */
+
+import {
+  COMMAND_IDS,
+  DEFAULT_KEY_BINDINGS,
+  KEY_BINDINGS_STORAGE_KEY,
+  commandForCombo,
+  describeCombo,
+  keyCombo,
+  loadKeyBindings,
+  parseKeyBindings,
+  rebindKey,
+  saveKeyBindings,
+  type KeyPress
+} from '../lib/keyBindings';
+
+function press(key: string, modifiers: Partial<KeyPress> = {}): KeyPress {
+  return { key, ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...modifiers };
+}
+
+class MemoryStorage {
+  items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+describe('keyBindings', () => {
+  test('every command has its own default key', () => {
+    const combos = COMMAND_IDS.map(command => DEFAULT_KEY_BINDINGS[command]);
+    expect(combos.every(combo => combo !== null)).toBe(true);
+    expect(new Set(combos).size).toBe(combos.length);
+  });
+
+  test('names key presses the same way whatever the case or platform', () => {
+    expect(keyCombo(press('r'))).toBe('R');
+    expect(keyCombo(press('R', { shiftKey: true }))).toBe('Shift+R');
+    expect(keyCombo(press(' '))).toBe('Space');
+    expect(keyCombo(press('k', { ctrlKey: true }))).toBe('Ctrl+K');
+    expect(keyCombo(press('k', { metaKey: true }))).toBe('Ctrl+K');
+    expect(keyCombo(press('ArrowLeft', { shiftKey: true, altKey: true }))).toBe('Alt+Shift+ArrowLeft');
+    // Shift is part of the symbol
+    expect(keyCombo(press('?', { shiftKey: true }))).toBe('?');
+    expect(keyCombo(press('Shift', { shiftKey: true }))).toBeNull();
+  });
+
+  test('finds the command of a combo and describes combos for display', () => {
+    expect(commandForCombo(DEFAULT_KEY_BINDINGS, 'Space')).toBe('togglePlay');
+    expect(commandForCombo(DEFAULT_KEY_BINDINGS, 'Shift+Q')).toBeNull();
+    expect(describeCombo('Shift+ArrowLeft')).toBe('Shift+←');
+    expect(describeCombo('Ctrl++')).toBe('Ctrl++');
+    expect(describeCombo(null)).toBe('–');
+  });
+
+  test('a key moved to another command leaves the command that had it', () => {
+    const bindings = rebindKey(DEFAULT_KEY_BINDINGS, 'clear', 'R');
+    expect(bindings).toMatchObject({ clear: 'R', randomize: null });
+    expect(commandForCombo(bindings, 'C')).toBeNull();
+    expect(DEFAULT_KEY_BINDINGS.randomize).toBe('R');
+    expect(rebindKey(bindings, 'clear', null).clear).toBeNull();
+  });
+
+  test('saves only what changed, and loads it back over the defaults', () => {
+    const storage = new MemoryStorage();
+    const bindings = rebindKey(rebindKey(DEFAULT_KEY_BINDINGS, 'clear', 'R'), 'help', 'H');
+    expect(saveKeyBindings(storage, bindings)).toBe(true);
+    expect(JSON.parse(storage.getItem(KEY_BINDINGS_STORAGE_KEY)!)).toEqual({ randomize: null, clear: 'R', help: 'H' });
+    expect(loadKeyBindings(storage)).toEqual(bindings);
+
+    saveKeyBindings(storage, DEFAULT_KEY_BINDINGS);
+    expect(storage.items.size).toBe(0);
+    expect(loadKeyBindings(storage)).toEqual(DEFAULT_KEY_BINDINGS);
+    expect(loadKeyBindings(null)).toEqual(DEFAULT_KEY_BINDINGS);
+  });
+
+  test('ignores saved data it cannot use', () => {
+    expect(parseKeyBindings('not json')).toEqual(DEFAULT_KEY_BINDINGS);
+    expect(parseKeyBindings('[1, 2]')).toEqual(DEFAULT_KEY_BINDINGS);
+    expect(parseKeyBindings('{"launch": "L", "step": 5, "clear": ""}')).toEqual(DEFAULT_KEY_BINDINGS);
+    // A saved key wins over a default one
+    expect(parseKeyBindings('{"help": "E"}')).toMatchObject({ help: 'E', editMode: null });
+  });
+
+  test('reports storage that refuses to save', () => {
+    const full = { setItem: () => { throw new Error('quota exceeded'); }, removeItem: () => undefined };
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(saveKeyBindings(full, rebindKey(DEFAULT_KEY_BINDINGS, 'help', 'H'))).toBe(false);
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/quota exceeded/));
+    warn.mockRestore();
+  });
+});
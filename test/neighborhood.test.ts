@@ -0,0 +1,89 @@
+/**
+ * Tests for neighborhood definitions
+ */
+
+import {
+  createCustomNeighborhood,
+  describeNeighborhood,
+  formatOffsets,
+  neighborhoodCode,
+  neighborhoodOffsets,
+  neighborhoodSize,
+  parseNeighborhoodCode,
+  parseOffsets,
+  type Neighborhood
+} from '../lib/neighborhood';
+
+describe('neighborhood', () => {
+  describe('Sizes', () => {
+    test.each<[Neighborhood, number]>([
+      [{ type: 'moore', radius: 1 }, 26],
+      [{ type: 'moore', radius: 2 }, 124],
+      [{ type: 'vonNeumann', radius: 1 }, 6],
+      [{ type: 'vonNeumann', radius: 2 }, 24],
+      [{ type: 'faceEdge' }, 18]
+    ])('%j has %i neighbors', (neighborhood, size) => {
+      expect(neighborhoodSize(neighborhood)).toBe(size);
+      expect(neighborhoodOffsets(neighborhood).length).toBe(size);
+    });
+
+    test('never includes the cell itself', () => {
+      const offsets = neighborhoodOffsets({ type: 'moore', radius: 2 });
+      expect(offsets.some(([dx, dy, dz]) => dx === 0 && dy === 0 && dz === 0)).toBe(false);
+    });
+
+    test('faces and edges leave out the corners', () => {
+      const offsets = neighborhoodOffsets({ type: 'faceEdge' });
+      expect(offsets.every(offset => offset.filter(value => value !== 0).length <= 2)).toBe(true);
+    });
+
+    test('rejects radii out of range', () => {
+      expect(() => neighborhoodSize({ type: 'moore', radius: 0 })).toThrow(/Invalid neighborhood radius 0/);
+      expect(() => neighborhoodSize({ type: 'vonNeumann', radius: 6 })).toThrow(/expected 1 to 5/);
+    });
+  });
+
+  describe('Custom Stencils', () => {
+    test('parses and formats offsets', () => {
+      const offsets = parseOffsets('1,0,0; -1 0 0\n(0, 2, -1)');
+      expect(offsets).toEqual([[1, 0, 0], [-1, 0, 0], [0, 2, -1]]);
+      expect(formatOffsets(offsets)).toBe('1,0,0; -1,0,0; 0,2,-1');
+    });
+
+    test('rejects malformed offsets', () => {
+      expect(() => parseOffsets('1,0')).toThrow(/Invalid offset "1,0"/);
+      expect(() => parseOffsets('1,x,0')).toThrow(/three whole numbers/);
+    });
+
+    test('validates stencils', () => {
+      expect(createCustomNeighborhood([[1, 0, 0]])).toEqual({ type: 'custom', offsets: [[1, 0, 0]] });
+      expect(() => createCustomNeighborhood([])).toThrow(/at least one offset/);
+      expect(() => createCustomNeighborhood([[0, 0, 0]])).toThrow(/cell itself/);
+      expect(() => createCustomNeighborhood([[1, 0, 0], [1, 0, 0]])).toThrow(/Duplicate offset \(1,0,0\)/);
+      expect(() => createCustomNeighborhood([[0.5, 0, 0]])).toThrow(/three whole numbers/);
+    });
+  });
+
+  describe('Codes', () => {
+    test('round-trips codes', () => {
+      ['M', 'M3', 'N', 'N2', 'E'].forEach(code => {
+        expect(neighborhoodCode(parseNeighborhoodCode(code))).toBe(code);
+      });
+      expect(parseNeighborhoodCode('n1')).toEqual({ type: 'vonNeumann', radius: 1 });
+    });
+
+    test('custom stencils have no code', () => {
+      expect(neighborhoodCode({ type: 'custom', offsets: [[1, 0, 0]] })).toBeNull();
+    });
+
+    test('rejects unknown codes', () => {
+      expect(() => parseNeighborhoodCode('Q')).toThrow(/Unknown neighborhood "Q"/);
+      expect(() => parseNeighborhoodCode('M9')).toThrow(/Invalid neighborhood radius 9/);
+    });
+
+    test('describes neighborhoods', () => {
+      expect(describeNeighborhood({ type: 'vonNeumann', radius: 2 })).toBe('von Neumann r2 (24)');
+      expect(describeNeighborhood({ type: 'moore', radius: 1 })).toBe('Moore (26)');
+    });
+  });
+});
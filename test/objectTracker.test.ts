@@ -0,0 +1,90 @@
+/**
+ * Tests for following objects from generation to generation
+ */
+
+import { FlatGrid3D, type Vector3Tuple } from '../lib/flatGrid';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import { MOVING_SPEED, ObjectTracker, VELOCITY_WINDOW } from '../lib/objectTracker';
+import { findLibraryPattern, placePattern } from '../lib/patternLibrary';
+import { parseRule } from '../lib/rules';
+
+function gridWith(cells: Vector3Tuple[], size = 8): FlatGrid3D {
+  const grid = new FlatGrid3D(size);
+  cells.forEach(([x, y, z]) => grid.set(x, y, z, 1));
+  return grid;
+}
+
+describe('ObjectTracker', () => {
+  test('a glider keeps its id and is found moving at its speed, across the wrap', () => {
+    const glider = findLibraryPattern('bays-glider');
+    const engine = new GameOfLife3D({ gridSize: 10, rule: parseRule(glider.rule), periodicBoundaries: true });
+    const buffer = engine.createDoubleBuffer(gridWith(placePattern(glider, [10, 10, 10]), 10));
+    const tracker = engine.createObjectTracker();
+
+    let frame = tracker.reset(buffer.front, 0);
+    const [first] = frame.objects;
+    expect(first).toMatchObject({ id: 1, size: 10, moving: false, since: 0 });
+
+    // Long enough to run off the far side and come back in
+    for (let generation = 1; generation <= 40; generation++) {
+      engine.advance(buffer);
+      frame = tracker.update(buffer.front, generation);
+      expect(frame.objects.length).toBe(1);
+      expect(frame.events).toEqual([]);
+    }
+
+    const [object] = frame.objects;
+    expect(object.id).toBe(first.id);
+    expect(object.since).toBe(0);
+    expect(object.moving).toBe(true);
+    // One cell along x and z every 4 generations
+    object.velocity.forEach((speed, axis) => expect(speed).toBeCloseTo(glider.displacement[axis] / glider.period, 5));
+    expect(Array.from(frame.ids).filter(id => id !== 0).every(id => id === first.id)).toBe(true);
+  });
+
+  test('an object standing still is not moving', () => {
+    const cube = findLibraryPattern('5766-cube');
+    const engine = new GameOfLife3D({ gridSize: 8, rule: parseRule(cube.rule) });
+    const buffer = engine.createDoubleBuffer(gridWith(placePattern(cube, [8, 8, 8])));
+    const tracker = engine.createObjectTracker();
+
+    let frame = tracker.reset(buffer.front, 0);
+    for (let generation = 1; generation <= VELOCITY_WINDOW; generation++) {
+      engine.advance(buffer);
+      frame = tracker.update(buffer.front, generation);
+    }
+    expect(frame.objects[0]).toMatchObject({ id: 1, velocity: [0, 0, 0], moving: false });
+    expect(MOVING_SPEED).toBeGreaterThan(0);
+  });
+
+  test('records merges and splits, with the largest object carrying on the largest id', () => {
+    const tracker = new ObjectTracker();
+    const apart = gridWith([[1, 1, 1], [1, 2, 1], [1, 3, 1], [4, 1, 1]]);
+    const joined = gridWith([[1, 1, 1], [1, 2, 1], [1, 3, 1], [2, 1, 1], [3, 1, 1], [4, 1, 1]]);
+
+    const before = tracker.reset(apart, 0);
+    expect(before.objects.map(object => object.id)).toEqual([1, 2]);
+
+    const merged = tracker.update(joined, 1);
+    expect(merged.objects).toHaveLength(1);
+    expect(merged.objects[0]).toMatchObject({ id: 1, size: 6, since: 1 });
+    expect(merged.events).toEqual([{ generation: 1, kind: 'merge', from: [1, 2], to: [1] }]);
+
+    const split = tracker.update(apart, 2);
+    expect(split.events).toEqual([{ generation: 2, kind: 'split', from: [1], to: [1, 3] }]);
+    expect(split.ids[apart.index(1, 2, 1)]).toBe(1);
+    expect(split.ids[apart.index(4, 1, 1)]).toBe(3);
+    expect(split.ids[apart.index(0, 0, 0)]).toBe(0);
+  });
+
+  test('objects that appear out of nothing get new ids, without an event', () => {
+    const tracker = new ObjectTracker();
+    tracker.reset(gridWith([[1, 1, 1]]), 0);
+
+    const frame = tracker.update(gridWith([[1, 1, 1], [5, 5, 5]]), 1);
+    expect(frame.objects.map(object => object.id)).toEqual([1, 2]);
+    expect(frame.objects[1].since).toBe(1);
+    expect(frame.events).toEqual([]);
+    expect(() => tracker.update(new FlatGrid3D(4), 2)).toThrow(/one size/);
+  });
+});
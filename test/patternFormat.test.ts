@@ -0,0 +1,112 @@
+/**
+ * Tests for the 3D pattern file format
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { GameOfLife3D, type GameOfLife3DConfig } from '../lib/gameOfLife3D';
+import { MAX_PATTERN_LENGTH, createPatternFile, deserializePattern, serializePattern, type PatternFile } from '../lib/patternFormat';
+import { parseRule } from '../lib/rules';
+
+const config: GameOfLife3DConfig = {
+  gridSize: [6, 5, 4],
+  rule: parseRule('B4/S4-5/C4'),
+  boundaries: ['periodic', 'periodic', 'dead']
+};
+
+function validFile(): PatternFile {
+  return {
+    format: '3d-life-pattern',
+    version: 1,
+    dimensions: [4, 4, 4],
+    rule: 'B4/S4-5',
+    boundaries: 'periodic',
+    cells: [[1, 2, 3]]
+  };
+}
+
+function parse(changes: Record<string, unknown>) {
+  return deserializePattern(JSON.stringify({ ...validFile(), ...changes }));
+}
+
+describe('patternFormat', () => {
+  test('round-trips a grid and its config', () => {
+    const grid = new FlatGrid3D(6, 5, 4);
+    grid.set(0, 0, 0, 1);
+    grid.set(5, 4, 3, 1);
+    grid.set(2, 3, 1, 3);
+
+    const pattern = deserializePattern(serializePattern(grid, config, 'Test'));
+
+    expect(pattern.name).toBe('Test');
+    expect(pattern.grid.equals(grid)).toBe(true);
+    expect(pattern.config.gridSize).toEqual([6, 5, 4]);
+    expect(pattern.config.rule).toEqual(config.rule);
+    expect(pattern.config.boundaries).toEqual(['periodic', 'periodic', 'dead']);
+    expect(pattern.config.neighborhood).toEqual({ type: 'moore', radius: 1 });
+  });
+
+  test('lists live cells as triples and dying cells with their state', () => {
+    const grid = new FlatGrid3D(6, 5, 4);
+    grid.set(1, 2, 3, 1);
+    grid.set(4, 0, 0, 2);
+
+    const file = createPatternFile(grid, config);
+    expect(file.cells).toEqual([[1, 2, 3], [4, 0, 0, 2]]);
+    expect(file.rule).toBe('B4/S4-5/C4');
+    expect(file.name).toBeUndefined();
+  });
+
+  test('writes neighborhoods as rule codes or custom offsets', () => {
+    const grid = new FlatGrid3D(3);
+    const vonNeumann = createPatternFile(grid, { ...config, neighborhood: { type: 'vonNeumann', radius: 2 } });
+    expect(vonNeumann.rule).toBe('B4/S4-5/C4/N2');
+    expect(vonNeumann.neighborhood).toBeUndefined();
+
+    const customConfig: GameOfLife3DConfig = { ...config, neighborhood: { type: 'custom', offsets: [[1, 0, 0], [0, 0, -2]] } };
+    const custom = createPatternFile(grid, customConfig);
+    expect(custom.rule).toBe('B4/S4-5/C4');
+    expect(deserializePattern(JSON.stringify(custom)).config.neighborhood).toEqual(customConfig.neighborhood);
+  });
+
+  test('writes uniform boundaries as a single mode', () => {
+    expect(createPatternFile(new FlatGrid3D(3), { gridSize: 3, periodicBoundaries: false }).boundaries).toBe('dead');
+  });
+
+  test('loaded patterns run in the engine', () => {
+    // A 2x2x2 block is a still life when cells survive on 7 neighbors
+    const block = [[1, 1, 1], [1, 1, 2], [1, 2, 1], [1, 2, 2], [2, 1, 1], [2, 1, 2], [2, 2, 1], [2, 2, 2]];
+    const pattern = parse({ cells: block, rule: 'B/S7' });
+    const game = new GameOfLife3D(pattern.config);
+
+    expect(game.step(pattern.grid).equals(pattern.grid)).toBe(true);
+  });
+
+  test('rejects malformed documents', () => {
+    expect(() => deserializePattern('{')).toThrow(/Invalid pattern file: not valid JSON/);
+    expect(() => deserializePattern('[]')).toThrow(/expected a JSON object/);
+    expect(() => parse({ format: 'rle' })).toThrow(/"format" must be "3d-life-pattern"/);
+    expect(() => parse({ version: 2 })).toThrow(/version 2 is newer than the supported version 1/);
+    expect(() => parse({ version: '1' })).toThrow(/"version" must be a positive whole number/);
+    expect(() => parse({ name: 5 })).toThrow(/"name" must be a string/);
+  });
+
+  test('rejects invalid settings', () => {
+    expect(() => parse({ dimensions: [4, 4] })).toThrow(/"dimensions" must be \[width, height, depth\]/);
+    expect(() => parse({ dimensions: [4, 0, 4] })).toThrow(/"dimensions": Invalid grid dimensions/);
+    expect(() => parse({ dimensions: [4, MAX_PATTERN_LENGTH + 1, 4] })).toThrow(/"dimensions": sides can be at most 100, not 4×101×4/);
+    expect(() => parse({ dimensions: [700, 700, 700] })).toThrow(/at most 100/);
+    expect(() => parse({ rule: 'B4' })).toThrow(/"rule": Invalid rule "B4"/);
+    expect(() => parse({ boundaries: 'open' })).toThrow(/"boundaries": Unknown boundary mode "open"/);
+    expect(() => parse({ rule: 'B4/S4/N', neighborhood: [[1, 0, 0]] })).toThrow(/cannot be combined/);
+    expect(() => parse({ neighborhood: [[0, 0, 0]] })).toThrow(/"neighborhood": .*cell itself/);
+  });
+
+  test('rejects invalid cells', () => {
+    expect(() => parse({ cells: {} })).toThrow(/"cells" must be a list/);
+    expect(() => parse({ cells: [[1, 2]] })).toThrow(/cell 0 \(\[1,2\]\) must be \[x, y, z\]/);
+    expect(() => parse({ cells: [[1, 2, 0.5]] })).toThrow(/whole numbers/);
+    expect(() => parse({ cells: [[0, 0, 0], [4, 0, 0]] })).toThrow(/cell 1 \(4, 0, 0\) lies outside the 4³ grid/);
+    expect(() => parse({ cells: [[0, 0, 0, 2]] })).toThrow(/has state 2, but rule B4\/S4-5 has states 1 to 1/);
+    expect(() => parse({ cells: [[0, 0, 0], [0, 0, 0]] })).toThrow(/listed more than once/);
+  });
+});
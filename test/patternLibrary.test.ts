@@ -0,0 +1,131 @@
+/**
+ * Tests for the pattern library
+ */
+
+import { FlatGrid3D, type GridDimensions, type Vector3Tuple } from '../lib/flatGrid';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import {
+  PATTERN_LIBRARY,
+  createPatternGrid,
+  findLibraryPattern,
+  patternExtent,
+  patternKind,
+  placePattern,
+  type LibraryPattern
+} from '../lib/patternLibrary';
+import { RULE_PRESETS, parseRule } from '../lib/rules';
+
+/** Live cells as sorted "x,y,z" keys, shifted by an offset */
+function liveCells(grid: FlatGrid3D, offset: Vector3Tuple = [0, 0, 0]): string[] {
+  const cells: string[] = [];
+  for (let x = 0; x < grid.width; x++) {
+    for (let y = 0; y < grid.height; y++) {
+      for (let z = 0; z < grid.depth; z++) {
+        if (grid.get(x, y, z) === 1) cells.push([x + offset[0], y + offset[1], z + offset[2]].join());
+      }
+    }
+  }
+  return cells.sort();
+}
+
+/**
+ * Runs a pattern for one period in an empty grid with dead faces, with
+ * room on every side for it to move
+ */
+function runPattern(pattern: LibraryPattern) {
+  const margin = 4;
+  const size = patternExtent(pattern).map(length => length + 2 * margin) as GridDimensions;
+  const engine = new GameOfLife3D({ gridSize: size, rule: parseRule(pattern.rule), boundaries: 'dead' });
+  const start = createPatternGrid(pattern, size);
+
+  const generations: FlatGrid3D[] = [start];
+  for (let i = 0; i < pattern.period; i++) {
+    generations.push(engine.step(generations[i]));
+  }
+  return generations;
+}
+
+describe('patternLibrary', () => {
+  test('ids are unique and every rule is a preset', () => {
+    const ids = PATTERN_LIBRARY.map(pattern => pattern.id);
+    expect(new Set(ids).size).toBe(ids.length);
+
+    const presets = RULE_PRESETS.map(preset => preset.notation);
+    PATTERN_LIBRARY.forEach(pattern => expect(presets).toContain(pattern.rule));
+  });
+
+  test('cells start at the corner and are listed once', () => {
+    PATTERN_LIBRARY.forEach(pattern => {
+      const keys = pattern.cells.map(cell => cell.join());
+      expect(new Set(keys).size).toBe(keys.length);
+      for (let axis = 0; axis < 3; axis++) {
+        expect(Math.min(...pattern.cells.map(cell => cell[axis]))).toBe(0);
+      }
+    });
+  });
+
+  describe.each(PATTERN_LIBRARY.map(pattern => [pattern.id, pattern] as const))('%s', (_id, pattern) => {
+    test('returns after its period, moved by its displacement', () => {
+      const generations = runPattern(pattern);
+      const start = generations[0];
+      const end = generations[pattern.period];
+
+      expect(liveCells(end)).toEqual(liveCells(start, pattern.displacement));
+    });
+
+    test('has no shorter period', () => {
+      const generations = runPattern(pattern);
+      const start = liveCells(generations[0]);
+
+      for (let i = 1; i < pattern.period; i++) {
+        const cells = liveCells(generations[i]);
+        // The same shape anywhere would mean a shorter period
+        expect(cells.length === start.length && normalize(cells) === normalize(start)).toBe(false);
+      }
+    });
+  });
+
+  test('kinds follow from period and displacement', () => {
+    expect(patternKind(findLibraryPattern('bays-glider'))).toBe('glider');
+    expect(patternKind(findLibraryPattern('5766-cube'))).toBe('stillLife');
+    expect(patternKind(findLibraryPattern('4555-pulsar'))).toBe('oscillator');
+    expect(() => findLibraryPattern('nope')).toThrow('Unknown library pattern "nope"');
+  });
+
+  describe('placePattern', () => {
+    const glider = findLibraryPattern('bays-glider');
+
+    test('centers the pattern in the grid by default', () => {
+      const cells = placePattern(glider, [10, 10, 10]);
+      // The 3×2×3 glider starts one cell before the middle on every axis
+      expect(cells).toContainEqual([4, 4, 5]);
+      expect(Math.min(...cells.map(cell => cell[0]))).toBe(4);
+      expect(Math.min(...cells.map(cell => cell[1]))).toBe(4);
+    });
+
+    test('centers the pattern on a given cell', () => {
+      const cells = placePattern(glider, [10, 10, 10], [2, 3, 7]);
+      expect(Math.min(...cells.map(cell => cell[0]))).toBe(1);
+      expect(Math.min(...cells.map(cell => cell[1]))).toBe(2);
+      expect(Math.min(...cells.map(cell => cell[2]))).toBe(6);
+    });
+
+    test('shifts the pattern inside the grid near its faces', () => {
+      const cells = placePattern(glider, [10, 10, 10], [0, 9, 9]);
+      expect(Math.min(...cells.map(cell => cell[0]))).toBe(0);
+      expect(Math.max(...cells.map(cell => cell[1]))).toBe(9);
+      expect(Math.max(...cells.map(cell => cell[2]))).toBe(9);
+    });
+
+    test('rejects grids that are too small', () => {
+      expect(() => placePattern(glider, [3, 3, 2])).toThrow('Bays glider is 3×2×3 and does not fit in a 3×3×2 grid');
+    });
+  });
+});
+
+/** Cell keys moved so that the smallest coordinates are 0 */
+function normalize(keys: string[]): string {
+  const cells = keys.map(key => key.split(',').map(Number));
+  const min = [0, 1, 2].map(axis => Math.min(...cells.map(cell => cell[axis])));
+  return cells.map(cell => cell.map((value, axis) => value - min[axis]).join()).sort().join(';');
+}
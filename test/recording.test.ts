@@ -0,0 +1,129 @@
+/**
+ * Tests for recording sessions and their frame timing
+ */
+
+import {
+  DEFAULT_RECORDING_OPTIONS,
+  RecordingSession,
+  gifFrameDelay,
+  orbitCameraPosition,
+  recordingSize,
+  validateRecordingOptions,
+  type FrameRecorder,
+  type RecordingOptions
+} from '../lib/recording';
+
+/** A recorder that notes the frames it is given */
+function fakeRecorder(): FrameRecorder & { frames: number[]; cancelled: boolean } {
+  return {
+    frames: [],
+    cancelled: false,
+    async addFrame(_source, frame) {
+      this.frames.push(frame);
+    },
+    async finish() {
+      return new Blob([`${this.frames.length} frames`]);
+    },
+    cancel() {
+      this.cancelled = true;
+    }
+  };
+}
+
+const canvas = {} as HTMLCanvasElement;
+
+function options(overrides: Partial<RecordingOptions>): RecordingOptions {
+  return { ...DEFAULT_RECORDING_OPTIONS, ...overrides };
+}
+
+describe('recording', () => {
+  test('offline sessions capture exactly the generations that follow the first frame, in order', async () => {
+    const recorder = fakeRecorder();
+    const session = new RecordingSession(options({ mode: 'offline', frames: 3 }), recorder, [0, 0, 20]);
+
+    expect(session.frameFor(10)).toBe(0);
+    await session.capture(canvas, 10);
+
+    expect(session.frameFor(10)).toBeNull();
+    expect(session.frameFor(12)).toBeNull();
+    expect(session.frameFor(11)).toBe(1);
+    await expect(session.capture(canvas, 12)).rejects.toThrow('Generation 12 is not the next frame to record');
+    await session.capture(canvas, 11);
+    await session.capture(canvas, 12);
+
+    expect(recorder.frames).toEqual([0, 1, 2]);
+    expect(session.complete).toBe(true);
+    expect(session.frameFor(13)).toBeNull();
+    expect(session.fileName()).toBe('life-gen10-12.webm');
+    expect(await (await session.finish()).text()).toBe('3 frames');
+  });
+
+  test('live sessions take any later generation and skip those passed while encoding', async () => {
+    const recorder = fakeRecorder();
+    const session = new RecordingSession(options({ mode: 'live', frames: 5 }), recorder, [0, 0, 20]);
+
+    expect(session.frameFor(4)).toBe(0);
+    const pending = session.capture(canvas, 4);
+    // Encoding is still going on
+    expect(session.frameFor(5)).toBeNull();
+    await pending;
+
+    expect(session.frameFor(4)).toBeNull();
+    expect(session.frameFor(7)).toBe(1);
+    await session.capture(canvas, 7);
+    expect(recorder.frames).toEqual([0, 1]);
+    expect(session.complete).toBe(false);
+  });
+
+  test('finishing early keeps the frames so far; with none it cancels', async () => {
+    const session = new RecordingSession(options({ format: 'gif', frames: 10 }), fakeRecorder(), [0, 0, 20]);
+    await session.capture(canvas, 0);
+    expect(session.fileName()).toBe('life-gen0-0.gif');
+    expect(await (await session.finish()).text()).toBe('1 frames');
+    await expect(session.finish()).rejects.toThrow('Recording has already finished');
+
+    const recorder = fakeRecorder();
+    await expect(new RecordingSession(DEFAULT_RECORDING_OPTIONS, recorder, [0, 0, 20]).finish())
+      .rejects.toThrow('No frames were recorded');
+    expect(recorder.cancelled).toBe(true);
+  });
+
+  test('orbits the camera about the vertical axis at an even pace', () => {
+    const start: [number, number, number] = [15, 15, 15];
+    const quarter = orbitCameraPosition(start, 1, 4, 1);
+    expect(quarter[0]).toBeCloseTo(15);
+    expect(quarter[1]).toBe(15);
+    expect(quarter[2]).toBeCloseTo(-15);
+    orbitCameraPosition(start, 4, 4, 1).forEach((value, axis) => expect(value).toBeCloseTo(start[axis]));
+
+    const session = new RecordingSession(options({ frames: 8, orbitTurns: 0.5 }), fakeRecorder(), [0, 5, 10]);
+    const end = session.cameraPosition(8)!;
+    expect(end[0]).toBeCloseTo(0);
+    expect(end[2]).toBeCloseTo(-10);
+    expect(new RecordingSession(options({ orbitTurns: 0 }), fakeRecorder(), [0, 5, 10]).cameraPosition(3)).toBeNull();
+  });
+
+  test('spreads GIF frame delays to keep the frame rate', () => {
+    const delays = Array.from({ length: 30 }, (_value, frame) => gifFrameDelay(frame, 30));
+    expect(delays.reduce((sum, delay) => sum + delay, 0)).toBe(100);
+    expect(delays.every(delay => delay === 3 || delay === 4)).toBe(true);
+    expect(gifFrameDelay(0, 10)).toBe(10);
+  });
+
+  test('scales the output down to fit, in even pixels', () => {
+    expect(recordingSize(1920, 1080, 720)).toEqual([720, 406]);
+    expect(recordingSize(801, 601, 1280)).toEqual([802, 602]);
+  });
+
+  test('validates options', () => {
+    expect(validateRecordingOptions(DEFAULT_RECORDING_OPTIONS)).toBe(DEFAULT_RECORDING_OPTIONS);
+    const bad: [Partial<RecordingOptions>, string][] = [
+      [{ frames: 0 }, 'frames must be a whole number from 1 to 3600'],
+      [{ format: 'gif', fps: 60 }, 'fps must be a whole number from 1 to 50'],
+      [{ orbitTurns: Number.NaN }, 'orbit turns must be a number from -10 to 10'],
+      [{ mode: 'realtime' as RecordingOptions['mode'] }, 'unknown mode "realtime"']
+    ];
+    bad.forEach(([overrides, message]) =>
+      expect(() => validateRecordingOptions(options(overrides))).toThrow(`Invalid recording options: ${message}`));
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for B/S rule notation
+ */
+
+import {
+  countsFromRanges,
+  createRule,
+  formatCountList,
+  formatRule,
+  formatRuleNotation,
+  normalizeRanges,
+  parseCountList,
+  parseRule,
+  parseRuleNotation,
+  rangesContain,
+  rangesFromCounts,
+  ruleFromRange,
+  ruleStates,
+  rulesEqual
+} from '../lib/rules';
+
+describe('rules', () => {
+  describe('Count Lists', () => {
+    test('parses single counts and ranges', () => {
+      expect(parseCountList('4,6')).toEqual([[4, 4], [6, 6]]);
+      expect(parseCountList('5-7')).toEqual([[5, 7]]);
+      expect(parseCountList('5..7')).toEqual([[5, 7]]);
+      expect(parseCountList('10,12-14')).toEqual([[10, 10], [12, 14]]);
+    });
+
+    test('parses an empty list', () => {
+      expect(parseCountList('')).toEqual([]);
+      expect(parseCountList('  ')).toEqual([]);
+    });
+
+    test('merges overlapping and adjacent counts', () => {
+      expect(parseCountList('4,5,6')).toEqual([[4, 6]]);
+      expect(parseCountList('3-5,4-8')).toEqual([[3, 8]]);
+      expect(normalizeRanges([[9, 7], [1, 1]])).toEqual([[1, 1], [7, 9]]);
+    });
+
+    test('rejects malformed lists', () => {
+      expect(() => parseCountList('4,x')).toThrow(/Invalid neighbor count "x"/);
+      expect(() => parseCountList('7-5')).toThrow(/end is smaller than start/);
+      expect(() => parseCountList('4,,5')).toThrow();
+    });
+
+    test('formats counts with range shorthand', () => {
+      expect(formatCountList([[3, 3], [5, 5], [7, 7]])).toBe('3,5,7');
+      expect(formatCountList([[4, 6], [8, 8]])).toBe('4-6,8');
+      expect(formatCountList([])).toBe('');
+    });
+
+    test('converts between counts and ranges', () => {
+      expect(rangesFromCounts([6, 4, 5, 9])).toEqual([[4, 6], [9, 9]]);
+      expect(countsFromRanges([[4, 6], [9, 9]])).toEqual([4, 5, 6, 9]);
+    });
+
+    test('checks membership', () => {
+      const ranges = parseCountList('3,5-7');
+      expect(rangesContain(ranges, 3)).toBe(true);
+      expect(rangesContain(ranges, 4)).toBe(false);
+      expect(rangesContain(ranges, 6)).toBe(true);
+      expect(rangesContain(ranges, 8)).toBe(false);
+    });
+  });
+
+  describe('Rule Notation', () => {
+    test('parses contiguous and non-contiguous rules', () => {
+      expect(parseRule('B5-7/S4-6')).toEqual({ birth: [[5, 7]], survival: [[4, 6]] });
+      expect(parseRule('B4,6/S3,5,7')).toEqual({
+        birth: [[4, 4], [6, 6]],
+        survival: [[3, 3], [5, 5], [7, 7]]
+      });
+    });
+
+    test('accepts lowercase, reversed order and empty sides', () => {
+      expect(parseRule('s4-5/b4')).toEqual(ruleFromRange(4, 4, 5));
+      expect(parseRule('B3/S')).toEqual({ birth: [[3, 3]], survival: [] });
+    });
+
+    test('rejects invalid notation', () => {
+      expect(() => parseRule('B4')).toThrow(/expected the form/);
+      expect(() => parseRule('4/5')).toThrow(/unexpected part "4"/);
+      expect(() => parseRule('B4/B5')).toThrow(/unexpected part "B5"/);
+      expect(() => parseRule('B4/S4/X1')).toThrow(/unexpected part "X1"/);
+    });
+
+    test('formats and round-trips rules', () => {
+      const rule = createRule([[6, 6], [4, 4]], [[3, 3], [5, 7]]);
+      expect(formatRule(rule)).toBe('B4,6/S3,5-7');
+      expect(parseRule(formatRule(rule))).toEqual(rule);
+    });
+
+    test('parses Generations state counts', () => {
+      expect(parseRule('B4/S4/C5')).toEqual({ birth: [[4, 4]], survival: [[4, 4]], states: 5 });
+      expect(parseRule('c10/B6-8/s4-7')).toEqual(parseRule('B6-8/S4-7/C10'));
+      expect(parseRule('B4/S4/G5')).toEqual(parseRule('B4/S4/C5'));
+    });
+
+    test('treats two states as a plain rule', () => {
+      expect(ruleStates(parseRule('B4/S4'))).toBe(2);
+      expect(parseRule('B4/S4/C2')).toEqual(parseRule('B4/S4'));
+      expect(formatRule(parseRule('B4/S4/C2'))).toBe('B4/S4');
+    });
+
+    test('parses survival/birth/states notation', () => {
+      expect(parseRule('4/4/5/M')).toEqual(parseRule('B4/S4/C5'));
+      expect(parseRule('9-26/5-7,12-13,15/5')).toEqual(parseRule('B5-7,12-13,15/S9-26/C5'));
+      expect(parseRule('13-26/13-14,17-19/2/M')).toEqual(parseRule('B13-14,17-19/S13-26'));
+    });
+
+    test('rejects invalid state counts', () => {
+      expect(() => parseRule('B4/S4/C1')).toThrow(/Invalid state count "1"/);
+      expect(() => parseRule('B4/S4/C256')).toThrow(/from 2 to 255/);
+      expect(() => parseRule('B4/S4/Cx')).toThrow(/unexpected part "Cx"/);
+      expect(() => parseRule('4/4/x')).toThrow(/state count "x" is not a number/);
+      expect(() => parseRule('4/4/5/Q')).toThrow(/unsupported neighborhood "Q"/);
+    });
+
+    test('formats Generations rules', () => {
+      expect(formatRule(createRule([[4, 4]], [[4, 4]], 5))).toBe('B4/S4/C5');
+      expect(parseRule(formatRule(parseRule('4/4/5/M')))).toEqual(parseRule('4/4/5/M'));
+    });
+
+    test('parses neighborhood codes', () => {
+      expect(parseRuleNotation('B1,3/S0-6/N')).toEqual({
+        rule: parseRule('B1,3/S0-6'),
+        neighborhood: { type: 'vonNeumann', radius: 1 }
+      });
+      expect(parseRuleNotation('m2/B10/S9-12').neighborhood).toEqual({ type: 'moore', radius: 2 });
+      expect(parseRuleNotation('4/4/5/E').neighborhood).toEqual({ type: 'faceEdge' });
+      expect(parseRuleNotation('B4/S4').neighborhood).toBeUndefined();
+      expect(() => parseRule('B4/S4/N/M')).toThrow(/unexpected part "M"/);
+      expect(() => parseRule('B4/S4/E2')).toThrow(/does not take a radius/);
+    });
+
+    test('formats neighborhood codes', () => {
+      const rule = parseRule('B4/S4/C5');
+      expect(formatRuleNotation(rule)).toBe('B4/S4/C5');
+      expect(formatRuleNotation(rule, { type: 'moore', radius: 1 })).toBe('B4/S4/C5');
+      expect(formatRuleNotation(rule, { type: 'vonNeumann', radius: 2 })).toBe('B4/S4/C5/N2');
+      expect(formatRuleNotation(rule, { type: 'custom', offsets: [[1, 0, 0]] })).toBe('B4/S4/C5');
+    });
+
+    test('compares rules by their sets', () => {
+      expect(rulesEqual(parseRule('B4,5,6/S5'), parseRule('B4-6/S5'))).toBe(true);
+      expect(rulesEqual(parseRule('B4/S5'), parseRule('B4/S6'))).toBe(false);
+    });
+  });
+});
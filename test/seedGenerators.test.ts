@@ -0,0 +1,169 @@
+/**
+ * Tests for structured seed generators
+ */
+
+import type { FlatGrid3D, GridDimensions } from '../lib/flatGrid';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import {
+  DEFAULT_SEED_GENERATORS,
+  describeSeedGenerator,
+  fitSeedGenerator,
+  generateSeedGrid,
+  validateSeedGenerator,
+  type SeedGenerator
+} from '../lib/seedGenerators';
+
+const SIZE: GridDimensions = [12, 12, 12];
+
+function liveCount(grid: FlatGrid3D, inside: (x: number, y: number, z: number) => boolean = () => true): number {
+  let count = 0;
+  for (let x = 0; x < grid.width; x++) {
+    for (let y = 0; y < grid.height; y++) {
+      for (let z = 0; z < grid.depth; z++) {
+        if (grid.get(x, y, z) === 1 && inside(x, y, z)) count++;
+      }
+    }
+  }
+  return count;
+}
+
+describe('seedGenerators', () => {
+  test.each(Object.values(DEFAULT_SEED_GENERATORS).map(generator => [generator.type, generator] as const))(
+    '%s is deterministic for a seed',
+    (_type, generator) => {
+      const first = generateSeedGrid(SIZE, 0.3, generator, 99);
+      expect(first.equals(generateSeedGrid(SIZE, 0.3, generator, 99))).toBe(true);
+      expect(first.equals(generateSeedGrid(SIZE, 0.3, generator, 100))).toBe(false);
+    }
+  );
+
+  test('uniform gives the same cells as the engine', () => {
+    const engine = new GameOfLife3D({ gridSize: [10, 6, 4] });
+    expect(generateSeedGrid([10, 6, 4], 0.2, { type: 'uniform' }, 5).equals(engine.createRandomFlatGrid(0.2, 5))).toBe(true);
+  });
+
+  test('box fills only the central box', () => {
+    const grid = generateSeedGrid(SIZE, 1, { type: 'box', size: 0.5 }, 1);
+    const inBox = (x: number, y: number, z: number) => [x, y, z].every(value => value >= 3 && value < 9);
+
+    expect(liveCount(grid)).toBe(6 * 6 * 6);
+    expect(liveCount(grid, inBox)).toBe(6 * 6 * 6);
+  });
+
+  test('sphere fills only cells within the radius', () => {
+    const grid = generateSeedGrid(SIZE, 1, { type: 'sphere', radius: 0.5 }, 1);
+    const distance = (x: number, y: number, z: number) => Math.hypot(x + 0.5 - 6, y + 0.5 - 6, z + 0.5 - 6);
+
+    expect(liveCount(grid)).toBeGreaterThan(0);
+    expect(liveCount(grid, (x, y, z) => distance(x, y, z) > 3)).toBe(0);
+    expect(grid.get(6, 6, 6)).toBe(1);
+  });
+
+  test('mirror seeds are symmetric across the chosen axes only', () => {
+    const grid = generateSeedGrid([10, 8, 6], 0.4, { type: 'mirror', axes: [true, false, true] }, 3);
+    let asymmetricY = false;
+
+    for (let x = 0; x < 10; x++) {
+      for (let y = 0; y < 8; y++) {
+        for (let z = 0; z < 6; z++) {
+          expect(grid.get(9 - x, y, z)).toBe(grid.get(x, y, z));
+          expect(grid.get(x, y, 5 - z)).toBe(grid.get(x, y, z));
+          if (grid.get(x, 7 - y, z) !== grid.get(x, y, z)) asymmetricY = true;
+        }
+      }
+    }
+    expect(asymmetricY).toBe(true);
+  });
+
+  test('rotational seeds are unchanged by quarter turns', () => {
+    const grid = generateSeedGrid([8, 5, 8], 0.4, { type: 'rotational', axis: 1, order: 4 }, 3);
+
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 5; y++) {
+        for (let z = 0; z < 8; z++) {
+          expect(grid.get(z, y, 7 - x)).toBe(grid.get(x, y, z));
+        }
+      }
+    }
+  });
+
+  test('half turns work on any cross-section, quarter turns need a square one', () => {
+    const grid = generateSeedGrid([9, 4, 6], 0.4, { type: 'rotational', axis: 1, order: 2 }, 3);
+    for (let x = 0; x < 9; x++) {
+      for (let z = 0; z < 6; z++) {
+        expect(grid.get(8 - x, 2, 5 - z)).toBe(grid.get(x, 2, z));
+      }
+    }
+
+    expect(() => generateSeedGrid([9, 4, 6], 0.4, { type: 'rotational', axis: 1, order: 4 }, 3))
+      .toThrow('a quarter turn about y needs a square x-z cross-section, not 9×6');
+  });
+
+  test('fitSeedGenerator falls back to half turns on grids that are not square across the axis', () => {
+    const quarter: SeedGenerator = { type: 'rotational', axis: 1, order: 4 };
+    expect(fitSeedGenerator(quarter, [8, 5, 8])).toBe(quarter);
+    expect(fitSeedGenerator(quarter, [9, 4, 6])).toEqual({ type: 'rotational', axis: 1, order: 2 });
+    expect(fitSeedGenerator(DEFAULT_SEED_GENERATORS.box, [9, 4, 6])).toBe(DEFAULT_SEED_GENERATORS.box);
+  });
+
+  test('gradient density rises along the axis', () => {
+    const grid = generateSeedGrid([20, 20, 20], 0.3, { type: 'gradient', axis: 2, contrast: 1 }, 8);
+    const low = liveCount(grid, (_x, _y, z) => z < 5);
+    const high = liveCount(grid, (_x, _y, z) => z >= 15);
+
+    expect(liveCount(grid, (_x, _y, z) => z === 0)).toBeLessThan(40);
+    expect(high).toBeGreaterThan(3 * low);
+  });
+
+  test('blobs cover the requested fraction of the grid', () => {
+    const full = generateSeedGrid([20, 20, 20], 1, { type: 'blobs', scale: 5, coverage: 0.25 }, 4);
+    expect(liveCount(full)).toBe(2000);
+
+    const empty = generateSeedGrid([20, 20, 20], 1, { type: 'blobs', scale: 5, coverage: 0 }, 4);
+    expect(liveCount(empty)).toBe(0);
+  });
+
+  test('blobs are clustered rather than scattered', () => {
+    const grid = generateSeedGrid([20, 20, 20], 1, { type: 'blobs', scale: 6, coverage: 0.3 }, 4);
+    let sameAsNeighbor = 0;
+    let pairs = 0;
+    for (let x = 0; x < 19; x++) {
+      for (let y = 0; y < 20; y++) {
+        for (let z = 0; z < 20; z++) {
+          pairs++;
+          if (grid.get(x, y, z) === grid.get(x + 1, y, z)) sameAsNeighbor++;
+        }
+      }
+    }
+    // Scattered cells at 30% would match their neighbor 58% of the time
+    expect(sameAsNeighbor / pairs).toBeGreaterThan(0.85);
+  });
+
+  test('validates parameters', () => {
+    const bad: unknown[] = [
+      null,
+      { type: 'spiral' },
+      { type: 'box', size: 0 },
+      { type: 'sphere', radius: 1.5 },
+      { type: 'mirror', axes: [true, false] },
+      { type: 'rotational', axis: 3, order: 2 },
+      { type: 'rotational', axis: 0, order: 3 },
+      { type: 'gradient', axis: 0, contrast: -0.5 },
+      { type: 'blobs', scale: 0, coverage: 0.5 }
+    ];
+    bad.forEach(generator => expect(() => validateSeedGenerator(generator)).toThrow(/^Invalid seed generator: /));
+
+    Object.values(DEFAULT_SEED_GENERATORS).forEach(generator => expect(validateSeedGenerator(generator)).toBe(generator));
+  });
+
+  test('describes generators', () => {
+    const cases: [SeedGenerator, string][] = [
+      [{ type: 'uniform' }, 'Uniform'],
+      [{ type: 'box', size: 0.5 }, 'Central Box 50%'],
+      [{ type: 'mirror', axes: [true, false, true] }, 'Mirror Symmetric (x, z)'],
+      [{ type: 'rotational', axis: 1, order: 4 }, 'Rotationally Symmetric (4-fold about y)'],
+      [{ type: 'blobs', scale: 6, coverage: 0.3 }, 'Noise Blobs 6 cells, 30%']
+    ];
+    cases.forEach(([generator, text]) => expect(describeSeedGenerator(generator)).toBe(text));
+  });
+});
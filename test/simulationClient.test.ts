@@ -0,0 +1,162 @@
+/**
+ * Tests for the UI-side simulation client
+ */
+
+import type { GameOfLife3DConfig } from '../lib/gameOfLife3D';
+import { SimulationClient, type GenerationSnapshot, type WorkerLike } from '../lib/simulationClient';
+import { SimulationHost } from '../lib/simulationHost';
+import type { SimulationRequest, SimulationResponse } from '../lib/simulationProtocol';
+
+const config: GameOfLife3DConfig = {
+  gridSize: 4,
+  birthRule: 4,
+  survivalMin: 4,
+  survivalMax: 5,
+  periodicBoundaries: true
+};
+
+/**
+ * A worker stand-in backed by a real host. Requests are held until
+ * flush() so tests control when responses arrive.
+ */
+class FakeWorker implements WorkerLike {
+  onmessage: ((event: MessageEvent<SimulationResponse>) => void) | null = null;
+  sent: SimulationRequest[] = [];
+  terminated = false;
+  private host = new SimulationHost();
+  private pending: SimulationRequest[] = [];
+
+  postMessage(message: SimulationRequest): void {
+    this.sent.push(message);
+    this.pending.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  flush(): void {
+    while (this.pending.length) {
+      const request = this.pending.shift()!;
+      let response: SimulationResponse | null;
+      try {
+        response = this.host.handle(request);
+      } catch (error) {
+        response = { type: 'error', reason: request.type, message: (error as Error).message };
+      }
+      if (response) {
+        this.onmessage?.({ data: response } as MessageEvent<SimulationResponse>);
+      }
+    }
+  }
+}
+
+describe('SimulationClient', () => {
+  let worker: FakeWorker;
+  let snapshots: GenerationSnapshot[];
+  let errors: string[];
+  let client: SimulationClient;
+
+  beforeEach(() => {
+    worker = new FakeWorker();
+    snapshots = [];
+    errors = [];
+    client = new SimulationClient(worker, {
+      onGeneration: snapshot => snapshots.push(snapshot),
+      onError: message => errors.push(message)
+    });
+  });
+
+  test('delivers generations as flat grids', () => {
+    client.init(config, { density: 0.5 });
+    worker.flush();
+
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].generation).toBe(0);
+    expect(snapshots[0].grid.cellCount).toBe(64);
+    expect(snapshots[0].population).toBe(snapshots[0].grid.data.reduce((sum, value) => sum + value, 0));
+  });
+
+  test('coalesces steps requested while one is in flight', () => {
+    client.init(config);
+    client.step();
+    client.step();
+    client.step();
+
+    expect(worker.sent.filter(request => request.type === 'step')).toEqual([{ type: 'step', count: 1 }]);
+    expect(client.busy).toBe(true);
+
+    worker.flush();
+
+    expect(worker.sent.filter(request => request.type === 'step')).toEqual([
+      { type: 'step', count: 1 },
+      { type: 'step', count: 2 }
+    ]);
+    worker.flush();
+
+    expect(client.busy).toBe(false);
+    expect(snapshots[snapshots.length - 1].generation).toBe(3);
+  });
+
+  test('init drops queued steps', () => {
+    client.init(config);
+    client.step();
+    client.step();
+    client.init(config);
+    worker.flush();
+
+    expect(worker.sent.filter(request => request.type === 'step')).toHaveLength(1);
+    expect(client.busy).toBe(false);
+  });
+
+  test('seek drops queued steps', () => {
+    client.init(config, { density: 0.5 });
+    client.step();
+    client.step();
+    client.step();
+    client.seek(1);
+    worker.flush();
+
+    expect(worker.sent.filter(request => request.type === 'step')).toEqual([{ type: 'step', count: 1 }]);
+    expect(snapshots[snapshots.length - 1]).toMatchObject({ reason: 'seek', generation: 1, history: { first: 0, last: 1 } });
+  });
+
+  test('delivers reported neighbor counts, births and objects as typed arrays', () => {
+    client.init(config, { density: 0.5 });
+    client.report({ neighbors: true, births: true, objects: true });
+    worker.flush();
+
+    expect(snapshots[0].neighbors).toBeUndefined();
+    expect(snapshots[1]).toMatchObject({ reason: 'report', generation: 0 });
+    expect(snapshots[1].neighbors).toBeInstanceOf(Uint16Array);
+    expect(snapshots[1].births).toEqual(new Uint32Array(64));
+    expect(snapshots[1].objectIds).toBeInstanceOf(Int32Array);
+    expect(snapshots[1].objects!.count).toBe(new Set(Array.from(snapshots[1].objectIds!).filter(id => id !== 0)).size);
+  });
+
+  test('reports errors', () => {
+    client.step();
+    worker.flush();
+
+    expect(errors).toEqual(['Simulation has not been initialized']);
+    expect(client.busy).toBe(false);
+  });
+
+  test('transfers initial cells without detaching the caller\'s grid', () => {
+    client.init(config, { density: 0.5 });
+    worker.flush();
+    const grid = snapshots[0].grid;
+
+    client.init(config, { cells: grid });
+    worker.flush();
+
+    expect(grid.cellCount).toBe(64);
+    expect(snapshots[1].grid.equals(grid)).toBe(true);
+  });
+
+  test('dispose terminates the worker', () => {
+    client.dispose();
+    expect(worker.terminated).toBe(true);
+    expect(worker.onmessage).toBeNull();
+  });
+});
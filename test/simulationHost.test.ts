@@ -0,0 +1,393 @@
+/**
+ * Tests for the worker-side simulation host
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { GameOfLife3D, type GameOfLife3DConfig } from '../lib/gameOfLife3D';
+import { generateSeedGrid } from '../lib/seedGenerators';
+import { SimulationHost } from '../lib/simulationHost';
+import { transferablesOf, type GenerationMessage } from '../lib/simulationProtocol';
+import { parseRule } from '../lib/rules';
+import { findLibraryPattern, placePattern } from '../lib/patternLibrary';
+
+const config: GameOfLife3DConfig = {
+  gridSize: 5,
+  rule: parseRule('B4/S4-5'),
+  periodicBoundaries: true
+};
+
+function gridOf(message: GenerationMessage | null): FlatGrid3D {
+  const [width, height, depth] = message!.dimensions;
+  return new FlatGrid3D(width, height, depth, new Uint8Array(message!.cells));
+}
+
+describe('SimulationHost', () => {
+  let host: SimulationHost;
+
+  beforeEach(() => {
+    host = new SimulationHost();
+  });
+
+  test('rejects requests before init', () => {
+    expect(() => host.handle({ type: 'step', count: 1 })).toThrow(/not been initialized/);
+    expect(() => host.handle({ type: 'snapshot' })).toThrow(/not been initialized/);
+  });
+
+  test('keeps a rule configured before init for it', () => {
+    expect(host.handle({ type: 'configure', config: { rule: parseRule('B1/S') } })).toBeNull();
+    host.handle({ type: 'init', config: { gridSize: 5, periodicBoundaries: true } });
+    host.handle({ type: 'setCells', cells: [[2, 2, 2, 1]] });
+    expect(host.handle({ type: 'step', count: 1 })!.population).toBe(26);
+  });
+
+  test('keeps a neighborhood configured before init for it', () => {
+    host.handle({ type: 'configure', config: { neighborhood: { type: 'vonNeumann', radius: 1 } } });
+    host.handle({ type: 'init', config: { ...config, rule: parseRule('B1/S') } });
+    host.handle({ type: 'setCells', cells: [[2, 2, 2, 1]] });
+    expect(host.handle({ type: 'step', count: 1 })!.population).toBe(6);
+  });
+
+  test('keeps boundaries configured before init for it', () => {
+    host.handle({ type: 'configure', config: { boundaries: 'dead' } });
+    host.handle({ type: 'init', config: { gridSize: 5, rule: parseRule('B1/S') } });
+    host.handle({ type: 'setCells', cells: [[0, 0, 0, 1]] });
+    // Only the neighbors inside the grid are born
+    expect(host.handle({ type: 'step', count: 1 })!.population).toBe(7);
+  });
+
+  test('an init\'s own rule wins over one configured before it', () => {
+    host.handle({ type: 'configure', config: { rule: parseRule('B1/S') } });
+    host.handle({ type: 'init', config });
+    host.handle({ type: 'setCells', cells: [[2, 2, 2, 1]] });
+    expect(host.handle({ type: 'step', count: 1 })!.population).toBe(0);
+  });
+
+  test('an init\'s legacy rule and boundary fields win over settings configured before it', () => {
+    host.handle({ type: 'configure', config: { rule: parseRule('B1/S'), boundaries: 'dead' } });
+    host.handle({ type: 'init', config: { gridSize: 5, birthRule: 1, survivalMin: 0, survivalMax: 0, periodicBoundaries: true } });
+    host.handle({ type: 'setCells', cells: [[0, 0, 0, 1]] });
+    // B1/S0 on wrapping faces: all 26 neighbors are born and the lone cell survives
+    expect(host.handle({ type: 'step', count: 1 })!.population).toBe(27);
+  });
+
+  test('init reports generation 0 with an empty grid by default', () => {
+    const message = host.handle({ type: 'init', config });
+
+    expect(message).toMatchObject({ type: 'generation', reason: 'init', generation: 0, population: 0 });
+    expect(message!.dimensions).toEqual([5, 5, 5]);
+    expect(message!.cells.byteLength).toBe(125);
+  });
+
+  test('init accepts initial cells', () => {
+    const grid = new FlatGrid3D(5);
+    grid.set(1, 2, 3, 1);
+
+    const message = host.handle({ type: 'init', config, cells: grid.data.slice().buffer });
+    expect(message!.population).toBe(1);
+    expect(gridOf(message).equals(grid)).toBe(true);
+  });
+
+  test('init with a seed is reproducible', () => {
+    const first = gridOf(host.handle({ type: 'init', config, density: 0.3, seed: 7 }));
+    const second = gridOf(new SimulationHost().handle({ type: 'init', config, density: 0.3, seed: 7 }));
+    const other = gridOf(host.handle({ type: 'init', config, density: 0.3, seed: 8 }));
+
+    expect(first.equals(second)).toBe(true);
+    expect(first.equals(other)).toBe(false);
+  });
+
+  test('init shapes the random grid with a seed generator', () => {
+    const generator = { type: 'box', size: 0.6 } as const;
+    const message = host.handle({ type: 'init', config, density: 1, seed: 7, generator });
+
+    expect(gridOf(message).equals(generateSeedGrid([5, 5, 5], 1, generator, 7))).toBe(true);
+    expect(message!.population).toBe(27);
+  });
+
+  test('steps match the engine', () => {
+    const engine = new GameOfLife3D(config);
+    const initial = engine.createRandomFlatGrid(0.3);
+    host.handle({ type: 'init', config, cells: initial.data.slice().buffer });
+
+    const message = host.handle({ type: 'step', count: 3 });
+    const expected = engine.step(engine.step(engine.step(initial)));
+
+    expect(message).toMatchObject({ reason: 'step', generation: 3, population: engine.countLivingCells(expected) });
+    expect(gridOf(message).equals(expected)).toBe(true);
+  });
+
+  test('setCells edits the current generation', () => {
+    host.handle({ type: 'init', config });
+    const message = host.handle({ type: 'setCells', cells: [[0, 0, 0, 1], [4, 4, 4, 1], [9, 0, 0, 1]] });
+
+    expect(message!.population).toBe(2);
+    expect(gridOf(message).get(4, 4, 4)).toBe(1);
+  });
+
+  test('configure changes the rule without resetting the grid', () => {
+    host.handle({ type: 'init', config });
+    host.handle({ type: 'setCells', cells: [[2, 2, 2, 1]] });
+
+    expect(host.handle({ type: 'configure', config: { rule: parseRule('B1/S') } })).toBeNull();
+    const message = host.handle({ type: 'step', count: 1 });
+    expect(message!.population).toBe(26);
+  });
+
+  test('configure refuses to change the grid size', () => {
+    host.handle({ type: 'init', config });
+    expect(() => host.handle({ type: 'configure', config: { gridSize: 8 } })).toThrow(/new init/);
+  });
+
+  test('supports non-cubic grids', () => {
+    const cells = new FlatGrid3D(6, 4, 2);
+    cells.set(5, 3, 1, 1);
+    const message = host.handle({ type: 'init', config: { ...config, gridSize: [6, 4, 2] }, cells: cells.data.slice().buffer });
+
+    expect(message!.dimensions).toEqual([6, 4, 2]);
+    expect(gridOf(message).get(5, 3, 1)).toBe(1);
+    // The same dimensions may be passed again, in either form
+    expect(() => host.handle({ type: 'configure', config: { gridSize: [6, 4, 2] } })).not.toThrow();
+    expect(() => host.handle({ type: 'configure', config: { gridSize: 6 } })).toThrow(/new init/);
+  });
+
+  test('reports cycles found while stepping', () => {
+    const single = new FlatGrid3D(5);
+    single.set(2, 2, 2, 1);
+    expect(host.handle({ type: 'init', config, cells: single.data.slice().buffer })!.cycle).toEqual({ kind: 'evolving' });
+    // A lone cell dies at once; the empty grid then repeats
+    expect(host.handle({ type: 'step', count: 5 })!.cycle).toEqual({ kind: 'extinct', since: 1 });
+
+    // Under B0 with no survival the whole grid flips between full and empty
+    host.handle({ type: 'init', config: { ...config, rule: parseRule('B0/S') } });
+    expect(host.handle({ type: 'step', count: 1 })!.cycle).toEqual({ kind: 'evolving' });
+    expect(host.handle({ type: 'step', count: 1 })!.cycle).toEqual({ kind: 'oscillator', period: 2, since: 0 });
+  });
+
+  test('edits and rule changes restart cycle detection', () => {
+    host.handle({ type: 'init', config });
+    host.handle({ type: 'step', count: 1 });
+    expect(host.handle({ type: 'snapshot' })!.cycle).toEqual({ kind: 'extinct', since: 0 });
+
+    expect(host.handle({ type: 'setCells', cells: [[1, 1, 1, 1]] })!.cycle).toEqual({ kind: 'evolving' });
+    host.handle({ type: 'step', count: 3 });
+    host.handle({ type: 'configure', config: { rule: parseRule('B/S0-26') } });
+    expect(host.handle({ type: 'snapshot' })!.cycle).toEqual({ kind: 'evolving' });
+  });
+
+  test('seeks back through the history and steps on from there', () => {
+    host.handle({ type: 'init', config, density: 0.3, seed: 3 });
+    const steps = [1, 2, 3, 4].map(() => gridOf(host.handle({ type: 'step', count: 1 })));
+
+    const message = host.handle({ type: 'seek', generation: 2 });
+    expect(message).toMatchObject({ reason: 'seek', generation: 2, history: { first: 0, last: 4 } });
+    expect(gridOf(message).equals(steps[1])).toBe(true);
+    expect(message!.population).toBe(new GameOfLife3D(config).countLivingCells(steps[1]));
+
+    // Stepping again replaces the later generations
+    const next = host.handle({ type: 'step', count: 1 });
+    expect(next).toMatchObject({ generation: 3, history: { first: 0, last: 3 } });
+    expect(gridOf(next).equals(steps[2])).toBe(true);
+
+    expect(() => host.handle({ type: 'seek', generation: 9 })).toThrow(/Generation 9 is not in the history \(0 to 3\)/);
+  });
+
+  test('edits replace the current generation in the history', () => {
+    host.handle({ type: 'init', config });
+    host.handle({ type: 'step', count: 3 });
+    host.handle({ type: 'seek', generation: 1 });
+
+    expect(host.handle({ type: 'setCells', cells: [[2, 2, 2, 1]] })!.history).toEqual({ first: 0, last: 1 });
+    host.handle({ type: 'seek', generation: 0 });
+    expect(gridOf(host.handle({ type: 'seek', generation: 1 })).get(2, 2, 2)).toBe(1);
+  });
+
+  test('reports stats for every generation a step advances through', () => {
+    host.handle({ type: 'init', config, density: 0.3, seed: 5 });
+    const message = host.handle({ type: 'step', count: 3 })!;
+
+    expect(message.stats.map(row => row.generation)).toEqual([1, 2, 3]);
+    expect(message.stats[2].population).toBe(message.population);
+    expect(message.population).toBe(new GameOfLife3D(config).countLivingCells(gridOf(message)));
+  });
+
+  test('other requests measure the current generation', () => {
+    const cells = new FlatGrid3D(5);
+    cells.set(1, 1, 1, 1);
+    const message = host.handle({ type: 'init', config, cells: cells.data.slice().buffer })!;
+
+    expect(message.stats).toEqual([{
+      generation: 0,
+      population: 1,
+      births: 0,
+      deaths: 0,
+      survivors: 0,
+      boundingBox: { min: [1, 1, 1], max: [1, 1, 1] },
+      centerOfMass: [1, 1, 1]
+    }]);
+  });
+
+  test('snapshots do not share memory with the simulation', () => {
+    host.handle({ type: 'init', config });
+    const message = host.handle({ type: 'snapshot' });
+    new Uint8Array(message!.cells).fill(1);
+
+    expect(host.handle({ type: 'snapshot' })!.population).toBe(0);
+    expect(transferablesOf(message!)).toEqual([message!.cells]);
+  });
+
+  test('reports neighbor counts and birth generations when asked', () => {
+    const engine = new GameOfLife3D(config);
+    const initial = engine.createRandomFlatGrid(0.3, 4);
+    expect(host.handle({ type: 'report', neighbors: true, births: true, objects: false })).toBeNull();
+    const start = host.handle({ type: 'init', config, cells: initial.data.slice().buffer })!;
+    expect(Array.from(new Uint16Array(start.neighbors!))).toEqual(Array.from(engine.computeNeighborCounts(initial)));
+    expect(new Uint32Array(start.births!).every(birth => birth === 0)).toBe(true);
+
+    const first = gridOf(host.handle({ type: 'step', count: 1 }));
+    const message = host.handle({ type: 'step', count: 1 })!;
+    const second = gridOf(message);
+    const births = new Uint32Array(message.births!);
+    expect(Array.from(new Uint16Array(message.neighbors!))).toEqual(Array.from(engine.computeNeighborCounts(second)));
+    const expected = Array.from(second.data, (state, i) => {
+      if (state === 0) return 0;
+      if (first.data[i] === 0) return 2;
+      return initial.data[i] === 0 ? 1 : 0;
+    });
+    expect(Array.from(births)).toEqual(expected);
+    expect(transferablesOf(message)).toEqual([message.cells, message.neighbors, message.births]);
+  });
+
+  test('painted cells are born when painted, and seeking dates every cell afresh', () => {
+    // Every cell survives and none are born
+    host.handle({ type: 'init', config: { ...config, rule: parseRule('B/S0-26') } });
+    host.handle({ type: 'step', count: 2 });
+    const reported = host.handle({ type: 'report', neighbors: false, births: true, objects: false })!;
+    expect(reported.reason).toBe('report');
+    expect(reported.neighbors).toBeUndefined();
+
+    const cell = gridOf(reported).index(1, 1, 1);
+    expect(new Uint32Array(host.handle({ type: 'setCells', cells: [[1, 1, 1, 1], [9, 9, 9, 1]] })!.births!)[cell]).toBe(2);
+    host.handle({ type: 'step', count: 1 });
+    // Painting over a cell that is already there keeps its date
+    expect(new Uint32Array(host.handle({ type: 'setCells', cells: [[1, 1, 1, 1], [2, 2, 2, 1]] })!.births!)[cell]).toBe(2);
+
+    const sought = host.handle({ type: 'seek', generation: 3 })!;
+    expect(new Uint32Array(sought.births!).filter(birth => birth !== 0)).toEqual(new Uint32Array([3, 3]));
+
+    // Births are no longer followed once they are not reported
+    expect(host.handle({ type: 'report', neighbors: false, births: false, objects: false })!.births).toBeUndefined();
+  });
+
+  test('reports the objects, tracked from step to step, when asked', () => {
+    const glider = findLibraryPattern('bays-glider');
+    const cells = new FlatGrid3D(10);
+    placePattern(glider, [10, 10, 10]).forEach(([x, y, z]) => cells.set(x, y, z, 1));
+    host.handle({ type: 'init', config: { gridSize: 10, rule: parseRule(glider.rule), periodicBoundaries: true }, cells: cells.data.buffer });
+    expect(host.handle({ type: 'snapshot' })!.objects).toBeUndefined();
+
+    const start = host.handle({ type: 'report', neighbors: false, births: false, objects: true })!;
+    expect(start.objects).toMatchObject({ count: 1, moving: 0, events: [] });
+    const message = host.handle({ type: 'step', count: 40 })!;
+    expect(message.objects).toMatchObject({ count: 1, moving: 1, objects: [{ id: start.objects!.objects[0].id, size: 10, moving: true }] });
+    const ids = new Int32Array(message.objectIds!);
+    const grid = gridOf(message);
+    expect(Array.from(ids).filter(id => id !== 0)).toHaveLength(grid.data.filter(state => state === 1).length);
+    expect(transferablesOf(message)).toEqual([message.cells, message.objectIds]);
+
+    // Seeking starts tracking afresh, so nothing is moving yet
+    expect(host.handle({ type: 'seek', generation: 20 })!.objects!.moving).toBe(0);
+  });
+
+  test('reports splits and merges once, including those of painting', () => {
+    host.handle({ type: 'init', config: { ...config, rule: parseRule('B/S0-26'), periodicBoundaries: false } });
+    host.handle({ type: 'report', neighbors: false, births: false, objects: true });
+    host.handle({ type: 'setCells', cells: [[0, 0, 0, 1], [2, 0, 0, 1]] });
+
+    const merged = host.handle({ type: 'setCells', cells: [[1, 0, 0, 1]] })!;
+    expect(merged.objects!.count).toBe(1);
+    expect(merged.objects!.events).toEqual([{ generation: 0, kind: 'merge', from: [1, 2], to: [1] }]);
+    expect(host.handle({ type: 'step', count: 1 })!.objects!.events).toEqual([]);
+    expect(host.handle({ type: 'report', neighbors: false, births: false, objects: false })!.objects).toBeUndefined();
+  });
+
+  describe('sparse engine', () => {
+    const glider = findLibraryPattern('bays-glider');
+    const sparseConfig: GameOfLife3DConfig = { gridSize: 12, rule: parseRule(glider.rule) };
+
+    function initGlider(): GenerationMessage {
+      const cells = new FlatGrid3D(12);
+      placePattern(glider, [12, 12, 12]).forEach(([x, y, z]) => cells.set(x, y, z, 1));
+      return host.handle({ type: 'init', config: sparseConfig, engine: 'sparse', cells: cells.data.slice().buffer })!;
+    }
+
+    test('starts with the cells in a box at the world origin', () => {
+      const message = initGlider();
+
+      expect(message.origin).toEqual([0, 0, 0]);
+      expect(message.dimensions).toEqual([12, 12, 12]);
+      expect(message.population).toBe(glider.cells.length);
+    });
+
+    test('the reported box follows a glider', () => {
+      initGlider();
+      const message = host.handle({ type: 'step', count: 4 * 40 })!;
+      const [box] = message.stats.slice(-1).map(row => row.boundingBox!);
+
+      // The glider has moved 40 cells along x and z, far past the 12³ box it started in
+      expect(box.min[0]).toBeGreaterThan(40);
+      expect(message.population).toBe(glider.cells.length);
+      expect(message.origin[1]).toBe(0);
+      for (const axis of [0, 2]) {
+        expect(box.min[axis]).toBeGreaterThanOrEqual(message.origin[axis]);
+        expect(box.max[axis]).toBeLessThan(message.origin[axis] + 12);
+      }
+      expect(gridOf(message).data.filter(state => state === 1).length).toBe(glider.cells.length);
+      expect(message.cycle.kind).toBe('evolving');
+    });
+
+    test('edits take world positions and seeking goes back through the history', () => {
+      initGlider();
+      host.handle({ type: 'step', count: 3 });
+      const edited = host.handle({ type: 'setCells', cells: [[-30, 5, 5, 1]] })!;
+      expect(edited.population).toBe(host.handle({ type: 'seek', generation: 3 })!.population);
+      expect(edited.stats[0].boundingBox!.min[0]).toBe(-30);
+
+      const start = host.handle({ type: 'seek', generation: 0 })!;
+      expect(start.population).toBe(glider.cells.length);
+      expect(start.history).toEqual({ first: 0, last: 3 });
+    });
+
+    test('reports neighbor counts and births for the box', () => {
+      host.handle({ type: 'report', neighbors: true, births: true, objects: false });
+      initGlider();
+      const message = host.handle({ type: 'step', count: 4 * 10 + 1 })!;
+      const grid = gridOf(message);
+
+      // The box is clear of the glider, so a dense grid of it counts the same
+      const dense = new GameOfLife3D({ ...sparseConfig, periodicBoundaries: false });
+      expect(Array.from(new Uint16Array(message.neighbors!))).toEqual(Array.from(dense.computeNeighborCounts(grid)));
+      const births = new Uint32Array(message.births!);
+      for (let i = 0; i < births.length; i++) {
+        if (grid.data[i] === 0) expect(births[i]).toBe(0);
+      }
+      // Every cell of the glider is born as it moves along
+      expect(Math.min(...Array.from(births).filter((_birth, i) => grid.data[i] !== 0))).toBeGreaterThan(20);
+    });
+
+    test('reports no objects', () => {
+      host.handle({ type: 'report', neighbors: false, births: false, objects: true });
+      initGlider();
+      const message = host.handle({ type: 'step', count: 1 })!;
+      expect(message.objects).toBeUndefined();
+      expect(message.objectIds).toBeUndefined();
+    });
+
+    test('refuses rules that cannot run unbounded', () => {
+      expect(() => host.handle({ type: 'init', config: { gridSize: 4, rule: parseRule('B0/S') }, engine: 'sparse' }))
+        .toThrow(/birth on 0 neighbors/);
+
+      initGlider();
+      expect(() => host.handle({ type: 'configure', config: { rule: parseRule('B0/S1') } })).toThrow(/birth on 0 neighbors/);
+    });
+  });
+});
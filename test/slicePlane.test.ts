@@ -0,0 +1,42 @@
+/**
+ * Tests for slice planes
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { extractSlice, sliceAxes, sliceCell } from '../lib/slicePlane';
+
+describe('slicePlane', () => {
+  test('lays slices out over the remaining axes', () => {
+    expect(sliceAxes(0)).toEqual([1, 2]);
+    expect(sliceAxes(1)).toEqual([0, 2]);
+    expect(sliceAxes(2)).toEqual([0, 1]);
+    expect(() => sliceAxes(3)).toThrow(/Invalid slice axis 3/);
+  });
+
+  test('maps slice cells back to grid positions', () => {
+    expect(sliceCell({ axis: 0, index: 4 }, 1, 2)).toEqual([4, 1, 2]);
+    expect(sliceCell({ axis: 1, index: 4 }, 1, 2)).toEqual([1, 4, 2]);
+    expect(sliceCell({ axis: 2, index: 4 }, 1, 2)).toEqual([1, 2, 4]);
+  });
+
+  test('extracts the cells of a slice', () => {
+    const grid = new FlatGrid3D(4, 3, 2);
+    grid.set(3, 1, 0, 1);
+    grid.set(3, 2, 1, 2);
+    grid.set(0, 1, 0, 1);
+
+    const slice = extractSlice(grid, { axis: 0, index: 3 });
+    expect(slice).toMatchObject({ columns: 3, rows: 2 });
+    expect(Array.from(slice.data)).toEqual([0, 1, 0, 0, 0, 2]);
+
+    const zSlice = extractSlice(grid, { axis: 2, index: 0 });
+    expect(zSlice).toMatchObject({ columns: 4, rows: 3 });
+    expect(zSlice.data[1 * 4 + 3]).toBe(1);
+    expect(zSlice.data[1 * 4 + 0]).toBe(1);
+    expect(zSlice.data.reduce((sum, value) => sum + value, 0)).toBe(2);
+  });
+
+  test('rejects slices outside the grid', () => {
+    expect(() => extractSlice(new FlatGrid3D(4, 3, 2), { axis: 2, index: 2 })).toThrow(/Slice 2 is outside the grid, which has 2 layers/);
+  });
+});
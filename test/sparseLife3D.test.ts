@@ -0,0 +1,200 @@
+/**
+ * Tests for the sparse engine and its unbounded worlds
+ */
+
+import { FlatGrid3D, type GridDimensions, type Vector3Tuple } from '../lib/flatGrid';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import { measureGrid } from '../lib/generationStats';
+import type { Neighborhood } from '../lib/neighborhood';
+import { createPatternGrid, findLibraryPattern, patternExtent } from '../lib/patternLibrary';
+import { parseRule } from '../lib/rules';
+import {
+  SparseGameOfLife3D,
+  SparseGrid3D,
+  WORLD_LIMIT,
+  followLiveRegion,
+  measureWorld,
+  packCell,
+  unpackCell
+} from '../lib/sparseLife3D';
+
+/** Non-empty cells as sorted "x,y,z:state" keys */
+function cellsOf(world: SparseGrid3D): string[] {
+  const cells: string[] = [];
+  world.forEach((state, x, y, z) => cells.push(`${x},${y},${z}:${state}`));
+  return cells.sort();
+}
+
+/** A random soup in the middle of a dense grid, far enough from its faces for a few steps */
+function soup(size: number, density: number, seed: number): FlatGrid3D {
+  const inner = new GameOfLife3D({ gridSize: 6 }).createRandomFlatGrid(density, seed);
+  const grid = new FlatGrid3D(size);
+  const start = (size - 6) / 2;
+  for (let x = 0; x < 6; x++) {
+    for (let y = 0; y < 6; y++) {
+      for (let z = 0; z < 6; z++) {
+        grid.set(x + start, y + start, z + start, inner.get(x, y, z));
+      }
+    }
+  }
+  return grid;
+}
+
+describe('sparseLife3D', () => {
+  test('packs positions into keys and back', () => {
+    const positions: Vector3Tuple[] = [[0, 0, 0], [-1, 2, -3], [WORLD_LIMIT, -WORLD_LIMIT, 17]];
+    positions.forEach(position => expect(unpackCell(packCell(...position))).toEqual(position));
+    expect(packCell(1, 0, 0)).not.toBe(packCell(0, 1, 0));
+  });
+
+  describe('SparseGrid3D', () => {
+    test('stores only non-empty cells, anywhere in the world', () => {
+      const world = new SparseGrid3D();
+      world.set(-500, 3, 9000, 1);
+      world.set(2, 2, 2, 3);
+      world.set(2, 2, 2, 0);
+      world.set(WORLD_LIMIT + 1, 0, 0, 1);
+
+      expect(world.size).toBe(1);
+      expect(world.get(-500, 3, 9000)).toBe(1);
+      expect(world.get(2, 2, 2)).toBe(0);
+      expect(world.get(WORLD_LIMIT + 1, 0, 0)).toBe(0);
+    });
+
+    test('converts to and from dense grids at an origin', () => {
+      const grid = new GameOfLife3D({ gridSize: [4, 3, 5] }).createRandomFlatGrid(0.4, 2);
+      const world = SparseGrid3D.fromFlatGrid(grid, [-10, 20, 3]);
+
+      expect(world.size).toBe(measureGrid(grid).population);
+      expect(world.window([-10, 20, 3], [4, 3, 5]).equals(grid)).toBe(true);
+      // A shifted window sees the cells shifted the other way
+      expect(world.window([-9, 20, 3], [4, 3, 5]).get(0, 0, 0)).toBe(grid.get(1, 0, 0));
+    });
+
+    test('hashes the same cells the same way, whatever order they were set in', () => {
+      const first = new SparseGrid3D();
+      const second = new SparseGrid3D();
+      first.set(1, 2, 3, 1);
+      first.set(-4, 0, 7, 2);
+      second.set(-4, 0, 7, 2);
+      second.set(1, 2, 3, 1);
+
+      expect(first.equals(second)).toBe(true);
+      expect(first.hash()).toBe(second.hash());
+
+      second.set(1, 2, 3, 2);
+      expect(first.equals(second)).toBe(false);
+      expect(first.hash()).not.toBe(second.hash());
+      expect(new SparseGrid3D().hash()).not.toBe(first.hash());
+    });
+
+    test('clones and copies without sharing cells', () => {
+      const world = new SparseGrid3D();
+      world.set(0, 0, 0, 1);
+      const copy = world.clone();
+      copy.set(1, 1, 1, 1);
+
+      expect(world.size).toBe(1);
+      world.copyFrom(copy);
+      expect(world.equals(copy)).toBe(true);
+    });
+  });
+
+  describe('SparseGameOfLife3D', () => {
+    const cases: [string, string, Neighborhood | undefined][] = [
+      ['the default rule', 'B4/S4-5', undefined],
+      ['a Generations rule', 'B4/S4-5/C5', undefined],
+      ['the von Neumann neighborhood', 'B1-2/S1-3', { type: 'vonNeumann', radius: 1 }],
+      ['a radius 2 neighborhood', 'B10-14/S8-18', { type: 'moore', radius: 2 }]
+    ];
+
+    test.each(cases)('matches the dense engine away from the faces with %s', (_name, notation, neighborhood) => {
+      const size = 24;
+      const rule = parseRule(notation);
+      const dense = new GameOfLife3D({ gridSize: size, rule, neighborhood, boundaries: 'dead' });
+      const sparse = new SparseGameOfLife3D({ gridSize: 1, rule, neighborhood });
+      let grid = soup(size, 0.4, 11);
+      const world = SparseGrid3D.fromFlatGrid(grid);
+
+      for (let generation = 0; generation < 4; generation++) {
+        const next = dense.createFlatGrid();
+        const denseStats = dense.stepInto(grid, next);
+        grid = next;
+
+        expect(sparse.advance(world)).toEqual(denseStats);
+        expect(world.window([0, 0, 0], [size, size, size]).equals(grid)).toBe(true);
+        expect(world.size).toBe(grid.data.filter(state => state !== 0).length);
+      }
+    });
+
+    test('gliders travel on without wrapping around', () => {
+      const glider = findLibraryPattern('bays-glider');
+      const extent = patternExtent(glider);
+      const start = SparseGrid3D.fromFlatGrid(createPatternGrid(glider, extent));
+      const engine = new SparseGameOfLife3D({ gridSize: extent, rule: parseRule(glider.rule) });
+      const world = start.clone();
+
+      const periods = 100;
+      let stats = measureWorld(world);
+      for (let generation = 0; generation < periods * glider.period; generation++) {
+        stats = engine.advance(world);
+      }
+
+      const moved = glider.displacement.map(offset => offset * periods) as Vector3Tuple;
+      expect(world.window(moved, extent).equals(createPatternGrid(glider, extent))).toBe(true);
+      expect(world.size).toBe(glider.cells.length);
+      expect(stats.boundingBox!.min).toEqual(moved);
+    });
+
+    test('step leaves its input unchanged', () => {
+      const engine = new SparseGameOfLife3D({ gridSize: 1, rule: parseRule('B4/S4-5') });
+      const world = SparseGrid3D.fromFlatGrid(soup(12, 0.4, 3));
+      const before = world.clone();
+
+      const next = engine.step(world);
+      expect(world.equals(before)).toBe(true);
+      expect(next.equals(before)).toBe(false);
+      expect(() => engine.stepInto(world, world)).toThrow('stepInto needs two distinct worlds');
+    });
+
+    test('drops cells born beyond the edge of the world', () => {
+      const engine = new SparseGameOfLife3D({ gridSize: 1, rule: parseRule('B1/S') });
+      const world = new SparseGrid3D();
+      world.set(WORLD_LIMIT, 0, 0, 1);
+
+      const stats = engine.advance(world);
+      // The 9 neighbors past the limit are not born
+      expect(stats.births).toBe(17);
+      expect(world.get(WORLD_LIMIT, 1, 1)).toBe(1);
+      expect(world.get(WORLD_LIMIT + 1, 0, 0)).toBe(0);
+    });
+
+    test('refuses rules with birth on 0 neighbors', () => {
+      expect(() => new SparseGameOfLife3D({ gridSize: 1, rule: parseRule('B0/S') }))
+        .toThrow('B0/S has birth on 0 neighbors, which would fill an unbounded world');
+
+      const engine = new SparseGameOfLife3D({ gridSize: 1, rule: parseRule('B4/S4-5') });
+      expect(() => engine.updateConfig({ rule: parseRule('B0,4/S4') })).toThrow(/birth on 0 neighbors/);
+      expect(engine.getRule()).toEqual(parseRule('B4/S4-5'));
+
+      engine.updateConfig({ rule: parseRule('B5/S4-5') });
+      expect(engine.getRule()).toEqual(parseRule('B5/S4-5'));
+    });
+  });
+
+  describe('followLiveRegion', () => {
+    const size: GridDimensions = [12, 12, 12];
+
+    test('holds still while the live cells are clear of the faces', () => {
+      expect(followLiveRegion([0, 0, 0], size, { min: [3, 2, 4], max: [8, 9, 6] })).toEqual([0, 0, 0]);
+      expect(followLiveRegion([5, 5, 5], size, null)).toEqual([5, 5, 5]);
+    });
+
+    test('recenters on the live cells along axes where they near a face', () => {
+      // x is within 2 cells (a sixth of 12) of the far face
+      expect(followLiveRegion([0, 0, 0], size, { min: [8, 4, 4], max: [10, 6, 6] })).toEqual([4, 0, 0]);
+      // Cells larger than the view are centered
+      expect(followLiveRegion([0, 0, 0], size, { min: [-20, 4, 4], max: [21, 6, 6] })).toEqual([-5, 0, 0]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for greedy surface meshing
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { GameOfLife3D } from '../lib/gameOfLife3D';
+import { buildSurfaceMesh, type SurfaceMesh } from '../lib/surfaceMesh';
+
+function vertex(mesh: SurfaceMesh, index: number): number[] {
+  return Array.from(mesh.positions.subarray(index * 3, index * 3 + 3));
+}
+
+/** Area of each quad */
+function quadAreas(mesh: SurfaceMesh): number[] {
+  const areas: number[] = [];
+  for (let quad = 0; quad < mesh.quads; quad++) {
+    const [a, b, , d] = [0, 1, 2, 3].map(corner => vertex(mesh, quad * 4 + corner));
+    const side = (p: number[], q: number[]) => Math.hypot(q[0] - p[0], q[1] - p[1], q[2] - p[2]);
+    areas.push(side(a, b) * side(a, d));
+  }
+  return areas;
+}
+
+/** Faces between a live cell and an empty cell or the outside, counted one by one */
+function exposedFaces(grid: FlatGrid3D): number {
+  const filled = (x: number, y: number, z: number) =>
+    x >= 0 && y >= 0 && z >= 0 && x < grid.width && y < grid.height && z < grid.depth && grid.get(x, y, z) !== 0;
+  let faces = 0;
+  for (let x = 0; x < grid.width; x++) {
+    for (let y = 0; y < grid.height; y++) {
+      for (let z = 0; z < grid.depth; z++) {
+        if (!filled(x, y, z)) continue;
+        [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]].forEach(([dx, dy, dz]) => {
+          if (!filled(x + dx, y + dy, z + dz)) faces++;
+        });
+      }
+    }
+  }
+  return faces;
+}
+
+describe('surfaceMesh', () => {
+  test('a single cell is a cube of six quads', () => {
+    const grid = new FlatGrid3D(3);
+    grid.set(1, 1, 1, 1);
+    const mesh = buildSurfaceMesh(grid);
+
+    expect(mesh.quads).toBe(6);
+    expect(mesh.positions.length).toBe(6 * 4 * 3);
+    expect(mesh.indices.length).toBe(6 * 6);
+    for (let i = 0; i < mesh.positions.length; i++) {
+      expect([1, 2]).toContain(mesh.positions[i]);
+    }
+  });
+
+  test('merges the faces of a solid block into one quad per side', () => {
+    const grid = new FlatGrid3D(6, 5, 4);
+    for (let x = 1; x < 5; x++) for (let y = 0; y < 5; y++) for (let z = 1; z < 3; z++) grid.set(x, y, z, 1);
+    const mesh = buildSurfaceMesh(grid);
+
+    expect(mesh.quads).toBe(6);
+    expect(quadAreas(mesh).sort((a, b) => a - b)).toEqual([8, 8, 10, 10, 20, 20]);
+  });
+
+  test('a hollow cube has inner walls too', () => {
+    const grid = new FlatGrid3D(3);
+    grid.data.fill(1);
+    grid.set(1, 1, 1, 0);
+    expect(buildSurfaceMesh(grid).quads).toBe(12);
+  });
+
+  test('does not merge faces of cells in different states', () => {
+    const grid = new FlatGrid3D(2, 1, 1);
+    grid.set(0, 0, 0, 1);
+    grid.set(1, 0, 0, 2);
+    const mesh = buildSurfaceMesh(grid, { color: state => [state / 2, 0, 0] });
+
+    // Two ends, and two quads on each of the four long sides
+    expect(mesh.quads).toBe(10);
+    const reds = new Set(Array.from({ length: mesh.quads * 4 }, (_value, i) => mesh.colors[i * 3]));
+    expect(Array.from(reds).sort()).toEqual([0.5, 1]);
+  });
+
+  test('merges and colors by the given values instead of the states', () => {
+    const grid = new FlatGrid3D(2, 1, 1);
+    grid.set(0, 0, 0, 1);
+    grid.set(1, 0, 0, 2);
+    expect(buildSurfaceMesh(grid, { values: new Uint8Array([5, 5]) }).quads).toBe(6);
+
+    const mesh = buildSurfaceMesh(grid, { values: new Uint8Array([3, 4]), color: value => [value / 4, 0, 0] });
+    expect(mesh.quads).toBe(10);
+    expect(new Set(Array.from(mesh.colors).filter((_value, i) => i % 3 === 0))).toEqual(new Set([0.75, 1]));
+  });
+
+  test('covers exactly the exposed faces, with normals pointing out of the cells and winding to match', () => {
+    const grid = new GameOfLife3D({ gridSize: [9, 7, 8] }).createRandomFlatGrid(0.4, 5);
+    const mesh = buildSurfaceMesh(grid);
+    expect(quadAreas(mesh).reduce((sum, area) => sum + area, 0)).toBe(exposedFaces(grid));
+
+    const filled = (point: number[]) => {
+      const [x, y, z] = point.map(Math.floor);
+      return x >= 0 && y >= 0 && z >= 0 && x < grid.width && y < grid.height && z < grid.depth && grid.get(x, y, z) !== 0;
+    };
+    for (let quad = 0; quad < mesh.quads; quad++) {
+      const [a, b, c] = [0, 1, 2].map(corner => vertex(mesh, quad * 4 + corner));
+      const normal = Array.from(mesh.normals.subarray(quad * 12, quad * 12 + 3));
+      // Just off the middle of the first triangle, inside and outside
+      const center = [0, 1, 2].map(axis => (a[axis] + b[axis] + c[axis]) / 3);
+      expect(filled(center.map((value, axis) => value - 0.5 * normal[axis]))).toBe(true);
+      expect(filled(center.map((value, axis) => value + 0.5 * normal[axis]))).toBe(false);
+
+      // Counter-clockwise seen from outside: (b - a) × (c - a) points along the normal
+      const ab = [0, 1, 2].map(axis => b[axis] - a[axis]);
+      const ac = [0, 1, 2].map(axis => c[axis] - a[axis]);
+      const cross = [ab[1] * ac[2] - ab[2] * ac[1], ab[2] * ac[0] - ab[0] * ac[2], ab[0] * ac[1] - ab[1] * ac[0]];
+      expect(cross[0] * normal[0] + cross[1] * normal[1] + cross[2] * normal[2]).toBeGreaterThan(0);
+    }
+  });
+
+  test('meshes only the cells on a plane when given one', () => {
+    const grid = new FlatGrid3D(4);
+    grid.data.fill(1);
+    const mesh = buildSurfaceMesh(grid, { plane: { axis: 1, index: 2 } });
+
+    expect(mesh.quads).toBe(6);
+    expect(quadAreas(mesh).sort((a, b) => a - b)).toEqual([4, 4, 4, 4, 16, 16]);
+    expect(buildSurfaceMesh(new FlatGrid3D(4)).quads).toBe(0);
+  });
+});
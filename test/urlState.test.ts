@@ -0,0 +1,94 @@
+/**
+ * Tests for shareable URL state
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { GameOfLife3D, type GameOfLife3DConfig } from '../lib/gameOfLife3D';
+import { createSeededRandom } from '../lib/random';
+import { parseRule } from '../lib/rules';
+import { decodeUrlState, encodeUrlState } from '../lib/urlState';
+
+const config: GameOfLife3DConfig = {
+  gridSize: [20, 20, 8],
+  rule: parseRule('B4/S4-5/C5'),
+  neighborhood: { type: 'vonNeumann', radius: 2 },
+  boundaries: ['periodic', 'periodic', 'mirror']
+};
+
+describe('urlState', () => {
+  test('round-trips settings, density and seed', () => {
+    const hash = encodeUrlState({ config, density: 0.08, seed: 123456789 });
+    const state = decodeUrlState(`#${hash}`);
+
+    expect(hash).toMatch(/^1\.[A-Za-z0-9_-]+$/);
+    expect(state.config).toEqual({ ...config, gridSize: [20, 20, 8] });
+    expect(state.density).toBe(0.08);
+    expect(state.seed).toBe(123456789);
+    expect(state.cells).toBeUndefined();
+  });
+
+  test('round-trips start cells compactly', () => {
+    const cells = new FlatGrid3D(20, 20, 8);
+    cells.set(1, 2, 3, 1);
+    cells.set(19, 19, 7, 4);
+
+    const hash = encodeUrlState({ config, density: 0.1, seed: 1, cells });
+    const state = decodeUrlState(hash);
+
+    expect(state.cells!.equals(cells)).toBe(true);
+    expect(hash.length).toBeLessThan(200);
+  });
+
+  test('reproduces the same run', () => {
+    const state = decodeUrlState(encodeUrlState({ config, density: 0.2, seed: 42 }));
+    const game = new GameOfLife3D(state.config);
+    const first = game.createRandomFlatGrid(state.density, createSeededRandom(state.seed));
+    const second = game.createRandomFlatGrid(state.density, createSeededRandom(state.seed));
+
+    expect(first.equals(second)).toBe(true);
+    expect(game.step(first).equals(game.step(second))).toBe(true);
+  });
+
+  test('round-trips the seed generator, leaving uniform out', () => {
+    const state = decodeUrlState(encodeUrlState({ config, density: 0.1, seed: 7, generator: { type: 'mirror', axes: [true, false, true] } }));
+    expect(state.generator).toEqual({ type: 'mirror', axes: [true, false, true] });
+
+    const uniform = encodeUrlState({ config, density: 0.1, seed: 7, generator: { type: 'uniform' } });
+    expect(uniform).toBe(encodeUrlState({ config, density: 0.1, seed: 7 }));
+    expect(decodeUrlState(uniform).generator).toBeUndefined();
+  });
+
+  test('round-trips the sparse engine, leaving dense out', () => {
+    expect(decodeUrlState(encodeUrlState({ config, density: 0.1, seed: 7, engine: 'sparse' })).engine).toBe('sparse');
+
+    const dense = encodeUrlState({ config, density: 0.1, seed: 7, engine: 'dense' });
+    expect(dense).toBe(encodeUrlState({ config, density: 0.1, seed: 7 }));
+    expect(decodeUrlState(dense).engine).toBeUndefined();
+  });
+
+  test('rejects unknown and damaged hashes', () => {
+    expect(() => decodeUrlState('#section-2')).toThrow(/Invalid link: expected a hash/);
+    expect(() => decodeUrlState('#9.abc')).toThrow(/version 9 is not supported/);
+    expect(() => decodeUrlState('#1.AAAA')).toThrow(/damaged or incomplete/);
+  });
+
+  test('validates the decoded settings', () => {
+    const bad = encodeUrlState({ config, density: 0.1, seed: -1 });
+    expect(() => decodeUrlState(bad)).toThrow(/seed must be a 32-bit whole number/);
+
+    const cells = new FlatGrid3D(20, 20, 8);
+    cells.set(0, 0, 0, 3);
+    const badCells = encodeUrlState({ config: { ...config, rule: parseRule('B4/S4') }, density: 0.1, seed: 1, cells });
+    expect(() => decodeUrlState(badCells)).toThrow(/state 3, but the rule only has 2 states/);
+
+    const badRule = encodeUrlState({ config: { ...config, neighborhood: { type: 'moore', radius: 9 } }, density: 0.1, seed: 1 });
+    expect(() => decodeUrlState(badRule)).toThrow(/Invalid link: "rule": Invalid neighborhood radius 9/);
+
+    const badGenerator = encodeUrlState({ config, density: 0.1, seed: 1, generator: { type: 'box', size: 2 } });
+    expect(() => decodeUrlState(badGenerator)).toThrow(/Invalid link: seed generator: size must be/);
+
+    // Links are untrusted, so a few bytes must not ask for a huge grid
+    const huge = encodeUrlState({ config: { ...config, gridSize: [700, 1, 1] }, density: 0.1, seed: 1 });
+    expect(() => decodeUrlState(huge)).toThrow(/Invalid link: "dimensions": sides can be at most 100/);
+  });
+});
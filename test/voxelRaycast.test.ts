@@ -0,0 +1,65 @@
+/**
+ * Tests for picking cells along a ray
+ */
+
+import { FlatGrid3D } from '../lib/flatGrid';
+import { pickCell } from '../lib/voxelRaycast';
+
+describe('pickCell', () => {
+  let grid: FlatGrid3D;
+
+  beforeEach(() => {
+    grid = new FlatGrid3D(5);
+  });
+
+  test('finds the first non-empty cell along the ray', () => {
+    grid.set(3, 2, 2, 1);
+    grid.set(1, 2, 2, 2);
+
+    expect(pickCell(grid, [-10, 2.5, 2.5], [1, 0, 0])).toEqual({ cell: [1, 2, 2], state: 2 });
+    expect(pickCell(grid, [10, 2.5, 2.5], [-1, 0, 0])).toEqual({ cell: [3, 2, 2], state: 1 });
+  });
+
+  test('walks diagonal rays cell by cell', () => {
+    grid.set(4, 4, 4, 1);
+    expect(pickCell(grid, [-1, -1, -1], [1, 1, 1])).toEqual({ cell: [4, 4, 4], state: 1 });
+
+    grid.set(2, 3, 0, 1);
+    expect(pickCell(grid, [0.5, 5.5, 0.5], [0.5, -0.6, 0])).toEqual({ cell: [2, 3, 0], state: 1 });
+  });
+
+  test('stops at the slice plane when nothing is in front of it', () => {
+    expect(pickCell(grid, [2.5, 10, 2.5], [0, -1, 0], { axis: 1, index: 2 })).toEqual({ cell: [2, 2, 2], state: 0 });
+
+    grid.set(2, 3, 2, 1);
+    expect(pickCell(grid, [2.5, 10, 2.5], [0, -1, 0], { axis: 1, index: 2 })).toEqual({ cell: [2, 3, 2], state: 1 });
+  });
+
+  test('can pass over cells off the slice plane', () => {
+    grid.set(2, 3, 2, 1);
+    grid.set(2, 2, 2, 2);
+    expect(pickCell(grid, [2.5, 10, 2.5], [0, -1, 0], { axis: 1, index: 2 }, true)).toEqual({ cell: [2, 2, 2], state: 2 });
+    expect(pickCell(grid, [2.5, 10, 2.5], [0, -1, 0], { axis: 1, index: 1 }, true)).toEqual({ cell: [2, 1, 2], state: 0 });
+  });
+
+  test('starts inside the grid when the origin is inside', () => {
+    grid.set(2, 2, 0, 1);
+    grid.set(2, 2, 4, 1);
+    expect(pickCell(grid, [2.5, 2.5, 2.5], [0, 0, 1])).toEqual({ cell: [2, 2, 4], state: 1 });
+  });
+
+  test('returns null for rays that miss or find nothing', () => {
+    grid.set(2, 2, 2, 1);
+    expect(pickCell(grid, [-1, 7, 2.5], [1, 0, 0])).toBeNull();
+    expect(pickCell(grid, [-1, 2.5, 2.5], [-1, 0, 0])).toBeNull();
+    expect(pickCell(grid, [-1, 0.5, 0.5], [1, 0, 0], { axis: 2, index: 3 })).toBeNull();
+    expect(pickCell(grid, [2.5, 2.5, 2.5], [0, 0, 0])).toBeNull();
+  });
+
+  test('supports non-cubic grids', () => {
+    const slab = new FlatGrid3D(6, 3, 2);
+    slab.set(5, 0, 1, 1);
+    expect(pickCell(slab, [5.5, 0.5, -3], [0, 0, 1])).toEqual({ cell: [5, 0, 1], state: 1 });
+    expect(pickCell(slab, [5.5, 10, 0.5], [0, -1, 0], { axis: 1, index: 1 })).toEqual({ cell: [5, 1, 0], state: 0 });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for the WebM muxer
+ */
+
+import { WebmMuxer } from '../lib/webmMuxer';
+
+interface Element {
+  id: number;
+  data: Uint8Array;
+}
+
+/** Reads a variable-length integer; IDs keep their length marker, sizes drop it */
+function readVint(bytes: Uint8Array, at: number, keepMarker: boolean): { value: number; length: number } {
+  let length = 1;
+  while (!(bytes[at] & (0x100 >> length))) length++;
+  let value = keepMarker ? bytes[at] : bytes[at] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[at + i];
+  return { value, length };
+}
+
+/** The elements directly inside a body */
+function children(bytes: Uint8Array): Element[] {
+  const elements: Element[] = [];
+  let at = 0;
+  while (at < bytes.length) {
+    const id = readVint(bytes, at, true);
+    const size = readVint(bytes, at + id.length, false);
+    const start = at + id.length + size.length;
+    elements.push({ id: id.value, data: bytes.subarray(start, start + size.value) });
+    at = start + size.value;
+  }
+  expect(at).toBe(bytes.length);
+  return elements;
+}
+
+function child(bytes: Uint8Array, id: number): Uint8Array {
+  const found = children(bytes).find(element => element.id === id);
+  if (!found) throw new Error(`No element 0x${id.toString(16)}`);
+  return found.data;
+}
+
+function uint(bytes: Uint8Array): number {
+  return Array.from(bytes).reduce((value, byte) => value * 256 + byte, 0);
+}
+
+function text(bytes: Uint8Array): string {
+  return String.fromCharCode(...Array.from(bytes));
+}
+
+describe('webmMuxer', () => {
+  test('writes a WebM header, track and clusters of frames', () => {
+    const muxer = new WebmMuxer({ width: 320, height: 240, codec: 'V_VP8' });
+    // A keyframe every third frame at 10 fps, with timestamps in microseconds
+    for (let frame = 0; frame < 7; frame++) {
+      muxer.addFrame(new Uint8Array([frame, frame, frame]), frame * 100000, frame % 3 === 0, 100000);
+    }
+    expect(muxer.frameCount).toBe(7);
+
+    const top = children(muxer.finish());
+    expect(top.map(element => element.id)).toEqual([0x1a45dfa3, 0x18538067]);
+    expect(text(child(top[0].data, 0x4282))).toBe('webm');
+
+    const segment = top[1].data;
+    const info = child(segment, 0x1549a966);
+    expect(uint(child(info, 0x2ad7b1))).toBe(1000000);
+    expect(new DataView(child(info, 0x4489).slice().buffer).getFloat64(0)).toBe(700);
+
+    const track = child(child(segment, 0x1654ae6b), 0xae);
+    expect(text(child(track, 0x86))).toBe('V_VP8');
+    const video = child(track, 0xe0);
+    expect([uint(child(video, 0xb0)), uint(child(video, 0xba))]).toEqual([320, 240]);
+
+    const clusters = children(segment).filter(element => element.id === 0x1f43b675);
+    expect(clusters.map(cluster => uint(child(cluster.data, 0xe7)))).toEqual([0, 300, 600]);
+
+    const blocks = children(clusters[1].data).filter(element => element.id === 0xa3);
+    // Track 1, the offset from the cluster's time, flags, then the frame
+    expect(blocks.map(block => Array.from(block.data))).toEqual([
+      [0x81, 0, 0, 0x80, 3, 3, 3],
+      [0x81, 0, 100, 0, 4, 4, 4],
+      [0x81, 0, 200, 0, 5, 5, 5]
+    ]);
+  });
+
+  test('starts a new cluster when frames are too far from its start', () => {
+    const muxer = new WebmMuxer({ width: 16, height: 16, codec: 'V_VP9' });
+    muxer.addFrame(new Uint8Array(1), 0, true);
+    muxer.addFrame(new Uint8Array(1), 40000000, false);
+
+    const segment = children(muxer.finish())[1].data;
+    const clusters = children(segment).filter(element => element.id === 0x1f43b675);
+    expect(clusters.map(cluster => uint(child(cluster.data, 0xe7)))).toEqual([0, 40000]);
+  });
+
+  test('encodes lengths too long for one byte', () => {
+    const muxer = new WebmMuxer({ width: 16, height: 16, codec: 'V_VP8' });
+    const frame = new Uint8Array(70000).map((_value, i) => i % 251);
+    muxer.addFrame(frame, 0, true);
+
+    const segment = children(muxer.finish())[1].data;
+    const cluster = children(segment).find(element => element.id === 0x1f43b675)!;
+    expect(child(cluster.data, 0xa3).subarray(4)).toEqual(frame);
+  });
+
+  test('rejects frames out of order and a video that does not start with a keyframe', () => {
+    const muxer = new WebmMuxer({ width: 16, height: 16, codec: 'V_VP8' });
+    expect(() => muxer.addFrame(new Uint8Array(1), 0, false)).toThrow('The first frame of a video must be a keyframe');
+
+    muxer.addFrame(new Uint8Array(1), 50000, true);
+    expect(() => muxer.addFrame(new Uint8Array(1), 10000, false))
+      .toThrow('Frame at 10ms comes before the previous frame at 50ms');
+    expect(() => new WebmMuxer({ width: 0, height: 16, codec: 'V_VP8' })).toThrow('Invalid video size 0×16');
+  });
+});